@@ -16,6 +16,7 @@ import {
   Clapperboard,
   X,
   Sliders,
+  Download,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
@@ -26,14 +27,18 @@ import {
   DirectorConfig,
 } from "@/lib/googleAI";
 import { generateVideoFromFrame } from "@/lib/videoGeneration";
+import { AspectRatio, DEFAULT_ASPECT_RATIO } from "@/lib/aspectRatio";
+import { ShotMetadata, shotListToCsv } from "@/lib/shotMetadata";
+import { FrameStatus, getFrameStatusOption, isPolishedStatus } from "@/lib/frameStatus";
 import { supabase } from "@/lib/supabase";
 
 interface Frame {
   id: string;
   title?: string;
-  status: "sketch" | "polished";
+  status: FrameStatus;
   durationMs?: number;
   motionNotes?: string;
+  shot?: ShotMetadata;
   thumbnail?: string;
   polishedDataUrl?: string;
   sketchDataUrl?: string;
@@ -41,7 +46,11 @@ interface Frame {
 
 interface AIPanelProps {
   selectedFrames: string[];
+  // Frames of the active cut, in playback order
   frames: Frame[];
+  cuts?: Array<{ id: string; name: string }>;
+  activeCutId?: string | null;
+  onCutChange?: (cutId: string | null) => void;
   onPolish: () => void;
   onAnimate: () => void;
   isPolishing?: boolean;
@@ -51,6 +60,8 @@ interface AIPanelProps {
   onDurationChange?: (frameId: string, durationMs: number) => void;
   onSelectFrame?: (frameId: string) => void;
   onPreview?: () => void;
+  // Board shape; the video is generated in it
+  aspectRatio?: AspectRatio;
 }
 
 type VideoStyle = "Cinematic" | "Animated" | "Realistic" | "Stylized";
@@ -238,10 +249,14 @@ function buildDirectorGuidance(frames: Frame[], settings: CreativeDirectorSettin
 export function AIPanel({
   selectedFrames,
   frames,
+  cuts = [],
+  activeCutId = null,
+  onCutChange,
   onAnimate,
   onDurationChange,
   onSelectFrame,
   onPreview,
+  aspectRatio = DEFAULT_ASPECT_RATIO,
 }: AIPanelProps) {
   const navigate = useNavigate();
   const { boardId } = useParams();
@@ -317,7 +332,7 @@ export function AIPanel({
   }, []);
 
   const polishedCount = useMemo(
-    () => frames.filter((f) => f.status === "polished").length,
+    () => frames.filter((f) => isPolishedStatus(f.status)).length,
     [frames]
   );
   const totalFrames = frames.length;
@@ -334,7 +349,7 @@ export function AIPanel({
 
   const frameImageStats = useMemo(() => {
     const missingImage = frames.filter((f) => !getFrameImageUrl(f)).length;
-    const unpolished = frames.filter((f) => f.status !== "polished").length;
+    const unpolished = frames.filter((f) => !isPolishedStatus(f.status)).length;
     return { missingImage, unpolished };
   }, [frames]);
 
@@ -386,6 +401,7 @@ export function AIPanel({
       imageUrl: getFrameImageUrl(f) || "",
       durationMs: f.durationMs || 2000,
       motionNotes: f.motionNotes,
+      shot: f.shot,
       order: index,
     })).filter((f) => !!f.imageUrl);
   };
@@ -455,6 +471,22 @@ export function AIPanel({
     }
   };
 
+  // Structured shot list from the frames' shot details (no AI), in playback order
+  const handleExportShotListCsv = () => {
+    const csv = shotListToCsv(frames.map((f, index) => ({
+      title: f.title || `Frame ${index + 1}`,
+      durationMs: f.durationMs || 2000,
+      motionNotes: f.motionNotes,
+      shot: f.shot,
+    })));
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "sketchmotion-shot-list.csv";
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
   const handleRewritePrompt = async () => {
     if (isGeneratingDirectorOutput) return;
 
@@ -626,6 +658,7 @@ export function AIPanel({
           imageUrl: getFrameImageUrl(f) || "",
           durationMs: f.durationMs || 2000,
           motionNotes: f.motionNotes,
+          shot: f.shot,
           order: index,
         }))
         .filter((f) => !!f.imageUrl);
@@ -669,7 +702,8 @@ export function AIPanel({
           const scaled = 40 + clamp(progress, 0, 100) * 0.6;
           setProgressSafe(scaled);
           console.log(`[Video Gen] ${status}: ${progress}%`);
-        }
+        },
+        aspectRatio
       );
 
       if (runIdRef.current !== runId || !mountedRef.current) return;
@@ -679,6 +713,7 @@ export function AIPanel({
       safeSetSession("generatedVideoPromptOriginal", basePrompt);
       safeSetSession("generatedVideoPromptDirected", veoPrompt);
       safeSetSession("generatedVideoPrompt", veoPrompt); // Keep for backwards compat
+      safeSetSession("generatedVideoCutId", activeCutId ?? "");
       setGenerationStep("complete");
 
       if (videoResult?.status === "done" && videoResult.videoUrl) {
@@ -797,7 +832,23 @@ export function AIPanel({
         {/* Sequence Strip */}
         <div className="p-4 border-b border-white/10">
           <div className="flex items-center justify-between mb-3">
-            <span className="text-xs font-medium text-white/70">Sequence</span>
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="text-xs font-medium text-white/70">Sequence</span>
+              {cuts.length > 0 && (
+                <select
+                  value={activeCutId ?? ""}
+                  onChange={(e) => onCutChange?.(e.target.value || null)}
+                  disabled={isGenerating}
+                  title="Cut to preview and generate"
+                  className="min-w-0 max-w-[7rem] truncate bg-white/5 border border-white/10 rounded-md px-1.5 py-0.5 text-[10px] text-white/80 focus:outline-none focus:border-purple-500/50 cursor-pointer"
+                >
+                  <option value="" className="bg-[#1a1a2e]">Main cut</option>
+                  {cuts.map((cut) => (
+                    <option key={cut.id} value={cut.id} className="bg-[#1a1a2e]">{cut.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
             <div className="flex items-center gap-2">
               <button
                 onClick={onPreview}
@@ -838,7 +889,7 @@ export function AIPanel({
                     <div
                       className={cn(
                         "absolute bottom-0.5 left-1/2 -translate-x-1/2 w-1.5 h-1.5 rounded-full",
-                        frame.status === "polished" ? "bg-emerald-400" : "bg-white/20"
+                        isPolishedStatus(frame.status) ? "bg-emerald-400" : "bg-white/20"
                       )}
                     />
                   </button>
@@ -1114,6 +1165,15 @@ export function AIPanel({
                       Generate Shot List
                     </button>
 
+                    <button
+                      onClick={handleExportShotListCsv}
+                      disabled={totalFrames === 0}
+                      className="w-full py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] text-white/70 transition-all disabled:opacity-30 disabled:cursor-not-allowed flex items-center justify-center gap-1.5"
+                    >
+                      <Download className="w-3 h-3" />
+                      Export Shot List (CSV)
+                    </button>
+
                     <button
                       onClick={handleRewritePrompt}
                       disabled={totalFrames === 0 || isGeneratingDirectorOutput}
@@ -1544,12 +1604,10 @@ export function AIPanel({
                 <span
                   className={cn(
                     "text-[10px] px-2 py-0.5 rounded-full",
-                    selectedFrame.status === "polished"
-                      ? "bg-emerald-500/10 text-emerald-400"
-                      : "bg-white/5 text-white/40"
+                    getFrameStatusOption(selectedFrame.status).className
                   )}
                 >
-                  {selectedFrame.status === "polished" ? "Ready" : "Draft"}
+                  {getFrameStatusOption(selectedFrame.status).label}
                 </span>
               </div>
 
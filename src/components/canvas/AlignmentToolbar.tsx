@@ -0,0 +1,88 @@
+import { motion } from "framer-motion";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AlignMode, DistributeAxis } from "@/lib/alignment";
+
+interface AlignmentToolbarProps {
+  selectionCount: number;
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+}
+
+const ALIGN_ACTIONS: Array<{ mode: AlignMode; label: string; icon: typeof AlignStartVertical }> = [
+  { mode: "left", label: "Align left", icon: AlignStartVertical },
+  { mode: "center", label: "Align center", icon: AlignCenterVertical },
+  { mode: "right", label: "Align right", icon: AlignEndVertical },
+  { mode: "top", label: "Align top", icon: AlignStartHorizontal },
+  { mode: "middle", label: "Align middle", icon: AlignCenterHorizontal },
+  { mode: "bottom", label: "Align bottom", icon: AlignEndHorizontal },
+];
+
+const DISTRIBUTE_ACTIONS: Array<{ axis: DistributeAxis; label: string; icon: typeof AlignStartVertical }> = [
+  { axis: "horizontal", label: "Distribute horizontally", icon: AlignHorizontalDistributeCenter },
+  { axis: "vertical", label: "Distribute vertically", icon: AlignVerticalDistributeCenter },
+];
+
+export function AlignmentToolbar({ selectionCount, onAlign, onDistribute }: AlignmentToolbarProps) {
+  // Distributing needs at least one frame between the outermost two
+  const canDistribute = selectionCount >= 3;
+
+  return (
+    <TooltipProvider delayDuration={200}>
+      <div className="fixed top-20 inset-x-0 z-40 flex justify-center pointer-events-none">
+        <motion.div
+          initial={{ opacity: 0, y: -8 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -8 }}
+          className="pointer-events-auto flex items-center gap-1 p-1.5 rounded-xl bg-[#1a1a2e]/80 backdrop-blur-md border border-white/10 shadow-lg"
+        >
+          {ALIGN_ACTIONS.map(({ mode, label, icon: Icon }) => (
+            <Tooltip key={mode}>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={() => onAlign(mode)}
+                  className="w-8 h-8 rounded-lg flex items-center justify-center text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="bottom">{label}</TooltipContent>
+            </Tooltip>
+          ))}
+  
+          <div className="w-px h-5 bg-white/10 mx-1" />
+  
+          {DISTRIBUTE_ACTIONS.map(({ axis, label, icon: Icon }) => (
+            <Tooltip key={axis}>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={() => onDistribute(axis)}
+                  disabled={!canDistribute}
+                  className={cn(
+                    "w-8 h-8 rounded-lg flex items-center justify-center transition-colors",
+                    canDistribute
+                      ? "text-white/60 hover:bg-white/10 hover:text-white"
+                      : "text-white/25 cursor-not-allowed"
+                  )}
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="bottom">{canDistribute ? label : `${label} (select 3+ frames)`}</TooltipContent>
+            </Tooltip>
+          ))}
+        </motion.div>
+      </div>
+    </TooltipProvider>
+  );
+}
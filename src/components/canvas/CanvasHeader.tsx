@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Check, Cloud, Pencil } from "lucide-react";
+import { Check, Cloud, CloudOff, RefreshCw, AlertTriangle, Pencil } from "lucide-react";
 import { usePresence } from "@/hooks/usePresence";
 import { CollaboratorAvatars } from "./CollaboratorAvatars";
 
@@ -9,19 +9,26 @@ interface CanvasHeaderProps {
   boardName: string;
   onBoardNameChange: (name: string) => void;
   boardId?: string;
-  isSaving: boolean;
+  syncStatus: "saved" | "saving" | "offline" | "syncing" | "error";
+  // Changes waiting in the offline outbox
+  pendingChanges: number;
+  onRetrySync?: () => void;
 }
 
 export function CanvasHeader({
   boardName,
   onBoardNameChange,
   boardId,
-  isSaving,
+  syncStatus,
+  pendingChanges,
+  onRetrySync,
 }: CanvasHeaderProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [tempName, setTempName] = useState(boardName);
   const { isConnected } = usePresence(boardId || null);
 
+  const queuedLabel = `${pendingChanges} change${pendingChanges !== 1 ? "s" : ""}`;
+
   const handleSave = () => {
     onBoardNameChange(tempName);
     setIsEditing(false);
@@ -70,19 +77,45 @@ export function CanvasHeader({
         </button>
       )}
 
-      {/* Save Status */}
+      {/* Sync Status */}
       <div className="flex items-center gap-1.5 text-white/50 text-sm">
-        {isSaving ? (
+        {syncStatus === "saving" && (
           <>
             <Cloud className="w-4 h-4 animate-pulse" />
             <span>Saving...</span>
           </>
-        ) : (
+        )}
+        {syncStatus === "saved" && (
           <>
             <Check className="w-4 h-4 text-sm-mint" />
             <span>Saved</span>
           </>
         )}
+        {syncStatus === "offline" && (
+          <span
+            className="flex items-center gap-1.5 text-amber-400"
+            title="Changes are stored on this device and will sync when you're back online"
+          >
+            <CloudOff className="w-4 h-4" />
+            Offline · {queuedLabel} queued
+          </span>
+        )}
+        {syncStatus === "syncing" && (
+          <>
+            <RefreshCw className="w-4 h-4 animate-spin" />
+            <span>Syncing {queuedLabel}...</span>
+          </>
+        )}
+        {syncStatus === "error" && (
+          <button
+            onClick={onRetrySync}
+            className="flex items-center gap-1.5 text-red-400 hover:text-red-300 transition-colors"
+            title="Changes are stored on this device. Click to retry now"
+          >
+            <AlertTriangle className="w-4 h-4" />
+            Sync failed · {queuedLabel} waiting · Retry
+          </button>
+        )}
       </div>
 
       {/* Connection indicator */}
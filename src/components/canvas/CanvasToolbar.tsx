@@ -13,8 +13,36 @@ import {
   Video,
   ShieldCheck,
   Loader2,
+  Undo2,
+  Redo2,
+  Maximize,
+  Focus,
+  Magnet,
+  ArrowRightToLine,
+  ArrowDownToLine,
+  MessageCircle,
+  RectangleHorizontal,
+  RectangleVertical,
+  Square,
+  Check,
 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
+import { AspectRatio, ASPECT_RATIOS } from "@/lib/aspectRatio";
+import { CommandId, shortcutHint } from "@/lib/shortcuts";
+import { useKeymapStore } from "@/stores/keymapStore";
+
+const ASPECT_RATIO_ICONS: Record<AspectRatio, typeof Square> = {
+  "16:9": RectangleHorizontal,
+  "9:16": RectangleVertical,
+  "1:1": Square,
+};
 
 interface CanvasToolbarProps {
   activeTool: string;
@@ -22,8 +50,14 @@ interface CanvasToolbarProps {
   zoom: number;
   onZoomIn: () => void;
   onZoomOut: () => void;
+  onResetZoom?: () => void;
+  onZoomToFit?: () => void;
+  onZoomToSelection?: () => void;
+  hasSelection?: boolean;
   onUndo: () => void;
   onRedo: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
   onAddFrame?: () => void;
   onAutoArrange?: () => void;
   onPreview?: () => void;
@@ -36,6 +70,14 @@ interface CanvasToolbarProps {
   isMotionSuggesting?: boolean;
   isContinuityChecking?: boolean;
   polishedFrameCount?: number;
+  snapToGrid?: boolean;
+  onSnapToGridToggle?: () => void;
+  readingDirection?: "ltr" | "ttb";
+  onReadingDirectionToggle?: () => void;
+  aspectRatio?: AspectRatio;
+  onAspectRatioChange?: (aspectRatio: AspectRatio) => void;
+  // Shows the comment tool
+  canComment?: boolean;
 }
 
 export function CanvasToolbar({
@@ -44,6 +86,14 @@ export function CanvasToolbar({
   zoom,
   onZoomIn,
   onZoomOut,
+  onResetZoom,
+  onZoomToFit,
+  onZoomToSelection,
+  hasSelection = false,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
   onAddFrame,
   onAutoArrange,
   onPreview,
@@ -56,7 +106,19 @@ export function CanvasToolbar({
   isMotionSuggesting = false,
   isContinuityChecking = false,
   polishedFrameCount = 0,
+  snapToGrid = false,
+  onSnapToGridToggle,
+  readingDirection = "ltr",
+  onReadingDirectionToggle,
+  aspectRatio = "16:9",
+  onAspectRatioChange,
+  canComment = false,
 }: CanvasToolbarProps) {
+  const AspectRatioIcon = ASPECT_RATIO_ICONS[aspectRatio];
+  // Tooltips show the user's current bindings
+  const keymap = useKeymapStore(state => state.keymap);
+  const hint = (commandId: CommandId) => shortcutHint(keymap[commandId]);
+
   return (
     <TooltipProvider delayDuration={200}>
       <div className="fixed left-4 top-1/2 -translate-y-1/2 z-40 p-2 rounded-xl bg-[#1a1a2e]/80 backdrop-blur-md border border-white/10 shadow-lg">
@@ -77,7 +139,7 @@ export function CanvasToolbar({
                 <MousePointer2 className="w-5 h-5" />
               </button>
             </TooltipTrigger>
-            <TooltipContent side="right">Select (V)</TooltipContent>
+            <TooltipContent side="right">{`Select${hint("tool.select")}`}</TooltipContent>
           </Tooltip>
 
           {/* Pan */}
@@ -95,7 +157,7 @@ export function CanvasToolbar({
                 <Hand className="w-5 h-5" />
               </button>
             </TooltipTrigger>
-            <TooltipContent side="right">Pan (Space)</TooltipContent>
+            <TooltipContent side="right">{`Pan${hint("tool.pan")}`}</TooltipContent>
           </Tooltip>
 
           {/* Connector */}
@@ -113,9 +175,29 @@ export function CanvasToolbar({
                 <ArrowRight className="w-5 h-5" />
               </button>
             </TooltipTrigger>
-            <TooltipContent side="right">Connect (C)</TooltipContent>
+            <TooltipContent side="right">{`Connect${hint("tool.connector")}`}</TooltipContent>
           </Tooltip>
 
+          {/* Comment */}
+          {canComment && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={() => onToolChange("comment")}
+                  className={cn(
+                    "w-10 h-10 rounded-lg flex items-center justify-center transition-colors",
+                    activeTool === "comment"
+                      ? "bg-gradient-to-br from-pink-500 to-rose-500 text-white"
+                      : "text-white/60 hover:bg-white/10 hover:text-white"
+                  )}
+                >
+                  <MessageCircle className="w-5 h-5" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="right">{`Comment${hint("tool.comment")}`}</TooltipContent>
+            </Tooltip>
+          )}
+
           {/* Divider */}
           <div className="h-px w-full bg-white/10 my-2" />
 
@@ -129,7 +211,7 @@ export function CanvasToolbar({
                 <Plus className="w-5 h-5" />
               </button>
             </TooltipTrigger>
-            <TooltipContent side="right">Add Frame (N)</TooltipContent>
+            <TooltipContent side="right">{`Add Frame${hint("frame.add")}`}</TooltipContent>
           </Tooltip>
 
           {/* Auto-Arrange */}
@@ -148,7 +230,78 @@ export function CanvasToolbar({
                 <LayoutGrid className="w-5 h-5" />
               </button>
             </TooltipTrigger>
-            <TooltipContent side="right">Auto-Arrange</TooltipContent>
+            <TooltipContent side="right">{`Auto-Arrange${hint("board.autoArrange")}`}</TooltipContent>
+          </Tooltip>
+
+          {/* Reading Direction (used by Auto-Arrange) */}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                onClick={onReadingDirectionToggle}
+                disabled={!onReadingDirectionToggle}
+                className="w-10 h-10 rounded-lg flex items-center justify-center transition-colors text-white/60 hover:bg-white/10 hover:text-white disabled:text-white/25 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+              >
+                {readingDirection === "ttb" ? (
+                  <ArrowDownToLine className="w-5 h-5" />
+                ) : (
+                  <ArrowRightToLine className="w-5 h-5" />
+                )}
+              </button>
+            </TooltipTrigger>
+            <TooltipContent side="right">
+              Reading Direction: {readingDirection === "ttb" ? "Top to Bottom" : "Left to Right"}
+            </TooltipContent>
+          </Tooltip>
+
+          {/* Board Aspect Ratio */}
+          <DropdownMenu>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <DropdownMenuTrigger asChild>
+                  <button
+                    disabled={!onAspectRatioChange}
+                    className="w-10 h-10 rounded-lg flex items-center justify-center transition-colors text-white/60 hover:bg-white/10 hover:text-white disabled:text-white/25 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                  >
+                    <AspectRatioIcon className="w-5 h-5" />
+                  </button>
+                </DropdownMenuTrigger>
+              </TooltipTrigger>
+              <TooltipContent side="right">Aspect Ratio: {aspectRatio}</TooltipContent>
+            </Tooltip>
+            <DropdownMenuContent side="right" align="start" className="w-56">
+              <DropdownMenuLabel>Aspect ratio</DropdownMenuLabel>
+              {ASPECT_RATIOS.map(option => {
+                const Icon = ASPECT_RATIO_ICONS[option.value];
+                return (
+                  <DropdownMenuItem key={option.value} onClick={() => onAspectRatioChange?.(option.value)}>
+                    <Icon className="w-4 h-4 mr-2" />
+                    <div className="flex-1">
+                      <p>{option.label} <span className="text-muted-foreground">{option.value}</span></p>
+                      <p className="text-xs text-muted-foreground">{option.description}</p>
+                    </div>
+                    {option.value === aspectRatio && <Check className="w-4 h-4 ml-2" />}
+                  </DropdownMenuItem>
+                );
+              })}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {/* Snap to Grid */}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                onClick={onSnapToGridToggle}
+                className={cn(
+                  "w-10 h-10 rounded-lg flex items-center justify-center transition-colors",
+                  snapToGrid
+                    ? "bg-gradient-to-br from-pink-500 to-rose-500 text-white"
+                    : "text-white/60 hover:bg-white/10 hover:text-white"
+                )}
+              >
+                <Magnet className="w-5 h-5" />
+              </button>
+            </TooltipTrigger>
+            <TooltipContent side="right">{`Snap to Grid${hint("board.toggleSnap")} (hold Alt to bypass)`}</TooltipContent>
           </Tooltip>
 
           {/* Batch Polish */}
@@ -167,7 +320,7 @@ export function CanvasToolbar({
                 <Sparkles className="w-5 h-5" />
               </button>
             </TooltipTrigger>
-            <TooltipContent side="right">Polish All</TooltipContent>
+            <TooltipContent side="right">{`Polish All${hint("ai.polishAll")}`}</TooltipContent>
           </Tooltip>
 
           {/* Divider */}
@@ -188,7 +341,7 @@ export function CanvasToolbar({
                 <Clock className="w-5 h-5" />
               </button>
             </TooltipTrigger>
-            <TooltipContent side="right">Beat Mode</TooltipContent>
+            <TooltipContent side="right">{`Beat Mode${hint("board.toggleBeatMode")}`}</TooltipContent>
           </Tooltip>
 
           {/* Motion Suggest */}
@@ -213,7 +366,7 @@ export function CanvasToolbar({
                 )}
               </button>
             </TooltipTrigger>
-            <TooltipContent side="right">Motion Suggest</TooltipContent>
+            <TooltipContent side="right">{`Motion Suggest${hint("ai.motionSuggest")}`}</TooltipContent>
           </Tooltip>
 
           {/* Continuity Check */}
@@ -238,7 +391,7 @@ export function CanvasToolbar({
                 )}
               </button>
             </TooltipTrigger>
-            <TooltipContent side="right">Continuity Check</TooltipContent>
+            <TooltipContent side="right">{`Continuity Check${hint("ai.continuityCheck")}`}</TooltipContent>
           </Tooltip>
 
           {/* Divider */}
@@ -260,7 +413,48 @@ export function CanvasToolbar({
                 <Play className="w-5 h-5" />
               </button>
             </TooltipTrigger>
-            <TooltipContent side="right">Preview</TooltipContent>
+            <TooltipContent side="right">{`Preview${hint("view.preview")}`}</TooltipContent>
+          </Tooltip>
+
+          {/* Divider */}
+          <div className="h-px w-full bg-white/10 my-2" />
+
+          {/* Undo */}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                onClick={onUndo}
+                disabled={!canUndo}
+                className={cn(
+                  "w-10 h-10 rounded-lg flex items-center justify-center transition-colors",
+                  !canUndo
+                    ? "text-white/25 cursor-not-allowed"
+                    : "text-white/60 hover:bg-white/10 hover:text-white"
+                )}
+              >
+                <Undo2 className="w-5 h-5" />
+              </button>
+            </TooltipTrigger>
+            <TooltipContent side="right">{`Undo${hint("edit.undo")}`}</TooltipContent>
+          </Tooltip>
+
+          {/* Redo */}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                onClick={onRedo}
+                disabled={!canRedo}
+                className={cn(
+                  "w-10 h-10 rounded-lg flex items-center justify-center transition-colors",
+                  !canRedo
+                    ? "text-white/25 cursor-not-allowed"
+                    : "text-white/60 hover:bg-white/10 hover:text-white"
+                )}
+              >
+                <Redo2 className="w-5 h-5" />
+              </button>
+            </TooltipTrigger>
+            <TooltipContent side="right">{`Redo${hint("edit.redo")}`}</TooltipContent>
           </Tooltip>
 
           {/* Divider */}
@@ -276,13 +470,21 @@ export function CanvasToolbar({
                 <ZoomOut className="w-5 h-5" />
               </button>
             </TooltipTrigger>
-            <TooltipContent side="right">Zoom Out</TooltipContent>
+            <TooltipContent side="right">{`Zoom Out${hint("view.zoomOut")}`}</TooltipContent>
           </Tooltip>
 
           {/* Zoom Percentage */}
-          <div className="text-xs font-mono text-white/50">
-            {Math.round(zoom * 100)}%
-          </div>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                onClick={onResetZoom}
+                className="px-1 rounded text-xs font-mono text-white/50 hover:bg-white/10 hover:text-white transition-colors"
+              >
+                {Math.round(zoom * 100)}%
+              </button>
+            </TooltipTrigger>
+            <TooltipContent side="right">{`Reset to 100%${hint("view.resetZoom")}`}</TooltipContent>
+          </Tooltip>
 
           {/* Zoom In */}
           <Tooltip>
@@ -294,7 +496,45 @@ export function CanvasToolbar({
                 <ZoomIn className="w-5 h-5" />
               </button>
             </TooltipTrigger>
-            <TooltipContent side="right">Zoom In</TooltipContent>
+            <TooltipContent side="right">{`Zoom In${hint("view.zoomIn")}`}</TooltipContent>
+          </Tooltip>
+
+          {/* Zoom to Fit */}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                onClick={onZoomToFit}
+                disabled={frameCount < 1}
+                className={cn(
+                  "w-10 h-10 rounded-lg flex items-center justify-center transition-colors",
+                  frameCount < 1
+                    ? "text-white/25 cursor-not-allowed"
+                    : "text-white/60 hover:bg-white/10 hover:text-white"
+                )}
+              >
+                <Maximize className="w-5 h-5" />
+              </button>
+            </TooltipTrigger>
+            <TooltipContent side="right">{`Zoom to Fit${hint("view.zoomToFit")}`}</TooltipContent>
+          </Tooltip>
+
+          {/* Zoom to Selection */}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                onClick={onZoomToSelection}
+                disabled={!hasSelection}
+                className={cn(
+                  "w-10 h-10 rounded-lg flex items-center justify-center transition-colors",
+                  !hasSelection
+                    ? "text-white/25 cursor-not-allowed"
+                    : "text-white/60 hover:bg-white/10 hover:text-white"
+                )}
+              >
+                <Focus className="w-5 h-5" />
+              </button>
+            </TooltipTrigger>
+            <TooltipContent side="right">{`Zoom to Selection${hint("view.zoomToSelection")}`}</TooltipContent>
           </Tooltip>
         </div>
       </div>
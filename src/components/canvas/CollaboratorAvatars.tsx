@@ -78,7 +78,7 @@ export function CollaboratorAvatars({
     await removeCollaborator(id);
   };
 
-  const handleUpdatePublicAccess = async (newAccess: 'none' | 'view' | 'edit') => {
+  const handleUpdatePublicAccess = async (newAccess: 'none' | 'view' | 'comment' | 'edit') => {
     setUpdatingAccess(true);
     const result = await updateSharingSettings({ public_access: newAccess });
     if (result.error) {
@@ -313,12 +313,13 @@ export function CollaboratorAvatars({
                         )}
                         <select
                           value={sharingSettings.public_access}
-                          onChange={(e) => handleUpdatePublicAccess(e.target.value as 'none' | 'view' | 'edit')}
+                          onChange={(e) => handleUpdatePublicAccess(e.target.value as 'none' | 'view' | 'comment' | 'edit')}
                           disabled={updatingAccess}
                           className="flex-1 text-sm text-white/70 bg-[#1a1a2e] outline-none cursor-pointer disabled:opacity-50 [&>option]:bg-[#1a1a2e] [&>option]:text-white/70"
                         >
                           <option value="none">Invite only</option>
                           <option value="view">Anyone with link can view</option>
+                          <option value="comment">Anyone with link can comment</option>
                           <option value="edit">Anyone with link can edit</option>
                         </select>
                         {updatingAccess && (
@@ -0,0 +1,86 @@
+import { Frame as FrameIcon } from "lucide-react";
+import {
+  CommandDialog,
+  CommandInput,
+  CommandList,
+  CommandEmpty,
+  CommandGroup,
+  CommandItem,
+  CommandShortcut,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { COMMANDS, COMMAND_GROUPS, formatBinding } from "@/lib/shortcuts";
+import type { CommandHandlers } from "@/hooks/useKeyboardShortcuts";
+import { useKeymapStore } from "@/stores/keymapStore";
+
+interface PaletteFrame {
+  id: string;
+  title: string;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Only commands with a handler are listed
+  handlers: CommandHandlers;
+  frames: PaletteFrame[];
+  onJumpToFrame: (frameId: string) => void;
+}
+
+/**
+ * Searchable list of every canvas command, plus jump-to-frame by title
+ */
+export function CommandPalette({ open, onOpenChange, handlers, frames, onJumpToFrame }: CommandPaletteProps) {
+  const keymap = useKeymapStore(state => state.keymap);
+
+  const run = (action: () => void) => {
+    onOpenChange(false);
+    action();
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Type a command or frame title..." />
+      <CommandList>
+        <CommandEmpty>No matching commands or frames.</CommandEmpty>
+        {COMMAND_GROUPS.map(group => {
+          const commands = COMMANDS.filter(c => c.group === group && c.id !== "app.commandPalette" && handlers[c.id]);
+          if (commands.length === 0) return null;
+          return (
+            <CommandGroup key={group} heading={group}>
+              {commands.map(command => (
+                <CommandItem
+                  key={command.id}
+                  value={`${command.label} ${command.id}`}
+                  onSelect={() => run(handlers[command.id]!)}
+                >
+                  {command.label}
+                  {keymap[command.id].length > 0 && (
+                    <CommandShortcut>{formatBinding(keymap[command.id][0])}</CommandShortcut>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          );
+        })}
+        {frames.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Jump to frame">
+              {frames.map((frame, index) => (
+                <CommandItem
+                  key={frame.id}
+                  value={`frame ${frame.title} ${frame.id}`}
+                  onSelect={() => run(() => onJumpToFrame(frame.id))}
+                >
+                  <FrameIcon className="mr-2 h-4 w-4 opacity-60" />
+                  {frame.title || `Frame ${index + 1}`}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
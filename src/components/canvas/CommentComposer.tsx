@@ -0,0 +1,82 @@
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { X, Send } from "lucide-react";
+
+interface CommentComposerProps {
+  // Screen position (relative to the canvas) of the new pin
+  position: { x: number; y: number };
+  // What the thread is attached to, e.g. a frame title
+  anchorLabel?: string;
+  onSubmit: (body: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Text box for starting a new comment thread at a pinned location
+ */
+export function CommentComposer({ position, anchorLabel, onSubmit, onCancel }: CommentComposerProps) {
+  const [body, setBody] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCancel();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onCancel]);
+
+  const submit = () => {
+    const text = body.trim();
+    if (text) onSubmit(text);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      className="absolute z-30 w-64 p-3 rounded-xl bg-[#1a1a2e]/95 backdrop-blur-md border border-white/10 shadow-lg text-white space-y-2"
+      style={{ left: position.x + 12, top: position.y - 12 }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-white/80 truncate">
+          {anchorLabel ? `Comment on ${anchorLabel}` : "New comment"}
+        </p>
+        <button
+          onClick={onCancel}
+          className="p-1 rounded hover:bg-white/10 transition-colors"
+          title="Cancel"
+        >
+          <X className="w-3.5 h-3.5 text-white/60" />
+        </button>
+      </div>
+      <textarea
+        autoFocus
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          // Enter posts, Shift+Enter adds a line
+          if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        rows={3}
+        placeholder="Leave a note for the team…"
+        className="w-full resize-none bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white placeholder:text-white/30 focus:outline-none focus:border-pink-400/50"
+      />
+      <div className="flex justify-end">
+        <button
+          onClick={submit}
+          disabled={!body.trim()}
+          className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium bg-gradient-to-r from-sm-magenta to-sm-pink text-white disabled:opacity-40"
+        >
+          <Send className="w-3 h-3" />
+          Post
+        </button>
+      </div>
+    </motion.div>
+  );
+}
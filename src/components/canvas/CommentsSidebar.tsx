@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { X, MessageCircle, Check, RotateCcw, Trash2, Send, Frame as FrameIcon, MapPin } from "lucide-react";
+import { GlassCard } from "@/components/layout/GlassCard";
+import { cn } from "@/lib/utils";
+import { CommentThread, CommentFilter, filterThreads } from "@/lib/comments";
+
+interface SidebarComment {
+  id: string;
+  parentId: string | null;
+  frameId: string | null;
+  x: number | null;
+  y: number | null;
+  authorId: string;
+  authorName: string;
+  body: string;
+  resolved: boolean;
+  createdAt: string;
+}
+
+interface CommentsSidebarProps {
+  threads: CommentThread<SidebarComment>[];
+  // Frame titles for thread anchors
+  frameTitles: Map<string, string>;
+  currentUserId: string | null;
+  canComment: boolean;
+  activeThreadId: string | null;
+  onSelectThread: (threadId: string) => void;
+  onReply: (threadId: string, body: string) => void;
+  onResolve: (threadId: string, resolved: boolean) => void;
+  onDelete: (commentId: string) => void;
+  onClose: () => void;
+}
+
+const FILTERS: Array<{ value: CommentFilter; label: string }> = [
+  { value: "open", label: "Open" },
+  { value: "resolved", label: "Resolved" },
+  { value: "all", label: "All" },
+];
+
+const formatTime = (createdAt: string) => {
+  const diff = Date.now() - new Date(createdAt).getTime();
+
+  if (diff < 60000) return "Just now";
+  if (diff < 3600000) return `${Math.floor(diff / 60000)}m ago`;
+  if (diff < 86400000) return `${Math.floor(diff / 3600000)}h ago`;
+  return `${Math.floor(diff / 86400000)}d ago`;
+};
+
+/**
+ * Review comments for the board, grouped into threads.
+ * Selecting a thread pans the canvas to its pin.
+ */
+export function CommentsSidebar({
+  threads,
+  frameTitles,
+  currentUserId,
+  canComment,
+  activeThreadId,
+  onSelectThread,
+  onReply,
+  onResolve,
+  onDelete,
+  onClose,
+}: CommentsSidebarProps) {
+  const [filter, setFilter] = useState<CommentFilter>("open");
+  const [replyDraft, setReplyDraft] = useState("");
+
+  const visibleThreads = filterThreads(threads, filter);
+  const openCount = threads.filter(t => !t.root.resolved).length;
+
+  const submitReply = (threadId: string) => {
+    const body = replyDraft.trim();
+    if (!body) return;
+    onReply(threadId, body);
+    setReplyDraft("");
+  };
+
+  const renderComment = (comment: SidebarComment, isReply: boolean) => (
+    <div key={comment.id} className={cn("group/comment", isReply && "pl-3 border-l border-white/10")}>
+      <div className="flex items-center gap-2">
+        <div className="w-5 h-5 rounded-full bg-gradient-to-br from-pink-500/30 to-purple-500/30 flex items-center justify-center text-[10px] font-semibold text-white flex-shrink-0">
+          {comment.authorName.charAt(0).toUpperCase()}
+        </div>
+        <span className="text-xs font-medium text-white/80 truncate">{comment.authorName}</span>
+        <span className="text-[10px] text-white/40 flex-shrink-0">{formatTime(comment.createdAt)}</span>
+        {comment.authorId === currentUserId && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(comment.id);
+            }}
+            className="ml-auto p-1 rounded opacity-0 group-hover/comment:opacity-100 hover:bg-white/10 transition-opacity"
+            title={isReply ? "Delete reply" : "Delete thread"}
+          >
+            <Trash2 className="w-3 h-3 text-white/50" />
+          </button>
+        )}
+      </div>
+      <p className="mt-1 text-xs text-white/70 whitespace-pre-wrap break-words">{comment.body}</p>
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 100 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 100 }}
+      className="fixed right-[340px] top-20 bottom-4 w-80 z-40"
+    >
+      <GlassCard className="h-full p-4 flex flex-col">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="flex items-center gap-2 font-display font-bold text-lg text-white">
+            <MessageCircle className="w-5 h-5" />
+            Comments
+            {openCount > 0 && (
+              <span className="px-1.5 py-0.5 rounded-full bg-sm-magenta/20 text-[10px] font-semibold text-sm-pink">
+                {openCount}
+              </span>
+            )}
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-white/60" />
+          </button>
+        </div>
+
+        <div className="flex gap-1 mb-3">
+          {FILTERS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setFilter(option.value)}
+              className={cn(
+                "px-2.5 py-1 rounded-lg text-xs transition-colors",
+                filter === option.value
+                  ? "bg-gradient-to-br from-pink-500 to-rose-500 text-white"
+                  : "bg-white/5 text-white/60 hover:bg-white/10"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 -mx-1 px-1">
+          {visibleThreads.length === 0 && (
+            <div className="text-center py-8">
+              <MessageCircle className="w-8 h-8 text-white/20 mx-auto mb-2" />
+              <p className="text-xs text-white/40">
+                {filter === "resolved" ? "No resolved threads" : "No comments yet"}
+              </p>
+              {canComment && filter !== "resolved" && (
+                <p className="text-[10px] text-white/30 mt-1">
+                  Use the comment tool (M) and click a frame or the canvas
+                </p>
+              )}
+            </div>
+          )}
+
+          {visibleThreads.map(thread => {
+            const { root, replies } = thread;
+            const isActive = root.id === activeThreadId;
+            const frameTitle = root.frameId ? frameTitles.get(root.frameId) : undefined;
+
+            return (
+              <div
+                key={root.id}
+                onClick={() => onSelectThread(root.id)}
+                className={cn(
+                  "p-3 rounded-xl border cursor-pointer transition-colors space-y-2",
+                  isActive ? "border-pink-400/40 bg-pink-500/5" : "border-white/[0.08] bg-white/[0.03] hover:bg-white/[0.06]",
+                  root.resolved && !isActive && "opacity-60"
+                )}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-1 text-[10px] text-white/40 truncate">
+                    {frameTitle ? <FrameIcon className="w-3 h-3" /> : <MapPin className="w-3 h-3" />}
+                    {frameTitle ?? "Canvas"}
+                  </span>
+                  {canComment && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onResolve(root.id, !root.resolved);
+                      }}
+                      className={cn(
+                        "flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] transition-colors",
+                        root.resolved ? "text-white/50 hover:bg-white/10" : "text-sm-mint hover:bg-sm-mint/10"
+                      )}
+                    >
+                      {root.resolved ? <RotateCcw className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+                      {root.resolved ? "Reopen" : "Resolve"}
+                    </button>
+                  )}
+                </div>
+
+                {renderComment(root, false)}
+                {replies.map(reply => renderComment(reply, true))}
+
+                {isActive && canComment && (
+                  <div className="flex items-end gap-1.5 pt-1" onClick={(e) => e.stopPropagation()}>
+                    <textarea
+                      value={replyDraft}
+                      onChange={(e) => setReplyDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && !e.shiftKey) {
+                          e.preventDefault();
+                          submitReply(root.id);
+                        }
+                      }}
+                      rows={1}
+                      placeholder="Reply…"
+                      className="flex-1 resize-none bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white placeholder:text-white/30 focus:outline-none focus:border-pink-400/50"
+                    />
+                    <button
+                      onClick={() => submitReply(root.id)}
+                      disabled={!replyDraft.trim()}
+                      className="p-1.5 rounded-lg bg-gradient-to-r from-sm-magenta to-sm-pink text-white disabled:opacity-40"
+                      title="Reply"
+                    >
+                      <Send className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </GlassCard>
+    </motion.div>
+  );
+}
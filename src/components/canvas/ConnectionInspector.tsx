@@ -0,0 +1,182 @@
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { X, Trash2, ArrowRight, GitBranch } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  TransitionType,
+  TRANSITION_TYPES,
+  MIN_TRANSITION_DURATION_MS,
+  MAX_TRANSITION_DURATION_MS,
+  normalizeTransitionType,
+} from "@/lib/transitions";
+import { DEFAULT_BRANCH_LABEL } from "@/lib/cuts";
+
+export interface ConnectionChanges {
+  transitionType?: TransitionType;
+  transitionDurationMs?: number;
+  branchLabel?: string | null;
+}
+
+interface ConnectionInspectorProps {
+  // Screen position (relative to the canvas) the inspector points at
+  position: { x: number; y: number };
+  fromTitle?: string;
+  toTitle?: string;
+  transitionType: string;
+  transitionDurationMs: number;
+  branchLabel: string | null;
+  readOnly?: boolean;
+  onChange: (updates: ConnectionChanges) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+export function ConnectionInspector({
+  position,
+  fromTitle,
+  toTitle,
+  transitionType,
+  transitionDurationMs,
+  branchLabel,
+  readOnly = false,
+  onChange,
+  onDelete,
+  onClose,
+}: ConnectionInspectorProps) {
+  const type = normalizeTransitionType(transitionType);
+  // Slider value while dragging; saved once on release
+  const [draftDuration, setDraftDuration] = useState(transitionDurationMs);
+
+  useEffect(() => setDraftDuration(transitionDurationMs), [transitionDurationMs]);
+
+  // Branch label while typing; saved on blur or Enter
+  const [draftLabel, setDraftLabel] = useState(branchLabel ?? "");
+
+  useEffect(() => setDraftLabel(branchLabel ?? ""), [branchLabel]);
+
+  const commitLabel = () => {
+    const label = draftLabel.trim() || DEFAULT_BRANCH_LABEL;
+    setDraftLabel(label);
+    if (label !== branchLabel) onChange({ branchLabel: label });
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -4 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -4 }}
+      className="absolute z-30 w-64 p-3 rounded-xl bg-[#1a1a2e]/95 backdrop-blur-md border border-white/10 shadow-lg text-white space-y-3"
+      style={{ left: position.x - 128, top: position.y + 20 }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <div className="min-w-0">
+          <p className="text-xs font-medium text-white/80">Transition</p>
+          {(fromTitle || toTitle) && (
+            <p className="flex items-center gap-1 text-[10px] text-white/40 truncate">
+              <span className="truncate">{fromTitle}</span>
+              <ArrowRight className="w-2.5 h-2.5 flex-shrink-0" />
+              <span className="truncate">{toTitle}</span>
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-white/10 transition-colors"
+          title="Close"
+        >
+          <X className="w-3.5 h-3.5 text-white/60" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1.5">
+        {TRANSITION_TYPES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => option.value !== type && onChange({ transitionType: option.value })}
+            disabled={readOnly}
+            title={option.description}
+            className={cn(
+              "px-2 py-1.5 rounded-lg text-xs text-left transition-colors disabled:cursor-not-allowed",
+              option.value === type
+                ? "bg-gradient-to-br from-pink-500 to-rose-500 text-white"
+                : "bg-white/5 text-white/70 hover:bg-white/10 disabled:hover:bg-white/5"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className={cn(type === "cut" && "opacity-40")}>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-xs text-white/60">Duration</label>
+          <span className="text-xs font-mono text-white/70">
+            {type === "cut" ? "instant" : `${(draftDuration / 1000).toFixed(1)}s`}
+          </span>
+        </div>
+        <Slider
+          min={MIN_TRANSITION_DURATION_MS}
+          max={MAX_TRANSITION_DURATION_MS}
+          step={100}
+          value={[draftDuration]}
+          onValueChange={([value]) => setDraftDuration(value)}
+          onValueCommit={([value]) => value !== transitionDurationMs && onChange({ transitionDurationMs: value })}
+          disabled={readOnly || type === "cut"}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-1.5 text-xs text-white/60" title="Alternate takes and endings are left out of the main cut">
+            <GitBranch className="w-3 h-3" />
+            Alternate branch
+          </label>
+          <Switch
+            checked={branchLabel !== null}
+            onCheckedChange={(checked) => onChange({ branchLabel: checked ? DEFAULT_BRANCH_LABEL : null })}
+            disabled={readOnly}
+          />
+        </div>
+        {branchLabel !== null && (
+          <input
+            value={draftLabel}
+            onChange={(e) => setDraftLabel(e.target.value)}
+            onBlur={commitLabel}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === "Enter") e.currentTarget.blur();
+            }}
+            disabled={readOnly}
+            placeholder="e.g. Ending B"
+            className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white placeholder:text-white/30 focus:outline-none focus:border-amber-400/50"
+          />
+        )}
+      </div>
+
+      {!readOnly && onDelete && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="w-full border-white/20 text-red-400 hover:bg-red-500/10"
+          onClick={onDelete}
+        >
+          <Trash2 className="w-3.5 h-3.5 mr-1.5" />
+          Remove connection
+        </Button>
+      )}
+    </motion.div>
+  );
+}
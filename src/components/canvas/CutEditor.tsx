@@ -0,0 +1,199 @@
+import { useState, useEffect, useMemo } from "react";
+import { motion } from "framer-motion";
+import { X, Undo2, GitBranch, ArrowRight, Trash2 } from "lucide-react";
+import { GlassCard } from "@/components/layout/GlassCard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { getOutgoingOptions, getPathStartIds, getMainPath, isBranchConnection } from "@/lib/cuts";
+
+interface CutEditorFrame {
+  id: string;
+  title: string;
+  thumbnail?: string;
+  durationMs?: number;
+}
+
+interface CutEditorConnection {
+  id: string;
+  from: string;
+  to: string;
+  branchLabel: string | null;
+}
+
+interface CutEditorProps {
+  frames: CutEditorFrame[];
+  connections: CutEditorConnection[];
+  // Cut being edited; omitted when creating a new one
+  initial?: { name: string; frameIds: string[] };
+  onSave: (name: string, frameIds: string[]) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Build a named cut by walking the board graph: pick a start frame,
+ * then choose which outgoing connection to follow at each step.
+ */
+export function CutEditor({ frames, connections, initial, onSave, onDelete, onClose }: CutEditorProps) {
+  const frameIds = useMemo(() => frames.map(f => f.id), [frames]);
+  const [name, setName] = useState(initial?.name ?? "");
+  const [path, setPath] = useState<string[]>(
+    () => initial?.frameIds.filter(id => frameIds.includes(id)) ?? getMainPath(frameIds, connections)
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const frameById = useMemo(() => new Map(frames.map(f => [f.id, f])), [frames]);
+  const last = path[path.length - 1];
+
+  // Starting frames when the path is empty, otherwise where the last frame can lead
+  const options = useMemo(() => {
+    if (!last) {
+      const starts = getPathStartIds(frameIds, connections);
+      return (starts.length > 0 ? starts : frameIds).map(id => ({ frameId: id, label: null as string | null }));
+    }
+    return getOutgoingOptions(last, connections)
+      .filter(c => !path.includes(c.to))
+      .map(c => ({ frameId: c.to, label: isBranchConnection(c) ? c.branchLabel : null }));
+  }, [last, path, frameIds, connections]);
+
+  const totalSeconds = path.reduce((acc, id) => acc + (frameById.get(id)?.durationMs || 2000), 0) / 1000;
+  const canSave = name.trim().length > 0 && path.length > 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[110] flex items-center justify-center p-8 bg-black/60"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-display font-bold text-lg text-white">
+              {initial ? "Edit Cut" : "New Cut"}
+            </h3>
+            <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/10 transition-colors">
+              <X className="w-5 h-5 text-white/60" />
+            </button>
+          </div>
+
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. 15s cut"
+            className="bg-white/5 border-white/10 text-white"
+          />
+
+          {/* Path so far */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs text-white/60">Path</span>
+              <span className="text-xs font-mono text-white/50">
+                {path.length} frames • {totalSeconds.toFixed(1)}s
+              </span>
+            </div>
+            <div className="flex items-center gap-1.5 overflow-x-auto pb-1 min-h-[3rem]">
+              {path.length === 0 && (
+                <span className="text-xs text-white/30">Pick a starting frame below</span>
+              )}
+              {path.map((id, index) => (
+                <div key={id} className="flex items-center gap-1.5 flex-shrink-0">
+                  {index > 0 && <ArrowRight className="w-3 h-3 text-white/30" />}
+                  <div className="px-2 py-1 rounded-md bg-white/10 text-xs text-white/80 max-w-[8rem] truncate">
+                    {frameById.get(id)?.title ?? "Frame"}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Next step */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs text-white/60">
+                {path.length === 0 ? "Start with" : "Continue to"}
+              </span>
+              <button
+                onClick={() => setPath(prev => prev.slice(0, -1))}
+                disabled={path.length === 0}
+                className="flex items-center gap-1 text-xs text-white/60 hover:text-white disabled:opacity-30"
+              >
+                <Undo2 className="w-3 h-3" />
+                Remove last
+              </button>
+            </div>
+            {options.length > 0 ? (
+              <div className="grid grid-cols-3 gap-2">
+                {options.map(option => (
+                  <button
+                    key={option.frameId}
+                    onClick={() => setPath(prev => [...prev, option.frameId])}
+                    className={cn(
+                      "p-2 rounded-lg border text-left transition-colors",
+                      option.label
+                        ? "border-amber-400/30 bg-amber-400/5 hover:bg-amber-400/10"
+                        : "border-white/10 bg-white/5 hover:bg-white/10"
+                    )}
+                  >
+                    <p className="text-xs text-white truncate">{frameById.get(option.frameId)?.title ?? "Frame"}</p>
+                    {option.label && (
+                      <p className="flex items-center gap-1 text-[10px] text-amber-300/80 truncate">
+                        <GitBranch className="w-2.5 h-2.5" />
+                        {option.label}
+                      </p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-white/30">End of this path</p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between pt-2">
+            {onDelete ? (
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-white/20 text-red-400 hover:bg-red-500/10"
+                onClick={onDelete}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete cut
+              </Button>
+            ) : <span />}
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" className="text-white/70" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="bg-gradient-to-r from-sm-magenta to-sm-pink text-white"
+                disabled={!canSave}
+                onClick={() => onSave(name.trim(), path)}
+              >
+                Save cut
+              </Button>
+            </div>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -1,10 +1,18 @@
+import { useRef, useState, useEffect } from "react";
 import { cn } from "@/lib/utils";
-import { motion, PanInfo } from "framer-motion";
-import { GripVertical, Trash2, Copy, MoreHorizontal, Wand2, Minus, Plus } from "lucide-react";
+import { useLowResImage } from "@/hooks/useLowResImage";
+import { AspectRatio, DEFAULT_ASPECT_RATIO, cssAspectRatio } from "@/lib/aspectRatio";
+import { FrameStatus, getFrameStatusActions, getFrameStatusOption, isFrameProtected } from "@/lib/frameStatus";
+import { motion } from "framer-motion";
+import { GripVertical, Trash2, Copy, Scissors, ClipboardCopy, MoreHorizontal, Wand2, Minus, Plus, Clapperboard, FolderInput, FolderMinus, ShieldCheck, Lock } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
@@ -14,6 +22,9 @@ interface RemoteSelection {
   color: string;
 }
 
+// Pointer travel (px) before a press on the card becomes a drag
+const DRAG_THRESHOLD = 3;
+
 interface FrameCardProps {
   id: string;
   index: number;
@@ -21,25 +32,52 @@ interface FrameCardProps {
   thumbnail?: string;
   thumbnailColor?: string;
   isSelected: boolean;
+  // Number of frames the menu actions apply to (>1 when part of a multi-selection)
+  selectionCount?: number;
   isConnecting?: boolean;
   isPolished?: boolean;
   isPolishing?: boolean;
-  onClick: () => void;
+  // Workflow status, shown as a badge
+  status?: FrameStatus;
+  // Whether this user may approve and lock (see lib/frameStatus)
+  canApprove?: boolean;
+  onStatusChange?: (status: FrameStatus) => void;
+  // Faded out by the canvas status filter
+  dimmed?: boolean;
+  onClick: (e: React.MouseEvent) => void;
   onDoubleClick?: () => void;
   onDelete: () => void;
   onDuplicate: () => void;
+  onCopy?: () => void;
+  onCut?: () => void;
   onPolish?: () => void;
+  // Scenes
+  sceneId?: string | null;
+  scenes?: Array<{ id: string; name: string }>;
+  onGroupIntoScene?: () => void;
+  onMoveToScene?: (sceneId: string | null) => void;
   position: { x: number; y: number };
-  zoom: number;
+  // Pointer movement in screen pixels; the canvas converts it using the current zoom
   onPositionChange?: (delta: { dx: number; dy: number }) => void;
+  onDragEnd?: () => void;
   // New props for Beat Mode
   beatModeEnabled?: boolean;
   durationMs?: number;
   onDurationChange?: (newDurationMs: number) => void;
   motionNotes?: string;
+  // Camera setup summary, e.g. "MCU, low angle, 35mm"
+  shotSpec?: string;
   // Remote collaboration
   isRemoteMoving?: boolean;
+  // Skip the settle spring (positions are already being animated by the caller)
+  followExactly?: boolean;
   remoteSelection?: RemoteSelection | null;
+  // Show a downscaled thumbnail (canvas is zoomed out)
+  lowRes?: boolean;
+  // Play the pop-in animation; off when a card scrolls back into view
+  animateIn?: boolean;
+  // Board shape; sets the thumbnail's proportions
+  aspectRatio?: AspectRatio;
 }
 
 export function FrameCard({
@@ -49,25 +87,97 @@ export function FrameCard({
   thumbnail,
   thumbnailColor,
   isSelected,
+  selectionCount = 1,
   isConnecting,
   isPolished,
   isPolishing,
+  status = "sketch",
+  canApprove = false,
+  onStatusChange,
+  dimmed = false,
   onClick,
   onDoubleClick,
   onDelete,
   onDuplicate,
+  onCopy,
+  onCut,
   onPolish,
+  sceneId = null,
+  scenes = [],
+  onGroupIntoScene,
+  onMoveToScene,
   position,
-  zoom,
   onPositionChange,
+  onDragEnd,
   beatModeEnabled = false,
   durationMs = 2000,
   onDurationChange,
   motionNotes,
+  shotSpec,
   isRemoteMoving = false,
+  followExactly = false,
   remoteSelection = null,
+  lowRes = false,
+  animateIn = true,
+  aspectRatio = DEFAULT_ASPECT_RATIO,
 }: FrameCardProps) {
+  const displayThumbnail = useLowResImage(thumbnail, lowRes);
   const durationSec = (durationMs / 1000).toFixed(1);
+  // Ignore the click that fires at the end of a drag so group selections survive
+  const didDragRef = useRef(false);
+  const isGroup = selectionCount > 1;
+  const statusOption = getFrameStatusOption(status);
+  const isProtected = isFrameProtected(status);
+  const statusActions = onStatusChange ? getFrameStatusActions(status, canApprove) : [];
+
+  // Dragging is tracked manually so the parent controls the rendered (snapped) position
+  const [isDragging, setIsDragging] = useState(false);
+  const removeDragListenersRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => removeDragListenersRef.current?.(), []);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0 || !onPositionChange) return;
+
+    const drag = { startX: e.clientX, startY: e.clientY, lastX: e.clientX, lastY: e.clientY, active: false };
+
+    const handleMove = (ev: PointerEvent) => {
+      if (!drag.active) {
+        if (Math.hypot(ev.clientX - drag.startX, ev.clientY - drag.startY) < DRAG_THRESHOLD) return;
+        drag.active = true;
+        didDragRef.current = true;
+        setIsDragging(true);
+      }
+      onPositionChange({
+        dx: ev.clientX - drag.lastX,
+        dy: ev.clientY - drag.lastY,
+      });
+      drag.lastX = ev.clientX;
+      drag.lastY = ev.clientY;
+    };
+
+    const handleUp = () => {
+      removeDragListenersRef.current?.();
+      if (!drag.active) return;
+      setIsDragging(false);
+      onDragEnd?.();
+      // Reset after the trailing click event has been dispatched
+      setTimeout(() => {
+        didDragRef.current = false;
+      }, 0);
+    };
+
+    removeDragListenersRef.current?.();
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    window.addEventListener("pointercancel", handleUp);
+    removeDragListenersRef.current = () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      window.removeEventListener("pointercancel", handleUp);
+      removeDragListenersRef.current = null;
+    };
+  };
   
   const handleDecreaseDuration = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -82,23 +192,16 @@ export function FrameCard({
   };
   return (
     <motion.div
-      className="absolute"
-      drag
-      dragMomentum={false}
-      onDrag={(_, info: PanInfo) => {
-        if (!onPositionChange) return;
-        onPositionChange({
-          dx: info.delta.x / zoom,
-          dy: info.delta.y / zoom,
-        });
-      }}
-      initial={{ opacity: 0, scale: 0.8, x: position.x, y: position.y }}
+      className={cn("absolute touch-none", isDragging && "z-10")}
+      onPointerDown={handlePointerDown}
+      initial={animateIn ? { opacity: 0, scale: 0.8, x: position.x, y: position.y } : false}
       animate={{ opacity: 1, scale: 1, x: position.x, y: position.y }}
       exit={{ opacity: 0, scale: 0.8 }}
       whileHover={{ scale: 1.02 }}
       transition={{
-        x: { type: "spring", stiffness: 300, damping: 30 },
-        y: { type: "spring", stiffness: 300, damping: 30 },
+        // Follow the pointer exactly while dragging, spring into place otherwise
+        x: isDragging || followExactly ? { duration: 0 } : { type: "spring", stiffness: 300, damping: 30 },
+        y: isDragging || followExactly ? { duration: 0 } : { type: "spring", stiffness: 300, damping: 30 },
         opacity: { duration: 0.2 },
         scale: { duration: 0.2 }
       }}
@@ -106,6 +209,7 @@ export function FrameCard({
       <div
         className={cn(
           "w-48 cursor-pointer transition-all duration-200 group rounded-xl overflow-hidden bg-[#1a1a2e]/90 backdrop-blur-md relative",
+          dimmed && "opacity-30",
           // Selection state (highest priority)
           isSelected && "border-2 border-pink-500/70 shadow-[0_0_15px_rgba(236,72,153,0.2)]",
           // Remote selection state (another user has selected this frame)
@@ -125,7 +229,10 @@ export function FrameCard({
           borderColor: remoteSelection.color,
           boxShadow: `0 0 15px ${remoteSelection.color}40`,
         } : undefined}
-        onClick={onClick}
+        onClick={(e) => {
+          if (didDragRef.current) return;
+          onClick(e);
+        }}
         onDoubleClick={onDoubleClick}
       >
         {/* Remote user selection indicator */}
@@ -157,21 +264,81 @@ export function FrameCard({
             <DropdownMenuContent align="end">
               <DropdownMenuItem onClick={onDuplicate}>
                 <Copy className="w-4 h-4 mr-2" />
-                Duplicate
+                {isGroup ? `Duplicate ${selectionCount} frames` : "Duplicate"}
               </DropdownMenuItem>
+              {onCopy && (
+                <DropdownMenuItem onClick={onCopy}>
+                  <ClipboardCopy className="w-4 h-4 mr-2" />
+                  {isGroup ? `Copy ${selectionCount} frames` : "Copy"}
+                </DropdownMenuItem>
+              )}
+              {onCut && (
+                <DropdownMenuItem onClick={onCut}>
+                  <Scissors className="w-4 h-4 mr-2" />
+                  {isGroup ? `Cut ${selectionCount} frames` : "Cut"}
+                </DropdownMenuItem>
+              )}
+              {isGroup && onPolish && (
+                <DropdownMenuItem onClick={onPolish}>
+                  <Wand2 className="w-4 h-4 mr-2" />
+                  {`Polish ${selectionCount} frames`}
+                </DropdownMenuItem>
+              )}
+              {(onGroupIntoScene || onMoveToScene) && <DropdownMenuSeparator />}
+              {onGroupIntoScene && (
+                <DropdownMenuItem onClick={onGroupIntoScene}>
+                  <Clapperboard className="w-4 h-4 mr-2" />
+                  {isGroup ? `Group ${selectionCount} frames into scene` : "Group into scene"}
+                </DropdownMenuItem>
+              )}
+              {onMoveToScene && scenes.some(s => s.id !== sceneId) && (
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <FolderInput className="w-4 h-4 mr-2" />
+                    Move to scene
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    {scenes.filter(s => s.id !== sceneId).map(scene => (
+                      <DropdownMenuItem key={scene.id} onClick={() => onMoveToScene(scene.id)}>
+                        {scene.name}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              )}
+              {onMoveToScene && sceneId && (
+                <DropdownMenuItem onClick={() => onMoveToScene(null)}>
+                  <FolderMinus className="w-4 h-4 mr-2" />
+                  Remove from scene
+                </DropdownMenuItem>
+              )}
+              {(onGroupIntoScene || onMoveToScene) && <DropdownMenuSeparator />}
+              {statusActions.length > 0 && (
+                <>
+                  {!(onGroupIntoScene || onMoveToScene) && <DropdownMenuSeparator />}
+                  {statusActions.map(action => (
+                    <DropdownMenuItem key={action.label} onClick={() => onStatusChange!(action.to)}>
+                      <ShieldCheck className="w-4 h-4 mr-2" />
+                      {isGroup ? `${action.label} (${selectionCount} frames)` : action.label}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                </>
+              )}
               <DropdownMenuItem onClick={onDelete} className="text-red-500">
                 <Trash2 className="w-4 h-4 mr-2" />
-                Delete
+                {isGroup ? `Delete ${selectionCount} frames` : "Delete"}
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
 
         {/* Image Content */}
-        <div className="aspect-[4/3] p-2 relative">
+        <div className="p-2 relative" style={{ aspectRatio: cssAspectRatio(aspectRatio) }}>
           {thumbnail ? (
             <img
-              src={thumbnail}
+              src={displayThumbnail}
+              decoding="async"
               alt={title || `Frame ${index + 1}`}
               className="w-full h-full object-cover rounded-lg"
             />
@@ -196,8 +363,19 @@ export function FrameCard({
             </div>
           )}
           
+          {/* Workflow status badge */}
+          <div
+            className={cn(
+              "absolute top-3 left-3 flex items-center gap-1 px-1.5 py-0.5 rounded backdrop-blur-sm text-[10px] font-medium",
+              statusOption.className
+            )}
+          >
+            {status === "locked" ? <Lock className="w-2.5 h-2.5" /> : status === "approved" && <ShieldCheck className="w-2.5 h-2.5" />}
+            {statusOption.label}
+          </div>
+
           {/* Quick Polish Button - shows on hover for sketched frames with thumbnails */}
-          {!isPolished && !isPolishing && thumbnail && onPolish && (
+          {!isPolished && !isPolishing && !isProtected && thumbnail && onPolish && (
             <motion.button
               initial={{ opacity: 0 }}
               whileHover={{ scale: 1.1 }}
@@ -232,12 +410,19 @@ export function FrameCard({
           )}
         </div>
 
-        {/* Motion notes - below image, minimal */}
-        {motionNotes && (
-          <div className="px-3 py-2 border-t border-white/5">
-            <p className="text-[10px] text-white/50 truncate" title={motionNotes}>
-              🎬 {motionNotes}
-            </p>
+        {/* Shot and motion notes - below image, minimal */}
+        {(shotSpec || motionNotes) && (
+          <div className="px-3 py-2 border-t border-white/5 space-y-0.5">
+            {shotSpec && (
+              <p className="text-[10px] text-white/50 truncate" title={shotSpec}>
+                🎥 {shotSpec}
+              </p>
+            )}
+            {motionNotes && (
+              <p className="text-[10px] text-white/50 truncate" title={motionNotes}>
+                🎬 {motionNotes}
+              </p>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,154 @@
+import { useState, useMemo } from "react";
+import { motion } from "framer-motion";
+import { GitMerge, User, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { GlassCard } from "@/components/layout/GlassCard";
+import { cn, valuesEqual } from "@/lib/utils";
+import { ShotMetadata, formatShotDetails, isShotEmpty } from "@/lib/shotMetadata";
+
+type ConflictField = "title" | "motionNotes" | "animationStyle" | "durationMs" | "shot";
+
+interface ConflictValues {
+  title?: string;
+  motionNotes?: string | null;
+  animationStyle?: string;
+  durationMs?: number;
+  shot?: ShotMetadata;
+}
+
+interface FrameConflictDialogProps {
+  frameTitle: string;
+  // What this user tried to save
+  mine: ConflictValues;
+  // What is saved now (someone else's edit)
+  theirs: ConflictValues;
+  // Called with the fields where this user's value should win
+  onResolve: (keepMine: ConflictField[]) => void;
+}
+
+const FIELD_LABELS: Record<ConflictField, string> = {
+  title: "Title",
+  motionNotes: "Motion notes",
+  animationStyle: "Animation style",
+  durationMs: "Duration",
+  shot: "Shot details",
+};
+
+const formatValue = (field: ConflictField, value: ConflictValues[ConflictField]) => {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  if (field === "durationMs") return `${((value as number) / 1000).toFixed(1)}s`;
+  if (field === "shot") {
+    const shot = value as ShotMetadata;
+    return isShotEmpty(shot) ? "(empty)" : formatShotDetails(shot).join("\n");
+  }
+  return String(value);
+};
+
+/**
+ * Merge prompt for a frame edit that lost a race with another collaborator.
+ * Each conflicting field can keep either version.
+ */
+export function FrameConflictDialog({ frameTitle, mine, theirs, onResolve }: FrameConflictDialogProps) {
+  const fields = useMemo(
+    () => (Object.keys(FIELD_LABELS) as ConflictField[]).filter(
+      field => field in mine && !valuesEqual(mine[field] ?? null, theirs[field] ?? null)
+    ),
+    [mine, theirs]
+  );
+  // Default to keeping this user's edits
+  const [keepMine, setKeepMine] = useState<Set<ConflictField>>(() => new Set(fields));
+
+  const choose = (field: ConflictField, useMine: boolean) => {
+    setKeepMine(prev => {
+      const next = new Set(prev);
+      if (useMine) next.add(field);
+      else next.delete(field);
+      return next;
+    });
+  };
+
+  const renderOption = (field: ConflictField, useMine: boolean) => {
+    const selected = keepMine.has(field) === useMine;
+    const Icon = useMine ? User : Users;
+    return (
+      <button
+        onClick={() => choose(field, useMine)}
+        className={cn(
+          "flex-1 min-w-0 p-2.5 rounded-lg border text-left transition-colors",
+          selected ? "border-pink-400/60 bg-pink-500/10" : "border-white/10 bg-white/5 hover:bg-white/10"
+        )}
+      >
+        <span className="flex items-center gap-1 text-[10px] uppercase tracking-wide text-white/50 mb-1">
+          <Icon className="w-3 h-3" />
+          {useMine ? "Mine" : "Theirs"}
+        </span>
+        <span className="block text-xs text-white/90 whitespace-pre-wrap break-words max-h-24 overflow-y-auto">
+          {formatValue(field, useMine ? mine[field] : theirs[field])}
+        </span>
+      </button>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 10 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 10 }}
+        className="w-full max-w-lg mx-4"
+      >
+        <GlassCard className="p-5 space-y-4">
+          <div>
+            <h3 className="flex items-center gap-2 font-display font-bold text-lg text-white">
+              <GitMerge className="w-5 h-5 text-sm-pink" />
+              Edit conflict
+            </h3>
+            <p className="text-sm text-white/60 mt-1">
+              Someone else changed "{frameTitle}" while you were editing. Choose which version to keep.
+            </p>
+          </div>
+
+          <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+            {fields.map(field => (
+              <div key={field}>
+                <p className="text-xs font-medium text-white/70 mb-1.5">{FIELD_LABELS[field]}</p>
+                <div className="flex gap-2">
+                  {renderOption(field, true)}
+                  {renderOption(field, false)}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2 pt-1">
+            <Button
+              variant="ghost"
+              onClick={() => onResolve([])}
+              className="text-white/70 hover:text-white hover:bg-white/10"
+            >
+              Keep theirs
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => onResolve(fields)}
+              className="text-white/70 hover:text-white hover:bg-white/10"
+            >
+              Keep mine
+            </Button>
+            <Button
+              onClick={() => onResolve(Array.from(keepMine))}
+              className="bg-sm-magenta hover:bg-sm-magenta/90 text-white"
+            >
+              Apply selection
+            </Button>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  );
+}
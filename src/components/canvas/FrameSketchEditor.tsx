@@ -18,6 +18,8 @@ import {
   Eraser,
   Type,
   ImageIcon,
+  MousePointer2,
+  Spline,
   Upload,
   Wand2,
   Loader2,
@@ -31,6 +33,48 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { polishSketch, polishSketchWithStyle } from "@/lib/googleAI";
+import { AspectRatio, DEFAULT_ASPECT_RATIO, getSketchSize, aspectRatioStyle, cssAspectRatio } from "@/lib/aspectRatio";
+import {
+  SketchDocument,
+  SketchImageCache,
+  SketchLayer,
+  SketchObject,
+  SketchShape,
+  SketchShapeKind,
+  SketchStroke,
+  SketchText,
+  SKETCH_BACKGROUND,
+  createImageObject,
+  createLayer,
+  createObjectId,
+  createRandom,
+  createSeed,
+  createSketchDocument,
+  documentFromImage,
+  drawShape,
+  drawStrokePoint,
+  findObjectLayer,
+  fitSketchDocument,
+  flattenSketchDocument,
+  getDocumentObjects,
+  getObjectBounds,
+  hasVisibleContent,
+  hitTestObjects,
+  loadImage,
+  loadSketchImages,
+  renderSketchDocument,
+  translateObject,
+  updateLayer,
+} from "@/lib/sketchDocument";
+import {
+  applySketchChange,
+  diffSketchDocuments,
+  documentAtIndex,
+  documentSignature,
+} from "@/lib/sketchHistory";
+import { useSketchHistoryStore } from "@/stores/sketchHistoryStore";
+import { SketchLayersPanel } from "./SketchLayersPanel";
+import { SketchHistoryPanel } from "./SketchHistoryPanel";
 
 type AnimationStyle = "static" | "zoom-in" | "zoom-out" | "pan-left" | "pan-right" | "parallax";
 
@@ -93,10 +137,13 @@ interface FrameSketchEditorProps {
     sketchDataUrl?: string;
     motionNotes?: string;
     animationStyle?: AnimationStyle;
+    sketchDocument?: SketchDocument | null;
   } | null;
   open: boolean;
+  // Board shape; sets the drawing surface and the saved sketch size
+  aspectRatio?: AspectRatio;
   onClose: () => void;
-  onSave: (dataUrl: string, shouldPolish?: boolean, motionNotes?: string, animationStyle?: AnimationStyle, originalSketchData?: string) => void;
+  onSave: (dataUrl: string, shouldPolish?: boolean, motionNotes?: string, animationStyle?: AnimationStyle, originalSketchData?: string, sketchDocument?: SketchDocument) => void;
 }
 
 // Expanded color palette
@@ -112,9 +159,10 @@ const COLORS = [
 ];
 
 // Tool types
-type ToolType = "pen" | "line" | "rectangle" | "circle" | "arrow" | "eraser" | "text" | "image";
+type ToolType = "select" | "pen" | "line" | "rectangle" | "circle" | "arrow" | "eraser" | "text" | "image";
 
 const TOOLS: { id: ToolType; name: string; icon: React.ElementType; shortcut: string }[] = [
+  { id: "select", name: "Select (V)", icon: MousePointer2, shortcut: "v" },
   { id: "pen", name: "Pen (1)", icon: Pencil, shortcut: "1" },
   { id: "line", name: "Line (2)", icon: Minus, shortcut: "2" },
   { id: "rectangle", name: "Rectangle (3)", icon: Square, shortcut: "3" },
@@ -125,15 +173,75 @@ const TOOLS: { id: ToolType; name: string; icon: React.ElementType; shortcut: st
   { id: "image", name: "Image (I)", icon: ImageIcon, shortcut: "i" },
 ];
 
-const CANVAS_BG = "#1a1a2e";
-const MAX_HISTORY = 10;
+// Shape objects drawn by each shape tool
+const SHAPE_TOOLS: Partial<Record<ToolType, SketchShapeKind>> = {
+  line: "line",
+  rectangle: "rectangle",
+  circle: "ellipse",
+  arrow: "arrow",
+};
+
+const CANVAS_BG = SKETCH_BACKGROUND;
+
+// Stroke stabiliser: how far each drawn point trails the pointer (0 = off)
+const STABILISER_OPTIONS = [
+  { label: "Off", strength: 0 },
+  { label: "Low", strength: 0.35 },
+  { label: "Med", strength: 0.6 },
+  { label: "High", strength: 0.8 },
+];
+const STABILISER_STORAGE_KEY = "sketchmotion_sketch_stabiliser";
+
+// Touches are ignored this long after the pen was last seen (palm rejection)
+const PEN_TOUCH_GRACE_MS = 1000;
+
+// Pinch zoom range of the drawing surface
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 4;
+const DEFAULT_VIEW = { zoom: 1, x: 0, y: 0 };
+
+interface PenDynamics {
+  pressure: number;
+  // 0 upright, 1 flat against the surface
+  tilt: number;
+}
+
+// Pressure and tilt of stylus input; null for mouse and touch
+function readPenDynamics(e: PointerEvent): PenDynamics | null {
+  if (e.pointerType !== "pen") return null;
+  return {
+    // Pens without pressure sensing report 0.5; some report 0 on the first contact
+    pressure: e.pressure > 0 ? e.pressure : 0.5,
+    tilt: Math.min(1, Math.hypot(e.tiltX || 0, e.tiltY || 0) / 90),
+  };
+}
+
+function loadStabiliser(): number {
+  const stored = Number(localStorage.getItem(STABILISER_STORAGE_KEY));
+  return STABILISER_OPTIONS.some(o => o.strength === stored) ? stored : 0;
+}
+
+// Font size based on brush size: S=18, M=28, L=42
+const fontSizeFor = (brushSize: number) => (brushSize === 3 ? 18 : brushSize === 8 ? 28 : 42);
+
+// History label for a change to a layer's settings
+function layerChangeLabel(changes: Partial<SketchLayer>): string {
+  if (changes.name !== undefined) return "Rename layer";
+  if (changes.visible !== undefined) return changes.visible ? "Show layer" : "Hide layer";
+  if (changes.locked !== undefined) return changes.locked ? "Lock layer" : "Unlock layer";
+  if (changes.notesOnly !== undefined) return changes.notesOnly ? "Mark layer as notes" : "Unmark notes layer";
+  return "Layer opacity";
+}
 
 export function FrameSketchEditor({
   frame,
   open,
+  aspectRatio = DEFAULT_ASPECT_RATIO,
   onClose,
   onSave,
 }: FrameSketchEditorProps) {
+  // Drawing coordinate system (display size); sketches are saved at this size
+  const { width: sketchWidth, height: sketchHeight } = getSketchSize(aspectRatio);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const previewCanvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -148,10 +256,35 @@ export function FrameSketchEditor({
   const [cursorPos, setCursorPos] = useState<{ x: number; y: number } | null>(null);
   const [fillShapes, setFillShapes] = useState(false);
   const [sketchyMode, setSketchyMode] = useState(true);
+  const [stabiliser, setStabiliser] = useState(loadStabiliser);
+
+  // Pan/zoom of the drawing surface (two-finger pinch)
+  const [view, setView] = useState(DEFAULT_VIEW);
+  // Touches on the canvas by pointer id, in client coordinates
+  const touchPointsRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<{ distance: number; mid: { x: number; y: number }; view: typeof DEFAULT_VIEW } | null>(null);
+  // Pointer that is drawing; others are ignored until it lifts
+  const drawingPointerRef = useRef<number | null>(null);
+  const penDownRef = useRef(false);
+  const penSeenAtRef = useRef(0);
+
+  // The drawing as editable objects; the canvas is a rendering of it
+  const [sketchDoc, setSketchDoc] = useState<SketchDocument>(() =>
+    createSketchDocument({ width: sketchWidth, height: sketchHeight })
+  );
+  const docRef = useRef(sketchDoc);
+  const imageCacheRef = useRef<SketchImageCache>(new Map());
+  // Layer that new drawing goes on; falls back to the top layer (e.g. after undoing an added layer)
+  const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
+  const activeLayer = sketchDoc.layers.find(l => l.id === activeLayerId) ?? sketchDoc.layers[sketchDoc.layers.length - 1];
+  const canDrawOnLayer = !!activeLayer && activeLayer.visible && !activeLayer.locked;
+  // Object picked with the select tool
+  const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
 
   // Keep ref in sync with state
   useEffect(() => {
     selectedToolRef.current = selectedTool;
+    if (selectedTool !== "select") setSelectedObjectId(null);
   }, [selectedTool]);
 
   // Sync motion notes when frame changes
@@ -166,6 +299,8 @@ export function FrameSketchEditor({
   const [textInput, setTextInput] = useState("");
   const [textPosition, setTextPosition] = useState<{ x: number; y: number } | null>(null);
   const [isTextInputActive, setIsTextInputActive] = useState(false);
+  // Text object being edited (null when adding new text)
+  const [editingTextId, setEditingTextId] = useState<string | null>(null);
 
   // Save confirmation state
   const [showSaveConfirmation, setShowSaveConfirmation] = useState(false);
@@ -183,6 +318,8 @@ export function FrameSketchEditor({
 
   // Image states - CRITICAL: preserve original
   const [originalSketchData, setOriginalSketchData] = useState<string | null>(null);
+  // What is sent to polish: the sketch without its notes-only layers
+  const [polishSourceData, setPolishSourceData] = useState<string | null>(null);
   const [polishedImageData, setPolishedImageData] = useState<string | null>(null);
 
   // Error state
@@ -192,179 +329,238 @@ export function FrameSketchEditor({
   const startPosRef = useRef<{ x: number; y: number } | null>(null);
   const lastPosRef = useRef<{ x: number; y: number } | null>(null);
   const currentPosRef = useRef<{ x: number; y: number } | null>(null);
+  // Pen or eraser stroke in progress, with the wobble sequence it is drawn with
+  // and the document it is being added to
+  const activeStrokeRef = useRef<{ stroke: SketchStroke; random: () => number; base: SketchDocument } | null>(null);
+  // Object being moved with the select tool
+  const dragRef = useRef<{ original: SketchObject; start: { x: number; y: number }; moved: boolean; base: SketchDocument } | null>(null);
+  // Latest stylus reading, reused for samples that don't have one
+  const lastDynamicsRef = useRef<PenDynamics | null>(null);
+
+  // Undo history, kept per frame for the session (see stores/sketchHistoryStore)
+  const frameId = frame?.id ?? null;
+  const historySession = useSketchHistoryStore(state => (frameId ? state.sessions[frameId] : undefined));
+  const startHistorySession = useSketchHistoryStore(state => state.startSession);
+  const recordChange = useSketchHistoryStore(state => state.record);
+  const setHistoryIndex = useSketchHistoryStore(state => state.setIndex);
+  const addHistoryCheckpoint = useSketchHistoryStore(state => state.addCheckpoint);
+  // Document at the current history step; edits in progress are diffed against it
+  const committedDocRef = useRef(sketchDoc);
+  // Bumped when images of a restored state finish decoding, to render them
+  const [imagesVersion, setImagesVersion] = useState(0);
+
+  // Show a document without recording it (object drags, undo/redo)
+  const showDocument = useCallback((doc: SketchDocument) => {
+    docRef.current = doc;
+    setSketchDoc(doc);
+  }, []);
 
-  // Undo history
-  const [history, setHistory] = useState<string[]>([]);
-  const historyIndexRef = useRef(-1);
+  // Apply an edit: show it and record it as one undo step
+  const commitDocument = useCallback((doc: SketchDocument, label: string) => {
+    showDocument(doc);
+    const change = diffSketchDocuments(committedDocRef.current, doc, label);
+    committedDocRef.current = doc;
+    if (change && frameId) recordChange(frameId, change);
+  }, [showDocument, recordChange, frameId]);
+
+  // Images of states restored from history may not be decoded yet
+  const ensureImages = useCallback((doc: SketchDocument) => {
+    const objects = getDocumentObjects(doc);
+    if (objects.every(o => o.type !== "image" || imageCacheRef.current.has(o.src))) return;
+    loadSketchImages(objects, imageCacheRef.current).then(() => setImagesVersion(v => v + 1));
+  }, []);
 
-  // Save current state to history
-  const saveToHistory = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  // Move to any step of the history
+  const jumpToHistory = useCallback((index: number) => {
+    if (!frameId || !historySession || index < 0 || index > historySession.changes.length) return;
+
+    let doc = committedDocRef.current;
+    for (let i = historySession.index; i > index; i--) doc = applySketchChange(doc, historySession.changes[i - 1], false);
+    for (let i = historySession.index; i < index; i++) doc = applySketchChange(doc, historySession.changes[i], true);
+
+    committedDocRef.current = doc;
+    showDocument(doc);
+    ensureImages(doc);
+    setHistoryIndex(frameId, index);
+    setSelectedObjectId(null);
+  }, [frameId, historySession, showDocument, ensureImages, setHistoryIndex]);
+
+  // Edit existing objects, whichever layer they are on; locked layers are left alone
+  const updateObjects = useCallback((update: (objects: SketchObject[]) => SketchObject[]) => {
+    const doc = docRef.current;
+    return {
+      ...doc,
+      layers: doc.layers.map(layer => (layer.locked ? layer : { ...layer, objects: update(layer.objects) })),
+    };
+  }, []);
+
+  // New objects go on top of the active layer
+  const addObject = useCallback((object: SketchObject, doc = docRef.current) => {
+    return updateLayer(doc, activeLayer?.id ?? "", layer => ({ ...layer, objects: [...layer.objects, object] }));
+  }, [activeLayer?.id]);
 
-    const dataUrl = canvas.toDataURL("image/png");
-    setHistory((prev) => {
-      const newHistory = [...prev.slice(0, historyIndexRef.current + 1), dataUrl];
-      if (newHistory.length > MAX_HISTORY) {
-        newHistory.shift();
+  // Load the frame's document when the editor opens. Frames without one (older sketches,
+  // imported images) start from their sketch image as a single image object.
+  // Every save uploads a new sketch image, so its URL tells when the document changed
+  useEffect(() => {
+    if (!open) return;
+    const size = { width: sketchWidth, height: sketchHeight };
+    let cancelled = false;
+
+    const empty = createSketchDocument(size);
+    showDocument(empty);
+    committedDocRef.current = empty;
+    setSelectedObjectId(null);
+    setView(DEFAULT_VIEW);
+
+    const load = async () => {
+      let doc = frame?.sketchDocument
+        ? fitSketchDocument(frame.sketchDocument, size)
+        : await documentFromImage(frame?.sketchDataUrl, size);
+      await loadSketchImages(getDocumentObjects(doc), imageCacheRef.current);
+      if (cancelled || !frame) return;
+
+      // Pick up this session's history if the frame still holds one of its saved states;
+      // steps after it (unsaved edits) stay available to redo
+      const session = useSketchHistoryStore.getState().sessions[frame.id];
+      const signature = documentSignature(doc);
+      const checkpoint = session?.checkpoints
+        .filter(c => c.index <= session.changes.length)
+        .reverse()
+        .find(c => c.signature === signature);
+      if (session && checkpoint) {
+        doc = documentAtIndex(session, checkpoint.index);
+        setHistoryIndex(frame.id, checkpoint.index);
       } else {
-        historyIndexRef.current++;
+        startHistorySession(frame.id, doc);
       }
-      return newHistory;
-    });
-  }, []);
 
-  // Draw grid pattern on canvas
-  const drawGrid = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number) => {
-    ctx.fillStyle = CANVAS_BG;
-    ctx.fillRect(0, 0, width, height);
-
-    // Draw dot grid
-    ctx.fillStyle = "rgba(255, 255, 255, 0.1)";
-    for (let x = 0; x < width; x += 20) {
-      for (let y = 0; y < height; y += 20) {
-        ctx.beginPath();
-        ctx.arc(x, y, 1, 0, Math.PI * 2);
-        ctx.fill();
-      }
-    }
-  }, []);
+      committedDocRef.current = doc;
+      showDocument(doc);
+      setActiveLayerId(doc.layers[doc.layers.length - 1]?.id ?? null);
+    };
+    load();
 
-  // Initialize canvas when opened
-  useEffect(() => {
-    if (open && canvasRef.current && previewCanvasRef.current) {
-      const canvas = canvasRef.current;
-      const previewCanvas = previewCanvasRef.current;
-      const ctx = canvas.getContext("2d");
-      const previewCtx = previewCanvas.getContext("2d");
-      if (!ctx || !previewCtx) return;
+    return () => {
+      cancelled = true;
+    };
+  }, [open, frame?.id, frame?.sketchDataUrl, sketchWidth, sketchHeight, showDocument, startHistorySession, setHistoryIndex]);
 
-      // Get device pixel ratio for crisp rendering on retina displays
-      const dpr = window.devicePixelRatio || 1;
-
-      // Display size (what we work with in coordinates)
-      const displayWidth = 640;
-      const displayHeight = 360;
-
-      // Actual canvas size (scaled for retina)
-      canvas.width = displayWidth * dpr;
-      canvas.height = displayHeight * dpr;
-      previewCanvas.width = displayWidth * dpr;
-      previewCanvas.height = displayHeight * dpr;
-
-      // Reset transform and scale context (setting canvas.width resets transform)
-      ctx.scale(dpr, dpr);
-      previewCtx.scale(dpr, dpr);
-
-      // Clear preview canvas
-      previewCtx.clearRect(0, 0, displayWidth, displayHeight);
-
-      // Reset history
-      setHistory([]);
-      historyIndexRef.current = -1;
-
-      // Always draw the grid background first (provides visual feedback while image loads)
-      drawGrid(ctx, displayWidth, displayHeight);
-
-      // If frame has existing sketch, load and draw it on top of the grid
-      // Always load the SKETCH (original drawing), never the polished image
-      if (frame?.sketchDataUrl) {
-        console.log('[SketchEditor] Loading sketch from:', frame.sketchDataUrl?.substring(0, 80));
-        const img = new Image();
-        img.crossOrigin = 'anonymous'; // Required for Supabase Storage URLs
-        img.onload = () => {
-          // Draw the loaded sketch image on top of the grid background
-          ctx.drawImage(img, 0, 0, displayWidth, displayHeight);
-          // Save initial state to history (with the loaded image)
-          saveToHistory();
-          console.log('[SketchEditor] Successfully loaded sketch image');
-        };
-        img.onerror = (e) => {
-          console.error('[SketchEditor] Failed to load sketch image:', frame.sketchDataUrl, e);
-          // Grid is already drawn, just save to history
-          saveToHistory();
-        };
-        img.src = frame.sketchDataUrl;
-      } else {
-        // No sketch exists - grid is already drawn, save to history
-        saveToHistory();
-        console.log('[SketchEditor] No sketch URL, showing empty canvas with grid');
+  // Decoded images are only needed while the editor is open
+  useEffect(() => {
+    if (!open) imageCacheRef.current.clear();
+  }, [open]);
+
+  // Size both canvases for the screen's pixel density; resizing clears them
+  const prepareCanvases = useCallback(() => {
+    const dpr = window.devicePixelRatio || 1;
+    [canvasRef.current, previewCanvasRef.current].forEach(canvas => {
+      if (!canvas) return;
+      if (canvas.width !== sketchWidth * dpr || canvas.height !== sketchHeight * dpr) {
+        canvas.width = sketchWidth * dpr;
+        canvas.height = sketchHeight * dpr;
       }
-    }
-  }, [open, frame?.sketchDataUrl, drawGrid, saveToHistory]);
+      // Work in display coordinates
+      canvas.getContext("2d")?.setTransform(dpr, 0, 0, dpr, 0, 0);
+    });
+  }, [sketchWidth, sketchHeight]);
+
+  // Outline around the selected object, on the preview canvas
+  const drawSelection = useCallback(() => {
+    const previewCtx = previewCanvasRef.current?.getContext("2d");
+    if (!previewCtx) return;
+    previewCtx.clearRect(0, 0, sketchWidth, sketchHeight);
+
+    const selected = getDocumentObjects(docRef.current).find(o => o.id === selectedObjectId);
+    if (!selected) return;
+    const bounds = getObjectBounds(selected, previewCtx);
+    previewCtx.save();
+    previewCtx.strokeStyle = "#FF3D8F";
+    previewCtx.lineWidth = 1.5;
+    previewCtx.setLineDash([6, 4]);
+    previewCtx.strokeRect(bounds.x - 4, bounds.y - 4, bounds.width + 8, bounds.height + 8);
+    previewCtx.restore();
+  }, [selectedObjectId, sketchWidth, sketchHeight]);
+
+  // Re-render the canvas whenever the document changes or the drawing stage is shown again
+  useEffect(() => {
+    if (!open || stage !== "drawing") return;
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    prepareCanvases();
+    renderSketchDocument(ctx, sketchDoc, imageCacheRef.current, { grid: true, pixelRatio: window.devicePixelRatio || 1 });
+    drawSelection();
+  }, [open, stage, sketchDoc, imagesVersion, prepareCanvases, drawSelection]);
 
-  // Use 640x360 as the coordinate system (display size)
+  // Pointer position in the sketch coordinate system (display size)
   const getCanvasCoordinates = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement | HTMLDivElement>) => {
+    (e: { clientX: number; clientY: number }) => {
       const canvas = canvasRef.current;
       if (!canvas) return { x: 0, y: 0 };
 
+      // The bounding box includes the pan/zoom transform
       const rect = canvas.getBoundingClientRect();
-      // Always use 640x360 as the coordinate system
-      const x = ((e.clientX - rect.left) / rect.width) * 640;
-      const y = ((e.clientY - rect.top) / rect.height) * 360;
+      const x = ((e.clientX - rect.left) / rect.width) * sketchWidth;
+      const y = ((e.clientY - rect.top) / rect.height) * sketchHeight;
 
       return { x, y };
     },
-    []
+    [sketchWidth, sketchHeight]
   );
 
-  // Draw arrow helper
-  const drawArrow = useCallback(
-    (
-      ctx: CanvasRenderingContext2D,
-      fromX: number,
-      fromY: number,
-      toX: number,
-      toY: number,
-      color: string,
-      lineWidth: number
-    ) => {
-      const headLength = Math.max(lineWidth * 3, 15);
-      const angle = Math.atan2(toY - fromY, toX - fromX);
-
-      ctx.strokeStyle = color;
-      ctx.lineWidth = lineWidth;
-      ctx.lineCap = "round";
-      ctx.lineJoin = "round";
-
-      // Draw line
-      ctx.beginPath();
-      ctx.moveTo(fromX, fromY);
-      ctx.lineTo(toX, toY);
-      ctx.stroke();
-
-      // Draw arrowhead
-      ctx.beginPath();
-      ctx.moveTo(toX, toY);
-      ctx.lineTo(
-        toX - headLength * Math.cos(angle - Math.PI / 6),
-        toY - headLength * Math.sin(angle - Math.PI / 6)
-      );
-      ctx.moveTo(toX, toY);
-      ctx.lineTo(
-        toX - headLength * Math.cos(angle + Math.PI / 6),
-        toY - headLength * Math.sin(angle + Math.PI / 6)
-      );
-      ctx.stroke();
-    },
-    []
-  );
+  // Topmost object under the pointer on a visible, unlocked layer
+  const hitTest = useCallback((pos: { x: number; y: number }) => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return null;
+    const layers = docRef.current.layers.filter(l => l.visible && !l.locked);
+    for (let i = layers.length - 1; i >= 0; i--) {
+      const hit = hitTestObjects(layers[i].objects, pos, ctx);
+      if (hit) return hit;
+    }
+    return null;
+  }, []);
+
+  // Picking an object makes its layer the active one
+  const activateObjectLayer = useCallback((object: SketchObject) => {
+    const layer = findObjectLayer(docRef.current, object.id);
+    if (layer) setActiveLayerId(layer.id);
+  }, []);
+
+  // Open the text input, for new text or to edit an existing text object
+  const beginTextInput = useCallback((pos: { x: number; y: number }, existing?: SketchText) => {
+    setEditingTextId(existing?.id ?? null);
+    setTextPosition(existing ? { x: existing.x, y: existing.y } : pos);
+    setTextInput(existing?.text ?? "");
+    setIsTextInputActive(true);
+  }, []);
 
   // Start drawing
   const startDrawing = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
       const pos = getCanvasCoordinates(e);
       const tool = selectedToolRef.current; // Use ref to get current tool
 
-      console.log("startDrawing - tool from ref:", tool, "state:", selectedTool); // DEBUG
+      // Pick (and start moving) the object under the pointer
+      if (tool === "select") {
+        const hit = hitTest(pos);
+        setSelectedObjectId(hit?.id ?? null);
+        if (hit) {
+          activateObjectLayer(hit);
+          dragRef.current = { original: hit, start: pos, moved: false, base: docRef.current };
+          setIsDrawing(true);
+        }
+        return;
+      }
 
-      // Handle text tool - show input overlay
+      // Handle text tool - show input overlay; clicking existing text edits it
       if (tool === "text") {
-        console.log("TEXT TOOL DETECTED - opening input"); // DEBUG
-        setTextPosition(pos);
-        setIsTextInputActive(true);
-        setTextInput("");
+        const hit = hitTest(pos);
+        if (hit?.type === "text") {
+          activateObjectLayer(hit);
+          beginTextInput(pos, hit);
+        } else if (canDrawOnLayer) {
+          beginTextInput(pos);
+        }
         return;
       }
 
@@ -373,375 +569,489 @@ export function FrameSketchEditor({
         return;
       }
 
+      // Hidden and locked layers can't be drawn on
+      if (!canDrawOnLayer) return;
+
       startPosRef.current = pos;
       lastPosRef.current = pos;
+      currentPosRef.current = pos;
       setIsDrawing(true);
 
-      // For pen/eraser, draw initial dot
+      // For pen/eraser, start the stroke with a dot
       if (tool === "pen" || tool === "eraser") {
-        const canvas = canvasRef.current;
-        const ctx = canvas?.getContext("2d");
-        if (!ctx) return;
-
-        ctx.beginPath();
-        ctx.arc(pos.x, pos.y, brushSize[0] / 2, 0, Math.PI * 2);
-        ctx.fillStyle = tool === "eraser" ? CANVAS_BG : selectedColor;
-        ctx.fill();
+        const erase = tool === "eraser";
+        const dynamics = readPenDynamics(e.nativeEvent);
+        lastDynamicsRef.current = dynamics;
+        const stroke: SketchStroke = {
+          type: "stroke",
+          id: createObjectId(),
+          points: [pos.x, pos.y],
+          color: erase ? CANVAS_BG : selectedColor,
+          width: brushSize[0],
+          sketchy: sketchyMode && !erase,
+          seed: createSeed(),
+          erase,
+          ...(dynamics && { pressure: [dynamics.pressure], tilt: [dynamics.tilt] }),
+        };
+        const random = createRandom(stroke.seed);
+        activeStrokeRef.current = { stroke, random, base: docRef.current };
+
+        const ctx = canvasRef.current?.getContext("2d");
+        if (erase) {
+          // Erasing is previewed by re-rendering, so it only shows through to the layers below
+          showDocument(addObject({ ...stroke, points: [...stroke.points] }));
+        } else if (ctx) {
+          ctx.globalAlpha = activeLayer.opacity;
+          drawStrokePoint(ctx, stroke, 0, random);
+          ctx.globalAlpha = 1;
+        }
+      }
+    },
+    [getCanvasCoordinates, hitTest, activateObjectLayer, beginTextInput, canDrawOnLayer, activeLayer, showDocument, addObject, brushSize, selectedColor, sketchyMode]
+  );
+
+  // Add a pointer sample to the stroke in progress. The stabiliser lets the drawn point
+  // trail the pointer, which smooths out jitter (`exact` skips it); returns false for
+  // samples too close to use
+  const appendStrokePoint = useCallback(
+    (pos: { x: number; y: number }, dynamics: PenDynamics | null, exact = false) => {
+      const active = activeStrokeRef.current;
+      const last = lastPosRef.current;
+      if (!active || !last) return false;
+
+      const follow = exact ? 1 : 1 - stabiliser;
+      const point = { x: last.x + (pos.x - last.x) * follow, y: last.y + (pos.y - last.y) * follow };
+      if (Math.hypot(point.x - last.x, point.y - last.y) < 0.5) return false;
+
+      const { stroke } = active;
+      stroke.points.push(point.x, point.y);
+      if (stroke.pressure && stroke.tilt) {
+        const fallback = lastDynamicsRef.current ?? { pressure: 0.5, tilt: 0 };
+        stroke.pressure.push((dynamics ?? fallback).pressure);
+        stroke.tilt.push((dynamics ?? fallback).tilt);
       }
+      lastPosRef.current = point;
+      return true;
     },
-    [getCanvasCoordinates, brushSize, selectedColor]
+    [stabiliser]
   );
 
   // Draw while moving
   const draw = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
       const pos = getCanvasCoordinates(e);
       const tool = selectedToolRef.current; // Use ref
       currentPosRef.current = pos;
       setCursorPos(pos);
 
-      if (!isDrawing || !startPosRef.current) return;
-
-      const canvas = canvasRef.current;
-      const previewCanvas = previewCanvasRef.current;
-      const ctx = canvas?.getContext("2d");
-      const previewCtx = previewCanvas?.getContext("2d");
-      if (!ctx || !previewCtx || !previewCanvas) return;
+      if (!isDrawing) return;
+
+      // Move the selected object with the pointer
+      const drag = dragRef.current;
+      if (tool === "select" && drag) {
+        const dx = pos.x - drag.start.x;
+        const dy = pos.y - drag.start.y;
+        drag.moved = drag.moved || Math.abs(dx) > 1 || Math.abs(dy) > 1;
+        if (!drag.moved) return;
+        const moved = translateObject(drag.original, dx, dy);
+        showDocument(updateObjects(objects => objects.map(o => (o.id === moved.id ? moved : o))));
+        return;
+      }
 
-      // Clear preview canvas (use display size)
-      previewCtx.clearRect(0, 0, 640, 360);
+      if (!startPosRef.current) return;
 
-      const color = tool === "eraser" ? CANVAS_BG : selectedColor;
+      const ctx = canvasRef.current?.getContext("2d");
+      const previewCtx = previewCanvasRef.current?.getContext("2d");
+      if (!ctx || !previewCtx) return;
 
-      if (tool === "pen" || tool === "eraser") {
-        if (lastPosRef.current) {
-          const color = tool === "eraser" ? CANVAS_BG : selectedColor;
-
-          ctx.strokeStyle = color;
-          ctx.lineCap = "round";
-          ctx.lineJoin = "round";
-
-          if (sketchyMode && tool === "pen") {
-            // ENHANCED SKETCHY MODE - Excalidraw-style hand-drawn effect
-            const midX = (lastPosRef.current.x + pos.x) / 2;
-            const midY = (lastPosRef.current.y + pos.y) / 2;
-            
-            // Primary stroke with significant wobble
-            const wobbleAmount = 5 + Math.random() * 3; // 5-8px wobble
-            const wobbleX = midX + (Math.random() - 0.5) * wobbleAmount;
-            const wobbleY = midY + (Math.random() - 0.5) * wobbleAmount;
-            
-            // Vary line width slightly for organic feel
-            ctx.lineWidth = brushSize[0] * (0.9 + Math.random() * 0.2);
-            
-            ctx.beginPath();
-            ctx.moveTo(lastPosRef.current.x, lastPosRef.current.y);
-            ctx.quadraticCurveTo(wobbleX, wobbleY, pos.x, pos.y);
-            ctx.stroke();
-            
-            // Secondary "shadow" stroke for pencil-like depth
-            ctx.globalAlpha = 0.25;
-            ctx.lineWidth = brushSize[0] * 0.6;
-            ctx.beginPath();
-            ctx.moveTo(
-              lastPosRef.current.x + (Math.random() - 0.5) * 3,
-              lastPosRef.current.y + (Math.random() - 0.5) * 3
-            );
-            ctx.quadraticCurveTo(
-              wobbleX + (Math.random() - 0.5) * 4,
-              wobbleY + (Math.random() - 0.5) * 4,
-              pos.x + (Math.random() - 0.5) * 3,
-              pos.y + (Math.random() - 0.5) * 3
-            );
-            ctx.stroke();
-            ctx.globalAlpha = 1;
-            
-          } else {
-            // Clean smooth drawing (Sketchy OFF or Eraser)
-            ctx.lineWidth = brushSize[0];
-            const midX = (lastPosRef.current.x + pos.x) / 2;
-            const midY = (lastPosRef.current.y + pos.y) / 2;
-            
-            ctx.beginPath();
-            ctx.moveTo(lastPosRef.current.x, lastPosRef.current.y);
-            ctx.quadraticCurveTo(midX, midY, pos.x, pos.y);
-            ctx.stroke();
+      // Clear preview canvas (use display size)
+      previewCtx.clearRect(0, 0, sketchWidth, sketchHeight);
+
+      const active = activeStrokeRef.current;
+      if (active) {
+        // Pens report more samples than there are move events; use them all for smooth lines
+        const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+        const samples = coalesced.length > 0 ? coalesced : [e.nativeEvent];
+        const firstNew = active.stroke.points.length / 2;
+        samples.forEach(sample => {
+          const dynamics = readPenDynamics(sample);
+          if (dynamics) lastDynamicsRef.current = dynamics;
+          appendStrokePoint(getCanvasCoordinates(sample), dynamics);
+        });
+        const pointCount = active.stroke.points.length / 2;
+        if (pointCount === firstNew) return;
+
+        if (active.stroke.erase) {
+          showDocument(addObject({ ...active.stroke, points: [...active.stroke.points] }, active.base));
+        } else {
+          // Drawn live; the finished stroke is re-rendered from the same points and seed
+          ctx.globalAlpha = activeLayer?.opacity ?? 1;
+          for (let i = firstNew; i < pointCount; i++) {
+            drawStrokePoint(ctx, active.stroke, i, active.random);
           }
+          ctx.globalAlpha = 1;
         }
-        lastPosRef.current = pos;
-      } else if (tool !== "text" && tool !== "image") {
+      } else if (SHAPE_TOOLS[tool]) {
         // Shape preview on preview canvas
-        previewCtx.strokeStyle = selectedColor;
-        previewCtx.fillStyle = selectedColor;
-        previewCtx.lineWidth = brushSize[0];
-        previewCtx.lineCap = "round";
-        previewCtx.lineJoin = "round";
         previewCtx.globalAlpha = 0.6;
-
-        const startX = startPosRef.current.x;
-        const startY = startPosRef.current.y;
-
-        switch (tool) {
-          case "line":
-            previewCtx.beginPath();
-            previewCtx.moveTo(startX, startY);
-            previewCtx.lineTo(pos.x, pos.y);
-            previewCtx.stroke();
-            break;
-
-          case "rectangle":
-            if (fillShapes) {
-              previewCtx.fillRect(startX, startY, pos.x - startX, pos.y - startY);
-            } else {
-              previewCtx.strokeRect(startX, startY, pos.x - startX, pos.y - startY);
-            }
-            break;
-
-          case "circle":
-            const radiusX = Math.abs(pos.x - startX) / 2;
-            const radiusY = Math.abs(pos.y - startY) / 2;
-            const centerX = startX + (pos.x - startX) / 2;
-            const centerY = startY + (pos.y - startY) / 2;
-            previewCtx.beginPath();
-            previewCtx.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, Math.PI * 2);
-            if (fillShapes) {
-              previewCtx.fill();
-            } else {
-              previewCtx.stroke();
-            }
-            break;
-
-          case "arrow":
-            drawArrow(previewCtx, startX, startY, pos.x, pos.y, selectedColor, brushSize[0]);
-            break;
-        }
-
+        drawShape(previewCtx, {
+          shape: SHAPE_TOOLS[tool]!,
+          x1: startPosRef.current.x,
+          y1: startPosRef.current.y,
+          x2: pos.x,
+          y2: pos.y,
+          color: selectedColor,
+          width: brushSize[0],
+          filled: fillShapes,
+        });
         previewCtx.globalAlpha = 1;
       }
     },
-    [isDrawing, getCanvasCoordinates, brushSize, selectedColor, drawArrow, fillShapes, sketchyMode]
+    [isDrawing, getCanvasCoordinates, appendStrokePoint, showDocument, updateObjects, addObject, activeLayer, brushSize, selectedColor, fillShapes, sketchWidth, sketchHeight]
   );
 
-  // Stop drawing and commit shape
+  const resetDrawingState = useCallback(() => {
+    setIsDrawing(false);
+    startPosRef.current = null;
+    lastPosRef.current = null;
+    currentPosRef.current = null;
+    lastDynamicsRef.current = null;
+    activeStrokeRef.current = null;
+    dragRef.current = null;
+  }, []);
+
+  // Stop drawing and commit the stroke, shape or move
   const stopDrawing = useCallback(() => {
     if (!isDrawing) return;
 
     const tool = selectedToolRef.current; // Use ref
-    const canvas = canvasRef.current;
-    const previewCanvas = previewCanvasRef.current;
-    const ctx = canvas?.getContext("2d");
-    const previewCtx = previewCanvas?.getContext("2d");
-
-    if (ctx && previewCtx && previewCanvas && startPosRef.current) {
-      const endPos = currentPosRef.current || startPosRef.current;
-      if (!endPos) return;
-
-      // Commit shape to main canvas
-      if (tool !== "pen" && tool !== "eraser" && tool !== "text" && tool !== "image") {
-        ctx.strokeStyle = selectedColor;
-        ctx.fillStyle = selectedColor;
-        ctx.lineWidth = brushSize[0];
-        ctx.lineCap = "round";
-        ctx.lineJoin = "round";
-
-        const startX = startPosRef.current.x;
-        const startY = startPosRef.current.y;
-
-        switch (tool) {
-          case "line":
-            ctx.beginPath();
-            ctx.moveTo(startX, startY);
-            ctx.lineTo(endPos.x, endPos.y);
-            ctx.stroke();
-            break;
-
-          case "rectangle":
-            if (fillShapes) {
-              ctx.fillRect(startX, startY, endPos.x - startX, endPos.y - startY);
-            } else {
-              ctx.strokeRect(startX, startY, endPos.x - startX, endPos.y - startY);
-            }
-            break;
-
-          case "circle":
-            const radiusX = Math.abs(endPos.x - startX) / 2;
-            const radiusY = Math.abs(endPos.y - startY) / 2;
-            const centerX = startX + (endPos.x - startX) / 2;
-            const centerY = startY + (endPos.y - startY) / 2;
-            ctx.beginPath();
-            ctx.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, Math.PI * 2);
-            if (fillShapes) {
-              ctx.fill();
-            } else {
-              ctx.stroke();
-            }
-            break;
-
-          case "arrow":
-            drawArrow(ctx, startX, startY, endPos.x, endPos.y, selectedColor, brushSize[0]);
-            break;
+    const drag = dragRef.current;
+    const active = activeStrokeRef.current;
+    const startPos = startPosRef.current;
+
+    if (drag) {
+      if (drag.moved) commitDocument(docRef.current, "Move");
+    } else if (active) {
+      // The stabilised line trails the pointer; finish it where the pointer lifted
+      if (currentPosRef.current) {
+        appendStrokePoint(currentPosRef.current, lastDynamicsRef.current, true);
+      }
+      commitDocument(addObject(active.stroke, active.base), active.stroke.erase ? "Erase" : "Pen stroke");
+    } else if (startPos && SHAPE_TOOLS[tool]) {
+      const endPos = currentPosRef.current || startPos;
+      previewCanvasRef.current?.getContext("2d")?.clearRect(0, 0, sketchWidth, sketchHeight);
+      // A click without a drag draws nothing
+      if (endPos.x !== startPos.x || endPos.y !== startPos.y) {
+        const shape: SketchShape = {
+          type: "shape",
+          id: createObjectId(),
+          shape: SHAPE_TOOLS[tool]!,
+          x1: startPos.x,
+          y1: startPos.y,
+          x2: endPos.x,
+          y2: endPos.y,
+          color: selectedColor,
+          width: brushSize[0],
+          filled: fillShapes,
+        };
+        commitDocument(addObject(shape), TOOLS.find(t => t.id === tool)?.name.split(" ")[0] ?? "Shape");
+      }
+    }
+
+    resetDrawingState();
+  }, [isDrawing, appendStrokePoint, selectedColor, brushSize, fillShapes, commitDocument, addObject, resetDrawingState, sketchWidth, sketchHeight]);
+
+  // Drop a stroke, shape or move in progress, e.g. when a second finger turns it into a pinch
+  const cancelDrawing = useCallback(() => {
+    const base = activeStrokeRef.current?.base ?? dragRef.current?.base ?? docRef.current;
+    previewCanvasRef.current?.getContext("2d")?.clearRect(0, 0, sketchWidth, sketchHeight);
+    // A new object, so live drawing on the canvas is replaced by a fresh render
+    showDocument({ ...base });
+    resetDrawingState();
+  }, [showDocument, resetDrawingState, sketchWidth, sketchHeight]);
+
+  // Double-clicking text with the select tool edits it
+  const handleDoubleClick = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (selectedToolRef.current !== "select") return;
+      const hit = hitTest(getCanvasCoordinates(e));
+      if (hit?.type === "text") beginTextInput({ x: hit.x, y: hit.y }, hit);
+    },
+    [hitTest, getCanvasCoordinates, beginTextInput]
+  );
+
+  // Palm rejection: a resting hand shows up as touches while the pen is down or hovering
+  const isPenActive = useCallback(
+    () => penDownRef.current || Date.now() - penSeenAtRef.current < PEN_TOUCH_GRACE_MS,
+    []
+  );
+
+  // Two touches, relative to the canvas container: their distance and midpoint
+  const getTouchPair = useCallback(() => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    const [a, b] = [...touchPointsRef.current.values()];
+    if (!rect || !a || !b) return null;
+    return {
+      distance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+      mid: { x: (a.x + b.x) / 2 - rect.left, y: (a.y + b.y) / 2 - rect.top },
+    };
+  }, []);
+
+  // Pinch zoom around the fingers' midpoint, panning with it
+  const updateGesture = useCallback(() => {
+    const gesture = gestureRef.current;
+    const pair = getTouchPair();
+    if (!gesture || !pair) return;
+
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, gesture.view.zoom * (pair.distance / gesture.distance)));
+    // Keep the point that was under the fingers under them
+    const contentX = (gesture.mid.x - gesture.view.x) / gesture.view.zoom;
+    const contentY = (gesture.mid.y - gesture.view.y) / gesture.view.zoom;
+    setView({ zoom, x: pair.mid.x - contentX * zoom, y: pair.mid.y - contentY * zoom });
+  }, [getTouchPair]);
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (e.pointerType === "pen") {
+        penDownRef.current = true;
+        penSeenAtRef.current = Date.now();
+      }
+
+      if (e.pointerType === "touch") {
+        if (isPenActive()) return;
+        touchPointsRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+        // A second finger makes this a pan/zoom rather than a stroke
+        if (touchPointsRef.current.size === 2) {
+          if (drawingPointerRef.current !== null) {
+            drawingPointerRef.current = null;
+            cancelDrawing();
+          }
+          const pair = getTouchPair();
+          if (pair) gestureRef.current = { ...pair, view };
+          return;
         }
+        if (touchPointsRef.current.size > 2 || gestureRef.current) return;
       }
 
-      // Clear preview canvas (use display size)
-      previewCtx.clearRect(0, 0, 640, 360);
+      // One drawing pointer at a time, and only the main mouse button
+      if (drawingPointerRef.current !== null) return;
+      if (e.pointerType === "mouse" && e.button !== 0) return;
 
-      // Save to history
-      saveToHistory();
-    }
+      e.currentTarget.setPointerCapture(e.pointerId);
+      drawingPointerRef.current = e.pointerId;
+      startDrawing(e);
+    },
+    [isPenActive, cancelDrawing, getTouchPair, view, startDrawing]
+  );
 
-    setIsDrawing(false);
-    startPosRef.current = null;
-    lastPosRef.current = null;
-    currentPosRef.current = null;
-  }, [isDrawing, selectedColor, brushSize, drawArrow, saveToHistory, fillShapes]);
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (e.pointerType === "pen") penSeenAtRef.current = Date.now();
 
-  // Handle mouse leave
-  const handleMouseLeave = useCallback(() => {
-    setCursorPos(null);
-    if (isDrawing) {
-      stopDrawing();
-    }
-  }, [isDrawing, stopDrawing]);
+      if (touchPointsRef.current.has(e.pointerId)) {
+        touchPointsRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        if (gestureRef.current) {
+          updateGesture();
+          return;
+        }
+      }
 
-  // Handle mouse move on container (for cursor preview)
-  const handleContainerMouseMove = useCallback(
-    (e: React.MouseEvent<HTMLDivElement>) => {
-      const pos = getCanvasCoordinates(e);
-      setCursorPos(pos);
+      if (drawingPointerRef.current === e.pointerId) {
+        draw(e);
+      } else if (drawingPointerRef.current === null && e.pointerType !== "touch") {
+        // Brush preview for a hovering mouse or pen
+        setCursorPos(getCanvasCoordinates(e));
+      }
     },
-    [getCanvasCoordinates]
+    [updateGesture, draw, getCanvasCoordinates]
   );
 
-  // Undo
-  // Undo
-  const handleUndo = useCallback(() => {
-    if (historyIndexRef.current <= 0) return;
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (e.pointerType === "pen") {
+        penDownRef.current = false;
+        penSeenAtRef.current = Date.now();
+      }
 
-    historyIndexRef.current--;
-    const prevState = history[historyIndexRef.current];
-    if (!prevState) return;
+      touchPointsRef.current.delete(e.pointerId);
+      if (gestureRef.current && touchPointsRef.current.size < 2) {
+        gestureRef.current = null;
+      }
 
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext("2d");
-    if (!ctx || !canvas) return;
+      if (drawingPointerRef.current !== e.pointerId) return;
+      drawingPointerRef.current = null;
+      if (e.type === "pointercancel") cancelDrawing();
+      else stopDrawing();
+    },
+    [cancelDrawing, stopDrawing]
+  );
 
-    const img = new Image();
-    img.onload = () => {
-      // Clear using display size
-      ctx.clearRect(0, 0, 640, 360);
-      ctx.drawImage(img, 0, 0, 640, 360);
-    };
-    img.src = prevState;
-  }, [history]);
+  const handlePointerLeave = useCallback(() => {
+    if (drawingPointerRef.current === null) setCursorPos(null);
+  }, []);
 
-  // Redo
-  const handleRedo = useCallback(() => {
-    if (historyIndexRef.current >= history.length - 1) return;
+  const handleStabiliserChange = useCallback((strength: number) => {
+    setStabiliser(strength);
+    localStorage.setItem(STABILISER_STORAGE_KEY, String(strength));
+  }, []);
 
-    historyIndexRef.current++;
-    const nextState = history[historyIndexRef.current];
-    if (!nextState) return;
+  // Restyle the selected object; returns false when nothing is selected
+  const restyleSelection = useCallback(
+    (changes: { color?: string; size?: number; filled?: boolean }) => {
+      const id = selectedObjectId;
+      const selected = getDocumentObjects(docRef.current).find(o => o.id === id);
+      if (!selected || selected.type === "image") return false;
+
+      const restyled: SketchObject = { ...selected };
+      if (changes.color !== undefined && !(restyled.type === "stroke" && restyled.erase)) restyled.color = changes.color;
+      if (changes.size !== undefined) {
+        if (restyled.type === "text") restyled.fontSize = fontSizeFor(changes.size);
+        else restyled.width = changes.size;
+      }
+      if (changes.filled !== undefined && restyled.type === "shape") restyled.filled = changes.filled;
+
+      commitDocument(updateObjects(objects => objects.map(o => (o.id === id ? restyled : o))), "Restyle");
+      return true;
+    },
+    [selectedObjectId, commitDocument, updateObjects]
+  );
 
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext("2d");
-    if (!ctx || !canvas) return;
+  const deleteSelection = useCallback(() => {
+    if (!selectedObjectId) return;
+    commitDocument(updateObjects(objects => objects.filter(o => o.id !== selectedObjectId)), "Delete");
+    setSelectedObjectId(null);
+  }, [selectedObjectId, commitDocument, updateObjects]);
 
-    const img = new Image();
-    img.onload = () => {
-      // Clear using display size
-      ctx.clearRect(0, 0, 640, 360);
-      ctx.drawImage(img, 0, 0, 640, 360);
-    };
-    img.src = nextState;
-  }, [history]);
+  // Undo
+  const handleUndo = useCallback(() => {
+    if (historySession) jumpToHistory(historySession.index - 1);
+  }, [historySession, jumpToHistory]);
 
-  // Clear canvas
-  const clearCanvas = useCallback(() => {
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext("2d");
-    if (!ctx || !canvas) return;
+  // Redo
+  const handleRedo = useCallback(() => {
+    if (historySession) jumpToHistory(historySession.index + 1);
+  }, [historySession, jumpToHistory]);
 
-    // Use display size (640x360), not actual canvas size
-    drawGrid(ctx, 640, 360);
-    saveToHistory();
-  }, [drawGrid, saveToHistory]);
+  // Saved states are remembered so reopening the frame resumes its history
+  const checkpointHistory = useCallback(() => {
+    if (frameId) addHistoryCheckpoint(frameId, docRef.current);
+  }, [frameId, addHistoryCheckpoint]);
+
+  // Clear canvas (locked layers keep their drawing)
+  const clearCanvas = useCallback(() => {
+    setSelectedObjectId(null);
+    commitDocument(updateObjects(() => []), "Clear");
+  }, [commitDocument, updateObjects]);
+
+  // Layer stack edits are undoable like drawing
+  const handleAddLayer = useCallback(() => {
+    const doc = docRef.current;
+    const names = new Set(doc.layers.map(l => l.name));
+    let n = doc.layers.length + 1;
+    while (names.has(`Layer ${n}`)) n++;
+
+    const layer = createLayer(`Layer ${n}`);
+    // Added just above the active layer
+    const index = activeLayer ? doc.layers.findIndex(l => l.id === activeLayer.id) + 1 : doc.layers.length;
+    commitDocument({ ...doc, layers: [...doc.layers.slice(0, index), layer, ...doc.layers.slice(index)] }, "Add layer");
+    setActiveLayerId(layer.id);
+  }, [activeLayer, commitDocument]);
+
+  const handleDeleteLayer = useCallback((layerId: string) => {
+    const doc = docRef.current;
+    const index = doc.layers.findIndex(l => l.id === layerId);
+    if (index < 0 || doc.layers.length <= 1) return;
+
+    if (selectedObjectId && doc.layers[index].objects.some(o => o.id === selectedObjectId)) {
+      setSelectedObjectId(null);
+    }
+    const layers = doc.layers.filter(l => l.id !== layerId);
+    commitDocument({ ...doc, layers }, "Delete layer");
+    setActiveLayerId(layers[Math.max(0, index - 1)].id);
+  }, [selectedObjectId, commitDocument]);
+
+  const handleMoveLayer = useCallback((layerId: string, direction: 1 | -1) => {
+    const doc = docRef.current;
+    const index = doc.layers.findIndex(l => l.id === layerId);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= doc.layers.length) return;
+
+    const layers = [...doc.layers];
+    [layers[index], layers[target]] = [layers[target], layers[index]];
+    commitDocument({ ...doc, layers }, "Reorder layers");
+  }, [commitDocument]);
+
+  const handleLayerChange = useCallback(
+    (layerId: string, changes: Partial<Omit<SketchLayer, "id" | "objects">>, record = true) => {
+      const next = updateLayer(docRef.current, layerId, layer => ({ ...layer, ...changes }));
+      if (record) commitDocument(next, layerChangeLabel(changes));
+      else showDocument(next);
+
+      // Hidden and locked layers can't hold the selection
+      const layer = next.layers.find(l => l.id === layerId);
+      if (layer && (!layer.visible || layer.locked) && layer.objects.some(o => o.id === selectedObjectId)) {
+        setSelectedObjectId(null);
+      }
+    },
+    [selectedObjectId, commitDocument, showDocument]
+  );
 
   // Save draft (without polish)
   const handleSave = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    // The saved sketch is the flattened layers, without the editor's grid
+    const dataUrl = flattenSketchDocument(docRef.current, imageCacheRef.current, { pixelRatio: window.devicePixelRatio || 1 });
+    if (!dataUrl) return;
 
     // Show save confirmation
     setShowSaveConfirmation(true);
 
+    checkpointHistory();
     setTimeout(() => {
-      const dataUrl = canvas.toDataURL("image/png");
-      onSave(dataUrl, false, motionNotes, animationStyle);
+      onSave(dataUrl, false, motionNotes, animationStyle, undefined, docRef.current);
       setShowSaveConfirmation(false);
       onClose();
     }, 400);
-  }, [onSave, onClose, motionNotes, animationStyle]);
-
-  // Canvas validation - check if canvas is empty
-  const isCanvasEmpty = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return true;
-
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return true;
-
-    // Sample pixels to check if anything was drawn
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const pixels = imageData.data;
-
-    // Count non-background pixels (not the dark blue grid background)
-    let drawnPixels = 0;
-    for (let i = 0; i < pixels.length; i += 4) {
-      const r = pixels[i];
-      const g = pixels[i + 1];
-      const b = pixels[i + 2];
-      // Skip if it's the background color (#1a1a2e) or grid dots
-      if (!(r === 26 && g === 26 && b === 46) && !(r < 30 && g < 30 && b < 50)) {
-        drawnPixels++;
-      }
-    }
-
-    // If less than 0.5% of canvas has drawing, consider it empty
-    const totalPixels = canvas.width * canvas.height;
-    return (drawnPixels / totalPixels) < 0.005;
-  }, []);
+  }, [onSave, onClose, motionNotes, animationStyle, checkpointHistory]);
 
-  // Start Polish Flow - Capture Canvas FIRST
+  // Start Polish Flow - Capture the sketch FIRST
   const handleStartPolish = useCallback(() => {
-    // Validate canvas has content
-    if (isCanvasEmpty()) {
-      setPolishError("Draw something first! Your canvas is empty.");
+    const doc = docRef.current;
+
+    // Validate there is something to polish; notes-only layers don't count
+    if (!hasVisibleContent(doc, { excludeNotes: true })) {
+      setPolishError(
+        hasVisibleContent(doc)
+          ? "Only notes layers have drawing on them. Draw on another layer to polish."
+          : "Draw something first! Your canvas is empty."
+      );
       return;
     }
 
-    // Capture current canvas state BEFORE changing anything
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    // Capture the flattened sketch BEFORE changing anything
+    const pixelRatio = window.devicePixelRatio || 1;
+    const sketchData = flattenSketchDocument(doc, imageCacheRef.current, { pixelRatio });
+    const polishData = flattenSketchDocument(doc, imageCacheRef.current, { pixelRatio, excludeNotes: true });
+    if (!sketchData || !polishData) return;
 
-    const sketchData = canvas.toDataURL("image/png");
     setOriginalSketchData(sketchData);
+    setPolishSourceData(polishData);
     setPolishError(null);
 
     // Go to style selection
     setStage("style-select");
-  }, [isCanvasEmpty]);
+  }, []);
 
   // Execute Polish with Selected Style
   const handleExecutePolish = useCallback(async () => {
-    if (!originalSketchData) return;
+    if (!polishSourceData) return;
 
     setStage("polishing");
 
     const styleConfig = POLISH_STYLES.find(s => s.id === selectedStyle);
 
     try {
-      const result = await polishSketchWithStyle(originalSketchData, styleConfig?.prompt || "");
+      const result = await polishSketchWithStyle(polishSourceData, styleConfig?.prompt || "", aspectRatio);
 
       if (result) {
         setPolishedImageData(result);
@@ -755,62 +1065,12 @@ export function FrameSketchEditor({
       setPolishError(error instanceof Error ? error.message : "Failed to polish. Please try again.");
       setStage("drawing");
     }
-  }, [originalSketchData, selectedStyle]);
+  }, [polishSourceData, selectedStyle, aspectRatio]);
 
-  // Back to Drawing - RESTORE Canvas from saved data
+  // Back to Drawing - the canvas is re-rendered from the document when it remounts
   const handleBackToDrawing = useCallback(() => {
     setStage("drawing");
-    
-    // Restore canvas from originalSketchData after React re-renders
-    // Use requestAnimationFrame + setTimeout to ensure canvas is fully mounted and sized
-    setTimeout(() => {
-      requestAnimationFrame(() => {
-        if (originalSketchData && canvasRef.current) {
-          const canvas = canvasRef.current;
-          const ctx = canvas.getContext("2d");
-          if (!ctx) return;
-          
-          const dpr = window.devicePixelRatio || 1;
-          const displayWidth = 640;
-          const displayHeight = 360;
-          
-          // Ensure canvas dimensions are correct (may have been reset on remount)
-          if (canvas.width !== displayWidth * dpr || canvas.height !== displayHeight * dpr) {
-            canvas.width = displayWidth * dpr;
-            canvas.height = displayHeight * dpr;
-          }
-          
-          const img = new Image();
-          img.onload = () => {
-            // Get fresh context after potential canvas resize
-            const drawCtx = canvas.getContext("2d");
-            if (!drawCtx) return;
-            
-            // Use save/restore pattern like the initialization code
-            drawCtx.save();
-            drawCtx.setTransform(dpr, 0, 0, dpr, 0, 0);
-            
-            // Draw grid background first
-            drawCtx.fillStyle = "#1a1a2e";
-            drawCtx.fillRect(0, 0, displayWidth, displayHeight);
-            drawCtx.fillStyle = "rgba(255, 255, 255, 0.1)";
-            for (let x = 0; x < displayWidth; x += 20) {
-              for (let y = 0; y < displayHeight; y += 20) {
-                drawCtx.beginPath();
-                drawCtx.arc(x, y, 1, 0, Math.PI * 2);
-                drawCtx.fill();
-              }
-            }
-            
-            // Draw the restored sketch on top
-            drawCtx.drawImage(img, 0, 0, displayWidth, displayHeight);
-            drawCtx.restore();
-          };
-          img.src = originalSketchData;
-        }
-      });
-    }, 100); // Increased timeout to ensure useEffect completes first
-  }, [originalSketchData]);
+  }, []);
 
   // Back to Style Select
   const handleBackToStyleSelect = useCallback(() => {
@@ -821,102 +1081,92 @@ export function FrameSketchEditor({
 
   // Save Original (from any stage)
   const handleSaveOriginal = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    const dataUrl = originalSketchData || flattenSketchDocument(docRef.current, imageCacheRef.current, { pixelRatio: window.devicePixelRatio || 1 });
+    if (!dataUrl) return;
 
-    const dataUrl = originalSketchData || canvas.toDataURL("image/png");
-    onSave(dataUrl, false, motionNotes, animationStyle);
+    checkpointHistory();
+    onSave(dataUrl, false, motionNotes, animationStyle, undefined, docRef.current);
     handleClose();
-  }, [originalSketchData, onSave, motionNotes, animationStyle]);
+  }, [originalSketchData, onSave, motionNotes, animationStyle, checkpointHistory]);
 
   // Save Polished Version
   const handleSavePolished = useCallback(() => {
     if (polishedImageData && originalSketchData) {
       // Pass both polished image and original sketch data
-      onSave(polishedImageData, true, motionNotes, animationStyle, originalSketchData);
+      checkpointHistory();
+      onSave(polishedImageData, true, motionNotes, animationStyle, originalSketchData, docRef.current);
     }
     handleClose();
-  }, [polishedImageData, originalSketchData, onSave, motionNotes, animationStyle]);
+  }, [polishedImageData, originalSketchData, onSave, motionNotes, animationStyle, checkpointHistory]);
 
   // Handle Close Properly
   const handleClose = useCallback(() => {
     // Reset all polish state when closing
     setStage("drawing");
     setOriginalSketchData(null);
+    setPolishSourceData(null);
     setPolishedImageData(null);
     setPolishError(null);
     onClose();
   }, [onClose]);
 
-  // Handle text submission
-  const handleTextSubmit = useCallback(() => {
-    if (!textInput.trim() || !textPosition) {
-      setIsTextInputActive(false);
-      setTextPosition(null);
-      setTextInput("");
-      return;
-    }
-
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext("2d");
-    if (!ctx) return;
-
-    // Font size based on brush size: S=18, M=28, L=42
-    const fontSize = brushSize[0] === 3 ? 18 : brushSize[0] === 8 ? 28 : 42;
-    
-    ctx.font = `bold ${fontSize}px system-ui, -apple-system, sans-serif`;
-    ctx.fillStyle = selectedColor;
-    ctx.textBaseline = "top";
-    ctx.fillText(textInput, textPosition.x, textPosition.y);
-
-    saveToHistory();
+  const closeTextInput = useCallback(() => {
     setIsTextInputActive(false);
     setTextPosition(null);
     setTextInput("");
-  }, [textInput, textPosition, brushSize, selectedColor, saveToHistory]);
+    setEditingTextId(null);
+  }, []);
 
-  // Handle image upload
-  const handleImageUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext("2d");
-    if (!ctx || !canvas) return;
-
-    const img = new window.Image();
-    img.onload = () => {
-      // Scale image to fit nicely on canvas
-      const maxWidth = 500;
-      const maxHeight = 300;
-      
-      let width = img.width;
-      let height = img.height;
-      
-      if (width > maxWidth || height > maxHeight) {
-        const ratio = Math.min(maxWidth / width, maxHeight / height);
-        width = Math.round(width * ratio);
-        height = Math.round(height * ratio);
+  // Handle text submission: add a text object, or update (or remove, when emptied) the edited one
+  const handleTextSubmit = useCallback(() => {
+    const text = textInput.trim();
+    const editing = getDocumentObjects(docRef.current).find(o => o.id === editingTextId);
+
+    if (editing?.type === "text") {
+      if (text !== editing.text) {
+        commitDocument(updateObjects(objects => text
+          ? objects.map(o => (o.id === editing.id ? { ...editing, text } : o))
+          : objects.filter(o => o.id !== editing.id)), text ? "Edit text" : "Delete text");
       }
+    } else if (text && textPosition) {
+      const object: SketchText = {
+        type: "text",
+        id: createObjectId(),
+        x: textPosition.x,
+        y: textPosition.y,
+        text,
+        color: selectedColor,
+        fontSize: fontSizeFor(brushSize[0]),
+      };
+      commitDocument(addObject(object), "Text");
+    }
 
-      // Center on canvas
-      const x = (640 - width) / 2;
-      const y = (360 - height) / 2;
-      
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = "high";
-      ctx.drawImage(img, x, y, width, height);
-      
-      saveToHistory();
-      URL.revokeObjectURL(img.src);
-    };
-    
-    img.src = URL.createObjectURL(file);
-    
+    closeTextInput();
+  }, [textInput, textPosition, editingTextId, brushSize, selectedColor, commitDocument, updateObjects, addObject, closeTextInput]);
+
+  // Handle image upload: the picture becomes an image object that can be moved afterwards
+  const handleImageUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
-  }, [saveToHistory]);
+    if (!file || !canDrawOnLayer) return;
+
+    const url = URL.createObjectURL(file);
+    try {
+      // Scale image to fit nicely on canvas (with a margin)
+      const object = createImageObject(await loadImage(url), { width: sketchWidth, height: sketchHeight }, { fit: 0.8 });
+      if (!object) return;
+      await loadSketchImages([object], imageCacheRef.current);
+      commitDocument(addObject(object), "Image");
+      setSelectedTool("select");
+      setSelectedObjectId(object.id);
+    } catch (err) {
+      console.error("[SketchEditor] Failed to add image:", err);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }, [commitDocument, addObject, canDrawOnLayer, sketchWidth, sketchHeight]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -926,8 +1176,7 @@ export function FrameSketchEditor({
       // Don't handle shortcuts when text input is active
       if (isTextInputActive) {
         if (e.key === "Escape") {
-          setIsTextInputActive(false);
-          setTextPosition(null);
+          closeTextInput();
         }
         return;
       }
@@ -945,6 +1194,12 @@ export function FrameSketchEditor({
         e.preventDefault();
         handleRedo();
       }
+      if (selectedObjectId && (e.key === "Delete" || e.key === "Backspace")) {
+        e.preventDefault();
+        deleteSelection();
+      }
+      if (e.key === "Escape") setSelectedObjectId(null);
+      if (e.key === "v") setSelectedTool("select");
       if (e.key === "1") setSelectedTool("pen");
       if (e.key === "2") setSelectedTool("line");
       if (e.key === "3") setSelectedTool("rectangle");
@@ -958,7 +1213,7 @@ export function FrameSketchEditor({
     };
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [open, handleUndo, handleRedo, isTextInputActive]);
+  }, [open, handleUndo, handleRedo, isTextInputActive, closeTextInput, selectedObjectId, deleteSelection]);
 
   if (!open || !frame) return null;
 
@@ -982,7 +1237,7 @@ export function FrameSketchEditor({
             initial={{ scale: 0.95, opacity: 0 }}
             animate={{ scale: 1, opacity: 1 }}
             exit={{ scale: 0.95, opacity: 0 }}
-            className="relative w-full max-w-4xl"
+            className="relative w-full max-w-5xl"
           >
             <GlassCard className="max-h-[90vh] flex flex-col overflow-hidden">
               {/* Header - fixed */}
@@ -1066,6 +1321,7 @@ export function FrameSketchEditor({
                               <button
                                 onClick={() => {
                                   setSelectedColor(color.value);
+                                  restyleSelection({ color: color.value });
                                   if (selectedTool === "eraser") {
                                     setSelectedTool("pen");
                                   }
@@ -1096,7 +1352,10 @@ export function FrameSketchEditor({
                       ].map((option) => (
                         <button
                           key={option.label}
-                          onClick={() => setBrushSize([option.size])}
+                          onClick={() => {
+                            setBrushSize([option.size]);
+                            restyleSelection({ size: option.size });
+                          }}
                           className={cn(
                             "w-7 h-7 rounded-lg text-xs font-bold transition-all",
                             brushSize[0] === option.size
@@ -1109,7 +1368,10 @@ export function FrameSketchEditor({
                       ))}
                       {/* Fill toggle */}
                       <button
-                        onClick={() => setFillShapes(!fillShapes)}
+                        onClick={() => {
+                          setFillShapes(!fillShapes);
+                          restyleSelection({ filled: !fillShapes });
+                        }}
                         className={cn(
                           "px-2 h-7 rounded-lg text-xs font-medium transition-all flex items-center gap-1",
                           fillShapes
@@ -1132,6 +1394,27 @@ export function FrameSketchEditor({
                       >
                         ✏️ Sketchy
                       </button>
+                      {/* Stabiliser: cycles Off → Low → Med → High */}
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <button
+                            onClick={() => {
+                              const index = STABILISER_OPTIONS.findIndex(o => o.strength === stabiliser);
+                              handleStabiliserChange(STABILISER_OPTIONS[(index + 1) % STABILISER_OPTIONS.length].strength);
+                            }}
+                            className={cn(
+                              "px-2 h-7 rounded-lg text-xs font-medium transition-all flex items-center gap-1",
+                              stabiliser > 0
+                                ? "bg-sm-soft-purple text-white"
+                                : "bg-white/10 text-white/60 hover:bg-white/20"
+                            )}
+                          >
+                            <Spline className="w-3 h-3" />
+                            {STABILISER_OPTIONS.find(o => o.strength === stabiliser)?.label}
+                          </button>
+                        </TooltipTrigger>
+                        <TooltipContent>Stroke stabiliser (smooths shaky lines)</TooltipContent>
+                      </Tooltip>
                     </div>
 
                     {/* Spacer */}
@@ -1143,7 +1426,7 @@ export function FrameSketchEditor({
                         <TooltipTrigger asChild>
                           <button
                             onClick={handleUndo}
-                            disabled={historyIndexRef.current <= 0}
+                            disabled={!historySession || historySession.index <= 0}
                             className="bg-white/15 border border-white/30 text-white hover:bg-white/25 px-3 py-1.5 rounded-lg flex items-center gap-1.5 text-sm font-medium disabled:opacity-30 disabled:cursor-not-allowed transition-all"
                           >
                             <Undo2 className="w-4 h-4" />
@@ -1157,7 +1440,7 @@ export function FrameSketchEditor({
                         <TooltipTrigger asChild>
                           <button
                             onClick={handleRedo}
-                            disabled={historyIndexRef.current >= history.length - 1}
+                            disabled={!historySession || historySession.index >= historySession.changes.length}
                             className="bg-white/15 border border-white/30 text-white hover:bg-white/25 px-3 py-1.5 rounded-lg flex items-center gap-1.5 text-sm font-medium disabled:opacity-30 disabled:cursor-not-allowed transition-all"
                           >
                             <Redo2 className="w-4 h-4" />
@@ -1191,136 +1474,168 @@ export function FrameSketchEditor({
                     </div>
                   </div>
 
-                  {/* Canvas Container */}
-                  <div
-                    ref={containerRef}
-                    className="relative rounded-xl bg-sm-charcoal/50"
-                    onMouseMove={handleContainerMouseMove}
-                    onMouseLeave={() => setCursorPos(null)}
-                  >
-                    {/* Main Canvas */}
-                    <canvas
-                      ref={canvasRef}
-                      className="w-full block"
-                      style={{ aspectRatio: "16/9", cursor: "none" }}
-                      onMouseDown={startDrawing}
-                      onMouseMove={draw}
-                      onMouseUp={stopDrawing}
-                      onMouseLeave={handleMouseLeave}
-                    />
-
-                    {/* Preview Canvas (for shape previews) */}
-                    <canvas
-                      ref={previewCanvasRef}
-                      className="absolute inset-0 w-full h-full pointer-events-none"
-                      style={{ aspectRatio: "16/9" }}
-                    />
-
-                    {/* Vignette overlay */}
+                  <div className="flex gap-3 items-start">
+                    {/* Canvas Container */}
                     <div
-                      className="absolute inset-0 pointer-events-none rounded-xl"
-                      style={{
-                        background: "radial-gradient(ellipse at center, transparent 50%, rgba(0,0,0,0.3) 100%)"
-                      }}
-                    />
-
-                    {/* Active tool indicator */}
-                    <div className="absolute bottom-3 left-3 px-2.5 py-1 rounded-md bg-black/50 backdrop-blur-sm">
-                      <span className="text-xs text-white/70 font-medium">
-                        {TOOLS.find(t => t.id === selectedTool)?.name.split(" ")[0]}
-                        {selectedTool !== "pen" && selectedTool !== "eraser" && selectedTool !== "text" && selectedTool !== "image" && fillShapes && " (Filled)"}
-                        {sketchyMode && selectedTool === "pen" && " ✏️"}
-                      </span>
-                    </div>
-
-                    {/* Zoom indicator */}
-                    <div className="absolute bottom-3 right-3 px-2.5 py-1 rounded-md bg-black/50 backdrop-blur-sm">
-                      <span className="text-xs text-white/70 font-mono">100%</span>
-                    </div>
-
-                    {/* Text input overlay */}
-                    {isTextInputActive && textPosition && (
+                      ref={containerRef}
+                      className="relative flex-1 min-w-0 rounded-xl bg-sm-charcoal/50 overflow-hidden"
+                      style={aspectRatioStyle(aspectRatio, "65vh")}
+                    >
+                      {/* Drawing surface, panned and zoomed with two fingers */}
                       <div
-                        className="absolute"
-                        style={{
-                          left: `${(textPosition.x / 640) * 100}%`,
-                          top: `${(textPosition.y / 360) * 100}%`,
-                          zIndex: 9999,
-                        }}
+                        className="relative origin-top-left"
+                        style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
                       >
-                        <input
-                          type="text"
-                          autoFocus
-                          value={textInput}
-                          onChange={(e) => setTextInput(e.target.value)}
-                          onKeyDown={(e) => {
-                            if (e.key === "Enter") {
-                              e.preventDefault();
-                              handleTextSubmit();
-                            } else if (e.key === "Escape") {
-                              setIsTextInputActive(false);
-                              setTextPosition(null);
-                              setTextInput("");
-                            }
-                          }}
-                          onBlur={() => {
-                            if (textInput.trim()) {
-                              handleTextSubmit();
-                            } else {
-                              setIsTextInputActive(false);
-                              setTextPosition(null);
-                            }
-                          }}
-                          placeholder="Type here..."
+                        {/* Main Canvas */}
+                        <canvas
+                          ref={canvasRef}
+                          className="w-full block"
                           style={{
-                            fontSize: brushSize[0] === 3 ? 18 : brushSize[0] === 8 ? 28 : 42,
-                            color: selectedColor,
-                            backgroundColor: 'rgba(0, 0, 0, 0.95)',
-                            border: '3px solid #FF3D8F',
-                            borderRadius: '8px',
-                            padding: '8px 12px',
-                            outline: 'none',
-                            minWidth: '200px',
-                            boxShadow: '0 0 30px rgba(255, 61, 143, 0.6), 0 4px 20px rgba(0,0,0,0.5)',
+                            aspectRatio: cssAspectRatio(aspectRatio),
+                            cursor: selectedTool === "select" ? "default" : canDrawOnLayer ? "none" : "not-allowed",
+                            // Touch draws and pinches here instead of scrolling the page
+                            touchAction: "none",
                           }}
+                          onPointerDown={handlePointerDown}
+                          onPointerMove={handlePointerMove}
+                          onPointerUp={handlePointerUp}
+                          onPointerCancel={handlePointerUp}
+                          onPointerLeave={handlePointerLeave}
+                          onDoubleClick={handleDoubleClick}
                         />
-                      </div>
-                    )}
-
-                    {/* Save confirmation overlay */}
-                    <AnimatePresence>
-                      {showSaveConfirmation && (
-                        <motion.div
-                          initial={{ opacity: 0, scale: 0.8 }}
-                          animate={{ opacity: 1, scale: 1 }}
-                          exit={{ opacity: 0, scale: 0.8 }}
-                          className="absolute inset-0 flex items-center justify-center bg-black/40 backdrop-blur-sm rounded-xl"
-                        >
-                          <div className="bg-sm-mint/20 border border-sm-mint/40 rounded-xl px-6 py-4 flex items-center gap-3">
-                            <Check className="w-8 h-8 text-sm-mint" />
-                            <span className="text-xl font-bold text-white">Saved!</span>
+
+                        {/* Preview Canvas (for shape previews) */}
+                        <canvas
+                          ref={previewCanvasRef}
+                          className="absolute inset-0 w-full h-full pointer-events-none"
+                          style={{ aspectRatio: cssAspectRatio(aspectRatio) }}
+                        />
+
+                        {/* Text input overlay */}
+                        {isTextInputActive && textPosition && (
+                          <div
+                            className="absolute"
+                            style={{
+                              left: `${(textPosition.x / sketchWidth) * 100}%`,
+                              top: `${(textPosition.y / sketchHeight) * 100}%`,
+                              zIndex: 9999,
+                            }}
+                          >
+                            <input
+                              type="text"
+                              autoFocus
+                              value={textInput}
+                              onChange={(e) => setTextInput(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") {
+                                  e.preventDefault();
+                                  handleTextSubmit();
+                                } else if (e.key === "Escape") {
+                                  closeTextInput();
+                                }
+                              }}
+                              onBlur={handleTextSubmit}
+                              placeholder="Type here..."
+                              style={{
+                                fontSize: fontSizeFor(brushSize[0]),
+                                color: selectedColor,
+                                backgroundColor: 'rgba(0, 0, 0, 0.95)',
+                                border: '3px solid #FF3D8F',
+                                borderRadius: '8px',
+                                padding: '8px 12px',
+                                outline: 'none',
+                                minWidth: '200px',
+                                boxShadow: '0 0 30px rgba(255, 61, 143, 0.6), 0 4px 20px rgba(0,0,0,0.5)',
+                              }}
+                            />
                           </div>
-                        </motion.div>
-                      )}
-                    </AnimatePresence>
+                        )}
+
+                        {/* Cursor Preview */}
+                        {cursorPos && selectedTool !== "select" && canDrawOnLayer && (
+                          <div
+                            className="absolute pointer-events-none rounded-full border-2 border-white/60"
+                            style={{
+                              left: `${(cursorPos.x / sketchWidth) * 100}%`,
+                              top: `${(cursorPos.y / sketchHeight) * 100}%`,
+                              width: brushSize[0] * (containerRef.current?.offsetWidth || sketchWidth) / sketchWidth,
+                              height: brushSize[0] * (containerRef.current?.offsetWidth || sketchWidth) / sketchWidth,
+                              transform: "translate(-50%, -50%)",
+                              backgroundColor:
+                                selectedTool === "eraser"
+                                  ? "rgba(26, 26, 46, 0.5)"
+                                  : `${selectedColor}40`,
+                            }}
+                          />
+                        )}
+                      </div>
 
-                    {/* Cursor Preview */}
-                    {cursorPos && (
+                      {/* Vignette overlay */}
                       <div
-                        className="absolute pointer-events-none rounded-full border-2 border-white/60"
+                        className="absolute inset-0 pointer-events-none rounded-xl"
                         style={{
-                          left: `${(cursorPos.x / 640) * 100}%`,
-                          top: `${(cursorPos.y / 360) * 100}%`,
-                          width: brushSize[0] * (containerRef.current?.offsetWidth || 640) / 640,
-                          height: brushSize[0] * (containerRef.current?.offsetWidth || 640) / 640,
-                          transform: "translate(-50%, -50%)",
-                          backgroundColor:
-                            selectedTool === "eraser"
-                              ? "rgba(26, 26, 46, 0.5)"
-                              : `${selectedColor}40`,
+                          background: "radial-gradient(ellipse at center, transparent 50%, rgba(0,0,0,0.3) 100%)"
                         }}
                       />
-                    )}
+
+                      {/* Active tool indicator */}
+                      <div className="absolute bottom-3 left-3 px-2.5 py-1 rounded-md bg-black/50 backdrop-blur-sm">
+                        <span className="text-xs text-white/70 font-medium">
+                          {TOOLS.find(t => t.id === selectedTool)?.name.split(" ")[0]}
+                          {SHAPE_TOOLS[selectedTool] && fillShapes && " (Filled)"}
+                          {sketchyMode && selectedTool === "pen" && " ✏️"}
+                          {activeLayer && (
+                            <span className="text-white/40">
+                              {" · "}{activeLayer.name}
+                              {activeLayer.locked ? " (Locked)" : !activeLayer.visible ? " (Hidden)" : ""}
+                            </span>
+                          )}
+                        </span>
+                      </div>
+
+                      {/* Zoom indicator; resets the view */}
+                      <button
+                        onClick={() => setView(DEFAULT_VIEW)}
+                        className="absolute bottom-3 right-3 px-2.5 py-1 rounded-md bg-black/50 backdrop-blur-sm hover:bg-black/70 transition-colors"
+                        title="Reset zoom"
+                      >
+                        <span className="text-xs text-white/70 font-mono">{Math.round(view.zoom * 100)}%</span>
+                      </button>
+
+                      {/* Save confirmation overlay */}
+                      <AnimatePresence>
+                        {showSaveConfirmation && (
+                          <motion.div
+                            initial={{ opacity: 0, scale: 0.8 }}
+                            animate={{ opacity: 1, scale: 1 }}
+                            exit={{ opacity: 0, scale: 0.8 }}
+                            className="absolute inset-0 flex items-center justify-center bg-black/40 backdrop-blur-sm rounded-xl"
+                          >
+                            <div className="bg-sm-mint/20 border border-sm-mint/40 rounded-xl px-6 py-4 flex items-center gap-3">
+                              <Check className="w-8 h-8 text-sm-mint" />
+                              <span className="text-xl font-bold text-white">Saved!</span>
+                            </div>
+                          </motion.div>
+                        )}
+                      </AnimatePresence>
+
+                    </div>
+
+                    <div className="flex flex-col gap-3">
+                      {/* Layers */}
+                      <SketchLayersPanel
+                        layers={sketchDoc.layers}
+                        activeLayerId={activeLayer?.id ?? null}
+                        onSelect={setActiveLayerId}
+                        onAdd={handleAddLayer}
+                        onDelete={handleDeleteLayer}
+                        onMove={handleMoveLayer}
+                        onChange={handleLayerChange}
+                      />
+
+                      {/* Undo history */}
+                      <SketchHistoryPanel session={historySession} onJump={jumpToHistory} />
+                    </div>
                   </div>
 
                   {/* Motion Notes Section - compact */}
@@ -1407,7 +1722,7 @@ export function FrameSketchEditor({
                     {/* Preview of original sketch */}
                     <div className="mb-6">
                       <p className="text-xs text-white/50 uppercase tracking-wider mb-2">Your Sketch</p>
-                      <div className="aspect-video max-w-sm mx-auto rounded-xl overflow-hidden border border-white/10 bg-sm-charcoal">
+                      <div className="rounded-xl overflow-hidden border border-white/10 bg-sm-charcoal" style={aspectRatioStyle(aspectRatio, "13.5rem")}>
                         {originalSketchData && (
                           <img src={originalSketchData} alt="Your sketch" className="w-full h-full object-contain" />
                         )}
@@ -1481,7 +1796,7 @@ export function FrameSketchEditor({
                       {/* Original */}
                       <div className="space-y-3">
                         <p className="text-center text-sm font-medium text-white/70">Your Sketch</p>
-                        <div className="aspect-video rounded-xl overflow-hidden border border-white/20 bg-sm-charcoal">
+                        <div className="rounded-xl overflow-hidden border border-white/20 bg-sm-charcoal" style={aspectRatioStyle(aspectRatio, "50vh")}>
                           {originalSketchData && (
                             <img src={originalSketchData} alt="Original" className="w-full h-full object-contain" />
                           )}
@@ -1493,7 +1808,7 @@ export function FrameSketchEditor({
                         <p className="text-center text-sm font-medium text-emerald-400">
                           AI {POLISH_STYLES.find(s => s.id === selectedStyle)?.label}
                         </p>
-                        <div className="aspect-video rounded-xl overflow-hidden border-2 border-emerald-400/50 bg-sm-charcoal shadow-lg shadow-emerald-500/10">
+                        <div className="rounded-xl overflow-hidden border-2 border-emerald-400/50 bg-sm-charcoal shadow-lg shadow-emerald-500/10" style={aspectRatioStyle(aspectRatio, "50vh")}>
                           {polishedImageData && (
                             <img src={polishedImageData} alt="Polished" className="w-full h-full object-contain" />
                           )}
@@ -0,0 +1,65 @@
+import { ListFilter } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FRAME_STATUSES, FrameStatus } from "@/lib/frameStatus";
+import { cn } from "@/lib/utils";
+
+interface FrameStatusFilterProps {
+  // Highlighted status; null shows every frame normally
+  value: FrameStatus | null;
+  counts: Record<FrameStatus, number>;
+  onChange: (status: FrameStatus | null) => void;
+  title?: string;
+}
+
+const ALL = "all";
+
+/**
+ * Header control that highlights frames in one workflow status and fades out the rest
+ */
+export function FrameStatusFilter({ value, counts, onChange, title = "Filter by status" }: FrameStatusFilterProps) {
+  const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={cn(
+            "relative p-2 rounded-lg transition-colors",
+            value ? "bg-white/10" : "hover:bg-white/10"
+          )}
+          title={title}
+        >
+          <ListFilter className="w-5 h-5 text-white/80" />
+          {value && <div className="absolute top-1 right-1 w-2 h-2 rounded-full bg-sm-pink" />}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Frame status</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={value ?? ALL}
+          onValueChange={(next) => onChange(next === ALL ? null : (next as FrameStatus))}
+        >
+          <DropdownMenuRadioItem value={ALL}>
+            <span className="flex-1">All frames</span>
+            <span className="text-xs opacity-60">{total}</span>
+          </DropdownMenuRadioItem>
+          {FRAME_STATUSES.map(status => (
+            <DropdownMenuRadioItem key={status.value} value={status.value} disabled={counts[status.value] === 0}>
+              <span className="flex-1">{status.label}</span>
+              <span className="text-xs opacity-60">{counts[status.value]}</span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,7 +1,25 @@
-import { useState, useRef, useCallback } from "react";
-import { motion } from "framer-motion";
+import { useState, useRef, useCallback, useMemo, useEffect, memo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
 import { FrameCard } from "./FrameCard";
+import { SceneContainer, SceneSettings } from "./SceneContainer";
+import { ConnectionInspector, ConnectionChanges } from "./ConnectionInspector";
+import { MessageCircle, ImagePlus } from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  Viewport,
+  Size,
+  zoomAtPoint,
+  getVisibleRect,
+  expandRect,
+  rectsIntersect,
+} from "@/lib/viewport";
+import { GRID_SIZE } from "@/lib/alignment";
+import { AspectRatio, DEFAULT_ASPECT_RATIO, getFrameSize } from "@/lib/aspectRatio";
+import { DEFAULT_TRANSITION_DURATION_MS, getTransitionLabel } from "@/lib/transitions";
+import { LOW_RES_ZOOM } from "@/lib/thumbnails";
+import type { FrameStatus } from "@/lib/frameStatus";
+import { collectDroppedImages, hasDraggedFiles } from "@/lib/imageImport";
+import { useDragPositionStore } from "@/stores/dragPositionStore";
 
 interface RemoteSelection {
   userId: string;
@@ -15,10 +33,15 @@ interface Frame {
   thumbnail?: string;
   isPolished?: boolean;
   isPolishing?: boolean;
+  status?: FrameStatus;
+  // Doesn't match the status filter
+  dimmed?: boolean;
   title?: string;
   thumbnailColor?: string;
   durationMs?: number;
   motionNotes?: string;
+  shotSpec?: string;
+  sceneId?: string | null;
   // Remote collaboration
   isRemoteMoving?: boolean;
   remoteSelection?: RemoteSelection | null;
@@ -28,26 +51,213 @@ interface Connection {
   id: string;
   from: string;
   to: string;
+  transitionType?: string;
+  transitionDurationMs?: number;
+  branchLabel?: string | null;
 }
 
+interface Scene extends SceneSettings {
+  id: string;
+  x: number;
+  y: number;
+  isCollapsed: boolean;
+}
+
+// Review comment thread pinned on the canvas
+interface CommentPin {
+  id: string;
+  // Frame threads follow their frame; canvas threads use x/y
+  frameId: string | null;
+  x: number | null;
+  y: number | null;
+  commentCount: number;
+  resolved: boolean;
+}
+
+interface SceneLayout {
+  scene: Scene;
+  memberIds: string[];
+  bounds: { x: number; y: number; width: number; height: number };
+  totalDurationMs: number;
+  thumbnail?: string;
+}
+
+// Minimum drag distance (px) before a mouse-down on empty space becomes a marquee
+const MARQUEE_THRESHOLD = 4;
+
+// Space between an expanded scene outline and its frames
+const SCENE_PADDING = 24;
+
+// Wheel delta (px) to zoom factor; one notch of a mouse wheel is ~100px
+const WHEEL_ZOOM_SPEED = 0.0025;
+
+// Frames and connections within this many screen pixels of the viewport stay mounted
+const CULL_MARGIN = 300;
+
+// Canvas distance between comment pins stacked on the same frame
+const COMMENT_PIN_STACK = 28;
+
+// Frame card callbacks, keyed by frame id; stable for the lifetime of the canvas
+interface FrameActions {
+  select: (id: string, additive: boolean) => void;
+  doubleClick: (id: string) => void;
+  remove: (id: string) => void;
+  duplicate: (id: string) => void;
+  copy?: (id: string) => void;
+  cut?: (id: string) => void;
+  polish: (id: string) => void;
+  changeStatus?: (id: string, status: FrameStatus) => void;
+  groupIntoScene?: (id: string) => void;
+  moveToScene?: (id: string, sceneId: string | null) => void;
+  move: (id: string, screenDelta: { dx: number; dy: number }) => void;
+  dragEnd: (id: string) => void;
+  changeDuration: (id: string, durationMs: number) => void;
+}
+
+interface CanvasFrameCardProps {
+  frame: Frame;
+  index: number;
+  isSelected: boolean;
+  selectionCount: number;
+  isConnecting: boolean;
+  lowRes: boolean;
+  followExactly: boolean;
+  beatModeEnabled: boolean;
+  scenes: Array<{ id: string; name: string }>;
+  aspectRatio: AspectRatio;
+  canApprove: boolean;
+  actions: FrameActions;
+  // Frames already on the board at the last render (only newly added frames pop in)
+  knownIds: Set<string>;
+}
+
+/**
+ * Frame card bound to its frame id. Memoised so panning, zooming and dragging
+ * other frames don't re-render it.
+ */
+const CanvasFrameCard = memo(function CanvasFrameCard({
+  frame,
+  index,
+  isSelected,
+  selectionCount,
+  isConnecting,
+  lowRes,
+  followExactly,
+  beatModeEnabled,
+  scenes,
+  aspectRatio,
+  canApprove,
+  actions,
+  knownIds,
+}: CanvasFrameCardProps) {
+  // Decided once on mount, so cards scrolling back into view don't replay the pop-in
+  const [animateIn] = useState(() => !knownIds.has(frame.id));
+  // Live position while this frame is dragged or animated; other cards don't re-render
+  const dragPosition = useDragPositionStore(state => state.positions.get(frame.id));
+
+  const { id } = frame;
+
+  return (
+    <FrameCard
+      id={id}
+      index={index}
+      title={frame.title}
+      thumbnail={frame.thumbnail}
+      thumbnailColor={frame.thumbnailColor}
+      isSelected={isSelected}
+      selectionCount={selectionCount}
+      isConnecting={isConnecting}
+      isPolished={frame.isPolished}
+      isPolishing={frame.isPolishing}
+      status={frame.status}
+      canApprove={canApprove}
+      onStatusChange={actions.changeStatus ? (status) => actions.changeStatus!(id, status) : undefined}
+      dimmed={frame.dimmed}
+      onClick={(e) => actions.select(id, e.shiftKey || e.metaKey || e.ctrlKey)}
+      onDoubleClick={() => actions.doubleClick(id)}
+      onDelete={() => actions.remove(id)}
+      onDuplicate={() => actions.duplicate(id)}
+      onCopy={actions.copy ? () => actions.copy!(id) : undefined}
+      onCut={actions.cut ? () => actions.cut!(id) : undefined}
+      onPolish={() => actions.polish(id)}
+      sceneId={frame.sceneId}
+      scenes={scenes}
+      onGroupIntoScene={actions.groupIntoScene ? () => actions.groupIntoScene!(id) : undefined}
+      onMoveToScene={actions.moveToScene ? (sceneId) => actions.moveToScene!(id, sceneId) : undefined}
+      position={dragPosition ?? frame.position}
+      onPositionChange={(delta) => actions.move(id, delta)}
+      onDragEnd={() => actions.dragEnd(id)}
+      beatModeEnabled={beatModeEnabled}
+      durationMs={frame.durationMs}
+      onDurationChange={(newDuration) => actions.changeDuration(id, newDuration)}
+      motionNotes={frame.motionNotes}
+      shotSpec={frame.shotSpec}
+      // Remote collaboration
+      isRemoteMoving={frame.isRemoteMoving}
+      followExactly={followExactly}
+      remoteSelection={frame.remoteSelection}
+      lowRes={lowRes}
+      animateIn={animateIn}
+      aspectRatio={aspectRatio}
+    />
+  );
+});
+
 interface InfiniteCanvasProps {
   frames: Frame[];
   connections: Connection[];
   selectedFrames: string[];
   onFrameSelect: (id: string, multiSelect?: boolean) => void;
+  onMarqueeSelect?: (ids: string[], additive: boolean) => void;
   onFrameDelete: (id: string) => void;
   onFrameDuplicate: (id: string) => void;
-  onCanvasClick: (position: { x: number; y: number }) => void;
+  onFrameCopy?: (id: string) => void;
+  onFrameCut?: (id: string) => void;
+  // sceneId is set when the click lands inside an expanded scene
+  onCanvasClick: (position: { x: number; y: number }, sceneId?: string) => void;
   onFrameDoubleClick?: (id: string) => void;
   onConnectionDelete?: (id: string) => void;
+  onConnectionUpdate?: (id: string, updates: ConnectionChanges) => void;
+  // Frames are being animated by auto-arrange; cards follow positions exactly
+  isArranging?: boolean;
   onFramePositionChange: (id: string, delta: { dx: number; dy: number }) => void;
+  onFrameDragEnd?: (id: string) => void;
   onFramePolish?: (id: string) => void;
+  onFrameStatusChange?: (id: string, status: FrameStatus) => void;
+  // Whether approve/lock appear in frame menus
+  canApprove?: boolean;
   activeTool: string;
-  zoom: number;
+  // Shared pan/zoom state (owned by the page so the minimap and toolbar can drive it)
+  viewport: Viewport;
+  // Size of the canvas element, used to skip rendering offscreen frames and connections
+  viewportSize: Size;
+  // Board shape; sets the size of frame cards
+  aspectRatio?: AspectRatio;
+  onViewportChange: (next: Viewport | ((prev: Viewport) => Viewport)) => void;
   connectingFromFrameId?: string | null;
   // New props
   beatModeEnabled?: boolean;
   onFrameDurationChange?: (id: string, durationMs: number) => void;
+  // Scenes
+  scenes?: Scene[];
+  readOnly?: boolean;
+  onGroupIntoScene?: (frameId: string) => void;
+  onMoveToScene?: (frameId: string, sceneId: string | null) => void;
+  onSceneSelect?: (sceneId: string, additive: boolean) => void;
+  onSceneToggleCollapse?: (sceneId: string) => void;
+  onSceneMove?: (sceneId: string, delta: { dx: number; dy: number }) => void;
+  onSceneMoveEnd?: (sceneId: string) => void;
+  onSceneUpdate?: (sceneId: string, updates: Partial<SceneSettings>) => void;
+  onSceneApplyDefaults?: (sceneId: string) => void;
+  onSceneUngroup?: (sceneId: string) => void;
+  // Review comments
+  commentPins?: CommentPin[];
+  activeCommentId?: string | null;
+  onCommentPinClick?: (threadId: string) => void;
+  // Comment tool: clicking empty canvas pins a new thread there
+  onCommentPlace?: (position: { x: number; y: number }) => void;
+  // Image files (or folders of them) dropped on the canvas, in file order
+  onImageDrop?: (files: File[], position: { x: number; y: number }) => void;
 }
 
 export function InfiniteCanvas({
@@ -55,64 +265,463 @@ export function InfiniteCanvas({
   connections,
   selectedFrames,
   onFrameSelect,
+  onMarqueeSelect,
   onFrameDelete,
   onFrameDuplicate,
+  onFrameCopy,
+  onFrameCut,
   onCanvasClick,
   onFrameDoubleClick,
   onConnectionDelete,
+  onConnectionUpdate,
+  isArranging = false,
   onFramePositionChange,
+  onFrameDragEnd,
   onFramePolish,
+  onFrameStatusChange,
+  canApprove = false,
   activeTool,
-  zoom,
+  viewport,
+  viewportSize,
+  aspectRatio = DEFAULT_ASPECT_RATIO,
+  onViewportChange,
   connectingFromFrameId,
   beatModeEnabled = false,
   onFrameDurationChange,
+  scenes = [],
+  readOnly = false,
+  onGroupIntoScene,
+  onMoveToScene,
+  onSceneSelect,
+  onSceneToggleCollapse,
+  onSceneMove,
+  onSceneMoveEnd,
+  onSceneUpdate,
+  onSceneApplyDefaults,
+  onSceneUngroup,
+  commentPins = [],
+  activeCommentId = null,
+  onCommentPinClick,
+  onCommentPlace,
+  onImageDrop,
 }: InfiniteCanvasProps) {
   const [hoveredConnection, setHoveredConnection] = useState<string | null>(null);
+  // Connection whose transition inspector is open
+  const [inspectedConnection, setInspectedConnection] = useState<string | null>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const { zoom } = viewport;
   const [isPanning, setIsPanning] = useState(false);
   const [startPan, setStartPan] = useState({ x: 0, y: 0 });
+  // Files are being dragged over the canvas
+  const [isFileDragOver, setIsFileDragOver] = useState(false);
+
+  // Unsaved drag / auto-arrange positions and alignment guides (see dragPositionStore)
+  const dragPositions = useDragPositionStore(state => state.positions);
+  const guides = useDragPositionStore(state => state.guides);
+
+  // Ids of the frames being moved; only changes when a drag starts or ends
+  const movingKey = useDragPositionStore(state => Array.from(state.positions.keys()).join(","));
+  const movingIds = useMemo(() => new Set(movingKey ? movingKey.split(",") : []), [movingKey]);
+
+  // A frame at its live position (the cards read theirs from the store themselves)
+  const withLivePosition = useCallback((frame: Frame): Frame => {
+    const position = dragPositions.get(frame.id);
+    return position ? { ...frame, position } : frame;
+  }, [dragPositions]);
+
+  const frameById = useMemo(
+    () => new Map(frames.map(f => [f.id, f])),
+    [frames]
+  );
+
+  // Latest handlers for the stable frame actions below
+  const handlersRef = useRef({
+    onFrameSelect, onFrameDoubleClick, onFrameDelete, onFrameDuplicate, onFrameCopy, onFrameCut,
+    onFramePolish, onFrameStatusChange, onGroupIntoScene, onMoveToScene, onFramePositionChange, onFrameDragEnd,
+    onFrameDurationChange,
+  });
+  handlersRef.current = {
+    onFrameSelect, onFrameDoubleClick, onFrameDelete, onFrameDuplicate, onFrameCopy, onFrameCut,
+    onFramePolish, onFrameStatusChange, onGroupIntoScene, onMoveToScene, onFramePositionChange, onFrameDragEnd,
+    onFrameDurationChange,
+  };
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+
+  // Optional actions only exist when their handler does (menus hide the missing ones)
+  const hasCopy = !!onFrameCopy;
+  const hasCut = !!onFrameCut;
+  const hasStatus = !!onFrameStatusChange;
+  const hasGroup = !!onGroupIntoScene;
+  const hasMoveToScene = !!onMoveToScene;
+  const frameActions = useMemo<FrameActions>(() => {
+    const h = () => handlersRef.current;
+    return {
+      select: (id, additive) => h().onFrameSelect(id, additive),
+      doubleClick: (id) => h().onFrameDoubleClick?.(id),
+      remove: (id) => h().onFrameDelete(id),
+      duplicate: (id) => h().onFrameDuplicate(id),
+      copy: hasCopy ? (id) => h().onFrameCopy?.(id) : undefined,
+      cut: hasCut ? (id) => h().onFrameCut?.(id) : undefined,
+      polish: (id) => h().onFramePolish?.(id),
+      changeStatus: hasStatus ? (id, status) => h().onFrameStatusChange?.(id, status) : undefined,
+      groupIntoScene: hasGroup ? (id) => h().onGroupIntoScene?.(id) : undefined,
+      moveToScene: hasMoveToScene ? (id, sceneId) => h().onMoveToScene?.(id, sceneId) : undefined,
+      move: (id, { dx, dy }) => h().onFramePositionChange(id, { dx: dx / zoomRef.current, dy: dy / zoomRef.current }),
+      dragEnd: (id) => h().onFrameDragEnd?.(id),
+      changeDuration: (id, durationMs) => h().onFrameDurationChange?.(id, durationMs),
+    };
+  }, [hasCopy, hasCut, hasStatus, hasGroup, hasMoveToScene]);
+
+  const knownFrameIdsRef = useRef(new Set<string>());
+  useEffect(() => {
+    frames.forEach(f => knownFrameIdsRef.current.add(f.id));
+  }, [frames]);
+
+  // Wheel scrolls the canvas; Ctrl/Cmd + wheel (and trackpad pinch) zooms at the cursor.
+  // Registered natively because React wheel listeners are passive and can't preventDefault.
+  useEffect(() => {
+    const element = canvasRef.current;
+    if (!element) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      // Normalise line/page based deltas (Firefox mouse wheels) to pixels
+      const unit = e.deltaMode === 1 ? 16 : e.deltaMode === 2 ? element.clientHeight : 1;
+      const dx = e.deltaX * unit;
+      const dy = e.deltaY * unit;
+
+      if (e.ctrlKey || e.metaKey) {
+        const rect = element.getBoundingClientRect();
+        const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+        onViewportChange(prev => zoomAtPoint(prev, prev.zoom * Math.exp(-dy * WHEEL_ZOOM_SPEED), anchor));
+      } else {
+        onViewportChange(prev => ({ ...prev, x: prev.x - dx, y: prev.y - dy }));
+      }
+    };
+
+    // Safari reports trackpad pinch as gesture events instead of ctrl+wheel
+    let lastScale = 1;
+    const handleGestureStart = (e: Event) => {
+      e.preventDefault();
+      lastScale = 1;
+    };
+    const handleGestureChange = (e: Event) => {
+      e.preventDefault();
+      const gesture = e as Event & { scale: number; clientX: number; clientY: number };
+      const rect = element.getBoundingClientRect();
+      const anchor = { x: gesture.clientX - rect.left, y: gesture.clientY - rect.top };
+      const factor = gesture.scale / lastScale;
+      lastScale = gesture.scale;
+      onViewportChange(prev => zoomAtPoint(prev, prev.zoom * factor, anchor));
+    };
+
+    element.addEventListener("wheel", handleWheel, { passive: false });
+    element.addEventListener("gesturestart", handleGestureStart);
+    element.addEventListener("gesturechange", handleGestureChange);
+    return () => {
+      element.removeEventListener("wheel", handleWheel);
+      element.removeEventListener("gesturestart", handleGestureStart);
+      element.removeEventListener("gesturechange", handleGestureChange);
+    };
+  }, [onViewportChange]);
+
+  // Rubber-band selection rectangle (screen coordinates relative to the canvas)
+  const [marquee, setMarquee] = useState<{ startX: number; startY: number; x: number; y: number } | null>(null);
+  // Set after a marquee drag so the trailing click doesn't create a frame
+  const suppressClickRef = useRef(false);
+
+  const frameSize = getFrameSize(aspectRatio);
+
+  const membersByScene = useMemo(() => {
+    const map = new Map<string, Frame[]>();
+    frames.forEach(f => {
+      if (f.sceneId) map.set(f.sceneId, [...(map.get(f.sceneId) || []), f]);
+    });
+    return map;
+  }, [frames]);
+
+  // Scene outlines are derived from member frame positions; empty scenes use their anchor
+  const sceneLayouts = useMemo<SceneLayout[]>(() => scenes.map(scene => {
+    const members = (membersByScene.get(scene.id) || []).map(withLivePosition);
+    const totalDurationMs = members.reduce((sum, f) => sum + (f.durationMs || 2000), 0);
+    const thumbnail = members.find(f => f.thumbnail)?.thumbnail;
+
+    if (members.length === 0) {
+      const bounds = scene.isCollapsed
+        ? { x: scene.x, y: scene.y, ...frameSize }
+        : { x: scene.x, y: scene.y, width: frameSize.width + SCENE_PADDING * 2, height: frameSize.height + SCENE_PADDING * 2 };
+      return { scene, memberIds: [], bounds, totalDurationMs, thumbnail };
+    }
+
+    const minX = Math.min(...members.map(f => f.position.x));
+    const minY = Math.min(...members.map(f => f.position.y));
+    const maxX = Math.max(...members.map(f => f.position.x)) + frameSize.width;
+    const maxY = Math.max(...members.map(f => f.position.y)) + frameSize.height;
+
+    const bounds = scene.isCollapsed
+      ? { x: minX, y: minY, ...frameSize }
+      : {
+          x: minX - SCENE_PADDING,
+          y: minY - SCENE_PADDING,
+          width: maxX - minX + SCENE_PADDING * 2,
+          height: maxY - minY + SCENE_PADDING * 2,
+        };
+
+    return { scene, memberIds: members.map(f => f.id), bounds, totalDurationMs, thumbnail };
+  }), [scenes, membersByScene, withLivePosition, frameSize.width, frameSize.height]);
+
+  // Frames inside collapsed scenes are drawn as a single scene card
+  const collapsedSceneByFrame = useMemo(() => {
+    const map = new Map<string, SceneLayout>();
+    sceneLayouts
+      .filter(layout => layout.scene.isCollapsed)
+      .forEach(layout => layout.memberIds.forEach(id => map.set(id, layout)));
+    return map;
+  }, [sceneLayouts]);
+
+  // Membership only, so a drag doesn't refilter every frame
+  const visibleFrames = useMemo(() => {
+    const collapsed = new Set(scenes.filter(s => s.isCollapsed).map(s => s.id));
+    return frames.filter(f => !(f.sceneId && collapsed.has(f.sceneId)));
+  }, [frames, scenes]);
+
+  // Keyed on ids and names so the (memoised) frame cards keep the same array between renders
+  const sceneOptionsKey = scenes.map(s => `${s.id}:${s.name}`).join("|");
+  const sceneOptions = useMemo(
+    () => scenes.map(s => ({ id: s.id, name: s.name })),
+    [sceneOptionsKey]
+  );
+
+  // Canvas area worth rendering: the visible part of the board plus a margin
+  const cullRect = expandRect(getVisibleRect(viewport, viewportSize), CULL_MARGIN / zoom);
+
+  const renderedFrames = useMemo(
+    () => visibleFrames
+      .map((frame, index) => ({ frame, index }))
+      .filter(({ frame }) =>
+        // Frames being moved stay mounted so their pointer listeners survive
+        movingIds.has(frame.id) ||
+        rectsIntersect({ ...frame.position, ...frameSize }, cullRect)
+      ),
+    // cullRect is derived from the viewport values below
+    [visibleFrames, movingIds, frameSize.height, cullRect.x, cullRect.y, cullRect.width, cullRect.height]
+  );
 
   const handleMouseDown = useCallback(
     (e: React.MouseEvent) => {
       if (activeTool === "pan" || e.button === 1) {
         setIsPanning(true);
-        setStartPan({ x: e.clientX - pan.x, y: e.clientY - pan.y });
+        setStartPan({ x: e.clientX - viewport.x, y: e.clientY - viewport.y });
+        return;
+      }
+
+      // Start marquee selection on empty canvas space
+      if (activeTool === "select" && e.button === 0 && e.target === canvasRef.current && onMarqueeSelect) {
+        const rect = canvasRef.current.getBoundingClientRect();
+        const x = e.clientX - rect.left;
+        const y = e.clientY - rect.top;
+        setMarquee({ startX: x, startY: y, x, y });
       }
     },
-    [activeTool, pan]
+    [activeTool, viewport, onMarqueeSelect]
   );
 
   const handleMouseMove = useCallback(
     (e: React.MouseEvent) => {
       if (isPanning) {
-        setPan({ x: e.clientX - startPan.x, y: e.clientY - startPan.y });
+        onViewportChange(prev => ({ ...prev, x: e.clientX - startPan.x, y: e.clientY - startPan.y }));
+        return;
+      }
+
+      if (marquee && canvasRef.current) {
+        const rect = canvasRef.current.getBoundingClientRect();
+        setMarquee({ ...marquee, x: e.clientX - rect.left, y: e.clientY - rect.top });
       }
     },
-    [isPanning, startPan]
+    [isPanning, startPan, marquee, onViewportChange]
   );
 
-  const handleMouseUp = useCallback(() => {
+  const handleMouseUp = useCallback((e: React.MouseEvent) => {
     setIsPanning(false);
+
+    if (!marquee) return;
+    setMarquee(null);
+
+    const width = Math.abs(marquee.x - marquee.startX);
+    const height = Math.abs(marquee.y - marquee.startY);
+    // Treat tiny movements as a plain click
+    if (width < MARQUEE_THRESHOLD && height < MARQUEE_THRESHOLD) return;
+
+    suppressClickRef.current = true;
+
+    // Convert the rectangle to canvas coordinates and hit-test frames
+    const left = (Math.min(marquee.startX, marquee.x) - viewport.x) / zoom;
+    const top = (Math.min(marquee.startY, marquee.y) - viewport.y) / zoom;
+    const right = left + width / zoom;
+    const bottom = top + height / zoom;
+
+    const hitIds = visibleFrames
+      .map(withLivePosition)
+      .filter(f =>
+        f.position.x < right &&
+        f.position.x + frameSize.width > left &&
+        f.position.y < bottom &&
+        f.position.y + frameSize.height > top
+      )
+      .map(f => f.id);
+
+    // A collapsed scene card selects all of its frames
+    sceneLayouts
+      .filter(({ scene, bounds }) =>
+        scene.isCollapsed &&
+        bounds.x < right &&
+        bounds.x + bounds.width > left &&
+        bounds.y < bottom &&
+        bounds.y + bounds.height > top
+      )
+      .forEach(layout => hitIds.push(...layout.memberIds));
+
+    onMarqueeSelect?.(hitIds, e.shiftKey || e.metaKey || e.ctrlKey);
+  }, [marquee, viewport, visibleFrames, withLivePosition, sceneLayouts, onMarqueeSelect]);
+
+  const handleMouseLeave = useCallback(() => {
+    setIsPanning(false);
+    setMarquee(null);
   }, []);
 
   const handleCanvasClick = useCallback(
     (e: React.MouseEvent) => {
+      if (suppressClickRef.current) {
+        suppressClickRef.current = false;
+        return;
+      }
+      if (inspectedConnection && e.target === canvasRef.current) {
+        setInspectedConnection(null);
+        return;
+      }
+      if (e.target === canvasRef.current && activeTool === "comment") {
+        const rect = canvasRef.current.getBoundingClientRect();
+        onCommentPlace?.({
+          x: (e.clientX - rect.left - viewport.x) / zoom,
+          y: (e.clientY - rect.top - viewport.y) / zoom,
+        });
+        return;
+      }
       if (e.target === canvasRef.current && activeTool === "select") {
         const rect = canvasRef.current.getBoundingClientRect();
-        const x = (e.clientX - rect.left - pan.x) / zoom;
-        const y = (e.clientY - rect.top - pan.y) / zoom;
-        onCanvasClick({ x, y });
+        const x = (e.clientX - rect.left - viewport.x) / zoom;
+        const y = (e.clientY - rect.top - viewport.y) / zoom;
+        const containingScene = sceneLayouts.find(({ scene, bounds }) =>
+          !scene.isCollapsed &&
+          x >= bounds.x && x <= bounds.x + bounds.width &&
+          y >= bounds.y && y <= bounds.y + bounds.height
+        );
+        onCanvasClick({ x, y }, containingScene?.scene.id);
       }
     },
-    [activeTool, pan, zoom, onCanvasClick]
+    [activeTool, viewport, sceneLayouts, onCanvasClick, onCommentPlace, inspectedConnection]
   );
 
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!onImageDrop || !hasDraggedFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setIsFileDragOver(true);
+  }, [onImageDrop]);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    // Moving between child elements fires leave events inside the canvas too
+    if (canvasRef.current?.contains(e.relatedTarget as Node | null)) return;
+    setIsFileDragOver(false);
+  }, []);
+
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
+    if (!onImageDrop || !hasDraggedFiles(e.dataTransfer) || !canvasRef.current) return;
+    e.preventDefault();
+    setIsFileDragOver(false);
+
+    const rect = canvasRef.current.getBoundingClientRect();
+    const position = {
+      x: (e.clientX - rect.left - viewport.x) / zoom,
+      y: (e.clientY - rect.top - viewport.y) / zoom,
+    };
+    onImageDrop(await collectDroppedImages(e.dataTransfer), position);
+  }, [onImageDrop, viewport, zoom]);
+
+  // Connection endpoint for a frame: the frame itself, or its collapsed scene card
+  const resolveEndpoint = (frameId: string): Frame | undefined => {
+    const layout = collapsedSceneByFrame.get(frameId);
+    if (layout) {
+      return { id: layout.scene.id, position: { x: layout.bounds.x, y: layout.bounds.y } };
+    }
+    const frame = frameById.get(frameId);
+    return frame && withLivePosition(frame);
+  };
+
+  const renderInspector = () => {
+    const connection = connections.find(c => c.id === inspectedConnection);
+    if (!connection) return null;
+    const fromFrame = resolveEndpoint(connection.from);
+    const toFrame = resolveEndpoint(connection.to);
+    if (!fromFrame || !toFrame) return null;
+
+    const { midpoint } = getSmartConnectionPath(fromFrame, toFrame);
+
+    return (
+      <ConnectionInspector
+        key={connection.id}
+        position={{ x: midpoint.x * zoom + viewport.x, y: midpoint.y * zoom + viewport.y }}
+        fromTitle={frameById.get(connection.from)?.title}
+        toTitle={frameById.get(connection.to)?.title}
+        transitionType={connection.transitionType || "fade"}
+        transitionDurationMs={connection.transitionDurationMs ?? DEFAULT_TRANSITION_DURATION_MS}
+        branchLabel={connection.branchLabel ?? null}
+        readOnly={readOnly || !onConnectionUpdate}
+        onChange={(updates) => onConnectionUpdate?.(connection.id, updates)}
+        onDelete={onConnectionDelete ? () => {
+          setInspectedConnection(null);
+          onConnectionDelete(connection.id);
+        } : undefined}
+        onClose={() => setInspectedConnection(null)}
+      />
+    );
+  };
+
+  const renderScene = (layout: SceneLayout) => {
+    const { scene, memberIds } = layout;
+    const isSelected = memberIds.length > 0 && memberIds.every(id => selectedFrames.includes(id));
+
+    return (
+      <SceneContainer
+        key={scene.id}
+        id={scene.id}
+        name={scene.name}
+        animationStyle={scene.animationStyle}
+        durationMs={scene.durationMs}
+        polishStyle={scene.polishStyle}
+        bounds={layout.bounds}
+        isCollapsed={scene.isCollapsed}
+        isSelected={isSelected}
+        frameCount={memberIds.length}
+        totalDurationMs={layout.totalDurationMs}
+        thumbnail={layout.thumbnail}
+        zoom={zoom}
+        readOnly={readOnly}
+        onSelect={(additive) => onSceneSelect?.(scene.id, additive)}
+        onToggleCollapse={() => onSceneToggleCollapse?.(scene.id)}
+        onMove={(delta) => onSceneMove?.(scene.id, delta)}
+        onMoveEnd={() => onSceneMoveEnd?.(scene.id)}
+        onUpdate={(updates) => onSceneUpdate?.(scene.id, updates)}
+        onApplyDefaults={() => onSceneApplyDefaults?.(scene.id)}
+        onUngroup={() => onSceneUngroup?.(scene.id)}
+      />
+    );
+  };
+
   // Smart connection path that routes based on relative frame positions
   const getSmartConnectionPath = (from: Frame, to: Frame) => {
-    const frameWidth = 192;
-    const frameHeight = 144;
+    const { width: frameWidth, height: frameHeight } = frameSize;
 
     // Get frame centers
     const fromCenter = {
@@ -173,12 +782,19 @@ export function InfiniteCanvas({
       cp2 = { x: toPoint.x, y: toPoint.y + (dy > 0 ? -controlOffset : controlOffset) };
     }
 
+    // The curve stays inside the hull of its end and control points
+    const xs = [fromPoint.x, cp1.x, cp2.x, toPoint.x];
+    const ys = [fromPoint.y, cp1.y, cp2.y, toPoint.y];
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+
     return {
       path: `M ${fromPoint.x} ${fromPoint.y} C ${cp1.x} ${cp1.y}, ${cp2.x} ${cp2.y}, ${toPoint.x} ${toPoint.y}`,
       midpoint: {
         x: (fromPoint.x + toPoint.x) / 2,
         y: (fromPoint.y + toPoint.y) / 2,
       },
+      bounds: { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY },
     };
   };
 
@@ -232,32 +848,68 @@ export function InfiniteCanvas({
     return sequenceMap;
   };
 
-  const sequenceMap = calculateSequenceNumbers(connections, frames);
+  // Pin positions: the top-right corner of the thread's frame (or its collapsed scene card),
+  // otherwise the stored canvas position. Threads on the same frame stack downwards.
+  const positionedPins = useMemo(() => {
+    const perFrame = new Map<string, number>();
+    return commentPins.flatMap(pin => {
+      const frame = pin.frameId ? frameById.get(pin.frameId) : undefined;
+      if (frame) {
+        const layout = collapsedSceneByFrame.get(frame.id);
+        const origin = layout ? { x: layout.bounds.x, y: layout.bounds.y } : withLivePosition(frame).position;
+        const key = layout ? layout.scene.id : frame.id;
+        const stackIndex = perFrame.get(key) ?? 0;
+        perFrame.set(key, stackIndex + 1);
+        return [{ pin, x: origin.x + frameSize.width - 8, y: origin.y + 8 + stackIndex * COMMENT_PIN_STACK }];
+      }
+      if (pin.x == null || pin.y == null) return [];
+      return [{ pin, x: pin.x, y: pin.y }];
+    });
+  }, [commentPins, frameById, collapsedSceneByFrame, withLivePosition]);
+
+  const sequenceMap = useMemo(
+    () => calculateSequenceNumbers(connections, frames),
+    // Sequence numbers only depend on the connections
+    [connections]
+  );
 
   return (
     <div
       ref={canvasRef}
       className={cn(
         "absolute inset-0 overflow-hidden canvas-grid",
-        isPanning ? "cursor-grabbing" : activeTool === "pan" ? "cursor-grab" : "cursor-default"
+        isPanning
+          ? "cursor-grabbing"
+          : activeTool === "pan" ? "cursor-grab" : activeTool === "comment" ? "cursor-crosshair" : "cursor-default"
       )}
       onMouseDown={handleMouseDown}
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
+      onMouseLeave={handleMouseLeave}
       onClick={handleCanvasClick}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      style={{
+        // Keep the dot grid in step with the canvas so snapped frames line up with it
+        backgroundSize: `${GRID_SIZE * zoom}px ${GRID_SIZE * zoom}px`,
+        backgroundPosition: `${viewport.x - (GRID_SIZE * zoom) / 2}px ${viewport.y - (GRID_SIZE * zoom) / 2}px`,
+      }}
     >
       <motion.div
         className="absolute"
         style={{
-          x: pan.x,
-          y: pan.y,
+          x: viewport.x,
+          y: viewport.y,
           scale: zoom,
           transformOrigin: "0 0",
         }}
       >
+        {/* Expanded scene outlines (behind connections and frames) */}
+        {sceneLayouts.filter(layout => !layout.scene.isCollapsed).map(renderScene)}
+
         {/* Connection Lines */}
-        <svg className="absolute inset-0 w-[5000px] h-[5000px]" style={{ pointerEvents: 'none' }}>
+        <svg className="absolute inset-0 w-[5000px] h-[5000px] overflow-visible" style={{ pointerEvents: 'none' }}>
           <defs>
             {/* Clean white arrowhead */}
             <marker
@@ -296,13 +948,22 @@ export function InfiniteCanvas({
             </filter>
           </defs>
           {connections.map((connection) => {
-            const fromFrame = frames.find((f) => f.id === connection.from);
-            const toFrame = frames.find((f) => f.id === connection.to);
+            const fromFrame = resolveEndpoint(connection.from);
+            const toFrame = resolveEndpoint(connection.to);
             if (!fromFrame || !toFrame) return null;
+            // Connections inside a collapsed scene are hidden
+            if (fromFrame.id === toFrame.id) return null;
 
-            const { path, midpoint } = getSmartConnectionPath(fromFrame, toFrame);
-            const isHovered = hoveredConnection === connection.id;
+            const { path, midpoint, bounds } = getSmartConnectionPath(fromFrame, toFrame);
+            const isHovered = hoveredConnection === connection.id || inspectedConnection === connection.id;
+            // Skip connections that are entirely offscreen (labels sit up to ~40px off the curve)
+            if (!isHovered && !rectsIntersect(expandRect(bounds, 40), cullRect)) return null;
             const sequenceNumber = sequenceMap.get(connection.id) || 1;
+            // Alternate branches are drawn in amber with their label
+            const isBranch = connection.branchLabel != null;
+            const lineColor = isBranch
+              ? (isHovered ? "rgba(251, 191, 36, 1)" : "rgba(251, 191, 36, 0.75)")
+              : (isHovered ? "rgba(255, 255, 255, 0.95)" : "rgba(255, 255, 255, 0.7)");
 
             // Position label slightly above the curve
             const labelX = midpoint.x;
@@ -321,25 +982,27 @@ export function InfiniteCanvas({
                   onMouseLeave={() => setHoveredConnection(null)}
                   onClick={(e) => {
                     e.stopPropagation();
-                    onConnectionDelete?.(connection.id);
+                    setInspectedConnection(connection.id);
                   }}
                 />
                 
-                {/* Background glow line (solid, subtle) */}
-                <path
-                  d={path}
-                  stroke={isHovered ? "rgba(255, 255, 255, 0.3)" : "rgba(255, 255, 255, 0.15)"}
-                  strokeWidth={isHovered ? 6 : 4}
-                  fill="none"
-                  strokeLinecap="round"
-                  filter="url(#connectionGlow)"
-                  style={{ pointerEvents: 'none' }}
-                />
+                {/* Glow behind the hovered line (the blur filter is too costly to run on every connection) */}
+                {isHovered && (
+                  <path
+                    d={path}
+                    stroke="rgba(255, 255, 255, 0.3)"
+                    strokeWidth={6}
+                    fill="none"
+                    strokeLinecap="round"
+                    filter="url(#connectionGlow)"
+                    style={{ pointerEvents: 'none' }}
+                  />
+                )}
                 
                 {/* Main dashed line */}
                 <path
                   d={path}
-                  stroke={isHovered ? "rgba(255, 255, 255, 0.95)" : "rgba(255, 255, 255, 0.7)"}
+                  stroke={lineColor}
                   strokeWidth={isHovered ? 3 : 2.5}
                   strokeDasharray={isHovered ? "12 6" : "8 6"}
                   fill="none"
@@ -359,14 +1022,14 @@ export function InfiniteCanvas({
                   onMouseLeave={() => setHoveredConnection(null)}
                   onClick={(e) => {
                     e.stopPropagation();
-                    onConnectionDelete?.(connection.id);
+                    setInspectedConnection(connection.id);
                   }}
                 >
                   {/* Circle background */}
                   <circle
                     r={12}
                     fill={isHovered ? "rgba(255, 255, 255, 0.95)" : "rgba(30, 30, 40, 0.9)"}
-                    stroke={isHovered ? "rgba(255, 255, 255, 1)" : "rgba(255, 255, 255, 0.6)"}
+                    stroke={isBranch ? lineColor : (isHovered ? "rgba(255, 255, 255, 1)" : "rgba(255, 255, 255, 0.6)")}
                     strokeWidth={2}
                     style={{
                       transition: 'fill 0.15s ease, stroke 0.15s ease',
@@ -386,45 +1049,127 @@ export function InfiniteCanvas({
                   >
                     {sequenceNumber}
                   </text>
+                  {/* Transition name under the badge */}
+                  <text
+                    x={0}
+                    y={24}
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    fill={isHovered ? "rgba(255, 255, 255, 0.9)" : "rgba(255, 255, 255, 0.5)"}
+                    fontSize="9"
+                    fontWeight="600"
+                    fontFamily="system-ui, -apple-system, sans-serif"
+                    style={{ pointerEvents: 'none' }}
+                  >
+                    {getTransitionLabel(connection.transitionType || "fade")}
+                  </text>
+                  {isBranch && (
+                    <text
+                      x={0}
+                      y={-22}
+                      textAnchor="middle"
+                      dominantBaseline="central"
+                      fill={lineColor}
+                      fontSize="10"
+                      fontWeight="700"
+                      fontFamily="system-ui, -apple-system, sans-serif"
+                      style={{ pointerEvents: 'none' }}
+                    >
+                      {connection.branchLabel}
+                    </text>
+                  )}
                 </g>
               </g>
             );
           })}
         </svg>
 
-        {/* Frame Cards */}
-        {frames.map((frame, index) => (
-          <FrameCard
+        {/* Frame Cards (offscreen cards are not mounted) */}
+        {renderedFrames.map(({ frame, index }) => (
+          <CanvasFrameCard
             key={frame.id}
-            id={frame.id}
+            frame={frame}
             index={index}
-            title={frame.title}
-            thumbnail={frame.thumbnail}
-            thumbnailColor={frame.thumbnailColor}
             isSelected={selectedFrames.includes(frame.id)}
+            selectionCount={selectedFrames.includes(frame.id) ? selectedFrames.length : 1}
             isConnecting={connectingFromFrameId === frame.id}
-            isPolished={frame.isPolished}
-            isPolishing={frame.isPolishing}
-            onClick={() => onFrameSelect(frame.id)}
-            onDoubleClick={() => onFrameDoubleClick?.(frame.id)}
-            onDelete={() => onFrameDelete(frame.id)}
-            onDuplicate={() => onFrameDuplicate(frame.id)}
-            onPolish={() => onFramePolish?.(frame.id)}
-            position={frame.position}
-            zoom={zoom}
-            onPositionChange={(delta) =>
-              onFramePositionChange(frame.id, delta)
-            }
+            lowRes={zoom < LOW_RES_ZOOM}
+            followExactly={isArranging}
             beatModeEnabled={beatModeEnabled}
-            durationMs={frame.durationMs}
-            onDurationChange={(newDuration) => onFrameDurationChange?.(frame.id, newDuration)}
-            motionNotes={frame.motionNotes}
-            // Remote collaboration
-            isRemoteMoving={frame.isRemoteMoving}
-            remoteSelection={frame.remoteSelection}
+            scenes={sceneOptions}
+            aspectRatio={aspectRatio}
+            canApprove={canApprove}
+            actions={frameActions}
+            knownIds={knownFrameIdsRef.current}
+          />
+        ))}
+
+        {/* Collapsed scenes render as a single card */}
+        {sceneLayouts.filter(layout => layout.scene.isCollapsed).map(renderScene)}
+
+        {/* Comment pins (kept the same screen size at any zoom, tip on the anchor) */}
+        {positionedPins.map(({ pin, x, y }) => (
+          <div key={pin.id} className="absolute" style={{ left: x, top: y }}>
+            <button
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                onCommentPinClick?.(pin.id);
+              }}
+              className={cn(
+                "absolute left-0 bottom-0 min-w-[28px] h-7 px-1.5 rounded-full rounded-bl-none flex items-center justify-center gap-1 text-[11px] font-bold shadow-lg border-2 transition-colors",
+                pin.id === activeCommentId
+                  ? "bg-white text-sm-magenta border-sm-magenta"
+                  : pin.resolved
+                    ? "bg-[#1a1a2e] text-white/50 border-white/30"
+                    : "bg-sm-magenta text-white border-white/80 hover:bg-sm-pink"
+              )}
+              style={{ transform: `scale(${1 / zoom})`, transformOrigin: "0 100%" }}
+              title={`${pin.commentCount} comment${pin.commentCount === 1 ? "" : "s"}`}
+            >
+              <MessageCircle className="w-3 h-3" />
+              {pin.commentCount > 1 && pin.commentCount}
+            </button>
+          </div>
+        ))}
+
+        {/* Alignment guides (kept 1 screen pixel thick at any zoom) */}
+        {guides.map((guide, index) => (
+          <div
+            key={`${guide.orientation}-${guide.position}-${index}`}
+            className="absolute bg-pink-500 pointer-events-none"
+            style={guide.orientation === "vertical"
+              ? { left: guide.position, top: guide.start, width: 1 / zoom, height: guide.end - guide.start }
+              : { left: guide.start, top: guide.position, width: guide.end - guide.start, height: 1 / zoom }}
           />
         ))}
       </motion.div>
+
+      {/* Transition inspector for the clicked connection */}
+      <AnimatePresence>{renderInspector()}</AnimatePresence>
+
+      {/* Drop target hint while image files are dragged over the canvas */}
+      {isFileDragOver && (
+        <div className="absolute inset-4 pointer-events-none rounded-2xl border-2 border-dashed border-pink-400/70 bg-pink-500/5 flex items-center justify-center">
+          <div className="flex items-center gap-2 px-4 py-2 rounded-xl bg-black/60 text-sm text-white/90">
+            <ImagePlus className="w-4 h-4" />
+            Drop images or a folder to add frames
+          </div>
+        </div>
+      )}
+
+      {/* Marquee selection rectangle */}
+      {marquee && (
+        <div
+          className="absolute pointer-events-none rounded-sm border border-pink-400/70 bg-pink-500/10"
+          style={{
+            left: Math.min(marquee.startX, marquee.x),
+            top: Math.min(marquee.startY, marquee.y),
+            width: Math.abs(marquee.x - marquee.startX),
+            height: Math.abs(marquee.y - marquee.startY),
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,249 @@
+import { useState, useEffect, useMemo } from "react";
+import { motion } from "framer-motion";
+import { Keyboard, Plus, X, RotateCcw, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { GlassCard } from "@/components/layout/GlassCard";
+import {
+  COMMANDS,
+  COMMAND_GROUPS,
+  CommandId,
+  KeyBinding,
+  bindingFromEvent,
+  bindingId,
+  findConflicts,
+  formatBinding,
+  getCommand,
+} from "@/lib/shortcuts";
+import { useKeymapStore } from "@/stores/keymapStore";
+import { cn } from "@/lib/utils";
+
+interface KeymapDialogProps {
+  onClose: () => void;
+}
+
+// A recorded binding that is already used by other commands
+interface PendingBinding {
+  commandId: CommandId;
+  binding: KeyBinding;
+  usedBy: CommandId[];
+}
+
+/**
+ * Keyboard shortcut settings: remap any canvas command for this user.
+ * New bindings are recorded from a key press and checked against the rest of the keymap.
+ */
+export function KeymapDialog({ onClose }: KeymapDialogProps) {
+  const { keymap, overrides, setBindings, resetCommand, resetAll } = useKeymapStore();
+  const [recording, setRecording] = useState<CommandId | null>(null);
+  const [pending, setPending] = useState<PendingBinding | null>(null);
+
+  // Commands sharing a binding, e.g. from older overrides
+  const conflicted = useMemo(() => {
+    const ids = new Set<CommandId>();
+    findConflicts(keymap).forEach(commandIds => commandIds.forEach(id => ids.add(id)));
+    return ids;
+  }, [keymap]);
+
+  const addBinding = (commandId: CommandId, binding: KeyBinding) => {
+    const existing = keymap[commandId].filter(b => bindingId(b) !== bindingId(binding));
+    setBindings(commandId, [...existing, binding]);
+  };
+
+  const removeBinding = (commandId: CommandId, binding: KeyBinding) => {
+    setBindings(commandId, keymap[commandId].filter(b => bindingId(b) !== bindingId(binding)));
+  };
+
+  // Move the binding from the commands that had it
+  const replaceBinding = ({ commandId, binding, usedBy }: PendingBinding) => {
+    usedBy.forEach(otherId => removeBinding(otherId, binding));
+    addBinding(commandId, binding);
+    setPending(null);
+  };
+
+  // Capture the next key press while recording; Esc cancels, or closes the dialog otherwise
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!recording) {
+        if (event.key === "Escape" && !pending) onClose();
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (event.key === "Escape") {
+        setRecording(null);
+        return;
+      }
+      const binding = bindingFromEvent(event);
+      if (!binding) return;
+
+      const usedBy = COMMANDS.filter(
+        c => c.id !== recording && keymap[c.id].some(b => bindingId(b) === bindingId(binding))
+      ).map(c => c.id);
+
+      if (usedBy.length > 0) {
+        setPending({ commandId: recording, binding, usedBy });
+      } else {
+        addBinding(recording, binding);
+      }
+      setRecording(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [recording, pending, keymap, onClose]);
+
+  const renderBinding = (commandId: CommandId, binding: KeyBinding) => (
+    <span
+      key={bindingId(binding)}
+      className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-md bg-white/10 border border-white/10 text-xs font-mono text-white/90"
+    >
+      {formatBinding(binding)}
+      <button
+        onClick={() => removeBinding(commandId, binding)}
+        className="p-0.5 rounded text-white/40 hover:text-white hover:bg-white/10"
+        title="Remove shortcut"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </span>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 10 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 10 }}
+        className="w-full max-w-2xl mx-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <GlassCard className="p-5 space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="flex items-center gap-2 font-display font-bold text-lg text-white">
+                <Keyboard className="w-5 h-5 text-sm-pink" />
+                Keyboard shortcuts
+              </h3>
+              <p className="text-sm text-white/60 mt-1">
+                Click + and press a key combination to add a shortcut. Changes are saved to your account on this device.
+              </p>
+            </div>
+            <button onClick={onClose} className="p-1 rounded-lg text-white/60 hover:text-white hover:bg-white/10">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {pending && (
+            <div className="flex flex-wrap items-center gap-3 p-3 rounded-lg border border-amber-400/40 bg-amber-500/10">
+              <AlertTriangle className="w-4 h-4 text-amber-300 shrink-0" />
+              <p className="flex-1 min-w-0 text-sm text-white/90">
+                {formatBinding(pending.binding)} is already used by{" "}
+                {pending.usedBy.map(id => getCommand(id)?.label).join(", ")}.
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setPending(null)}
+                  className="text-white/70 hover:text-white hover:bg-white/10"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => replaceBinding(pending)}
+                  className="bg-sm-magenta hover:bg-sm-magenta/90 text-white"
+                >
+                  Replace
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-4 max-h-[55vh] overflow-y-auto pr-1">
+            {COMMAND_GROUPS.map(group => (
+              <div key={group}>
+                <p className="text-[10px] uppercase tracking-wide text-white/50 mb-1.5">{group}</p>
+                <div className="space-y-1">
+                  {COMMANDS.filter(c => c.group === group).map(command => (
+                    <div
+                      key={command.id}
+                      className={cn(
+                        "flex items-center gap-3 px-2.5 py-1.5 rounded-lg",
+                        recording === command.id ? "bg-pink-500/10" : "hover:bg-white/5"
+                      )}
+                    >
+                      <span className="flex-1 min-w-0 flex items-center gap-1.5 text-sm text-white/90">
+                        {command.label}
+                        {conflicted.has(command.id) && (
+                          <span title="Shares a shortcut with another command">
+                            <AlertTriangle className="w-3.5 h-3.5 text-amber-300" />
+                          </span>
+                        )}
+                      </span>
+                      <div className="flex flex-wrap justify-end items-center gap-1.5">
+                        {recording === command.id ? (
+                          <span className="text-xs text-sm-pink animate-pulse">Press keys… (Esc to cancel)</span>
+                        ) : (
+                          <>
+                            {keymap[command.id].length === 0 && (
+                              <span className="text-xs text-white/30">Unassigned</span>
+                            )}
+                            {keymap[command.id].map(binding => renderBinding(command.id, binding))}
+                          </>
+                        )}
+                        <button
+                          onClick={() => {
+                            setPending(null);
+                            setRecording(command.id);
+                          }}
+                          className="p-1 rounded text-white/50 hover:text-white hover:bg-white/10"
+                          title="Add shortcut"
+                        >
+                          <Plus className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => resetCommand(command.id)}
+                          disabled={!overrides[command.id]}
+                          className="p-1 rounded text-white/50 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none"
+                          title="Reset to default"
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between gap-2 pt-1">
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setPending(null);
+                resetAll();
+              }}
+              disabled={Object.keys(overrides).length === 0}
+              className="text-white/70 hover:text-white hover:bg-white/10"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset all
+            </Button>
+            <Button onClick={onClose} className="bg-sm-magenta hover:bg-sm-magenta/90 text-white">
+              Done
+            </Button>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Map, Minimize2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Size } from '@/lib/viewport';
 
 interface MinimapFrame {
   id: string;
@@ -19,10 +20,14 @@ interface MinimapConnection {
 interface MinimapProps {
   frames: MinimapFrame[];
   connections?: MinimapConnection[];
+  // Visible canvas area, in canvas coordinates
   viewportPosition: { x: number; y: number };
   viewportSize: { width: number; height: number };
   canvasSize: { width: number; height: number };
-  onNavigate: (position: { x: number; y: number }) => void;
+  // Card footprint in canvas coordinates
+  frameSize: Size;
+  // Called with the canvas point to center on (click, or continuously while dragging)
+  onNavigate: (position: { x: number; y: number }, options?: { animate?: boolean }) => void;
   selectedFrameId?: string;
 }
 
@@ -32,29 +37,34 @@ export function Minimap({
   viewportPosition,
   viewportSize,
   canvasSize,
+  frameSize,
   onNavigate,
   selectedFrameId,
 }: MinimapProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [hoveredFrame, setHoveredFrame] = useState<string | null>(null);
   const collapseTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const mapRef = useRef<HTMLDivElement>(null);
+  const isDraggingRef = useRef(false);
 
   const minimapWidth = 220;
   const minimapHeight = 160;
 
-  // Calculate bounds from actual frame positions only (ignore canvasSize)
-  const FRAME_WIDTH = 400; // actual frame width on canvas
-  const FRAME_HEIGHT = 300; // actual frame height on canvas
-
+  // Calculate bounds from frame positions plus the visible area (ignore canvasSize)
   const bounds = frames.length > 0
     ? frames.reduce(
         (acc, frame) => ({
           minX: Math.min(acc.minX, frame.position.x),
-          maxX: Math.max(acc.maxX, frame.position.x + FRAME_WIDTH),
+          maxX: Math.max(acc.maxX, frame.position.x + frameSize.width),
           minY: Math.min(acc.minY, frame.position.y),
-          maxY: Math.max(acc.maxY, frame.position.y + FRAME_HEIGHT),
+          maxY: Math.max(acc.maxY, frame.position.y + frameSize.height),
         }),
-        { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity }
+        {
+          minX: viewportPosition.x,
+          maxX: viewportPosition.x + viewportSize.width,
+          minY: viewportPosition.y,
+          maxY: viewportPosition.y + viewportSize.height,
+        }
       )
     : { minX: 0, maxX: 1000, minY: 0, maxY: 1000 };
 
@@ -72,9 +82,9 @@ export function Minimap({
   const centerOffsetX = (minimapWidth - scaledContentWidth) / 2;
   const centerOffsetY = (minimapHeight - scaledContentHeight) / 2;
 
-  // Frame size in minimap
-  const frameWidth = 32;
-  const frameHeight = 22;
+  // Frame size in minimap (kept readable when zoomed far out)
+  const frameWidth = Math.max(frameSize.width * scale, 6);
+  const frameHeight = Math.max(frameSize.height * scale, 4);
 
   const handleMouseEnter = () => {
     if (collapseTimeoutRef.current) clearTimeout(collapseTimeoutRef.current);
@@ -85,14 +95,34 @@ export function Minimap({
     collapseTimeoutRef.current = setTimeout(() => setIsExpanded(false), 500);
   };
 
-  const handleMinimapClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    const rect = e.currentTarget.getBoundingClientRect();
-    // Convert click position to canvas coordinates
-    const clickX = e.clientX - rect.left - 16; // Account for padding
-    const clickY = e.clientY - rect.top - 12;
-    const canvasX = (clickX - centerOffsetX) / scale + bounds.minX - padding;
-    const canvasY = (clickY - centerOffsetY) / scale + bounds.minY - padding;
-    onNavigate({ x: canvasX, y: canvasY });
+  // Convert a pointer position on the map to canvas coordinates
+  const toCanvasPoint = (clientX: number, clientY: number) => {
+    const rect = mapRef.current!.getBoundingClientRect();
+    const mapX = clientX - rect.left;
+    const mapY = clientY - rect.top;
+    return {
+      x: (mapX - centerOffsetX) / scale + bounds.minX - padding,
+      y: (mapY - centerOffsetY) / scale + bounds.minY - padding,
+    };
+  };
+
+  // Click jumps to a point; dragging keeps the viewport centered under the pointer
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || !mapRef.current) return;
+    isDraggingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    onNavigate(toCanvasPoint(e.clientX, e.clientY), { animate: true });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDraggingRef.current || !mapRef.current) return;
+    onNavigate(toCanvasPoint(e.clientX, e.clientY), { animate: false });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDraggingRef.current) return;
+    isDraggingRef.current = false;
+    e.currentTarget.releasePointerCapture(e.pointerId);
   };
 
   const getFramePosition = (frame: MinimapFrame) => ({
@@ -157,10 +187,14 @@ export function Minimap({
             <div
               className="relative cursor-crosshair"
               style={{ width: minimapWidth + 32, height: minimapHeight + 24, padding: 16 }}
-              onClick={handleMinimapClick}
             >
               <div
-                className="relative w-full h-full rounded-xl overflow-hidden border border-white/[0.06]"
+                ref={mapRef}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className="relative w-full h-full rounded-xl overflow-hidden border border-white/[0.06] touch-none"
                 style={{
                   background: 'linear-gradient(145deg, #0d0d18 0%, #080810 100%)',
                   boxShadow: 'inset 0 2px 10px rgba(0,0,0,0.5)'
@@ -284,8 +318,8 @@ export function Minimap({
                   style={{
                     left: (viewportPosition.x - bounds.minX + padding) * scale + centerOffsetX,
                     top: (viewportPosition.y - bounds.minY + padding) * scale + centerOffsetY,
-                    width: Math.max(viewportSize.width * scale, 40),
-                    height: Math.max(viewportSize.height * scale, 28),
+                    width: Math.max(viewportSize.width * scale, 12),
+                    height: Math.max(viewportSize.height * scale, 8),
                     background: 'rgba(255,255,255,0.03)',
                     border: '1.5px solid rgba(255,255,255,0.25)',
                     boxShadow: '0 0 20px rgba(255,255,255,0.1), inset 0 0 20px rgba(255,255,255,0.02)'
@@ -316,7 +350,7 @@ export function Minimap({
                   <span className="text-[11px] font-medium text-white/60">{frames.length - polishedCount} draft</span>
                 </div>
               </div>
-              <span className="text-[10px] text-white/40 font-medium">Click to navigate</span>
+              <span className="text-[10px] text-white/40 font-medium">Click or drag to navigate</span>
             </div>
           </motion.div>
         )}
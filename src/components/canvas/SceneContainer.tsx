@@ -0,0 +1,321 @@
+import { useState, useRef, useEffect } from "react";
+import { cn } from "@/lib/utils";
+import { Clapperboard, ChevronDown, ChevronRight, Settings2, Ungroup, Layers } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+export interface SceneSettings {
+  name: string;
+  animationStyle: string | null;
+  durationMs: number | null;
+  polishStyle: string | null;
+}
+
+interface SceneContainerProps extends SceneSettings {
+  id: string;
+  // Area covered by the scene on the canvas (member frames plus padding, or the collapsed card)
+  bounds: { x: number; y: number; width: number; height: number };
+  isCollapsed: boolean;
+  isSelected?: boolean;
+  frameCount: number;
+  totalDurationMs: number;
+  thumbnail?: string;
+  zoom: number;
+  readOnly?: boolean;
+  onSelect: (additive: boolean) => void;
+  onToggleCollapse: () => void;
+  onMove: (delta: { dx: number; dy: number }) => void;
+  onMoveEnd?: () => void;
+  onUpdate: (updates: Partial<SceneSettings>) => void;
+  onApplyDefaults: () => void;
+  onUngroup: () => void;
+}
+
+const ANIMATION_STYLES = [
+  { value: "", label: "Frame default" },
+  { value: "static", label: "Static" },
+  { value: "zoom-in", label: "Zoom In" },
+  { value: "zoom-out", label: "Zoom Out" },
+  { value: "pan-left", label: "Pan Left" },
+  { value: "pan-right", label: "Pan Right" },
+  { value: "parallax", label: "Parallax" },
+];
+
+// Height of the draggable label above an expanded scene
+const HEADER_HEIGHT = 32;
+
+export function SceneContainer({
+  id,
+  name,
+  animationStyle,
+  durationMs,
+  polishStyle,
+  bounds,
+  isCollapsed,
+  isSelected = false,
+  frameCount,
+  totalDurationMs,
+  thumbnail,
+  zoom,
+  readOnly = false,
+  onSelect,
+  onToggleCollapse,
+  onMove,
+  onMoveEnd,
+  onUpdate,
+  onApplyDefaults,
+  onUngroup,
+}: SceneContainerProps) {
+  const [draftName, setDraftName] = useState(name);
+  const [draftPolishStyle, setDraftPolishStyle] = useState(polishStyle || "");
+  // Last pointer position while dragging the scene (null when idle)
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+
+  useEffect(() => setDraftName(name), [name]);
+  useEffect(() => setDraftPolishStyle(polishStyle || ""), [polishStyle]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    if (readOnly) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, moved: false };
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = (e.clientX - drag.x) / zoom;
+    const dy = (e.clientY - drag.y) / zoom;
+    if (dx === 0 && dy === 0) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, moved: true };
+    onMove({ dx, dy });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    (e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId);
+    if (drag.moved) {
+      onMoveEnd?.();
+    } else {
+      onSelect(e.shiftKey || e.metaKey || e.ctrlKey);
+    }
+  };
+
+  const commitName = () => {
+    const trimmed = draftName.trim();
+    if (trimmed && trimmed !== name) {
+      onUpdate({ name: trimmed });
+    } else {
+      setDraftName(name);
+    }
+  };
+
+  const commitPolishStyle = () => {
+    const value = draftPolishStyle.trim() || null;
+    if (value !== polishStyle) onUpdate({ polishStyle: value });
+  };
+
+  const durationSec = (totalDurationMs / 1000).toFixed(1);
+
+  const settings = (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="p-1 rounded hover:bg-white/10 transition-colors"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => e.stopPropagation()}
+          title="Scene settings"
+        >
+          <Settings2 className="w-3.5 h-3.5 text-white/60" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-72 bg-[#1a1a2e]/95 border-white/10 text-white space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <label className="text-xs text-white/60 block mb-1">Scene name</label>
+          <Input
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => e.key === "Enter" && commitName()}
+            disabled={readOnly}
+            className="bg-white/10 border-white/20 text-white h-8 text-sm"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-xs text-white/60 block mb-1">Animation</label>
+            <select
+              value={animationStyle || ""}
+              onChange={(e) => onUpdate({ animationStyle: e.target.value || null })}
+              disabled={readOnly}
+              className="w-full h-8 px-2 rounded-md bg-white/10 border border-white/20 text-white text-sm focus:outline-none"
+            >
+              {ANIMATION_STYLES.map(style => (
+                <option key={style.value} value={style.value} className="bg-sm-charcoal">
+                  {style.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs text-white/60 block mb-1">Duration (s)</label>
+            <Input
+              type="number"
+              min={0.5}
+              max={10}
+              step={0.5}
+              value={durationMs ? durationMs / 1000 : ""}
+              placeholder="Default"
+              onChange={(e) => onUpdate({
+                durationMs: e.target.value ? Math.round(Number(e.target.value) * 1000) : null,
+              })}
+              disabled={readOnly}
+              className="bg-white/10 border-white/20 text-white h-8 text-sm"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="text-xs text-white/60 block mb-1">Polish style</label>
+          <Input
+            value={draftPolishStyle}
+            onChange={(e) => setDraftPolishStyle(e.target.value)}
+            onBlur={commitPolishStyle}
+            onKeyDown={(e) => e.key === "Enter" && commitPolishStyle()}
+            placeholder="e.g. moody noir, high contrast"
+            disabled={readOnly}
+            className="bg-white/10 border-white/20 text-white h-8 text-sm placeholder:text-white/30"
+          />
+        </div>
+        {!readOnly && (
+          <div className="flex gap-2 pt-1">
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1 border-white/20 text-white hover:bg-white/10"
+              onClick={onApplyDefaults}
+              disabled={frameCount === 0 || (!animationStyle && !durationMs)}
+            >
+              <Layers className="w-3.5 h-3.5 mr-1.5" />
+              Apply to frames
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="border-white/20 text-red-400 hover:bg-red-500/10"
+              onClick={onUngroup}
+              title="Remove the scene and keep its frames"
+            >
+              <Ungroup className="w-3.5 h-3.5 mr-1.5" />
+              Ungroup
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+
+  if (isCollapsed) {
+    return (
+      <div
+        data-scene-id={id}
+        className={cn(
+          "absolute rounded-xl overflow-hidden bg-[#1a1a2e]/90 backdrop-blur-md cursor-pointer select-none",
+          "shadow-[4px_4px_0_rgba(255,255,255,0.06),8px_8px_0_rgba(255,255,255,0.03)]",
+          isSelected ? "border-2 border-pink-500/70" : "border border-sm-purple/50"
+        )}
+        style={{ left: bounds.x, top: bounds.y, width: bounds.width }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onClick={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => {
+          e.stopPropagation();
+          onToggleCollapse();
+        }}
+      >
+        <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+          <div className="flex items-center gap-2 min-w-0">
+            <button
+              className="p-0.5 rounded hover:bg-white/10"
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleCollapse();
+              }}
+              title="Expand scene"
+            >
+              <ChevronRight className="w-3.5 h-3.5 text-white/60" />
+            </button>
+            <span className="text-xs font-medium text-white/80 truncate">{name}</span>
+          </div>
+          {settings}
+        </div>
+        {/* Collapsed bounds are one frame's footprint, so the thumbnail matches the board shape */}
+        <div className="p-2 relative" style={{ aspectRatio: `${bounds.width} / ${bounds.height}` }}>
+          {thumbnail ? (
+            <img src={thumbnail} alt={name} className="w-full h-full object-cover rounded-lg opacity-80" />
+          ) : (
+            <div className="w-full h-full rounded-lg flex items-center justify-center bg-gradient-to-br from-sm-purple/20 to-sm-magenta/10">
+              <Clapperboard className="w-8 h-8 text-white/30" />
+            </div>
+          )}
+          <div className="absolute bottom-2 left-2 px-1.5 py-0.5 rounded bg-black/60 backdrop-blur-sm">
+            <span className="text-[10px] text-white/70">
+              {frameCount} frame{frameCount !== 1 ? "s" : ""}
+            </span>
+          </div>
+          <div className="absolute bottom-2 right-2 px-1.5 py-0.5 rounded bg-black/60 backdrop-blur-sm">
+            <span className="text-[10px] font-mono text-white/70">{durationSec}s</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      data-scene-id={id}
+      className={cn(
+        "absolute rounded-2xl border-2 border-dashed pointer-events-none",
+        isSelected ? "border-pink-500/50 bg-pink-500/[0.03]" : "border-sm-purple/30 bg-white/[0.02]"
+      )}
+      style={{ left: bounds.x, top: bounds.y, width: bounds.width, height: bounds.height }}
+    >
+      {/* Header doubles as the drag handle for the whole scene */}
+      <div
+        className="absolute left-0 flex items-center gap-1.5 px-2 rounded-lg bg-[#1a1a2e]/90 border border-white/10 pointer-events-auto cursor-grab active:cursor-grabbing select-none"
+        style={{ top: -HEADER_HEIGHT - 4, height: HEADER_HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          className="p-0.5 rounded hover:bg-white/10"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleCollapse();
+          }}
+          title="Collapse scene"
+        >
+          <ChevronDown className="w-3.5 h-3.5 text-white/60" />
+        </button>
+        <Clapperboard className="w-3.5 h-3.5 text-sm-purple" />
+        <span className="text-xs font-medium text-white/80 max-w-[160px] truncate">{name}</span>
+        <span className="text-[10px] text-white/40 font-mono">
+          {frameCount} · {durationSec}s
+        </span>
+        {settings}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState, useEffect, useRef } from "react";
+import { motion } from "framer-motion";
+import { X, Camera, Check, RotateCcw } from "lucide-react";
+import { GlassCard } from "@/components/layout/GlassCard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { cn, valuesEqual } from "@/lib/utils";
+import {
+  ShotMetadata,
+  SHOT_SIZES,
+  CAMERA_ANGLES,
+  CAMERA_MOVEMENTS,
+  LENS_PRESETS,
+  normalizeShotMetadata,
+} from "@/lib/shotMetadata";
+import type { Frame as BoardFrame } from "@/hooks/useBoard";
+
+interface ShotInspectorProps {
+  // The selected frame; null when zero or several frames are selected
+  frame: BoardFrame | null;
+  readOnly?: boolean;
+  // `base` is the frame as it was when editing started, for the concurrent-edit check
+  onSave: (frameId: string, shot: ShotMetadata, base: BoardFrame) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const selectClassName =
+  "w-full h-9 px-2 rounded-lg bg-white/10 border border-white/20 text-white text-sm focus:outline-none focus:ring-2 focus:ring-sm-magenta/50 disabled:opacity-50";
+
+/**
+ * Structured shot details for the selected frame: shot size, camera, cast, location and sound.
+ * Edits are kept as a draft until saved, so a half-typed change never overwrites a collaborator's.
+ */
+export function ShotInspector({ frame, readOnly = false, onSave, onClose }: ShotInspectorProps) {
+  const [draft, setDraft] = useState<ShotMetadata>(frame?.shot ?? {});
+  const [characterInput, setCharacterInput] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  // Frame the draft started from
+  const baseRef = useRef<BoardFrame | null>(frame);
+
+  const isDirty = !!baseRef.current && !valuesEqual(normalizeShotMetadata(draft), baseRef.current.shot);
+
+  // Follow the selection, and saved changes while there is nothing unsaved
+  useEffect(() => {
+    const base = baseRef.current;
+    const switched = frame?.id !== base?.id;
+    const clean = !base || valuesEqual(normalizeShotMetadata(draft), base.shot);
+    if (switched || clean) {
+      baseRef.current = frame;
+      setDraft(frame?.shot ?? {});
+      if (switched) setCharacterInput("");
+    }
+    // Only react to the frame changing, not to typing
+  }, [frame]);
+
+  const update = (changes: Partial<ShotMetadata>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const addCharacters = (text: string) => {
+    const names = text.split(",").map(n => n.trim()).filter(Boolean);
+    if (names.length === 0) return;
+    update({ characters: [...(draft.characters ?? []), ...names.filter(n => !draft.characters?.includes(n))] });
+    setCharacterInput("");
+  };
+
+  const handleSave = async () => {
+    const base = baseRef.current;
+    if (!frame || !base) return;
+    setIsSaving(true);
+    const shot = normalizeShotMetadata(draft);
+    const saved = await onSave(frame.id, shot, base);
+    setIsSaving(false);
+    if (saved) {
+      baseRef.current = { ...base, shot };
+      setDraft(shot);
+    }
+  };
+
+  const handleRevert = () => {
+    baseRef.current = frame;
+    setDraft(frame?.shot ?? {});
+    setCharacterInput("");
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 100 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 100 }}
+      className="fixed right-[340px] top-20 bottom-4 w-80 z-40"
+    >
+      <GlassCard className="h-full p-4 flex flex-col">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="flex items-center gap-2 font-display font-bold text-lg text-white min-w-0">
+            <Camera className="w-5 h-5 flex-shrink-0" />
+            <span className="truncate">{frame ? frame.title || "Untitled Frame" : "Shot details"}</span>
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-white/60" />
+          </button>
+        </div>
+
+        {!frame ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center">
+            <Camera className="w-8 h-8 text-white/20 mb-2" />
+            <p className="text-xs text-white/40">Select a single frame to see its shot details</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto space-y-4 -mx-1 px-1">
+              <div>
+                <label className="text-xs text-white/60 block mb-1.5">Shot size</label>
+                <div className="grid grid-cols-4 gap-1">
+                  {SHOT_SIZES.map(option => (
+                    <button
+                      key={option.value}
+                      disabled={readOnly}
+                      onClick={() => update({ shotSize: draft.shotSize === option.value ? undefined : option.value })}
+                      className={cn(
+                        "py-1.5 rounded-lg text-xs font-mono transition-colors disabled:cursor-default",
+                        draft.shotSize === option.value
+                          ? "bg-gradient-to-br from-pink-500 to-rose-500 text-white"
+                          : "bg-white/5 text-white/60 hover:bg-white/10"
+                      )}
+                      title={option.label}
+                    >
+                      {option.value}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-xs text-white/60 block mb-1">Camera angle</label>
+                  <select
+                    value={draft.cameraAngle ?? ""}
+                    disabled={readOnly}
+                    onChange={(e) => update({ cameraAngle: (e.target.value || undefined) as ShotMetadata["cameraAngle"] })}
+                    className={selectClassName}
+                  >
+                    <option value="" className="bg-sm-charcoal">—</option>
+                    {CAMERA_ANGLES.map(option => (
+                      <option key={option.value} value={option.value} className="bg-sm-charcoal">{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs text-white/60 block mb-1">Camera movement</label>
+                  <select
+                    value={draft.cameraMovement ?? ""}
+                    disabled={readOnly}
+                    onChange={(e) => update({ cameraMovement: (e.target.value || undefined) as ShotMetadata["cameraMovement"] })}
+                    className={selectClassName}
+                  >
+                    <option value="" className="bg-sm-charcoal">—</option>
+                    {CAMERA_MOVEMENTS.map(option => (
+                      <option key={option.value} value={option.value} className="bg-sm-charcoal">{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs text-white/60 block mb-1">Lens</label>
+                <Input
+                  value={draft.lens ?? ""}
+                  disabled={readOnly}
+                  onChange={(e) => update({ lens: e.target.value })}
+                  list="shot-lens-presets"
+                  className="bg-white/10 border-white/20 text-white h-9"
+                  placeholder="e.g. 35mm"
+                />
+                <datalist id="shot-lens-presets">
+                  {LENS_PRESETS.map(lens => <option key={lens} value={lens} />)}
+                </datalist>
+              </div>
+
+              <div>
+                <label className="text-xs text-white/60 block mb-1">Characters</label>
+                {(draft.characters?.length ?? 0) > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-1.5">
+                    {draft.characters!.map(name => (
+                      <span
+                        key={name}
+                        className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-md bg-white/10 text-xs text-white/90"
+                      >
+                        {name}
+                        {!readOnly && (
+                          <button
+                            onClick={() => update({ characters: draft.characters!.filter(n => n !== name) })}
+                            className="p-0.5 rounded text-white/40 hover:text-white hover:bg-white/10"
+                            title={`Remove ${name}`}
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        )}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {!readOnly && (
+                  <Input
+                    value={characterInput}
+                    onChange={(e) => setCharacterInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" || e.key === ",") {
+                        e.preventDefault();
+                        addCharacters(characterInput);
+                      }
+                    }}
+                    onBlur={() => addCharacters(characterInput)}
+                    className="bg-white/10 border-white/20 text-white h-9"
+                    placeholder="Add a character and press Enter"
+                  />
+                )}
+              </div>
+
+              <div>
+                <label className="text-xs text-white/60 block mb-1">Location</label>
+                <Input
+                  value={draft.location ?? ""}
+                  disabled={readOnly}
+                  onChange={(e) => update({ location: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white h-9"
+                  placeholder="e.g. INT. Kitchen — night"
+                />
+              </div>
+
+              <div>
+                <label className="text-xs text-white/60 block mb-1">Dialogue</label>
+                <Textarea
+                  value={draft.dialogue ?? ""}
+                  disabled={readOnly}
+                  onChange={(e) => update({ dialogue: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white text-sm min-h-[70px]"
+                  placeholder="Lines spoken in this shot..."
+                />
+              </div>
+
+              <div>
+                <label className="text-xs text-white/60 block mb-1">SFX</label>
+                <Input
+                  value={draft.sfx ?? ""}
+                  disabled={readOnly}
+                  onChange={(e) => update({ sfx: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white h-9"
+                  placeholder="e.g. Thunder, door slam"
+                />
+              </div>
+            </div>
+
+            {!readOnly && (
+              <div className="flex gap-2 pt-3 mt-3 border-t border-white/10">
+                <Button
+                  variant="ghost"
+                  onClick={handleRevert}
+                  disabled={!isDirty || isSaving}
+                  className="text-white/70 hover:text-white hover:bg-white/10"
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Revert
+                </Button>
+                <Button
+                  onClick={handleSave}
+                  disabled={!isDirty || isSaving}
+                  className="flex-1 bg-sm-magenta hover:bg-sm-magenta/90 text-white"
+                >
+                  <Check className="w-4 h-4 mr-2" />
+                  Save shot
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </GlassCard>
+    </motion.div>
+  );
+}
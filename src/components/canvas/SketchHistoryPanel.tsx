@@ -0,0 +1,58 @@
+import { useEffect, useRef } from "react";
+import { History } from "lucide-react";
+import type { SketchHistorySession } from "@/lib/sketchHistory";
+import { cn } from "@/lib/utils";
+
+interface SketchHistoryPanelProps {
+  session: SketchHistorySession | undefined;
+  // Number of steps to have applied; 0 is the sketch as it was opened
+  onJump: (index: number) => void;
+}
+
+/**
+ * Every step of the sketch editor's undo history, newest at the bottom.
+ * Clicking a step jumps there; the steps after it stay available until something new is drawn.
+ */
+export function SketchHistoryPanel({ session, onJump }: SketchHistoryPanelProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const changes = session?.changes ?? [];
+  const index = session?.index ?? 0;
+
+  // Keep the current step in view as history grows
+  useEffect(() => {
+    const current = listRef.current?.querySelector<HTMLElement>("[data-current]");
+    current?.scrollIntoView({ block: "nearest" });
+  }, [index, changes.length]);
+
+  const steps = [{ label: "Opened sketch" }, ...changes];
+
+  return (
+    <div className="w-52 shrink-0 flex flex-col gap-2 p-3 rounded-xl bg-white/5">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-white/40 uppercase tracking-wider">History</span>
+        <span className="text-[10px] text-white/40 font-mono">{index}/{changes.length}</span>
+      </div>
+
+      <div ref={listRef} className="flex flex-col gap-0.5 max-h-[22vh] overflow-y-auto">
+        {steps.map((step, i) => (
+          <button
+            key={i}
+            onClick={() => onJump(i)}
+            data-current={i === index ? "" : undefined}
+            className={cn(
+              "flex items-center gap-1.5 px-1.5 py-1 rounded-md text-left text-xs transition-all",
+              i === index
+                ? "bg-sm-magenta/30 text-white"
+                : i > index
+                  ? "text-white/30 hover:bg-white/10"
+                  : "text-white/70 hover:bg-white/10"
+            )}
+          >
+            {i === 0 ? <History className="w-3 h-3 shrink-0" /> : <span className="w-3 text-[10px] text-white/40 shrink-0">{i}</span>}
+            <span className="truncate">{step.label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  Eye,
+  EyeOff,
+  Lock,
+  LockOpen,
+  Plus,
+  StickyNote,
+  Trash2,
+} from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type { SketchLayer } from "@/lib/sketchDocument";
+import { cn } from "@/lib/utils";
+
+interface SketchLayersPanelProps {
+  // Bottom to top, as stored
+  layers: SketchLayer[];
+  activeLayerId: string | null;
+  onSelect: (layerId: string) => void;
+  onAdd: () => void;
+  onDelete: (layerId: string) => void;
+  // +1 moves the layer up (in front), -1 down
+  onMove: (layerId: string, direction: 1 | -1) => void;
+  // `record` is false while a value is still being dragged, so it becomes one undo step
+  onChange: (layerId: string, changes: Partial<Omit<SketchLayer, "id" | "objects">>, record?: boolean) => void;
+}
+
+/**
+ * Layer stack of the sketch editor, listed top layer first
+ */
+export function SketchLayersPanel({
+  layers,
+  activeLayerId,
+  onSelect,
+  onAdd,
+  onDelete,
+  onMove,
+  onChange,
+}: SketchLayersPanelProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState("");
+  const activeLayer = layers.find(l => l.id === activeLayerId);
+
+  const startRename = (layer: SketchLayer) => {
+    setRenamingId(layer.id);
+    setNameDraft(layer.name);
+  };
+
+  const finishRename = () => {
+    const layer = layers.find(l => l.id === renamingId);
+    const name = nameDraft.trim();
+    if (layer && name && name !== layer.name) onChange(layer.id, { name });
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="w-52 shrink-0 flex flex-col gap-2 p-3 rounded-xl bg-white/5">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-white/40 uppercase tracking-wider">Layers</span>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <button
+              onClick={onAdd}
+              className="p-1 rounded-md bg-white/10 text-white/70 hover:bg-white/20 hover:text-white transition-all"
+            >
+              <Plus className="w-3.5 h-3.5" />
+            </button>
+          </TooltipTrigger>
+          <TooltipContent>Add layer</TooltipContent>
+        </Tooltip>
+      </div>
+
+      <div className="flex flex-col gap-1 max-h-[40vh] overflow-y-auto">
+        {[...layers].reverse().map((layer) => {
+          const isActive = layer.id === activeLayerId;
+          const index = layers.indexOf(layer);
+          return (
+            <div
+              key={layer.id}
+              onClick={() => onSelect(layer.id)}
+              className={cn(
+                "group flex items-center gap-1 px-1.5 py-1 rounded-lg cursor-pointer transition-all",
+                isActive ? "bg-sm-magenta/30 ring-1 ring-sm-magenta/60" : "hover:bg-white/10",
+                !layer.visible && "opacity-50"
+              )}
+            >
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onChange(layer.id, { visible: !layer.visible });
+                }}
+                className="p-0.5 text-white/60 hover:text-white"
+                title={layer.visible ? "Hide layer" : "Show layer"}
+              >
+                {layer.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+              </button>
+
+              {renamingId === layer.id ? (
+                <input
+                  autoFocus
+                  value={nameDraft}
+                  onChange={(e) => setNameDraft(e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  onKeyDown={(e) => {
+                    // Keep editor shortcuts (tools, undo, delete) out of the name field
+                    e.stopPropagation();
+                    if (e.key === "Enter") finishRename();
+                    if (e.key === "Escape") setRenamingId(null);
+                  }}
+                  onBlur={finishRename}
+                  className="flex-1 min-w-0 bg-black/40 border border-white/20 rounded px-1 text-xs text-white outline-none"
+                />
+              ) : (
+                <span
+                  className="flex-1 min-w-0 truncate text-xs text-white/80"
+                  onDoubleClick={(e) => {
+                    e.stopPropagation();
+                    startRename(layer);
+                  }}
+                  title="Double-click to rename"
+                >
+                  {layer.name}
+                </span>
+              )}
+
+              {layer.notesOnly && <StickyNote className="w-3 h-3 text-amber-300 shrink-0" />}
+
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onChange(layer.id, { locked: !layer.locked });
+                }}
+                className={cn("p-0.5 hover:text-white", layer.locked ? "text-white/80" : "text-white/30")}
+                title={layer.locked ? "Unlock layer" : "Lock layer"}
+              >
+                {layer.locked ? <Lock className="w-3.5 h-3.5" /> : <LockOpen className="w-3.5 h-3.5" />}
+              </button>
+
+              <div className="flex flex-col">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onMove(layer.id, 1);
+                  }}
+                  disabled={index === layers.length - 1}
+                  className="text-white/40 hover:text-white disabled:opacity-20"
+                  title="Move up"
+                >
+                  <ChevronUp className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onMove(layer.id, -1);
+                  }}
+                  disabled={index === 0}
+                  className="text-white/40 hover:text-white disabled:opacity-20"
+                  title="Move down"
+                >
+                  <ChevronDown className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Active layer settings */}
+      {activeLayer && (
+        <div className="flex flex-col gap-2 pt-2 border-t border-white/10">
+          <div className="flex items-center justify-between text-[11px] text-white/60">
+            <span>Opacity</span>
+            <span className="font-mono">{Math.round(activeLayer.opacity * 100)}%</span>
+          </div>
+          <Slider
+            value={[activeLayer.opacity * 100]}
+            min={0}
+            max={100}
+            step={5}
+            onValueChange={([value]) => onChange(activeLayer.id, { opacity: value / 100 }, false)}
+            onValueCommit={([value]) => onChange(activeLayer.id, { opacity: value / 100 })}
+          />
+
+          <button
+            onClick={() => onChange(activeLayer.id, { notesOnly: !activeLayer.notesOnly })}
+            className={cn(
+              "px-2 h-7 rounded-lg text-xs font-medium transition-all flex items-center gap-1.5",
+              activeLayer.notesOnly
+                ? "bg-amber-500/25 text-amber-200"
+                : "bg-white/10 text-white/60 hover:bg-white/20"
+            )}
+            title="Notes-only layers are saved with the sketch but left out of AI polish"
+          >
+            <StickyNote className="w-3 h-3" />
+            Notes only
+          </button>
+
+          <button
+            onClick={() => onDelete(activeLayer.id)}
+            disabled={layers.length <= 1}
+            className="px-2 h-7 rounded-lg text-xs font-medium transition-all flex items-center gap-1.5 bg-red-500/20 text-red-200 hover:bg-red-500/30 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="w-3 h-3" />
+            Delete layer
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { Size } from "@/lib/viewport";
+import { FrameDiff, FrameChangeType } from "@/lib/snapshots";
+
+interface SnapshotDiffViewProps {
+  frames: FrameDiff[];
+  // Card footprint in board coordinates (follows the board's aspect ratio)
+  frameSize: Size;
+  width?: number;
+  height?: number;
+}
+
+const CHANGE_STYLES: Record<FrameChangeType, string> = {
+  added: "border-sm-mint bg-sm-mint/10",
+  removed: "border-red-400 border-dashed bg-red-500/10 opacity-60",
+  edited: "border-amber-400 bg-amber-400/10",
+  moved: "border-sky-400 bg-sky-400/10",
+  unchanged: "border-white/20 bg-white/5 opacity-50",
+};
+
+export const CHANGE_LABELS: Record<FrameChangeType, string> = {
+  added: "Added",
+  removed: "Removed",
+  edited: "Edited",
+  moved: "Moved",
+  unchanged: "Unchanged",
+};
+
+const PADDING = 24;
+
+/**
+ * Visual diff of two board versions, drawn on one scaled-down canvas.
+ * Removed frames are drawn where they were; moved frames show a line from their old spot.
+ */
+export function SnapshotDiffView({ frames, frameSize, width = 560, height = 300 }: SnapshotDiffViewProps) {
+  const layout = useMemo(() => {
+    const positions = frames.flatMap(f => [f.before, f.after].filter(Boolean).map(v => ({ x: v!.x, y: v!.y })));
+    if (positions.length === 0) return null;
+
+    const minX = Math.min(...positions.map(p => p.x));
+    const minY = Math.min(...positions.map(p => p.y));
+    const maxX = Math.max(...positions.map(p => p.x)) + frameSize.width;
+    const maxY = Math.max(...positions.map(p => p.y)) + frameSize.height;
+    const scale = Math.min(
+      (width - PADDING * 2) / (maxX - minX),
+      (height - PADDING * 2) / (maxY - minY),
+      0.5
+    );
+
+    // Center the content in the view
+    const offsetX = (width - (maxX - minX) * scale) / 2;
+    const offsetY = (height - (maxY - minY) * scale) / 2;
+    const toView = (p: { x: number; y: number }) => ({
+      x: (p.x - minX) * scale + offsetX,
+      y: (p.y - minY) * scale + offsetY,
+    });
+
+    return { scale, toView };
+  }, [frames, frameSize, width, height]);
+
+  if (!layout) {
+    return (
+      <div
+        className="flex items-center justify-center rounded-xl bg-black/20 border border-white/10 text-xs text-white/40"
+        style={{ width, height }}
+      >
+        Both versions are empty
+      </div>
+    );
+  }
+
+  const { scale, toView } = layout;
+  const frameWidth = frameSize.width * scale;
+  const frameHeight = frameSize.height * scale;
+
+  return (
+    <div className="relative rounded-xl bg-black/20 border border-white/10 overflow-hidden" style={{ width, height }}>
+      {/* Movement lines */}
+      <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+        {frames
+          .filter(f => f.before && f.after && (f.before.x !== f.after.x || f.before.y !== f.after.y))
+          .map(f => {
+            const from = toView(f.before!);
+            const to = toView(f.after!);
+            return (
+              <g key={f.id}>
+                <rect
+                  x={from.x}
+                  y={from.y}
+                  width={frameWidth}
+                  height={frameHeight}
+                  rx={3}
+                  fill="none"
+                  stroke="rgba(56,189,248,0.4)"
+                  strokeDasharray="3 3"
+                />
+                <line
+                  x1={from.x + frameWidth / 2}
+                  y1={from.y + frameHeight / 2}
+                  x2={to.x + frameWidth / 2}
+                  y2={to.y + frameHeight / 2}
+                  stroke="rgba(56,189,248,0.6)"
+                  strokeWidth={1}
+                />
+              </g>
+            );
+          })}
+      </svg>
+
+      {frames.map(f => {
+        const frame = f.after ?? f.before!;
+        const pos = toView(frame);
+        const image = frame.polishedUrl || frame.sketchUrl;
+        return (
+          <div
+            key={f.id}
+            className={cn("absolute rounded border overflow-hidden", CHANGE_STYLES[f.change])}
+            style={{ left: pos.x, top: pos.y, width: frameWidth, height: frameHeight }}
+            title={`${frame.title} — ${CHANGE_LABELS[f.change]}${f.fields.length ? `: ${f.fields.join(", ")}` : ""}`}
+          >
+            {image && <img src={image} alt="" className="w-full h-full object-cover opacity-70" loading="lazy" />}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
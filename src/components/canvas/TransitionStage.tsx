@@ -0,0 +1,86 @@
+import { useState, useLayoutEffect } from "react";
+import { Film } from "lucide-react";
+import { TransitionType, getTransitionLayers, transitionLayerStyle } from "@/lib/transitions";
+
+export interface StageFrame {
+  id: string;
+  title: string;
+  imageUrl?: string;
+  motionNotes?: string;
+}
+
+interface TransitionStageProps {
+  frame: StageFrame;
+  // Frame being transitioned away from (null for jumps, which cut straight to the frame)
+  previous: StageFrame | null;
+  transition: { type: TransitionType; durationMs: number } | null;
+}
+
+function StageImage({ frame }: { frame: StageFrame }) {
+  return frame.imageUrl ? (
+    <img src={frame.imageUrl} alt={frame.title} className="w-full h-full object-contain" />
+  ) : (
+    <div className="w-full h-full flex items-center justify-center">
+      <div className="text-center">
+        <div className="w-16 h-16 rounded-2xl bg-white/10 flex items-center justify-center mx-auto mb-3">
+          <Film className="w-8 h-8 text-white/40" />
+        </div>
+        <p className="text-white/40">No image</p>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Preview player stage: plays the connection's transition whenever the frame changes
+ */
+export function TransitionStage({ frame, previous, transition }: TransitionStageProps) {
+  const [progress, setProgress] = useState(1);
+  const animate = !!previous && !!transition && transition.durationMs > 0;
+
+  // Layout effect so the new frame never flashes in before the transition starts
+  useLayoutEffect(() => {
+    if (!animate || !transition) {
+      setProgress(1);
+      return;
+    }
+
+    setProgress(0);
+    const start = performance.now();
+    let frameId = requestAnimationFrame(function step(now) {
+      const t = Math.min((now - start) / transition.durationMs, 1);
+      setProgress(t);
+      if (t < 1) frameId = requestAnimationFrame(step);
+    });
+    return () => cancelAnimationFrame(frameId);
+    // Restart only when the frame itself changes
+  }, [frame.id]);
+
+  const inTransition = animate && progress < 1 && previous;
+  const layers = inTransition ? getTransitionLayers(transition.type, progress) : null;
+
+  return (
+    <div className="absolute inset-0 overflow-hidden bg-black">
+      {inTransition && layers && (
+        <div key={previous.id} className="absolute inset-0 bg-sm-charcoal" style={transitionLayerStyle(layers.from)}>
+          <StageImage frame={previous} />
+        </div>
+      )}
+      <div
+        key={frame.id}
+        className="absolute inset-0 bg-sm-charcoal"
+        style={layers ? transitionLayerStyle(layers.to) : undefined}
+      >
+        <StageImage frame={frame} />
+
+        {/* Frame title overlay */}
+        <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/60 to-transparent">
+          <p className="text-white font-medium">{frame.title}</p>
+          {frame.motionNotes && (
+            <p className="text-white/60 text-sm mt-1">{frame.motionNotes}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
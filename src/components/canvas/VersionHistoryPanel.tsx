@@ -0,0 +1,348 @@
+import { useState, useEffect, useMemo } from "react";
+import { motion } from "framer-motion";
+import { X, History, Camera, Trash2, RotateCcw, CopyPlus, Loader2, Clock } from "lucide-react";
+import { GlassCard } from "@/components/layout/GlassCard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { BoardSnapshotData, diffSnapshots, summarizeDiff } from "@/lib/snapshots";
+import { getFrameSize } from "@/lib/aspectRatio";
+import { SnapshotDiffView, CHANGE_LABELS } from "./SnapshotDiffView";
+
+interface HistorySnapshot {
+  id: string;
+  name: string;
+  kind: "manual" | "auto";
+  frameCount: number;
+  createdAt: string;
+}
+
+interface VersionHistoryPanelProps {
+  snapshots: HistorySnapshot[];
+  loading: boolean;
+  // The live board, compared against by default
+  current: BoardSnapshotData | null;
+  canEdit: boolean;
+  loadSnapshotData: (snapshotId: string) => Promise<BoardSnapshotData | null>;
+  onCreate: (name: string) => Promise<void>;
+  onDelete: (snapshotId: string) => void;
+  onRestoreInPlace: (snapshotId: string) => Promise<void>;
+  onRestoreAsNew: (snapshotId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Compare target for the selected snapshot
+const CURRENT = "current";
+
+const formatDate = (createdAt: string) =>
+  new Date(createdAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+/**
+ * Board version history: take named snapshots, compare any snapshot with the
+ * current board or another snapshot, and restore in place or as a new board.
+ */
+export function VersionHistoryPanel({
+  snapshots,
+  loading,
+  current,
+  canEdit,
+  loadSnapshotData,
+  onCreate,
+  onDelete,
+  onRestoreInPlace,
+  onRestoreAsNew,
+  onClose,
+}: VersionHistoryPanelProps) {
+  const [newName, setNewName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT);
+  const [selectedData, setSelectedData] = useState<BoardSnapshotData | null>(null);
+  const [compareData, setCompareData] = useState<BoardSnapshotData | null>(null);
+  const [isLoadingData, setIsLoadingData] = useState(false);
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Select the newest snapshot when the panel opens
+  useEffect(() => {
+    if (!selectedId && snapshots.length > 0) setSelectedId(snapshots[0].id);
+  }, [snapshots, selectedId]);
+
+  useEffect(() => {
+    setConfirmRestore(false);
+    if (!selectedId) {
+      setSelectedData(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingData(true);
+    Promise.all([
+      loadSnapshotData(selectedId),
+      compareId === CURRENT ? Promise.resolve(null) : loadSnapshotData(compareId),
+    ]).then(([selected, compared]) => {
+      if (cancelled) return;
+      setSelectedData(selected);
+      setCompareData(compared);
+      setIsLoadingData(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, compareId, loadSnapshotData]);
+
+  // The selected snapshot is the "before"; the compare target (current board by default) is the "after"
+  const target = compareId === CURRENT ? current : compareData;
+  const diff = useMemo(
+    () => (selectedData && target ? diffSnapshots(selectedData, target) : null),
+    [selectedData, target]
+  );
+  const summary = diff ? summarizeDiff(diff) : [];
+  const changedFrames = diff ? diff.frames.filter(f => f.change !== "unchanged") : [];
+  const selected = snapshots.find(s => s.id === selectedId);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    await onCreate(newName.trim() || `Snapshot · ${new Date().toLocaleString()}`);
+    setNewName("");
+    setIsCreating(false);
+  };
+
+  const handleRestoreInPlace = async () => {
+    if (!selectedId) return;
+    setIsRestoring(true);
+    await onRestoreInPlace(selectedId);
+    setIsRestoring(false);
+    setConfirmRestore(false);
+  };
+
+  const handleRestoreAsNew = async () => {
+    if (!selectedId) return;
+    setIsRestoring(true);
+    await onRestoreAsNew(selectedId);
+    setIsRestoring(false);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="fixed left-4 right-4 top-20 bottom-4 z-40 max-w-5xl mx-auto"
+    >
+      <GlassCard className="h-full p-4 flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="flex items-center gap-2 font-display font-bold text-lg text-white">
+            <History className="w-5 h-5" />
+            Version history
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-white/60" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex gap-4 min-h-0">
+          {/* Snapshot list */}
+          <div className="w-72 flex-shrink-0 flex flex-col min-h-0">
+            {canEdit && (
+              <div className="flex gap-1.5 mb-3">
+                <Input
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleCreate();
+                  }}
+                  placeholder="Name, e.g. Before client review"
+                  className="h-8 bg-white/10 border-white/20 text-white text-xs"
+                />
+                <Button
+                  size="sm"
+                  onClick={handleCreate}
+                  disabled={isCreating}
+                  className="h-8 bg-sm-magenta hover:bg-sm-magenta/90 text-white"
+                  title="Save snapshot"
+                >
+                  {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+                </Button>
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto space-y-1.5 -mx-1 px-1">
+              {loading && snapshots.length === 0 && (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-5 h-5 text-white/40 animate-spin" />
+                </div>
+              )}
+              {!loading && snapshots.length === 0 && (
+                <div className="text-center py-8">
+                  <History className="w-8 h-8 text-white/20 mx-auto mb-2" />
+                  <p className="text-xs text-white/40">No snapshots yet</p>
+                </div>
+              )}
+              {snapshots.map(snapshot => (
+                <div
+                  key={snapshot.id}
+                  onClick={() => setSelectedId(snapshot.id)}
+                  className={cn(
+                    "group p-2.5 rounded-xl border cursor-pointer transition-colors",
+                    snapshot.id === selectedId
+                      ? "border-pink-400/40 bg-pink-500/5"
+                      : "border-white/[0.08] bg-white/[0.03] hover:bg-white/[0.06]"
+                  )}
+                >
+                  <div className="flex items-center gap-1.5">
+                    {snapshot.kind === "auto" ? (
+                      <Clock className="w-3 h-3 text-white/40 flex-shrink-0" />
+                    ) : (
+                      <Camera className="w-3 h-3 text-sm-pink flex-shrink-0" />
+                    )}
+                    <span className="text-xs font-medium text-white/90 truncate">{snapshot.name}</span>
+                    {canEdit && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          if (snapshot.id === selectedId) setSelectedId(null);
+                          if (snapshot.id === compareId) setCompareId(CURRENT);
+                          onDelete(snapshot.id);
+                        }}
+                        className="ml-auto p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-white/10 transition-opacity"
+                        title="Delete snapshot"
+                      >
+                        <Trash2 className="w-3 h-3 text-white/50" />
+                      </button>
+                    )}
+                  </div>
+                  <p className="mt-1 text-[10px] text-white/40">
+                    {formatDate(snapshot.createdAt)} · {snapshot.frameCount} frame{snapshot.frameCount !== 1 ? "s" : ""}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Diff and restore */}
+          <div className="flex-1 min-w-0 flex flex-col min-h-0">
+            {!selected ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-white/40">
+                Select a snapshot to compare and restore
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 mb-3 text-xs text-white/60">
+                  <span className="truncate">
+                    Changes from <span className="text-white/90">{selected.name}</span> to
+                  </span>
+                  <select
+                    value={compareId}
+                    onChange={(e) => setCompareId(e.target.value)}
+                    className="bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-xs text-white focus:outline-none"
+                  >
+                    <option value={CURRENT} className="bg-sm-charcoal">Current board</option>
+                    {snapshots
+                      .filter(s => s.id !== selectedId)
+                      .map(s => (
+                        <option key={s.id} value={s.id} className="bg-sm-charcoal">{s.name}</option>
+                      ))}
+                  </select>
+                </div>
+
+                <div className="flex-1 overflow-y-auto space-y-3">
+                  {isLoadingData || !diff ? (
+                    <div className="flex justify-center py-12">
+                      <Loader2 className="w-5 h-5 text-white/40 animate-spin" />
+                    </div>
+                  ) : (
+                    <>
+                      <SnapshotDiffView frames={diff.frames} frameSize={getFrameSize(target!.aspectRatio)} />
+
+                      <div className="flex flex-wrap gap-3 text-[10px] text-white/50">
+                        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-sm-mint" />Added</span>
+                        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-red-400" />Removed</span>
+                        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-amber-400" />Edited</span>
+                        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-sky-400" />Moved</span>
+                      </div>
+
+                      {summary.length === 0 ? (
+                        <p className="text-xs text-white/50">No differences</p>
+                      ) : (
+                        <ul className="space-y-0.5 text-xs text-white/70">
+                          {summary.map(line => <li key={line}>{line}</li>)}
+                        </ul>
+                      )}
+
+                      {changedFrames.length > 0 && (
+                        <div className="space-y-1">
+                          {changedFrames.map(f => (
+                            <div key={f.id} className="flex items-center gap-2 text-[11px]">
+                              <span className="w-16 flex-shrink-0 text-white/40">{CHANGE_LABELS[f.change]}</span>
+                              <span className="text-white/80 truncate">{(f.after ?? f.before)!.title}</span>
+                              {f.fields.length > 0 && (
+                                <span className="text-white/40 truncate">{f.fields.join(", ")}</span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+
+                {canEdit && (
+                  <div className="pt-3 mt-3 border-t border-white/10">
+                    {confirmRestore ? (
+                      <div className="flex items-center gap-2">
+                        <p className="flex-1 text-xs text-white/70">
+                          Replace this board with "{selected.name}"? The current state is saved as a snapshot first.
+                        </p>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setConfirmRestore(false)}
+                          className="text-white/70 hover:text-white hover:bg-white/10"
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={handleRestoreInPlace}
+                          disabled={isRestoring}
+                          className="bg-sm-magenta hover:bg-sm-magenta/90 text-white"
+                        >
+                          {isRestoring && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+                          Restore
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={handleRestoreAsNew}
+                          disabled={isRestoring}
+                          className="text-white/80 hover:text-white hover:bg-white/10"
+                        >
+                          <CopyPlus className="w-4 h-4 mr-1.5" />
+                          Restore as new board
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => setConfirmRestore(true)}
+                          disabled={isRestoring}
+                          className="bg-sm-magenta hover:bg-sm-magenta/90 text-white"
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1.5" />
+                          Restore here
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </GlassCard>
+    </motion.div>
+  );
+}
@@ -0,0 +1,45 @@
+import { FRAME_STATUSES, FrameStatus } from "@/lib/frameStatus";
+import { cn } from "@/lib/utils";
+
+interface FrameStatusSummaryProps {
+  counts: Record<FrameStatus, number>;
+  className?: string;
+}
+
+/**
+ * Board progress through the review workflow: a bar split by frame status,
+ * with the counts of the review statuses underneath
+ */
+export function FrameStatusSummary({ counts, className }: FrameStatusSummaryProps) {
+  const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+  if (total === 0) return null;
+
+  const present = FRAME_STATUSES.filter(status => counts[status.value] > 0);
+  const description = present.map(status => `${counts[status.value]} ${status.label.toLowerCase()}`).join(" · ");
+  // The artwork statuses are implied by the bar; review progress is spelled out
+  const reviewed = present.filter(status => !["draft", "sketch", "polished"].includes(status.value));
+
+  return (
+    <div className={cn("space-y-1.5", className)} title={description}>
+      <div className="flex h-1.5 rounded-full overflow-hidden bg-white/10">
+        {present.map(status => (
+          <div
+            key={status.value}
+            className={status.dotClassName}
+            style={{ width: `${(counts[status.value] / total) * 100}%` }}
+          />
+        ))}
+      </div>
+      {reviewed.length > 0 && (
+        <div className="flex flex-wrap gap-x-2 gap-y-0.5 text-[11px] text-white/60">
+          {reviewed.map(status => (
+            <span key={status.value} className="flex items-center gap-1">
+              <span className={cn("w-1.5 h-1.5 rounded-full", status.dotClassName)} />
+              {counts[status.value]} {status.label.toLowerCase()}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
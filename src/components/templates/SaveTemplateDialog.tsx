@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { X, LayoutTemplate, Loader2 } from "lucide-react";
+import { GlassCard } from "@/components/layout/GlassCard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+
+interface SaveTemplateDialogProps {
+  boardName: string;
+  frameCount: number;
+  onSave: (name: string, description: string, includeSketches: boolean) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Save the current board as a reusable template
+ */
+export function SaveTemplateDialog({ boardName, frameCount, onSave, onClose }: SaveTemplateDialogProps) {
+  const [name, setName] = useState(boardName);
+  const [description, setDescription] = useState("");
+  const [includeSketches, setIncludeSketches] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    await onSave(name, description, includeSketches);
+    setIsSaving(false);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="w-full max-w-md p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="flex items-center gap-2 font-display font-bold text-xl text-white">
+              <LayoutTemplate className="w-5 h-5" />
+              Save as template
+            </h2>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="text-white/50 text-xs uppercase tracking-wider">Name</label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-1 bg-white/10 border-white/20 text-white"
+                autoFocus
+              />
+            </div>
+            <div>
+              <label className="text-white/50 text-xs uppercase tracking-wider">Description</label>
+              <Textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What is this template for?"
+                className="mt-1 bg-white/10 border-white/20 text-white placeholder:text-white/40 resize-none"
+                rows={2}
+              />
+            </div>
+            <div className="flex items-center justify-between p-4 rounded-lg bg-white/5">
+              <div>
+                <p className="text-white text-sm">Include sketches</p>
+                <p className="text-white/50 text-xs">Keep sketches as placeholders; otherwise frames start blank</p>
+              </div>
+              <Switch checked={includeSketches} onCheckedChange={setIncludeSketches} />
+            </div>
+            <p className="text-xs text-white/50">
+              {frameCount} frame{frameCount !== 1 ? "s" : ""} with their connections, durations, animation styles and motion notes.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-6">
+            <Button variant="ghost" onClick={onClose} className="text-white/70 hover:text-white hover:bg-white/10">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !name.trim()}
+              className="bg-sm-magenta hover:bg-sm-magenta/90 text-white font-semibold"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save template
+            </Button>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { X, Plus, LayoutTemplate, Trash2, Loader2 } from "lucide-react";
+import { GlassCard } from "@/components/layout/GlassCard";
+import { cn } from "@/lib/utils";
+import { BoardTemplate, TemplateData } from "@/lib/templates";
+import { AspectRatio, ASPECT_RATIOS, DEFAULT_ASPECT_RATIO, getFrameSize } from "@/lib/aspectRatio";
+
+interface TemplateGalleryProps {
+  builtInTemplates: BoardTemplate[];
+  userTemplates: BoardTemplate[];
+  loading: boolean;
+  // Offer a blank board alongside the templates (new board flow)
+  showBlank?: boolean;
+  // Shape previews are drawn in; the new board flow lets the user pick it
+  aspectRatio?: AspectRatio;
+  onSelect: (template: BoardTemplate | null, aspectRatio: AspectRatio) => Promise<void>;
+  onDelete?: (templateId: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_WIDTH = 240;
+const PREVIEW_HEIGHT = 96;
+const PREVIEW_PADDING = 12;
+
+// Thumbnail of a template's frames and connections
+function TemplatePreview({ data, aspectRatio }: { data: TemplateData; aspectRatio: AspectRatio }) {
+  if (data.frames.length === 0) return null;
+
+  const frameSize = getFrameSize(data.aspectRatio ?? aspectRatio);
+  const minX = Math.min(...data.frames.map(f => f.x));
+  const minY = Math.min(...data.frames.map(f => f.y));
+  const maxX = Math.max(...data.frames.map(f => f.x)) + frameSize.width;
+  const maxY = Math.max(...data.frames.map(f => f.y)) + frameSize.height;
+  const scale = Math.min(
+    (PREVIEW_WIDTH - PREVIEW_PADDING * 2) / (maxX - minX),
+    (PREVIEW_HEIGHT - PREVIEW_PADDING * 2) / (maxY - minY)
+  );
+  const offsetX = (PREVIEW_WIDTH - (maxX - minX) * scale) / 2;
+  const offsetY = (PREVIEW_HEIGHT - (maxY - minY) * scale) / 2;
+  const positions = new Map(data.frames.map(f => [f.ref, {
+    x: (f.x - minX) * scale + offsetX,
+    y: (f.y - minY) * scale + offsetY,
+  }]));
+  const width = frameSize.width * scale;
+  const height = frameSize.height * scale;
+
+  return (
+    <svg viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`} className="w-full h-auto">
+      {data.connections.map((c, index) => {
+        const from = positions.get(c.from);
+        const to = positions.get(c.to);
+        if (!from || !to) return null;
+        return (
+          <line
+            key={index}
+            x1={from.x + width}
+            y1={from.y + height / 2}
+            x2={to.x}
+            y2={to.y + height / 2}
+            stroke="rgba(255,255,255,0.3)"
+            strokeWidth={1}
+          />
+        );
+      })}
+      {data.frames.map(f => {
+        const pos = positions.get(f.ref)!;
+        return f.sketchUrl ? (
+          <image key={f.ref} href={f.sketchUrl} x={pos.x} y={pos.y} width={width} height={height} preserveAspectRatio="xMidYMid slice" />
+        ) : (
+          <rect
+            key={f.ref}
+            x={pos.x}
+            y={pos.y}
+            width={width}
+            height={height}
+            rx={2}
+            fill="rgba(255,255,255,0.08)"
+            stroke="rgba(236,72,153,0.5)"
+            strokeWidth={1}
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+const formatDuration = (data: TemplateData) => {
+  const seconds = Math.round(data.frames.reduce((sum, f) => sum + f.durationMs, 0) / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+/**
+ * Pick a template for a new board (or to fill an empty one).
+ * Built-in templates come first, then the user's saved templates.
+ */
+export function TemplateGallery({
+  builtInTemplates,
+  userTemplates,
+  loading,
+  showBlank = false,
+  aspectRatio: initialAspectRatio = DEFAULT_ASPECT_RATIO,
+  onSelect,
+  onDelete,
+  onClose,
+}: TemplateGalleryProps) {
+  // Template being applied ("blank" for an empty board)
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(initialAspectRatio);
+
+  const handleSelect = async (template: BoardTemplate | null) => {
+    if (pendingId) return;
+    setPendingId(template?.id ?? "blank");
+    await onSelect(template, aspectRatio);
+    setPendingId(null);
+  };
+
+  const renderCard = (template: BoardTemplate) => (
+    <div
+      key={template.id}
+      onClick={() => handleSelect(template)}
+      className={cn(
+        "group relative p-3 rounded-xl border border-white/10 bg-white/[0.03] hover:bg-white/[0.06] hover:border-sm-magenta/50 cursor-pointer transition-colors",
+        pendingId && pendingId !== template.id && "opacity-50 pointer-events-none"
+      )}
+    >
+      <div className="rounded-lg bg-black/20 mb-3 overflow-hidden">
+        <TemplatePreview data={template.data} aspectRatio={aspectRatio} />
+      </div>
+      <div className="flex items-center gap-2">
+        <h4 className="font-medium text-sm text-white truncate">{template.name}</h4>
+        {template.data.aspectRatio && (
+          <span className="px-1.5 py-0.5 rounded bg-white/10 text-[10px] text-white/60 flex-shrink-0">
+            {template.data.aspectRatio}
+          </span>
+        )}
+        {pendingId === template.id && <Loader2 className="w-3.5 h-3.5 text-white/60 animate-spin flex-shrink-0" />}
+        {!template.builtIn && onDelete && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(template.id);
+            }}
+            className="ml-auto p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-white/10 transition-opacity"
+            title="Delete template"
+          >
+            <Trash2 className="w-3.5 h-3.5 text-white/50" />
+          </button>
+        )}
+      </div>
+      {template.description && (
+        <p className="mt-1 text-xs text-white/50 line-clamp-2">{template.description}</p>
+      )}
+      <p className="mt-1.5 text-[10px] text-white/40">
+        {template.data.frames.length} frame{template.data.frames.length !== 1 ? "s" : ""} · {formatDuration(template.data)}
+      </p>
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-4xl"
+      >
+        <GlassCard className="p-6 max-h-[85vh] flex flex-col">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="flex items-center gap-2 font-display font-bold text-xl text-white">
+              <LayoutTemplate className="w-5 h-5" />
+              {showBlank ? "New board" : "Start from a template"}
+            </h2>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {showBlank && (
+            <div className="mb-6">
+              <h3 className="text-xs uppercase tracking-wider text-white/50 mb-2">Aspect ratio</h3>
+              <div className="grid gap-2 grid-cols-3">
+                {ASPECT_RATIOS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setAspectRatio(option.value)}
+                    className={cn(
+                      "p-3 rounded-xl border text-left transition-colors",
+                      aspectRatio === option.value
+                        ? "border-sm-magenta bg-sm-magenta/10"
+                        : "border-white/10 bg-white/[0.03] hover:bg-white/[0.06]"
+                    )}
+                  >
+                    <p className="text-sm font-medium text-white">
+                      {option.label} <span className="text-white/50 font-normal">{option.value}</span>
+                    </p>
+                    <p className="text-xs text-white/50">{option.description}</p>
+                  </button>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-white/40">
+                Sets the shape of every frame. You can change it later from the canvas.
+              </p>
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto space-y-6 -mx-1 px-1">
+            <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+              {showBlank && (
+                <div
+                  onClick={() => handleSelect(null)}
+                  className={cn(
+                    "p-3 rounded-xl border-2 border-dashed border-white/20 hover:border-sm-magenta/50 cursor-pointer flex flex-col items-center justify-center gap-2 min-h-[160px] transition-colors",
+                    pendingId && pendingId !== "blank" && "opacity-50 pointer-events-none"
+                  )}
+                >
+                  {pendingId === "blank" ? (
+                    <Loader2 className="w-6 h-6 text-white/60 animate-spin" />
+                  ) : (
+                    <Plus className="w-6 h-6 text-white/60" />
+                  )}
+                  <span className="text-sm text-white/60 font-medium">Blank board</span>
+                </div>
+              )}
+              {builtInTemplates.map(renderCard)}
+            </div>
+
+            <div>
+              <h3 className="text-xs uppercase tracking-wider text-white/50 mb-3">Your templates</h3>
+              {loading && userTemplates.length === 0 ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-5 h-5 text-white/40 animate-spin" />
+                </div>
+              ) : userTemplates.length === 0 ? (
+                <p className="text-sm text-white/40">
+                  Save any board as a template from its canvas header to reuse it here.
+                </p>
+              ) : (
+                <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+                  {userTemplates.map(renderCard)}
+                </div>
+              )}
+            </div>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  );
+}
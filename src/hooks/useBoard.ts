@@ -1,6 +1,42 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { supabase, DbBoard, DbFrame, DbConnection } from '@/lib/supabase';
-import { uploadFrameImage, deleteFrameImage } from '@/lib/storage';
+import { supabase, DbBoard, DbFrame, DbConnection, DbScene, DbCut, DbComment } from '@/lib/supabase';
+import { uploadFrameImage, uploadSketchImages, deleteFrameImage } from '@/lib/storage';
+import {
+  BoardCommand,
+  BoardHistory,
+  HISTORY_LIMIT,
+  describeCommand,
+  getDeletedFrames,
+  snapshotFields,
+  snapshotSceneFields,
+  snapshotConnectionFields,
+  snapshotCutFields,
+} from '@/lib/boardHistory';
+import {
+  FrameClipboardPayload,
+  getClipboardImageUrls,
+  imageUrlToDataUrl,
+} from '@/lib/frameClipboard';
+import { DEFAULT_TRANSITION_DURATION_MS } from '@/lib/transitions';
+import { ReadingDirection, normalizeReadingDirection } from '@/lib/graphLayout';
+import { AspectRatio, normalizeAspectRatio } from '@/lib/aspectRatio';
+import { ShotMetadata, normalizeShotMetadata } from '@/lib/shotMetadata';
+import { SketchDocument, mapSketchImages, normalizeSketchDocument, sketchImageUrls } from '@/lib/sketchDocument';
+import { FrameStatus, normalizeFrameStatus, isFrameProtected, canChangeFrameStatus, artworkStatus } from '@/lib/frameStatus';
+import { valuesEqual } from '@/lib/utils';
+import {
+  OutboxOperation,
+  OutboxEntry,
+  enqueueMutation,
+  getPendingMutations,
+  removeMutation,
+  markMutationFailed,
+  executeOperation,
+  isOnline,
+  isTransientError,
+  WriteConflictError,
+} from '@/lib/outbox';
+import { BoardSnapshotData, captureBoard, fetchSnapshotImageUrls, findProtectedFrameChanges } from '@/lib/snapshots';
 import { useAuth } from './useAuth';
 import { RealtimeChannel } from '@supabase/supabase-js';
 
@@ -9,14 +45,28 @@ export interface Frame {
   title: string;
   x: number;
   y: number;
-  status: 'sketch' | 'polished';
+  // Workflow status (see lib/frameStatus)
+  status: FrameStatus;
   sketchUrl: string | null;
+  // Editable objects the sketch image was rendered from; null for plain images
+  sketchDocument: SketchDocument | null;
   polishedUrl: string | null;
   thumbnailUrl: string | null;
   motionNotes: string | null;
   animationStyle: string;
   durationMs: number;
   sortOrder: number;
+  sceneId: string | null;
+  // Shot size, camera, cast, location and sound for the shot
+  shot: ShotMetadata;
+  // Database row version, used to detect concurrent edits
+  version: number;
+}
+
+export interface FramePosition {
+  id: string;
+  x: number;
+  y: number;
 }
 
 export interface Connection {
@@ -24,30 +74,144 @@ export interface Connection {
   fromFrameId: string;
   toFrameId: string;
   transitionType: string;
+  transitionDurationMs: number;
+  // Set when the connection is an alternate branch (e.g. "Ending B"); the main cut skips it
+  branchLabel: string | null;
+}
+
+// Named path through the board graph (e.g. "15s cut")
+export interface Cut {
+  id: string;
+  name: string;
+  frameIds: string[];
+  sortOrder: number;
+}
+
+// Review comment. Replies set parentId; the anchor and resolved state live on the thread's first comment.
+export interface Comment {
+  id: string;
+  parentId: string | null;
+  // Frame the thread is pinned to (null = pinned to a canvas position)
+  frameId: string | null;
+  x: number | null;
+  y: number | null;
+  authorId: string;
+  authorName: string;
+  body: string;
+  resolved: boolean;
+  createdAt: string;
+}
+
+// Where a new thread is pinned; frame threads also record where the frame was
+export interface CommentAnchor {
+  x: number;
+  y: number;
+  frameId?: string | null;
+}
+
+export interface Scene {
+  id: string;
+  name: string;
+  // Anchor position, used when the scene has no frames
+  x: number;
+  y: number;
+  isCollapsed: boolean;
+  sortOrder: number;
+  // Defaults applied to frames added to the scene (null = board default)
+  animationStyle: string | null;
+  durationMs: number | null;
+  polishStyle: string | null;
+}
+
+export interface SceneAssignment {
+  id: string;
+  sceneId: string | null;
 }
 
 export interface Board {
   id: string;
   name: string;
+  // Direction auto-layout arranges the story in
+  readingDirection: ReadingDirection;
+  // Shape shared by every frame (sketch surface, cards, generation)
+  aspectRatio: AspectRatio;
   frames: Frame[];
   connections: Connection[];
+  scenes: Scene[];
+  cuts: Cut[];
+  comments: Comment[];
   sharingSettings?: {
-    public_access: 'none' | 'view' | 'edit';
+    public_access: 'none' | 'view' | 'comment' | 'edit';
     allow_copy: boolean;
   };
 }
 
 export type BoardErrorType = 'access_denied' | 'not_found' | 'load_failed' | null;
 
+// saved: everything is in the database; saving: a write is in flight;
+// offline / syncing / error: changes are waiting in the outbox (error = replay keeps failing)
+export type SyncStatus = 'saved' | 'saving' | 'offline' | 'syncing' | 'error';
+
+// Options shared by all board mutations
+export interface MutationOptions {
+  // Set to false to skip the undo stack (used when replaying history)
+  recordHistory?: boolean;
+}
+
+export interface UpdateFrameOptions extends MutationOptions {
+  // The frame as it was when the user started editing (e.g. when an editor was opened).
+  // Defaults to the current local frame.
+  base?: Frame;
+}
+
+// Frame fields written with a version check, and their database columns.
+// Layout fields (position, scene, order) and images stay last-write-wins.
+const GUARDED_FRAME_COLUMNS = {
+  title: 'title',
+  motionNotes: 'motion_notes',
+  animationStyle: 'animation_style',
+  durationMs: 'duration_ms',
+  shot: 'shot',
+} as const;
+
+export type FrameConflictField = keyof typeof GUARDED_FRAME_COLUMNS;
+
+// Frame fields that can change while a frame is approved or locked
+const LAYOUT_FRAME_FIELDS: Array<keyof Frame> = ['x', 'y', 'sortOrder', 'sceneId', 'status'];
+
+// An edit rejected because someone else changed the same fields first
+export interface FrameConflict {
+  frameId: string;
+  // What this user tried to save
+  mine: Partial<Omit<Frame, 'id'>>;
+  // The frame as it is in the database now
+  theirs: Frame;
+}
+
+export interface CreateFrameOptions extends MutationOptions {
+  // Scene the new frame belongs to; its defaults are applied to the frame
+  sceneId?: string | null;
+}
+
 // Board cache with TTL for stale-while-revalidate pattern
 interface CacheEntry {
   board: Board;
   timestamp: number;
   isReadOnly: boolean;
+  canComment: boolean;
+  canApprove: boolean;
+  canViewHistory: boolean;
 }
 
 const boardCache = new Map<string, CacheEntry>();
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+// How often to retry the outbox while online but writes keep failing
+const OUTBOX_RETRY_MS = 15000;
+
+// Name shown on comments, stored with each comment so other viewers can see it
+function getAuthorName(user: { email?: string; user_metadata?: { full_name?: string } }): string {
+  return user.user_metadata?.full_name || user.email?.split('@')[0] || 'Anonymous';
+}
 
 export function useBoard(boardId: string | null) {
   const { user } = useAuth();
@@ -59,23 +223,72 @@ export function useBoard(boardId: string | null) {
   const [error, setError] = useState<string | null>(null);
   const [errorType, setErrorType] = useState<BoardErrorType>(null);
   const [isReadOnly, setIsReadOnly] = useState(cachedData?.isReadOnly || false);
+  // Commenting is allowed for editors and for boards shared with 'comment' access
+  const [canComment, setCanComment] = useState(cachedData?.canComment || false);
+  // Approving and locking frames is limited to the owner and editor collaborators
+  const [canApprove, setCanApprove] = useState(cachedData?.canApprove || false);
+  // Version history (snapshots) is limited to the owner and collaborators, not public links
+  const [canViewHistory, setCanViewHistory] = useState(cachedData?.canViewHistory || false);
+  const canViewHistoryRef = useRef(canViewHistory);
+  canViewHistoryRef.current = canViewHistory;
   const subscriptionsRef = useRef<RealtimeChannel[]>([]);
   const hasLoadedRef = useRef(false); // Track if we've done initial load
 
+  // Undo/redo command history
+  const historyRef = useRef<BoardHistory>({ past: [], future: [] });
+  const batchRef = useRef<BoardCommand[] | null>(null);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  // Latest board snapshot for building history entries without stale closures
+  const boardRef = useRef<Board | null>(board);
+  boardRef.current = board;
+
+  // Offline outbox: writes that couldn't reach Supabase, replayed in order on reconnect
+  const [online, setOnline] = useState(isOnline);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [savingCount, setSavingCount] = useState(0);
+  const [isFlushing, setIsFlushing] = useState(false);
+  const [replayFailed, setReplayFailed] = useState(false);
+  // Edits rejected by the version check, waiting for the user to merge
+  const [frameConflicts, setFrameConflicts] = useState<FrameConflict[]>([]);
+  // Mirrors pendingChanges synchronously so writes made in the same tick queue behind earlier ones
+  const pendingRef = useRef(0);
+  const flushingRef = useRef(false);
+  // Settles once every write queued so far is stored in IndexedDB
+  const queuedRef = useRef<Promise<unknown>>(Promise.resolve());
+
   // Convert database frame to app frame
   const dbFrameToFrame = useCallback((dbFrame: DbFrame): Frame => ({
     id: dbFrame.id,
     title: dbFrame.title,
     x: dbFrame.position_x,
     y: dbFrame.position_y,
-    status: dbFrame.status,
+    status: normalizeFrameStatus(dbFrame.status),
     sketchUrl: dbFrame.sketch_url,
+    sketchDocument: normalizeSketchDocument(dbFrame.sketch_document),
     polishedUrl: dbFrame.polished_url,
     thumbnailUrl: dbFrame.thumbnail_url,
     motionNotes: dbFrame.motion_notes,
     animationStyle: dbFrame.animation_style,
     durationMs: dbFrame.duration_ms,
     sortOrder: dbFrame.sort_order,
+    sceneId: dbFrame.scene_id ?? null,
+    shot: normalizeShotMetadata(dbFrame.shot),
+    version: dbFrame.version ?? 1,
+  }), []);
+
+  // Convert database scene to app scene
+  const dbSceneToScene = useCallback((dbScene: DbScene): Scene => ({
+    id: dbScene.id,
+    name: dbScene.name,
+    x: dbScene.position_x,
+    y: dbScene.position_y,
+    isCollapsed: dbScene.is_collapsed,
+    sortOrder: dbScene.sort_order,
+    animationStyle: dbScene.animation_style,
+    durationMs: dbScene.duration_ms,
+    polishStyle: dbScene.polish_style,
   }), []);
 
   // Convert database connection to app connection
@@ -83,7 +296,31 @@ export function useBoard(boardId: string | null) {
     id: dbConn.id,
     fromFrameId: dbConn.from_frame_id,
     toFrameId: dbConn.to_frame_id,
-    transitionType: dbConn.transition_type,
+    transitionType: dbConn.transition_type || 'fade',
+    transitionDurationMs: dbConn.transition_duration_ms ?? DEFAULT_TRANSITION_DURATION_MS,
+    branchLabel: dbConn.branch_label ?? null,
+  }), []);
+
+  // Convert database cut to app cut
+  const dbCutToCut = useCallback((dbCut: DbCut): Cut => ({
+    id: dbCut.id,
+    name: dbCut.name,
+    frameIds: dbCut.frame_ids || [],
+    sortOrder: dbCut.sort_order,
+  }), []);
+
+  // Convert database comment to app comment
+  const dbCommentToComment = useCallback((dbComment: DbComment): Comment => ({
+    id: dbComment.id,
+    parentId: dbComment.parent_id,
+    frameId: dbComment.frame_id,
+    x: dbComment.position_x,
+    y: dbComment.position_y,
+    authorId: dbComment.author_id,
+    authorName: dbComment.author_name,
+    body: dbComment.body,
+    resolved: dbComment.resolved,
+    createdAt: dbComment.created_at,
   }), []);
 
   // Fetch board data from Supabase with stale-while-revalidate caching
@@ -103,6 +340,9 @@ export function useBoard(boardId: string | null) {
     if (isCacheValid && !forceRefresh && !hasLoadedRef.current) {
       setBoard(cached.board);
       setIsReadOnly(cached.isReadOnly);
+      setCanComment(cached.canComment);
+      setCanApprove(cached.canApprove);
+      setCanViewHistory(cached.canViewHistory);
       setLoading(false);
       hasLoadedRef.current = true;
       // Continue to fetch fresh data in background (revalidate)
@@ -150,10 +390,29 @@ export function useBoard(boardId: string | null) {
       const isOwner = user?.id === boardData.user_id;
       const publicAccess = sharingSettings.public_access;
 
-      // Read-only if not owner and public access is view-only or user is not authenticated
-      const readOnly = !isOwner && (publicAccess === 'view' || !user);
+      // Read-only if not owner and public access is view/comment-only or user is not authenticated
+      const readOnly = !isOwner && (publicAccess === 'view' || publicAccess === 'comment' || !user);
       setIsReadOnly(readOnly);
 
+      // Commenting needs an account (comments are attributed to their author)
+      const commentAllowed = !!user && (!readOnly || publicAccess === 'comment');
+      setCanComment(commentAllowed);
+
+      // Editors invited to the board can approve; public 'edit' access can't
+      let approveAllowed = isOwner;
+      let historyAllowed = isOwner;
+      if (!isOwner && user) {
+        const { data: collaborators } = await supabase
+          .from('board_collaborators')
+          .select('user_id, email, role')
+          .eq('board_id', boardId);
+        const myCollab = (collaborators || []).find(c => c.user_id === user.id || c.email === user.email);
+        approveAllowed = !readOnly && (myCollab?.role === 'owner' || myCollab?.role === 'editor');
+        historyAllowed = !!myCollab;
+      }
+      setCanApprove(approveAllowed);
+      setCanViewHistory(historyAllowed);
+
       // Fetch frames
       const { data: framesData, error: framesError } = await supabase
         .from('frames')
@@ -177,11 +436,52 @@ export function useBoard(boardId: string | null) {
         // Continue with empty connections rather than failing completely
       }
 
+      // Fetch scenes
+      const { data: scenesData, error: scenesError } = await supabase
+        .from('scenes')
+        .select('*')
+        .eq('board_id', boardId)
+        .order('sort_order', { ascending: true });
+
+      if (scenesError) {
+        console.error('Error fetching scenes:', scenesError);
+        // Continue with no scenes rather than failing completely
+      }
+
+      // Fetch cuts
+      const { data: cutsData, error: cutsError } = await supabase
+        .from('cuts')
+        .select('*')
+        .eq('board_id', boardId)
+        .order('sort_order', { ascending: true });
+
+      if (cutsError) {
+        console.error('Error fetching cuts:', cutsError);
+        // Continue with no cuts rather than failing completely
+      }
+
+      // Fetch comments
+      const { data: commentsData, error: commentsError } = await supabase
+        .from('comments')
+        .select('*')
+        .eq('board_id', boardId)
+        .order('created_at', { ascending: true });
+
+      if (commentsError) {
+        console.error('Error fetching comments:', commentsError);
+        // Continue with no comments rather than failing completely
+      }
+
       const newBoard: Board = {
         id: boardData.id,
         name: boardData.name,
+        readingDirection: normalizeReadingDirection(boardData.reading_direction),
+        aspectRatio: normalizeAspectRatio(boardData.aspect_ratio),
         frames: (framesData || []).map(dbFrameToFrame),
         connections: (connectionsData || []).map(dbConnectionToConnection),
+        scenes: (scenesData || []).map(dbSceneToScene),
+        cuts: (cutsData || []).map(dbCutToCut),
+        comments: (commentsData || []).map(dbCommentToComment),
         sharingSettings,
       };
 
@@ -190,6 +490,9 @@ export function useBoard(boardId: string | null) {
         board: newBoard,
         timestamp: now,
         isReadOnly: readOnly,
+        canComment: commentAllowed,
+        canApprove: approveAllowed,
+        canViewHistory: historyAllowed,
       });
 
       setBoard(newBoard);
@@ -201,9 +504,9 @@ export function useBoard(boardId: string | null) {
     } finally {
       setLoading(false);
     }
-  }, [boardId, user, dbFrameToFrame, dbConnectionToConnection]);
+  }, [boardId, user, dbFrameToFrame, dbConnectionToConnection, dbSceneToScene, dbCutToCut, dbCommentToComment]);
 
-  // Setup real-time sync for frames and connections
+  // Setup real-time sync for frames, connections, scenes, cuts and comments
   const setupRealtimeSync = useCallback((boardIdToSync: string) => {
     // Cleanup existing subscriptions
     subscriptionsRef.current.forEach(sub => sub.unsubscribe());
@@ -242,6 +545,9 @@ export function useBoard(boardId: string | null) {
           const updatedFrame = dbFrameToFrame(payload.new as DbFrame);
           setBoard(prev => {
             if (!prev) return prev;
+            // Ignore events older than what we already have (e.g. the row returned by our own write)
+            const existing = prev.frames.find(f => f.id === updatedFrame.id);
+            if (existing && existing.version > updatedFrame.version) return prev;
             return {
               ...prev,
               frames: prev.frames.map(f => f.id === updatedFrame.id ? updatedFrame : f)
@@ -267,6 +573,8 @@ export function useBoard(boardId: string | null) {
               connections: prev.connections.filter(
                 c => c.fromFrameId !== deletedId && c.toFrameId !== deletedId
               ),
+              // Threads stay on the canvas where the frame was (frame_id is set to null by the database)
+              comments: prev.comments.map(c => c.frameId === deletedId ? { ...c, frameId: null } : c),
             };
           });
         }
@@ -293,6 +601,25 @@ export function useBoard(boardId: string | null) {
           });
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'connections',
+          filter: `board_id=eq.${boardIdToSync}`,
+        },
+        (payload) => {
+          const updatedConnection = dbConnectionToConnection(payload.new as DbConnection);
+          setBoard(prev => {
+            if (!prev) return prev;
+            return {
+              ...prev,
+              connections: prev.connections.map(c => c.id === updatedConnection.id ? updatedConnection : c)
+            };
+          });
+        }
+      )
       .on(
         'postgres_changes',
         {
@@ -314,8 +641,188 @@ export function useBoard(boardId: string | null) {
       )
       .subscribe();
 
-    subscriptionsRef.current = [framesChannel, connectionsChannel];
-  }, [dbFrameToFrame, dbConnectionToConnection]);
+    // Subscribe to scenes changes
+    const scenesChannel = supabase
+      .channel(`scenes-sync-${boardIdToSync}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'scenes',
+          filter: `board_id=eq.${boardIdToSync}`,
+        },
+        (payload) => {
+          const newScene = dbSceneToScene(payload.new as DbScene);
+          setBoard(prev => {
+            if (!prev) return prev;
+            if (prev.scenes.some(s => s.id === newScene.id)) return prev;
+            return { ...prev, scenes: [...prev.scenes, newScene] };
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'scenes',
+          filter: `board_id=eq.${boardIdToSync}`,
+        },
+        (payload) => {
+          const updatedScene = dbSceneToScene(payload.new as DbScene);
+          setBoard(prev => {
+            if (!prev) return prev;
+            return {
+              ...prev,
+              scenes: prev.scenes.map(s => s.id === updatedScene.id ? updatedScene : s)
+            };
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'scenes',
+          filter: `board_id=eq.${boardIdToSync}`,
+        },
+        (payload) => {
+          const deletedId = (payload.old as any).id;
+          setBoard(prev => {
+            if (!prev) return prev;
+            return {
+              ...prev,
+              scenes: prev.scenes.filter(s => s.id !== deletedId),
+              // Frames are kept (scene_id is set to null by the database)
+              frames: prev.frames.map(f => f.sceneId === deletedId ? { ...f, sceneId: null } : f),
+            };
+          });
+        }
+      )
+      .subscribe();
+
+    // Subscribe to cuts changes
+    const cutsChannel = supabase
+      .channel(`cuts-sync-${boardIdToSync}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'cuts',
+          filter: `board_id=eq.${boardIdToSync}`,
+        },
+        (payload) => {
+          const newCut = dbCutToCut(payload.new as DbCut);
+          setBoard(prev => {
+            if (!prev) return prev;
+            if (prev.cuts.some(c => c.id === newCut.id)) return prev;
+            return { ...prev, cuts: [...prev.cuts, newCut] };
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'cuts',
+          filter: `board_id=eq.${boardIdToSync}`,
+        },
+        (payload) => {
+          const updatedCut = dbCutToCut(payload.new as DbCut);
+          setBoard(prev => {
+            if (!prev) return prev;
+            return {
+              ...prev,
+              cuts: prev.cuts.map(c => c.id === updatedCut.id ? updatedCut : c)
+            };
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'cuts',
+          filter: `board_id=eq.${boardIdToSync}`,
+        },
+        (payload) => {
+          const deletedId = (payload.old as any).id;
+          setBoard(prev => {
+            if (!prev) return prev;
+            return { ...prev, cuts: prev.cuts.filter(c => c.id !== deletedId) };
+          });
+        }
+      )
+      .subscribe();
+
+    // Subscribe to comments changes
+    const commentsChannel = supabase
+      .channel(`comments-sync-${boardIdToSync}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'comments',
+          filter: `board_id=eq.${boardIdToSync}`,
+        },
+        (payload) => {
+          const newComment = dbCommentToComment(payload.new as DbComment);
+          setBoard(prev => {
+            if (!prev) return prev;
+            if (prev.comments.some(c => c.id === newComment.id)) return prev;
+            return { ...prev, comments: [...prev.comments, newComment] };
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'comments',
+          filter: `board_id=eq.${boardIdToSync}`,
+        },
+        (payload) => {
+          const updatedComment = dbCommentToComment(payload.new as DbComment);
+          setBoard(prev => {
+            if (!prev) return prev;
+            return {
+              ...prev,
+              comments: prev.comments.map(c => c.id === updatedComment.id ? updatedComment : c)
+            };
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'comments',
+          filter: `board_id=eq.${boardIdToSync}`,
+        },
+        (payload) => {
+          const deletedId = (payload.old as any).id;
+          setBoard(prev => {
+            if (!prev) return prev;
+            // Deleting a thread's first comment removes its replies too
+            return {
+              ...prev,
+              comments: prev.comments.filter(c => c.id !== deletedId && c.parentId !== deletedId)
+            };
+          });
+        }
+      )
+      .subscribe();
+
+    subscriptionsRef.current = [framesChannel, connectionsChannel, scenesChannel, cutsChannel, commentsChannel];
+  }, [dbFrameToFrame, dbConnectionToConnection, dbSceneToScene, dbCutToCut, dbCommentToComment]);
 
   // Reset hasLoaded when boardId changes
   useEffect(() => {
@@ -332,11 +839,14 @@ export function useBoard(boardId: string | null) {
           board: updated,
           timestamp: Date.now(),
           isReadOnly,
+          canComment,
+          canApprove,
+          canViewHistory,
         });
       }
       return updated;
     });
-  }, [boardId, isReadOnly]);
+  }, [boardId, isReadOnly, canComment, canApprove, canViewHistory]);
 
   // Initial load and real-time setup
   useEffect(() => {
@@ -355,57 +865,396 @@ export function useBoard(boardId: string | null) {
     };
   }, [board?.id, boardId, setupRealtimeSync]);
 
-  // Create a new frame
-  const createFrame = useCallback(async (
-    title: string,
-    x: number,
-    y: number
-  ): Promise<Frame | null> => {
-    if (!boardId || !user || isReadOnly) return null;
-
-    try {
-      // Use max sort_order + 1 to ensure unique ordering even after deletions
-      const maxSortOrder = board?.frames.reduce((max, f) => Math.max(max, f.sortOrder), -1) ?? -1;
-      const sortOrder = maxSortOrder + 1;
+  // Hold a rejected edit for the merge prompt and show the saved version meanwhile
+  const addFrameConflict = useCallback((
+    frameId: string,
+    mine: Partial<Omit<Frame, 'id'>>,
+    current: Record<string, unknown>
+  ) => {
+    const theirs = dbFrameToFrame(current as unknown as DbFrame);
+    // Both sides saved the same content: nothing to merge
+    const differs = (Object.keys(GUARDED_FRAME_COLUMNS) as FrameConflictField[])
+      .some(field => field in mine && !valuesEqual(mine[field] ?? null, theirs[field] ?? null));
+
+    if (differs) {
+      setFrameConflicts(prev => {
+        const existing = prev.find(c => c.frameId === frameId);
+        return [
+          ...prev.filter(c => c.frameId !== frameId),
+          { frameId, mine: { ...existing?.mine, ...mine }, theirs },
+        ];
+      });
+    }
+    setBoardWithCache(prev => prev ? {
+      ...prev,
+      frames: prev.frames.map(f => f.id === frameId ? theirs : f),
+    } : null);
+  }, [dbFrameToFrame, setBoardWithCache]);
+
+  // Store a write in the outbox; it is sent by the next replay
+  const queueWrite = useCallback(async (op: OutboxOperation): Promise<void> => {
+    if (!boardId) return;
+    pendingRef.current += 1;
+    setPendingChanges(pendingRef.current);
+    const stored = queuedRef.current.then(() => enqueueMutation(boardId, op));
+    queuedRef.current = stored.catch(() => undefined);
+    await stored;
+  }, [boardId]);
 
-      const { data, error } = await supabase
-        .from('frames')
-        .insert({
-          board_id: boardId,
-          title,
-          position_x: x,
-          position_y: y,
-          status: 'sketch',
-          animation_style: 'fade',
-          duration_ms: 500,
-          sort_order: sortOrder,
-        })
-        .select()
-        .single();
+  // Replay queued writes in order. A write that fails for network reasons stops the
+  // replay (it is retried later); one the server rejects is dropped so it can't block the rest.
+  const flushOutbox = useCallback(async () => {
+    if (!boardId || flushingRef.current || !isOnline()) return;
 
-      if (error) throw error;
+    flushingRef.current = true;
+    setIsFlushing(true);
+    let replayed = 0;
+    let dropped = 0;
+    let stalled = false;
 
-      const newFrame = dbFrameToFrame(data);
-      setBoardWithCache(prev => prev ? {
-        ...prev,
-        frames: [...prev.frames, newFrame],
-      } : null);
+    try {
+      let entries: OutboxEntry[] = [];
+      for (;;) {
+        // Let writes still being queued reach IndexedDB so the read sees them
+        const queued = queuedRef.current;
+        await queued;
+        entries = await getPendingMutations(boardId);
+        // Stop once a read is current: nothing else was queued while it ran
+        if (queuedRef.current === queued && (stalled || entries.length === 0)) break;
+        if (stalled) continue;
+
+        for (const entry of entries) {
+          try {
+            // The entry ID makes uploads idempotent if this replay is interrupted
+            await executeOperation(entry.op, entry.id);
+            await removeMutation(entry);
+            replayed++;
+          } catch (err) {
+            if (err instanceof WriteConflictError && entry.op.kind === 'update') {
+              // Someone else edited the same fields while we were offline: ask which to keep
+              const { changes } = entry.op;
+              const mine = Object.fromEntries(
+                (Object.keys(GUARDED_FRAME_COLUMNS) as FrameConflictField[])
+                  .filter(field => changes[GUARDED_FRAME_COLUMNS[field]] !== undefined)
+                  .map(field => [field, changes[GUARDED_FRAME_COLUMNS[field]]])
+              );
+              addFrameConflict(entry.op.ids[0], mine, err.current);
+              await removeMutation(entry);
+              replayed++;
+            } else if (isTransientError(err)) {
+              console.warn('Sync paused, will retry:', err);
+              await markMutationFailed(entry, err);
+              stalled = true;
+              break;
+            } else {
+              console.error('Dropping queued change rejected by the server:', err);
+              await removeMutation(entry);
+              dropped++;
+            }
+          }
+          pendingRef.current = Math.max(0, pendingRef.current - 1);
+          setPendingChanges(pendingRef.current);
+        }
+      }
 
-      return newFrame;
+      // Count what the last read found rather than assuming it's empty
+      pendingRef.current = entries.length;
+      setPendingChanges(pendingRef.current);
+      setReplayFailed(stalled);
     } catch (err) {
-      console.error('Error creating frame:', err);
-      setError(err instanceof Error ? err.message : 'Failed to create frame');
+      console.error('Error replaying offline changes:', err);
+      setReplayFailed(true);
+    } finally {
+      flushingRef.current = false;
+      setIsFlushing(false);
+    }
+
+    if (dropped > 0) {
+      setError(`${dropped} offline change${dropped !== 1 ? 's' : ''} could not be saved`);
+    }
+    // Reconcile with the database: other collaborators may have edited while we were away
+    if (!stalled && replayed + dropped > 0) {
+      await fetchData(true);
+    }
+  }, [boardId, fetchData, addFrameConflict]);
+
+  // Write through to Supabase, or into the outbox when offline or the network fails.
+  // Once anything is queued, later writes queue behind it so they replay in order.
+  // Errors the server returns (permissions, constraints, conflicts) are thrown to the caller.
+  // Resolves to the updated row for guarded updates that went straight through.
+  const commitWrite = useCallback(async (op: OutboxOperation): Promise<Record<string, unknown> | null> => {
+    if (!isOnline() || pendingRef.current > 0) {
+      await queueWrite(op);
       return null;
     }
-  }, [boardId, user, board?.frames, dbFrameToFrame, isReadOnly, setBoardWithCache]);
 
-  // Update frame properties
-  const updateFrame = useCallback(async (
+    setSavingCount(count => count + 1);
+    try {
+      return await executeOperation(op);
+    } catch (err) {
+      if (!isTransientError(err)) throw err;
+      console.warn('Write failed, queued for retry:', err);
+      await queueWrite(op);
+      flushOutbox();
+      return null;
+    } finally {
+      setSavingCount(count => count - 1);
+    }
+  }, [queueWrite, flushOutbox]);
+
+  // Replay whatever a previous session left in the outbox
+  useEffect(() => {
+    if (!boardId) return;
+    let cancelled = false;
+
+    getPendingMutations(boardId).then(entries => {
+      if (cancelled) return;
+      pendingRef.current = entries.length;
+      setPendingChanges(entries.length);
+      setReplayFailed(false);
+      if (entries.length > 0) flushOutbox();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, flushOutbox]);
+
+  // Replay as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      flushOutbox();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flushOutbox]);
+
+  // Keep retrying while online with changes stuck in the outbox (e.g. the server is down)
+  useEffect(() => {
+    if (!online || pendingChanges === 0) return;
+    const timer = setInterval(flushOutbox, OUTBOX_RETRY_MS);
+    return () => clearInterval(timer);
+  }, [online, pendingChanges, flushOutbox]);
+
+  const syncStatus: SyncStatus = pendingChanges > 0
+    ? !online ? 'offline' : isFlushing || !replayFailed ? 'syncing' : 'error'
+    : savingCount > 0 ? 'saving' : 'saved';
+
+  // Convert app frame to a database row (new frames, and restoring deleted frames with their original ID)
+  const frameToDbRow = useCallback((frame: Frame) => ({
+    id: frame.id,
+    board_id: boardId,
+    title: frame.title,
+    position_x: frame.x,
+    position_y: frame.y,
+    status: frame.status,
+    sketch_url: frame.sketchUrl,
+    sketch_document: frame.sketchDocument,
+    polished_url: frame.polishedUrl,
+    thumbnail_url: frame.thumbnailUrl,
+    motion_notes: frame.motionNotes,
+    animation_style: frame.animationStyle,
+    duration_ms: frame.durationMs,
+    sort_order: frame.sortOrder,
+    scene_id: frame.sceneId,
+    shot: frame.shot,
+  }), [boardId]);
+
+  // Convert app connection to a database row
+  const connectionToDbRow = useCallback((connection: Connection) => ({
+    id: connection.id,
+    board_id: boardId,
+    from_frame_id: connection.fromFrameId,
+    to_frame_id: connection.toFrameId,
+    transition_type: connection.transitionType,
+    transition_duration_ms: connection.transitionDurationMs,
+    branch_label: connection.branchLabel,
+  }), [boardId]);
+
+  // Delete storage images of frames whose deletion can no longer be undone
+  // (including images placed in their sketch documents)
+  // Images still referenced by another frame (e.g. duplicates), by a pending cut
+  // or by a snapshot are kept. Users who can't read the board's snapshots can't tell
+  // which images those are, so they never delete any.
+  const purgeFrameImages = useCallback((commands: BoardCommand[]) => {
+    const frameImageUrls = (f: Frame) => [f.sketchUrl, f.polishedUrl, ...sketchImageUrls(f.sketchDocument)];
+    const inUse = new Set<string | null>([
+      ...(boardRef.current?.frames || []).flatMap(frameImageUrls),
+      ...getClipboardImageUrls(),
+    ]);
+    const unused = new Set<string>();
+    commands.flatMap(getDeletedFrames).forEach(frame => {
+      frameImageUrls(frame).forEach(url => {
+        if (url && !url.startsWith('data:') && !inUse.has(url)) {
+          unused.add(url);
+        }
+      });
+    });
+    if (!boardId || !canViewHistoryRef.current || unused.size === 0) return;
+
+    // If snapshots can't be checked, keep the files rather than risk breaking one
+    fetchSnapshotImageUrls(boardId)
+      .then(snapshotUrls => {
+        unused.forEach(url => {
+          if (!snapshotUrls.has(url)) deleteFrameImage(url);
+        });
+      })
+      .catch(err => console.warn('Keeping frame images, could not check snapshots:', err));
+  }, [boardId]);
+
+  const syncHistoryFlags = useCallback(() => {
+    setCanUndo(historyRef.current.past.length > 0);
+    setCanRedo(historyRef.current.future.length > 0);
+  }, []);
+
+  // Push a command onto the undo stack (or into the open batch)
+  const recordCommand = useCallback((command: BoardCommand) => {
+    if (batchRef.current) {
+      batchRef.current.push(command);
+      return;
+    }
+
+    const history = historyRef.current;
+    // A new action invalidates the redo stack
+    history.future = [];
+    history.past.push(command);
+
+    if (history.past.length > HISTORY_LIMIT) {
+      const evicted = history.past.splice(0, history.past.length - HISTORY_LIMIT);
+      purgeFrameImages(evicted);
+    }
+
+    syncHistoryFlags();
+  }, [purgeFrameImages, syncHistoryFlags]);
+
+  // Reset undo history, first deleting the images only it was keeping (deleted frames)
+  const clearHistory = useCallback(() => {
+    purgeFrameImages(historyRef.current.past);
+    historyRef.current = { past: [], future: [] };
+    syncHistoryFlags();
+  }, [purgeFrameImages, syncHistoryFlags]);
+
+  // Flush deferred image deletes and reset history when leaving the board
+  useEffect(() => clearHistory, [boardId, clearHistory]);
+
+  // Create a new frame
+  const createFrame = useCallback(async (
+    title: string,
+    x: number,
+    y: number,
+    options: CreateFrameOptions = {}
+  ): Promise<Frame | null> => {
+    if (!boardId || !user || isReadOnly) return null;
+
+    try {
+      // Use max sort_order + 1 to ensure unique ordering even after deletions
+      const maxSortOrder = board?.frames.reduce((max, f) => Math.max(max, f.sortOrder), -1) ?? -1;
+      const sortOrder = maxSortOrder + 1;
+
+      // New frames inherit the defaults of the scene they are created in
+      const scene = options.sceneId
+        ? boardRef.current?.scenes.find(s => s.id === options.sceneId)
+        : undefined;
+
+      // IDs are generated here so the insert can be queued offline and replayed safely
+      const newFrame: Frame = {
+        id: crypto.randomUUID(),
+        title,
+        x,
+        y,
+        status: 'draft',
+        sketchUrl: null,
+        sketchDocument: null,
+        polishedUrl: null,
+        thumbnailUrl: null,
+        motionNotes: null,
+        animationStyle: scene?.animationStyle ?? 'fade',
+        durationMs: scene?.durationMs ?? 500,
+        sortOrder,
+        sceneId: scene?.id ?? null,
+        shot: {},
+        version: 1,
+      };
+
+      await commitWrite({ kind: 'upsert', table: 'frames', rows: [frameToDbRow(newFrame)] });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        frames: [...prev.frames, newFrame],
+      } : null);
+
+      if (options.recordHistory !== false) {
+        recordCommand({ type: 'createFrame', frame: newFrame });
+      }
+
+      return newFrame;
+    } catch (err) {
+      console.error('Error creating frame:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create frame');
+      return null;
+    }
+  }, [boardId, user, board?.frames, isReadOnly, frameToDbRow, commitWrite, setBoardWithCache, recordCommand]);
+
+  // Re-insert a previously deleted frame (and its connections) with the original IDs
+  const restoreFrame = useCallback(async (
+    frame: Frame,
+    connections: Connection[] = []
+  ): Promise<boolean> => {
+    if (!boardId || !user || isReadOnly) return false;
+
+    try {
+      await commitWrite({ kind: 'upsert', table: 'frames', rows: [frameToDbRow(frame)] });
+
+      if (connections.length > 0) {
+        await commitWrite({ kind: 'upsert', table: 'connections', rows: connections.map(connectionToDbRow) });
+      }
+
+      // The re-inserted row starts a new version count; 0 marks the local version as unknown
+      const restoredFrame = { ...frame, version: 0 };
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        frames: prev.frames.some(f => f.id === frame.id)
+          ? prev.frames
+          : [...prev.frames, restoredFrame],
+        connections: [
+          ...prev.connections,
+          ...connections.filter(c => !prev.connections.some(pc => pc.id === c.id)),
+        ],
+      } : null);
+
+      return true;
+    } catch (err) {
+      console.error('Error restoring frame:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore frame');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, frameToDbRow, connectionToDbRow, commitWrite, setBoardWithCache]);
+
+  // Update frame properties
+  // Content fields are only written if nobody else changed them since `options.base`;
+  // otherwise the edit is held in frameConflicts for the user to merge.
+  // Approved and locked frames only accept layout and status changes.
+  const updateFrame = useCallback(async (
     frameId: string,
-    updates: Partial<Omit<Frame, 'id'>>
+    updates: Partial<Omit<Frame, 'id'>>,
+    options: UpdateFrameOptions = {}
   ): Promise<boolean> => {
     if (!boardId || !user || isReadOnly) return false;
 
+    const current = boardRef.current?.frames.find(f => f.id === frameId);
+    if (current) {
+      if (updates.status !== undefined && !canChangeFrameStatus(current.status, updates.status, canApprove)) return false;
+      const editsContent = Object.keys(updates).some(field => !LAYOUT_FRAME_FIELDS.includes(field as keyof Frame));
+      if (isFrameProtected(current.status) && editsContent) return false;
+    }
+
     try {
       const dbUpdates: Partial<DbFrame> = {};
 
@@ -414,60 +1263,133 @@ export function useBoard(boardId: string | null) {
       if (updates.y !== undefined) dbUpdates.position_y = updates.y;
       if (updates.status !== undefined) dbUpdates.status = updates.status;
       if (updates.sketchUrl !== undefined) dbUpdates.sketch_url = updates.sketchUrl;
+      if (updates.sketchDocument !== undefined) dbUpdates.sketch_document = updates.sketchDocument;
       if (updates.polishedUrl !== undefined) dbUpdates.polished_url = updates.polishedUrl;
       if (updates.thumbnailUrl !== undefined) dbUpdates.thumbnail_url = updates.thumbnailUrl;
       if (updates.motionNotes !== undefined) dbUpdates.motion_notes = updates.motionNotes;
       if (updates.animationStyle !== undefined) dbUpdates.animation_style = updates.animationStyle;
       if (updates.durationMs !== undefined) dbUpdates.duration_ms = updates.durationMs;
       if (updates.sortOrder !== undefined) dbUpdates.sort_order = updates.sortOrder;
-
-      const { error } = await supabase
-        .from('frames')
-        .update(dbUpdates)
-        .eq('id', frameId);
-
-      if (error) throw error;
-
+      if (updates.sceneId !== undefined) dbUpdates.scene_id = updates.sceneId;
+      if (updates.shot !== undefined) dbUpdates.shot = updates.shot;
+
+      // Capture previous values before the local state changes
+      const previous = boardRef.current?.frames.find(f => f.id === frameId);
+
+      const base = options.base ?? previous;
+      const guardedFields = (Object.keys(GUARDED_FRAME_COLUMNS) as FrameConflictField[])
+        .filter(field => updates[field] !== undefined);
+      const guard = base && guardedFields.length > 0
+        ? {
+            version: base.version,
+            expected: Object.fromEntries(guardedFields.map(field => [GUARDED_FRAME_COLUMNS[field], base[field]])),
+          }
+        : undefined;
+
+      const written = await commitWrite({ kind: 'update', table: 'frames', ids: [frameId], changes: dbUpdates, guard });
+
+      // A guarded write returns the saved row, which carries the new version
+      const saved = written ? dbFrameToFrame(written as unknown as DbFrame) : null;
       setBoardWithCache(prev => prev ? {
         ...prev,
         frames: prev.frames.map(f =>
-          f.id === frameId ? { ...f, ...updates } : f
+          f.id === frameId ? saved ?? { ...f, ...updates } : f
         ),
       } : null);
 
+      if (options.recordHistory !== false && previous) {
+        recordCommand({
+          type: 'updateFrame',
+          frameId,
+          before: snapshotFields(previous, updates),
+          after: updates,
+        });
+      }
+
       return true;
     } catch (err) {
+      if (err instanceof WriteConflictError) {
+        addFrameConflict(frameId, updates, err.current);
+        return false;
+      }
       console.error('Error updating frame:', err);
       setError(err instanceof Error ? err.message : 'Failed to update frame');
       return false;
     }
-  }, [boardId, user, isReadOnly, setBoardWithCache]);
+  }, [boardId, user, isReadOnly, canApprove, commitWrite, dbFrameToFrame, addFrameConflict, setBoardWithCache, recordCommand]);
+
+  // Finish a merge: write this user's value for the fields in keepMine (plus any
+  // non-conflicting changes) on top of the saved version; other fields stay as saved
+  const resolveFrameConflict = useCallback(async (
+    frameId: string,
+    keepMine: FrameConflictField[]
+  ): Promise<boolean> => {
+    const conflict = frameConflicts.find(c => c.frameId === frameId);
+    if (!conflict) return false;
+    setFrameConflicts(prev => prev.filter(c => c.frameId !== frameId));
+
+    const updates = Object.fromEntries(
+      Object.entries(conflict.mine).filter(([field, value]) => {
+        if (!(field in GUARDED_FRAME_COLUMNS)) return true;
+        const differs = !valuesEqual(value, conflict.theirs[field as FrameConflictField]);
+        return differs && keepMine.includes(field as FrameConflictField);
+      })
+    ) as Partial<Omit<Frame, 'id'>>;
+
+    if (Object.keys(updates).length === 0) return true;
+    return updateFrame(frameId, updates, { base: conflict.theirs });
+  }, [frameConflicts, updateFrame]);
 
   // Save frame image (upload and update URL)
+  // A sketch replaces the frame's sketch document: pass the document it was rendered from,
+  // otherwise the frame is left with a plain image
   const saveFrameImage = useCallback(async (
     frameId: string,
     dataUrl: string,
-    type: 'sketch' | 'polished'
+    type: 'sketch' | 'polished',
+    options: { sketchDocument?: SketchDocument | null } = {}
   ): Promise<boolean> => {
+    const sketchDocument = options.sketchDocument ?? null;
     if (!boardId || !user || isReadOnly) return false;
+    const frame = boardRef.current?.frames.find(f => f.id === frameId);
+    if (frame && isFrameProtected(frame.status)) return false;
 
     try {
-      // Upload image to storage
-      const publicUrl = await uploadFrameImage(
-        user.id,
-        boardId,
-        frameId,
-        dataUrl,
-        type
-      );
+      // Offline (or behind queued writes): queue the upload and show the local image meanwhile.
+      // Not recorded in history, since undo/redo would write the data URL to the database.
+      const queueUpload = async () => {
+        await queueWrite({ kind: 'frameImage', userId: user.id, boardId, frameId, imageType: type, dataUrl, sketchDocument });
+        const updates = type === 'sketch'
+          ? { sketchUrl: dataUrl, sketchDocument, status: 'sketch' as const }
+          : { polishedUrl: dataUrl, status: 'polished' as const };
+        setBoardWithCache(prev => prev ? {
+          ...prev,
+          frames: prev.frames.map(f => f.id === frameId ? { ...f, ...updates } : f),
+        } : null);
+        return true;
+      };
+
+      if (!isOnline() || pendingRef.current > 0) return await queueUpload();
 
-      if (!publicUrl) throw new Error('Failed to upload image');
+      // Upload image to storage, along with any images placed in the sketch,
+      // so the document row only holds their URLs
+      setSavingCount(count => count + 1);
+      const [publicUrl, storedDocument] = await Promise.all([
+        uploadFrameImage(user.id, boardId, frameId, dataUrl, type),
+        type === 'sketch' && sketchDocument
+          ? uploadSketchImages(user.id, boardId, frameId, sketchDocument).catch(() => undefined)
+          : null,
+      ]).finally(() => setSavingCount(count => count - 1));
+
+      // The connection may have dropped mid-upload
+      if ((!publicUrl || storedDocument === undefined) && !isOnline()) return await queueUpload();
+      if (!publicUrl || storedDocument === undefined) throw new Error('Failed to upload image');
 
       // Update frame with new URL
       // For polished images, only update polishedUrl and status, preserve sketchUrl
       // For sketch images, update sketchUrl and status
       const updates = type === 'sketch'
-        ? { sketchUrl: publicUrl, status: 'sketch' as const }
+        ? { sketchUrl: publicUrl, sketchDocument: storedDocument, status: 'sketch' as const }
         : { polishedUrl: publicUrl, status: 'polished' as const };
 
       return await updateFrame(frameId, updates);
@@ -476,31 +1398,28 @@ export function useBoard(boardId: string | null) {
       setError(err instanceof Error ? err.message : 'Failed to save image');
       return false;
     }
-  }, [boardId, user, updateFrame, isReadOnly]);
+  }, [boardId, user, updateFrame, isReadOnly, queueWrite, setBoardWithCache]);
 
   // Delete a frame
-  const deleteFrame = useCallback(async (frameId: string): Promise<boolean> => {
+  // Storage images are kept while the deletion can still be undone
+  // and purged once it drops out of the history
+  const deleteFrame = useCallback(async (
+    frameId: string,
+    options: MutationOptions = {}
+  ): Promise<boolean> => {
     if (!boardId || !user || isReadOnly) return false;
 
+    // Snapshot frame and its connections so the delete can be reverted
+    const frame = boardRef.current?.frames.find(f => f.id === frameId);
+    if (frame && isFrameProtected(frame.status)) return false;
+
     try {
-      // Get frame to delete its images
-      const frame = board?.frames.find(f => f.id === frameId);
+      const frameConnections = (boardRef.current?.connections || []).filter(
+        c => c.fromFrameId === frameId || c.toFrameId === frameId
+      );
 
       // Delete from database (connections will be cascade deleted)
-      const { error } = await supabase
-        .from('frames')
-        .delete()
-        .eq('id', frameId);
-
-      if (error) throw error;
-
-      // Delete images from storage
-      if (frame?.sketchUrl) {
-        await deleteFrameImage(frame.sketchUrl);
-      }
-      if (frame?.polishedUrl) {
-        await deleteFrameImage(frame.polishedUrl);
-      }
+      await commitWrite({ kind: 'delete', table: 'frames', ids: [frameId] });
 
       setBoardWithCache(prev => prev ? {
         ...prev,
@@ -508,106 +1427,1114 @@ export function useBoard(boardId: string | null) {
         connections: prev.connections.filter(
           c => c.fromFrameId !== frameId && c.toFrameId !== frameId
         ),
+        comments: prev.comments.map(c => c.frameId === frameId ? { ...c, frameId: null } : c),
       } : null);
 
+      if (frame && options.recordHistory !== false) {
+        recordCommand({ type: 'deleteFrame', frame, connections: frameConnections });
+      }
+
       return true;
     } catch (err) {
       console.error('Error deleting frame:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete frame');
       return false;
     }
-  }, [boardId, user, board?.frames, isReadOnly, setBoardWithCache]);
+  }, [boardId, user, isReadOnly, commitWrite, setBoardWithCache, recordCommand]);
 
   // Update frame position
   const updateFramePosition = useCallback(async (
     frameId: string,
     x: number,
-    y: number
+    y: number,
+    options: MutationOptions = {}
   ): Promise<boolean> => {
-    return await updateFrame(frameId, { x, y });
+    return await updateFrame(frameId, { x, y }, options);
   }, [updateFrame]);
 
+  // Save several frame positions in a single request (group drag, align, arrange)
+  // Only the position columns are written, so moves never overwrite someone else's edits
+  const updateFramePositions = useCallback(async (
+    positions: FramePosition[],
+    options: MutationOptions = {}
+  ): Promise<boolean> => {
+    if (!boardId || !user || isReadOnly) return false;
+    if (positions.length === 0) return true;
+
+    try {
+      const currentFrames = boardRef.current?.frames || [];
+      const moved = positions
+        .map(p => ({ position: p, frame: currentFrames.find(f => f.id === p.id) }))
+        .filter((m): m is { position: FramePosition; frame: Frame } => !!m.frame);
+
+      if (moved.length === 0) return false;
+
+      await commitWrite({ kind: 'framePositions', positions: moved.map(({ position }) => position) });
+
+      const positionMap = new Map(moved.map(m => [m.position.id, m.position]));
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        frames: prev.frames.map(f => {
+          const pos = positionMap.get(f.id);
+          return pos ? { ...f, x: pos.x, y: pos.y } : f;
+        }),
+      } : null);
+
+      if (options.recordHistory !== false) {
+        recordCommand({
+          type: 'moveFrames',
+          before: moved.map(({ frame }) => ({ id: frame.id, x: frame.x, y: frame.y })),
+          after: moved.map(({ position }) => position),
+        });
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error updating frame positions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update frame positions');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, commitWrite, setBoardWithCache, recordCommand]);
+
+  // Paste frames from a clipboard payload as new frames with fresh IDs
+  // Images from other boards are re-uploaded into this board's storage path
+  const pasteFrames = useCallback(async (
+    payload: FrameClipboardPayload,
+    offset: { x: number; y: number } = { x: 0, y: 0 },
+    options: MutationOptions = {}
+  ): Promise<{ frames: Frame[]; failedImages: number } | null> => {
+    if (!boardId || !user || isReadOnly) return null;
+
+    try {
+      const sameBoard = payload.sourceBoardId === boardId;
+      const maxSortOrder = boardRef.current?.frames.reduce((max, f) => Math.max(max, f.sortOrder), -1) ?? -1;
+      const idMap = new Map<string, string>();
+      let failedImages = 0;
+
+      const copyImage = async (url: string | null, frameId: string, type: 'sketch' | 'polished' | 'image', key?: string) => {
+        if (!url) return null;
+        // Same board: storage objects can be shared like duplicated frames
+        if (sameBoard) return url;
+        try {
+          const dataUrl = await imageUrlToDataUrl(url);
+          const uploaded = await uploadFrameImage(user.id, boardId, frameId, dataUrl, type, key);
+          if (!uploaded) failedImages++;
+          return uploaded;
+        } catch (err) {
+          console.warn(`Could not copy ${type} image:`, err);
+          failedImages++;
+          return null;
+        }
+      };
+
+      // Offline (or behind queued writes), local images such as imports are queued as uploads
+      // after the frame rows, and shown from their data URLs meanwhile
+      const deferImages = !isOnline() || pendingRef.current > 0;
+      const isLocal = (url: string | null) => deferImages && !!url?.startsWith('data:');
+      const queuedImages: OutboxOperation[] = [];
+
+      const newFrames: Frame[] = [];
+      // The frames as written to the database, without queued images
+      const storedFrames: Frame[] = [];
+      for (const [index, frame] of payload.frames.entries()) {
+        const id = crypto.randomUUID();
+        idMap.set(frame.ref, id);
+
+        const sketchQueued = isLocal(frame.sketchUrl);
+        const polishedQueued = isLocal(frame.polishedUrl);
+        const sketchUrl = sketchQueued ? frame.sketchUrl : await copyImage(frame.sketchUrl, id, 'sketch');
+        const polishedUrl = polishedQueued ? frame.polishedUrl : await copyImage(frame.polishedUrl, id, 'polished');
+        // Images that can't be copied are left out of the document
+        const sketchDocument = sketchUrl && frame.sketchDocument
+          ? sketchQueued
+            ? frame.sketchDocument
+            : await mapSketchImages(frame.sketchDocument, image => copyImage(image.src, id, 'image', image.id))
+          : null;
+
+        if (sketchQueued) {
+          queuedImages.push({ kind: 'frameImage', userId: user.id, boardId, frameId: id, imageType: 'sketch', dataUrl: sketchUrl, sketchDocument });
+        }
+        if (polishedQueued) {
+          queuedImages.push({ kind: 'frameImage', userId: user.id, boardId, frameId: id, imageType: 'polished', dataUrl: polishedUrl });
+        }
+
+        newFrames.push({
+          id,
+          title: frame.title,
+          x: frame.x + offset.x,
+          y: frame.y + offset.y,
+          status: artworkStatus({ sketchUrl, polishedUrl, status: frame.status }),
+          sketchUrl,
+          // Only meaningful next to the sketch it was rendered from
+          sketchDocument,
+          polishedUrl,
+          thumbnailUrl: null,
+          motionNotes: frame.motionNotes,
+          animationStyle: frame.animationStyle,
+          durationMs: frame.durationMs,
+          sortOrder: maxSortOrder + 1 + index,
+          sceneId: null,
+          shot: frame.shot,
+          version: 1,
+        });
+        const stored = {
+          sketchUrl: sketchQueued ? null : sketchUrl,
+          sketchDocument: sketchQueued ? null : sketchDocument,
+          polishedUrl: polishedQueued ? null : polishedUrl,
+        };
+        storedFrames.push({ ...newFrames[index], ...stored, status: artworkStatus({ ...stored, status: frame.status }) });
+      }
+
+      await commitWrite({ kind: 'upsert', table: 'frames', rows: storedFrames.map(frameToDbRow) });
+      for (const op of queuedImages) await queueWrite(op);
+
+      const newConnections: Connection[] = payload.connections.map(c => ({
+        id: crypto.randomUUID(),
+        fromFrameId: idMap.get(c.from)!,
+        toFrameId: idMap.get(c.to)!,
+        transitionType: c.transitionType,
+        transitionDurationMs: c.transitionDurationMs,
+        branchLabel: c.branchLabel,
+      }));
+
+      if (newConnections.length > 0) {
+        await commitWrite({ kind: 'upsert', table: 'connections', rows: newConnections.map(connectionToDbRow) });
+      }
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        frames: [...prev.frames, ...newFrames.filter(f => !prev.frames.some(pf => pf.id === f.id))],
+        connections: [
+          ...prev.connections,
+          ...newConnections.filter(c => !prev.connections.some(pc => pc.id === c.id)),
+        ],
+      } : null);
+
+      // History keeps the stored frames, since undo/redo would write data URLs to the database
+      if (options.recordHistory !== false) {
+        const commands: BoardCommand[] = [
+          ...storedFrames.map(frame => ({ type: 'createFrame' as const, frame })),
+          ...newConnections.map(connection => ({ type: 'createConnection' as const, connection })),
+        ];
+        recordCommand(commands.length === 1
+          ? commands[0]
+          : { type: 'batch', label: `Paste ${newFrames.length} frame${newFrames.length !== 1 ? 's' : ''}`, commands });
+      }
+
+      return { frames: newFrames, failedImages };
+    } catch (err) {
+      console.error('Error pasting frames:', err);
+      setError(err instanceof Error ? err.message : 'Failed to paste frames');
+      return null;
+    }
+  }, [boardId, user, isReadOnly, frameToDbRow, connectionToDbRow, commitWrite, queueWrite, setBoardWithCache, recordCommand]);
+
   // Create a connection between frames
   const createConnection = useCallback(async (
     fromFrameId: string,
     toFrameId: string,
-    transitionType: string = 'fade'
+    transitionType: string = 'fade',
+    options: MutationOptions = {},
+    transitionDurationMs: number = DEFAULT_TRANSITION_DURATION_MS
   ): Promise<Connection | null> => {
     if (!boardId || !user || isReadOnly) return null;
 
     try {
-      const { data, error } = await supabase
-        .from('connections')
-        .insert({
-          board_id: boardId,
-          from_frame_id: fromFrameId,
-          to_frame_id: toFrameId,
-          transition_type: transitionType,
-        })
-        .select()
-        .single();
+      const newConnection: Connection = {
+        id: crypto.randomUUID(),
+        fromFrameId,
+        toFrameId,
+        transitionType,
+        transitionDurationMs,
+        branchLabel: null,
+      };
 
-      if (error) throw error;
+      await commitWrite({ kind: 'upsert', table: 'connections', rows: [connectionToDbRow(newConnection)] });
 
-      const newConnection = dbConnectionToConnection(data);
       setBoardWithCache(prev => prev ? {
         ...prev,
         connections: [...prev.connections, newConnection],
       } : null);
 
+      if (options.recordHistory !== false) {
+        recordCommand({ type: 'createConnection', connection: newConnection });
+      }
+
       return newConnection;
     } catch (err) {
       console.error('Error creating connection:', err);
       setError(err instanceof Error ? err.message : 'Failed to create connection');
       return null;
     }
-  }, [boardId, user, dbConnectionToConnection, isReadOnly, setBoardWithCache]);
+  }, [boardId, user, isReadOnly, connectionToDbRow, commitWrite, setBoardWithCache, recordCommand]);
+
+  // Re-insert a previously deleted connection with its original ID
+  const restoreConnection = useCallback(async (connection: Connection): Promise<boolean> => {
+    if (!boardId || !user || isReadOnly) return false;
+
+    try {
+      await commitWrite({ kind: 'upsert', table: 'connections', rows: [connectionToDbRow(connection)] });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        connections: prev.connections.some(c => c.id === connection.id)
+          ? prev.connections
+          : [...prev.connections, connection],
+      } : null);
+
+      return true;
+    } catch (err) {
+      console.error('Error restoring connection:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore connection');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, connectionToDbRow, commitWrite, setBoardWithCache]);
+
+  // Change a connection's transition (type and/or duration)
+  const updateConnection = useCallback(async (
+    connectionId: string,
+    updates: Partial<Pick<Connection, 'transitionType' | 'transitionDurationMs' | 'branchLabel'>>,
+    options: MutationOptions = {}
+  ): Promise<boolean> => {
+    if (!boardId || !user || isReadOnly) return false;
+
+    try {
+      const dbUpdates: Partial<DbConnection> = {};
+
+      if (updates.transitionType !== undefined) dbUpdates.transition_type = updates.transitionType;
+      if (updates.transitionDurationMs !== undefined) dbUpdates.transition_duration_ms = updates.transitionDurationMs;
+      if (updates.branchLabel !== undefined) dbUpdates.branch_label = updates.branchLabel;
+
+      const previous = boardRef.current?.connections.find(c => c.id === connectionId);
+
+      await commitWrite({ kind: 'update', table: 'connections', ids: [connectionId], changes: dbUpdates });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        connections: prev.connections.map(c =>
+          c.id === connectionId ? { ...c, ...updates } : c
+        ),
+      } : null);
+
+      if (options.recordHistory !== false && previous) {
+        recordCommand({
+          type: 'updateConnection',
+          connectionId,
+          before: snapshotConnectionFields(previous, updates),
+          after: updates,
+        });
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error updating connection:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update connection');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, commitWrite, setBoardWithCache, recordCommand]);
 
   // Delete a connection
-  const deleteConnection = useCallback(async (connectionId: string): Promise<boolean> => {
+  const deleteConnection = useCallback(async (
+    connectionId: string,
+    options: MutationOptions = {}
+  ): Promise<boolean> => {
     if (!boardId || !user || isReadOnly) return false;
 
     try {
-      const { error } = await supabase
-        .from('connections')
-        .delete()
-        .eq('id', connectionId);
+      const connection = boardRef.current?.connections.find(c => c.id === connectionId);
 
-      if (error) throw error;
+      await commitWrite({ kind: 'delete', table: 'connections', ids: [connectionId] });
 
       setBoardWithCache(prev => prev ? {
         ...prev,
         connections: prev.connections.filter(c => c.id !== connectionId),
       } : null);
 
+      if (connection && options.recordHistory !== false) {
+        recordCommand({ type: 'deleteConnection', connection });
+      }
+
       return true;
     } catch (err) {
       console.error('Error deleting connection:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete connection');
       return false;
     }
-  }, [boardId, user, isReadOnly, setBoardWithCache]);
+  }, [boardId, user, isReadOnly, commitWrite, setBoardWithCache, recordCommand]);
 
   // Update board name
-  const updateBoardName = useCallback(async (name: string): Promise<boolean> => {
+  const updateBoardName = useCallback(async (
+    name: string,
+    options: MutationOptions = {}
+  ): Promise<boolean> => {
     if (!boardId || !user || isReadOnly) return false;
 
     try {
-      const { error } = await supabase
-        .from('boards')
-        .update({ name, updated_at: new Date().toISOString() })
-        .eq('id', boardId);
+      const previousName = boardRef.current?.name;
 
-      if (error) throw error;
+      await commitWrite({
+        kind: 'update',
+        table: 'boards',
+        ids: [boardId],
+        changes: { name, updated_at: new Date().toISOString() },
+      });
 
       setBoardWithCache(prev => prev ? { ...prev, name } : null);
+
+      if (previousName !== undefined && previousName !== name && options.recordHistory !== false) {
+        recordCommand({ type: 'updateBoardName', before: previousName, after: name });
+      }
+
       return true;
     } catch (err) {
       console.error('Error updating board name:', err);
       setError(err instanceof Error ? err.message : 'Failed to update board name');
       return false;
     }
-  }, [boardId, user, isReadOnly, setBoardWithCache]);
+  }, [boardId, user, isReadOnly, commitWrite, setBoardWithCache, recordCommand]);
+
+  const updateReadingDirection = useCallback(async (
+    direction: ReadingDirection,
+    options: MutationOptions = {}
+  ): Promise<boolean> => {
+    if (!boardId || !user || isReadOnly) return false;
+
+    try {
+      const previousDirection = boardRef.current?.readingDirection;
+
+      await commitWrite({
+        kind: 'update',
+        table: 'boards',
+        ids: [boardId],
+        changes: { reading_direction: direction, updated_at: new Date().toISOString() },
+      });
+
+      setBoardWithCache(prev => prev ? { ...prev, readingDirection: direction } : null);
+
+      if (previousDirection !== undefined && previousDirection !== direction && options.recordHistory !== false) {
+        recordCommand({ type: 'updateReadingDirection', before: previousDirection, after: direction });
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error updating reading direction:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update reading direction');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, commitWrite, setBoardWithCache, recordCommand]);
+
+  const updateAspectRatio = useCallback(async (
+    aspectRatio: AspectRatio,
+    options: MutationOptions = {}
+  ): Promise<boolean> => {
+    if (!boardId || !user || isReadOnly) return false;
+
+    try {
+      const previousRatio = boardRef.current?.aspectRatio;
+
+      await commitWrite({
+        kind: 'update',
+        table: 'boards',
+        ids: [boardId],
+        changes: { aspect_ratio: aspectRatio, updated_at: new Date().toISOString() },
+      });
+
+      setBoardWithCache(prev => prev ? { ...prev, aspectRatio } : null);
+
+      if (previousRatio !== undefined && previousRatio !== aspectRatio && options.recordHistory !== false) {
+        recordCommand({ type: 'updateAspectRatio', before: previousRatio, after: aspectRatio });
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error updating aspect ratio:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update aspect ratio');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, commitWrite, setBoardWithCache, recordCommand]);
+
+  // Convert app scene to a database row (new scenes, and restoring deleted scenes with their original ID)
+  const sceneToDbRow = useCallback((scene: Scene) => ({
+    id: scene.id,
+    board_id: boardId,
+    name: scene.name,
+    position_x: scene.x,
+    position_y: scene.y,
+    is_collapsed: scene.isCollapsed,
+    sort_order: scene.sortOrder,
+    animation_style: scene.animationStyle,
+    duration_ms: scene.durationMs,
+    polish_style: scene.polishStyle,
+  }), [boardId]);
+
+  // Write scene membership for several frames in a single request
+  const writeSceneAssignment = useCallback(async (
+    frameIds: string[],
+    sceneId: string | null
+  ): Promise<void> => {
+    if (frameIds.length === 0) return;
+
+    await commitWrite({ kind: 'update', table: 'frames', ids: frameIds, changes: { scene_id: sceneId } });
+
+    const ids = new Set(frameIds);
+    setBoardWithCache(prev => prev ? {
+      ...prev,
+      frames: prev.frames.map(f => ids.has(f.id) ? { ...f, sceneId } : f),
+    } : null);
+  }, [commitWrite, setBoardWithCache]);
+
+  // Create a scene, optionally moving existing frames into it
+  const createScene = useCallback(async (
+    name: string,
+    frameIds: string[] = [],
+    options: MutationOptions & { x?: number; y?: number } = {}
+  ): Promise<Scene | null> => {
+    if (!boardId || !user || isReadOnly) return null;
+
+    try {
+      const current = boardRef.current;
+      const members = (current?.frames || []).filter(f => frameIds.includes(f.id));
+      const maxSortOrder = current?.scenes.reduce((max, s) => Math.max(max, s.sortOrder), -1) ?? -1;
+
+      const newScene: Scene = {
+        id: crypto.randomUUID(),
+        name,
+        x: options.x ?? (members.length ? Math.min(...members.map(f => f.x)) : 0),
+        y: options.y ?? (members.length ? Math.min(...members.map(f => f.y)) : 0),
+        isCollapsed: false,
+        sortOrder: maxSortOrder + 1,
+        animationStyle: null,
+        durationMs: null,
+        polishStyle: null,
+      };
+
+      await commitWrite({ kind: 'upsert', table: 'scenes', rows: [sceneToDbRow(newScene)] });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        scenes: [...prev.scenes, newScene],
+      } : null);
+
+      await writeSceneAssignment(members.map(f => f.id), newScene.id);
+
+      if (options.recordHistory !== false) {
+        recordCommand({
+          type: 'createScene',
+          scene: newScene,
+          assignments: members.map(f => ({ id: f.id, sceneId: f.sceneId })),
+        });
+      }
+
+      return newScene;
+    } catch (err) {
+      console.error('Error creating scene:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create scene');
+      return null;
+    }
+  }, [boardId, user, isReadOnly, sceneToDbRow, commitWrite, setBoardWithCache, writeSceneAssignment, recordCommand]);
+
+  // Re-insert a previously deleted scene with its original ID
+  const restoreScene = useCallback(async (scene: Scene): Promise<boolean> => {
+    if (!boardId || !user || isReadOnly) return false;
+
+    try {
+      await commitWrite({ kind: 'upsert', table: 'scenes', rows: [sceneToDbRow(scene)] });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        scenes: prev.scenes.some(s => s.id === scene.id)
+          ? prev.scenes
+          : [...prev.scenes, scene],
+      } : null);
+
+      return true;
+    } catch (err) {
+      console.error('Error restoring scene:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore scene');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, sceneToDbRow, commitWrite, setBoardWithCache]);
+
+  // Update scene properties (name, collapsed state, defaults, anchor position)
+  const updateScene = useCallback(async (
+    sceneId: string,
+    updates: Partial<Omit<Scene, 'id'>>,
+    options: MutationOptions = {}
+  ): Promise<boolean> => {
+    if (!boardId || !user || isReadOnly) return false;
+
+    try {
+      const dbUpdates: Partial<DbScene> = {};
+
+      if (updates.name !== undefined) dbUpdates.name = updates.name;
+      if (updates.x !== undefined) dbUpdates.position_x = updates.x;
+      if (updates.y !== undefined) dbUpdates.position_y = updates.y;
+      if (updates.isCollapsed !== undefined) dbUpdates.is_collapsed = updates.isCollapsed;
+      if (updates.sortOrder !== undefined) dbUpdates.sort_order = updates.sortOrder;
+      if (updates.animationStyle !== undefined) dbUpdates.animation_style = updates.animationStyle;
+      if (updates.durationMs !== undefined) dbUpdates.duration_ms = updates.durationMs;
+      if (updates.polishStyle !== undefined) dbUpdates.polish_style = updates.polishStyle;
+
+      const previous = boardRef.current?.scenes.find(s => s.id === sceneId);
+
+      await commitWrite({ kind: 'update', table: 'scenes', ids: [sceneId], changes: dbUpdates });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        scenes: prev.scenes.map(s =>
+          s.id === sceneId ? { ...s, ...updates } : s
+        ),
+      } : null);
+
+      if (options.recordHistory !== false && previous) {
+        recordCommand({
+          type: 'updateScene',
+          sceneId,
+          before: snapshotSceneFields(previous, updates),
+          after: updates,
+        });
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error updating scene:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update scene');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, commitWrite, setBoardWithCache, recordCommand]);
+
+  // Delete a scene. Its frames stay on the board and become unassigned
+  const deleteScene = useCallback(async (
+    sceneId: string,
+    options: MutationOptions = {}
+  ): Promise<boolean> => {
+    if (!boardId || !user || isReadOnly) return false;
+
+    try {
+      const scene = boardRef.current?.scenes.find(s => s.id === sceneId);
+      const frameIds = (boardRef.current?.frames || [])
+        .filter(f => f.sceneId === sceneId)
+        .map(f => f.id);
+
+      // Frames are unassigned by ON DELETE SET NULL
+      await commitWrite({ kind: 'delete', table: 'scenes', ids: [sceneId] });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        scenes: prev.scenes.filter(s => s.id !== sceneId),
+        frames: prev.frames.map(f => f.sceneId === sceneId ? { ...f, sceneId: null } : f),
+      } : null);
+
+      if (scene && options.recordHistory !== false) {
+        recordCommand({ type: 'deleteScene', scene, frameIds });
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error deleting scene:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete scene');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, commitWrite, setBoardWithCache, recordCommand]);
+
+  // Move frames into a scene (or out of any scene with null)
+  const assignFramesToScene = useCallback(async (
+    frameIds: string[],
+    sceneId: string | null,
+    options: MutationOptions = {}
+  ): Promise<boolean> => {
+    if (!boardId || !user || isReadOnly) return false;
+
+    try {
+      const before: SceneAssignment[] = (boardRef.current?.frames || [])
+        .filter(f => frameIds.includes(f.id) && f.sceneId !== sceneId)
+        .map(f => ({ id: f.id, sceneId: f.sceneId }));
+
+      if (before.length === 0) return true;
+
+      await writeSceneAssignment(before.map(a => a.id), sceneId);
+
+      if (options.recordHistory !== false) {
+        recordCommand({ type: 'assignFrames', before, sceneId });
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error assigning frames to scene:', err);
+      setError(err instanceof Error ? err.message : 'Failed to move frames to scene');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, writeSceneAssignment, recordCommand]);
+
+  // Put frames back into the scenes they belonged to (one request per scene)
+  const restoreSceneAssignments = useCallback(async (
+    assignments: SceneAssignment[]
+  ): Promise<boolean> => {
+    const byScene = new Map<string | null, string[]>();
+    assignments.forEach(a => {
+      byScene.set(a.sceneId, [...(byScene.get(a.sceneId) || []), a.id]);
+    });
+
+    let ok = true;
+    for (const [sceneId, frameIds] of byScene) {
+      ok = (await assignFramesToScene(frameIds, sceneId, { recordHistory: false })) && ok;
+    }
+    return ok;
+  }, [assignFramesToScene]);
+
+  // Convert app cut to a database row
+  const cutToDbRow = useCallback((cut: Cut) => ({
+    id: cut.id,
+    board_id: boardId,
+    name: cut.name,
+    frame_ids: cut.frameIds,
+    sort_order: cut.sortOrder,
+  }), [boardId]);
+
+  // Create a named cut from an ordered path of frames
+  const createCut = useCallback(async (
+    name: string,
+    frameIds: string[],
+    options: MutationOptions = {}
+  ): Promise<Cut | null> => {
+    if (!boardId || !user || isReadOnly) return null;
+
+    try {
+      const maxSortOrder = boardRef.current?.cuts.reduce((max, c) => Math.max(max, c.sortOrder), -1) ?? -1;
+
+      const newCut: Cut = {
+        id: crypto.randomUUID(),
+        name,
+        frameIds,
+        sortOrder: maxSortOrder + 1,
+      };
+
+      await commitWrite({ kind: 'upsert', table: 'cuts', rows: [cutToDbRow(newCut)] });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        cuts: [...prev.cuts, newCut],
+      } : null);
+
+      if (options.recordHistory !== false) {
+        recordCommand({ type: 'createCut', cut: newCut });
+      }
+
+      return newCut;
+    } catch (err) {
+      console.error('Error creating cut:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create cut');
+      return null;
+    }
+  }, [boardId, user, isReadOnly, cutToDbRow, commitWrite, setBoardWithCache, recordCommand]);
+
+  // Re-insert a previously deleted cut with its original ID
+  const restoreCut = useCallback(async (cut: Cut): Promise<boolean> => {
+    if (!boardId || !user || isReadOnly) return false;
+
+    try {
+      await commitWrite({ kind: 'upsert', table: 'cuts', rows: [cutToDbRow(cut)] });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        cuts: prev.cuts.some(c => c.id === cut.id)
+          ? prev.cuts
+          : [...prev.cuts, cut],
+      } : null);
+
+      return true;
+    } catch (err) {
+      console.error('Error restoring cut:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore cut');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, cutToDbRow, commitWrite, setBoardWithCache]);
+
+  // Rename a cut or change its path
+  const updateCut = useCallback(async (
+    cutId: string,
+    updates: Partial<Pick<Cut, 'name' | 'frameIds'>>,
+    options: MutationOptions = {}
+  ): Promise<boolean> => {
+    if (!boardId || !user || isReadOnly) return false;
+
+    try {
+      const dbUpdates: Partial<DbCut> = {};
+
+      if (updates.name !== undefined) dbUpdates.name = updates.name;
+      if (updates.frameIds !== undefined) dbUpdates.frame_ids = updates.frameIds;
+
+      const previous = boardRef.current?.cuts.find(c => c.id === cutId);
+
+      await commitWrite({ kind: 'update', table: 'cuts', ids: [cutId], changes: dbUpdates });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        cuts: prev.cuts.map(c => c.id === cutId ? { ...c, ...updates } : c),
+      } : null);
+
+      if (options.recordHistory !== false && previous) {
+        recordCommand({
+          type: 'updateCut',
+          cutId,
+          before: snapshotCutFields(previous, updates),
+          after: updates,
+        });
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error updating cut:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update cut');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, commitWrite, setBoardWithCache, recordCommand]);
+
+  // Delete a cut (frames and connections are untouched)
+  const deleteCut = useCallback(async (
+    cutId: string,
+    options: MutationOptions = {}
+  ): Promise<boolean> => {
+    if (!boardId || !user || isReadOnly) return false;
+
+    try {
+      const cut = boardRef.current?.cuts.find(c => c.id === cutId);
+
+      await commitWrite({ kind: 'delete', table: 'cuts', ids: [cutId] });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        cuts: prev.cuts.filter(c => c.id !== cutId),
+      } : null);
+
+      if (cut && options.recordHistory !== false) {
+        recordCommand({ type: 'deleteCut', cut });
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error deleting cut:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete cut');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, commitWrite, setBoardWithCache, recordCommand]);
+
+  // Convert app comment to a database row.
+  // created_at is the client's time so queued comments keep their place in the thread.
+  const commentToDbRow = useCallback((comment: Comment) => ({
+    id: comment.id,
+    board_id: boardId,
+    parent_id: comment.parentId,
+    frame_id: comment.frameId,
+    position_x: comment.x,
+    position_y: comment.y,
+    author_id: comment.authorId,
+    author_name: comment.authorName,
+    body: comment.body,
+    created_at: comment.createdAt,
+  }), [boardId]);
+
+  // Start a comment thread pinned to a frame or canvas position.
+  // Comments are conversation rather than board content, so they skip the undo stack.
+  const createComment = useCallback(async (
+    body: string,
+    anchor: CommentAnchor
+  ): Promise<Comment | null> => {
+    if (!boardId || !user || !canComment) return null;
+
+    try {
+      const comment: Comment = {
+        id: crypto.randomUUID(),
+        parentId: null,
+        frameId: anchor.frameId ?? null,
+        x: anchor.x,
+        y: anchor.y,
+        authorId: user.id,
+        authorName: getAuthorName(user),
+        body,
+        resolved: false,
+        createdAt: new Date().toISOString(),
+      };
+
+      await commitWrite({ kind: 'upsert', table: 'comments', rows: [commentToDbRow(comment)] });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        comments: prev.comments.some(c => c.id === comment.id) ? prev.comments : [...prev.comments, comment],
+      } : null);
+
+      return comment;
+    } catch (err) {
+      console.error('Error creating comment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create comment');
+      return null;
+    }
+  }, [boardId, user, canComment, commentToDbRow, commitWrite, setBoardWithCache]);
+
+  // Reply to a thread (replies always point at the thread's first comment)
+  const replyToComment = useCallback(async (
+    threadId: string,
+    body: string
+  ): Promise<Comment | null> => {
+    if (!boardId || !user || !canComment) return null;
+
+    try {
+      const comment: Comment = {
+        id: crypto.randomUUID(),
+        parentId: threadId,
+        frameId: null,
+        x: null,
+        y: null,
+        authorId: user.id,
+        authorName: getAuthorName(user),
+        body,
+        resolved: false,
+        createdAt: new Date().toISOString(),
+      };
+
+      await commitWrite({ kind: 'upsert', table: 'comments', rows: [commentToDbRow(comment)] });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        comments: prev.comments.some(c => c.id === comment.id) ? prev.comments : [...prev.comments, comment],
+      } : null);
+
+      return comment;
+    } catch (err) {
+      console.error('Error replying to comment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reply');
+      return null;
+    }
+  }, [boardId, user, canComment, commentToDbRow, commitWrite, setBoardWithCache]);
+
+  // Resolve or reopen a thread
+  const setCommentResolved = useCallback(async (
+    threadId: string,
+    resolved: boolean
+  ): Promise<boolean> => {
+    if (!boardId || !user || !canComment) return false;
+
+    try {
+      await commitWrite({
+        kind: 'update',
+        table: 'comments',
+        ids: [threadId],
+        // Who resolved it and when are filled in by the database
+        changes: { resolved },
+      });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        comments: prev.comments.map(c => c.id === threadId ? { ...c, resolved } : c),
+      } : null);
+
+      return true;
+    } catch (err) {
+      console.error('Error resolving comment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update comment');
+      return false;
+    }
+  }, [boardId, user, canComment, commitWrite, setBoardWithCache]);
+
+  // Delete a comment; deleting a thread's first comment deletes the whole thread
+  const deleteComment = useCallback(async (commentId: string): Promise<boolean> => {
+    if (!boardId || !user) return false;
+
+    try {
+      await commitWrite({ kind: 'delete', table: 'comments', ids: [commentId] });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        comments: prev.comments.filter(c => c.id !== commentId && c.parentId !== commentId),
+      } : null);
+
+      return true;
+    } catch (err) {
+      console.error('Error deleting comment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete comment');
+      return false;
+    }
+  }, [boardId, user, commitWrite, setBoardWithCache]);
+
+  // Replace the board's content with a snapshot, all at once or not at all. IDs are kept,
+  // so comments stay pinned to frames that come back. Sharing settings aren't touched. Undo history is cleared: callers take a snapshot of the
+  // current state first so the restore itself can be rolled back.
+  const restoreSnapshot = useCallback(async (snapshot: BoardSnapshotData): Promise<boolean> => {
+    const current = boardRef.current;
+    if (!boardId || !user || isReadOnly || !current) return false;
+    if (findProtectedFrameChanges(captureBoard(current), snapshot).length > 0) return false;
+
+    try {
+      const frameIds = new Set(snapshot.frames.map(f => f.id));
+
+      await commitWrite({
+        kind: 'restoreBoard',
+        boardId,
+        snapshot: {
+          board: {
+            name: snapshot.name,
+            reading_direction: snapshot.readingDirection,
+            aspect_ratio: snapshot.aspectRatio,
+          },
+          scenes: snapshot.scenes.map(sceneToDbRow),
+          frames: snapshot.frames.map(frameToDbRow),
+          connections: snapshot.connections.map(connectionToDbRow),
+          cuts: snapshot.cuts.map(cutToDbRow),
+        },
+      });
+
+      setBoardWithCache(prev => prev ? {
+        ...prev,
+        name: snapshot.name,
+        readingDirection: snapshot.readingDirection,
+        aspectRatio: snapshot.aspectRatio,
+        // Restored rows may have been re-inserted, so their versions are unknown
+        frames: snapshot.frames.map(f => ({ ...f, version: 0 })),
+        connections: snapshot.connections,
+        scenes: snapshot.scenes,
+        cuts: snapshot.cuts,
+        comments: prev.comments.map(c => c.frameId && !frameIds.has(c.frameId) ? { ...c, frameId: null } : c),
+      } : null);
+
+      clearHistory();
+
+      return true;
+    } catch (err) {
+      console.error('Error restoring snapshot:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore snapshot');
+      return false;
+    }
+  }, [boardId, user, isReadOnly, commitWrite, sceneToDbRow, frameToDbRow, connectionToDbRow, cutToDbRow, setBoardWithCache, clearHistory]);
+
+  // Group several mutations into a single undo step
+  const runBatch = useCallback(async <T,>(label: string, fn: () => Promise<T>): Promise<T> => {
+    // Nested batches join the outer one
+    if (batchRef.current) return fn();
+
+    batchRef.current = [];
+    try {
+      return await fn();
+    } finally {
+      const commands = batchRef.current;
+      batchRef.current = null;
+      if (commands.length === 1) {
+        recordCommand(commands[0]);
+      } else if (commands.length > 1) {
+        recordCommand({ type: 'batch', label, commands });
+      }
+    }
+  }, [recordCommand]);
+
+  // Apply a command forwards (redo) or backwards (undo) without recording it again
+  const applyCommand = useCallback(async (
+    command: BoardCommand,
+    direction: 'undo' | 'redo'
+  ): Promise<boolean> => {
+    const skip = { recordHistory: false };
+    const isUndo = direction === 'undo';
+
+    switch (command.type) {
+      case 'createFrame':
+        return isUndo
+          ? deleteFrame(command.frame.id, skip)
+          : restoreFrame(command.frame);
+      case 'updateFrame':
+        return updateFrame(command.frameId, isUndo ? command.before : command.after, skip);
+      case 'deleteFrame':
+        return isUndo
+          ? restoreFrame(command.frame, command.connections)
+          : deleteFrame(command.frame.id, skip);
+      case 'moveFrames':
+        return updateFramePositions(isUndo ? command.before : command.after, skip);
+      case 'createConnection':
+        return isUndo
+          ? deleteConnection(command.connection.id, skip)
+          : restoreConnection(command.connection);
+      case 'deleteConnection':
+        return isUndo
+          ? restoreConnection(command.connection)
+          : deleteConnection(command.connection.id, skip);
+      case 'updateConnection':
+        return updateConnection(command.connectionId, isUndo ? command.before : command.after, skip);
+      case 'updateBoardName':
+        return updateBoardName(isUndo ? command.before : command.after, skip);
+      case 'updateReadingDirection':
+        return updateReadingDirection(isUndo ? command.before : command.after, skip);
+      case 'updateAspectRatio':
+        return updateAspectRatio(isUndo ? command.before : command.after, skip);
+      case 'createScene':
+        if (isUndo) {
+          // Deleting unassigns the frames; put back any that came from another scene
+          return (await deleteScene(command.scene.id, skip))
+            && restoreSceneAssignments(command.assignments.filter(a => a.sceneId !== null));
+        }
+        return (await restoreScene(command.scene))
+          && assignFramesToScene(command.assignments.map(a => a.id), command.scene.id, skip);
+      case 'updateScene':
+        return updateScene(command.sceneId, isUndo ? command.before : command.after, skip);
+      case 'deleteScene':
+        return isUndo
+          ? (await restoreScene(command.scene))
+            && assignFramesToScene(command.frameIds, command.scene.id, skip)
+          : deleteScene(command.scene.id, skip);
+      case 'createCut':
+        return isUndo ? deleteCut(command.cut.id, skip) : restoreCut(command.cut);
+      case 'updateCut':
+        return updateCut(command.cutId, isUndo ? command.before : command.after, skip);
+      case 'deleteCut':
+        return isUndo ? restoreCut(command.cut) : deleteCut(command.cut.id, skip);
+      case 'assignFrames':
+        return isUndo
+          ? restoreSceneAssignments(command.before)
+          : assignFramesToScene(command.before.map(a => a.id), command.sceneId, skip);
+      case 'batch': {
+        // Undo runs in reverse order so dependent steps unwind correctly
+        const steps = isUndo ? [...command.commands].reverse() : command.commands;
+        let ok = true;
+        for (const step of steps) {
+          ok = (await applyCommand(step, direction)) && ok;
+        }
+        return ok;
+      }
+    }
+  }, [
+    deleteFrame, restoreFrame, updateFrame, updateFramePositions, deleteConnection, restoreConnection,
+    updateConnection, updateBoardName, deleteScene, restoreScene, updateScene, assignFramesToScene, restoreSceneAssignments,
+    deleteCut, restoreCut, updateCut, updateReadingDirection, updateAspectRatio,
+  ]);
+
+  // Undo the most recent command. Returns its label, or null if nothing was undone
+  const undo = useCallback(async (): Promise<string | null> => {
+    if (isReadOnly) return null;
+    const command = historyRef.current.past.pop();
+    if (!command) return null;
+
+    const ok = await applyCommand(command, 'undo');
+    if (ok) {
+      historyRef.current.future.push(command);
+    } else {
+      // Put it back so the stack stays consistent with the database
+      historyRef.current.past.push(command);
+    }
+    syncHistoryFlags();
+    return ok ? describeCommand(command) : null;
+  }, [isReadOnly, applyCommand, syncHistoryFlags]);
+
+  // Redo the most recently undone command. Returns its label, or null if nothing was redone
+  const redo = useCallback(async (): Promise<string | null> => {
+    if (isReadOnly) return null;
+    const command = historyRef.current.future.pop();
+    if (!command) return null;
+
+    const ok = await applyCommand(command, 'redo');
+    if (ok) {
+      historyRef.current.past.push(command);
+    } else {
+      historyRef.current.future.push(command);
+    }
+    syncHistoryFlags();
+    return ok ? describeCommand(command) : null;
+  }, [isReadOnly, applyCommand, syncHistoryFlags]);
 
   return {
     board,
@@ -615,15 +2542,45 @@ export function useBoard(boardId: string | null) {
     error,
     errorType,
     isReadOnly,
+    canComment,
+    canApprove,
+    canViewHistory,
+    syncStatus,
+    pendingChanges,
+    retrySync: flushOutbox,
+    frameConflicts,
+    resolveFrameConflict,
     refresh: fetchData,
     createFrame,
     updateFrame,
     saveFrameImage,
     deleteFrame,
     updateFramePosition,
+    updateFramePositions,
+    pasteFrames,
     createConnection,
+    updateConnection,
     deleteConnection,
     updateBoardName,
+    updateReadingDirection,
+    updateAspectRatio,
+    createScene,
+    updateScene,
+    deleteScene,
+    assignFramesToScene,
+    createCut,
+    updateCut,
+    deleteCut,
+    createComment,
+    replyToComment,
+    setCommentResolved,
+    deleteComment,
+    restoreSnapshot,
+    runBatch,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
   };
 }
 
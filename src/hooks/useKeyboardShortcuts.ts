@@ -1,43 +1,42 @@
 import { useEffect, useCallback } from "react";
+import { CommandId, COMMANDS, matchesBinding } from "@/lib/shortcuts";
+import { useKeymapStore } from "@/stores/keymapStore";
 
-interface ShortcutConfig {
-  key: string;
-  ctrl?: boolean;
-  shift?: boolean;
-  alt?: boolean;
-  meta?: boolean;
-  action: () => void;
-}
+// Actions for the commands available on the current screen
+export type CommandHandlers = Partial<Record<CommandId, () => void>>;
+
+/**
+ * Run command handlers when their key bindings (from the user's keymap) are pressed
+ */
+export function useKeyboardShortcuts(handlers: CommandHandlers, enabled = true) {
+  const keymap = useKeymapStore(state => state.keymap);
 
-export function useKeyboardShortcuts(shortcuts: ShortcutConfig[]) {
   const handleKeyDown = useCallback(
     (event: KeyboardEvent) => {
       // Don't trigger shortcuts when typing in inputs
       if (
         event.target instanceof HTMLInputElement ||
-        event.target instanceof HTMLTextAreaElement
+        event.target instanceof HTMLTextAreaElement ||
+        (event.target instanceof HTMLElement && event.target.isContentEditable)
       ) {
         return;
       }
 
-      for (const shortcut of shortcuts) {
-        const keyMatch = event.key.toLowerCase() === shortcut.key.toLowerCase();
-        const ctrlMatch = shortcut.ctrl ? event.ctrlKey || event.metaKey : !event.ctrlKey && !event.metaKey;
-        const shiftMatch = shortcut.shift ? event.shiftKey : !event.shiftKey;
-        const altMatch = shortcut.alt ? event.altKey : !event.altKey;
-
-        if (keyMatch && ctrlMatch && shiftMatch && altMatch) {
+      for (const { id } of COMMANDS) {
+        const action = handlers[id];
+        if (action && keymap[id].some(binding => matchesBinding(event, binding))) {
           event.preventDefault();
-          shortcut.action();
+          action();
           break;
         }
       }
     },
-    [shortcuts]
+    [handlers, keymap]
   );
 
   useEffect(() => {
+    if (!enabled) return;
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [handleKeyDown]);
+  }, [handleKeyDown, enabled]);
 }
@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { getLowResThumbnail } from '@/lib/thumbnails';
+
+/**
+ * Image URL to display for a frame thumbnail.
+ * Returns a downscaled copy while `lowRes` is set (once it has been generated),
+ * otherwise the original URL.
+ */
+export function useLowResImage(url: string | undefined, lowRes: boolean): string | undefined {
+  const [lowResUrl, setLowResUrl] = useState<{ source: string; url: string } | null>(null);
+
+  useEffect(() => {
+    if (!url || !lowRes) return;
+
+    let cancelled = false;
+    getLowResThumbnail(url).then(result => {
+      if (!cancelled) setLowResUrl({ source: url, url: result });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [url, lowRes]);
+
+  if (!url || !lowRes) return url;
+  return lowResUrl?.source === url ? lowResUrl.url : url;
+}
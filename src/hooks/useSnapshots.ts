@@ -0,0 +1,289 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase, DbBoardSnapshot } from '@/lib/supabase';
+import {
+  BoardSnapshotData,
+  SnapshotKind,
+  AUTO_SNAPSHOT_INTERVAL_MS,
+  AUTO_SNAPSHOT_LIMIT,
+  captureBoard,
+  parseSnapshotData,
+} from '@/lib/snapshots';
+import { useAuth } from './useAuth';
+import type { Board } from './useBoard';
+
+export interface BoardSnapshot {
+  id: string;
+  name: string;
+  kind: SnapshotKind;
+  frameCount: number;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+// The list is loaded without snapshot data; data is fetched when a snapshot is opened
+const LIST_COLUMNS = 'id, name, kind, frame_count, created_by, created_at';
+
+const dbSnapshotToSnapshot = (row: Omit<DbBoardSnapshot, 'board_id' | 'data'>): BoardSnapshot => ({
+  id: row.id,
+  name: row.name,
+  kind: row.kind,
+  frameCount: row.frame_count,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+});
+
+/**
+ * Version history for a board: named and automatic snapshots,
+ * and restoring one as a new board. Restoring in place goes through useBoard.
+ * @param board - The live board, captured when a snapshot is taken
+ * @param canEdit - Whether this user may take snapshots (automatic ones included). Only users who
+ * can read the board's history qualify, since a new snapshot is read back into the list.
+ */
+export function useSnapshots(boardId: string | null, board: Board | null, canEdit: boolean) {
+  const { user } = useAuth();
+  const [snapshots, setSnapshots] = useState<BoardSnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+
+  // Snapshot data is immutable, so it's cached for the session
+  const dataCacheRef = useRef<Map<string, BoardSnapshotData>>(new Map());
+  const boardRef = useRef<Board | null>(board);
+  boardRef.current = board;
+  const autoSnapshotDoneRef = useRef<string | null>(null);
+
+  const fetchSnapshots = useCallback(async () => {
+    if (!boardId) return;
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('board_snapshots')
+      .select(LIST_COLUMNS)
+      .eq('board_id', boardId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching snapshots:', error);
+    } else {
+      setSnapshots((data || []).map(dbSnapshotToSnapshot));
+    }
+    setLoading(false);
+    setLoaded(true);
+  }, [boardId]);
+
+  useEffect(() => {
+    setSnapshots([]);
+    setLoaded(false);
+    dataCacheRef.current = new Map();
+    fetchSnapshots();
+  }, [fetchSnapshots]);
+
+  const loadSnapshotData = useCallback(async (snapshotId: string): Promise<BoardSnapshotData | null> => {
+    const cached = dataCacheRef.current.get(snapshotId);
+    if (cached) return cached;
+
+    const { data, error } = await supabase
+      .from('board_snapshots')
+      .select('data')
+      .eq('id', snapshotId)
+      .single();
+
+    if (error) {
+      console.error('Error loading snapshot:', error);
+      return null;
+    }
+
+    const parsed = parseSnapshotData(data.data);
+    dataCacheRef.current.set(snapshotId, parsed);
+    return parsed;
+  }, []);
+
+  // Keep only the newest automatic snapshots
+  const pruneAutoSnapshots = useCallback(async (list: BoardSnapshot[]) => {
+    const stale = list.filter(s => s.kind === 'auto').slice(AUTO_SNAPSHOT_LIMIT);
+    if (stale.length === 0) return;
+
+    const { error } = await supabase
+      .from('board_snapshots')
+      .delete()
+      .in('id', stale.map(s => s.id));
+
+    if (error) {
+      console.warn('Could not prune automatic snapshots:', error);
+      return;
+    }
+    setSnapshots(prev => prev.filter(s => !stale.some(st => st.id === s.id)));
+  }, []);
+
+  // Snapshot the live board
+  const createSnapshot = useCallback(async (
+    name: string,
+    kind: SnapshotKind = 'manual'
+  ): Promise<BoardSnapshot | null> => {
+    const current = boardRef.current;
+    if (!boardId || !user || !canEdit || !current) return null;
+
+    const data = captureBoard(current);
+    const { data: row, error } = await supabase
+      .from('board_snapshots')
+      .insert({
+        board_id: boardId,
+        name: name.trim() || 'Untitled snapshot',
+        kind,
+        data,
+        frame_count: data.frames.length,
+        created_by: user.id,
+      })
+      .select(LIST_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating snapshot:', error);
+      return null;
+    }
+
+    const snapshot = dbSnapshotToSnapshot(row);
+    dataCacheRef.current.set(snapshot.id, data);
+    const next = [snapshot, ...snapshots.filter(s => s.id !== snapshot.id)];
+    setSnapshots(next);
+    if (kind === 'auto') pruneAutoSnapshots(next);
+    return snapshot;
+  }, [boardId, user, canEdit, snapshots, pruneAutoSnapshots]);
+
+  const deleteSnapshot = useCallback(async (snapshotId: string): Promise<boolean> => {
+    const { error } = await supabase
+      .from('board_snapshots')
+      .delete()
+      .eq('id', snapshotId);
+
+    if (error) {
+      console.error('Error deleting snapshot:', error);
+      return false;
+    }
+
+    dataCacheRef.current.delete(snapshotId);
+    setSnapshots(prev => prev.filter(s => s.id !== snapshotId));
+    return true;
+  }, []);
+
+  /**
+   * Create a new board from a snapshot. Everything gets fresh IDs; images are shared
+   * with the original like duplicated boards. The copy starts private.
+   * @returns The new board's ID
+   */
+  const restoreAsNewBoard = useCallback(async (
+    snapshotId: string,
+    name?: string
+  ): Promise<string | null> => {
+    if (!user) return null;
+
+    try {
+      const data = await loadSnapshotData(snapshotId);
+      if (!data) throw new Error('Snapshot not found');
+
+      const { data: newBoard, error: boardError } = await supabase
+        .from('boards')
+        .insert({
+          user_id: user.id,
+          name: name || `${data.name} (Restored)`,
+          reading_direction: data.readingDirection,
+          aspect_ratio: data.aspectRatio,
+        })
+        .select()
+        .single();
+
+      if (boardError) throw boardError;
+
+      const sceneIds = new Map(data.scenes.map(s => [s.id, crypto.randomUUID()]));
+      const frameIds = new Map(data.frames.map(f => [f.id, crypto.randomUUID()]));
+
+      if (data.scenes.length > 0) {
+        const { error } = await supabase.from('scenes').insert(data.scenes.map(scene => ({
+          id: sceneIds.get(scene.id),
+          board_id: newBoard.id,
+          name: scene.name,
+          position_x: scene.x,
+          position_y: scene.y,
+          is_collapsed: scene.isCollapsed,
+          sort_order: scene.sortOrder,
+          animation_style: scene.animationStyle,
+          duration_ms: scene.durationMs,
+          polish_style: scene.polishStyle,
+        })));
+        if (error) throw error;
+      }
+
+      if (data.frames.length > 0) {
+        const { error } = await supabase.from('frames').insert(data.frames.map(frame => ({
+          id: frameIds.get(frame.id),
+          board_id: newBoard.id,
+          title: frame.title,
+          position_x: frame.x,
+          position_y: frame.y,
+          status: frame.status,
+          sketch_url: frame.sketchUrl,
+          sketch_document: frame.sketchDocument,
+          polished_url: frame.polishedUrl,
+          thumbnail_url: frame.thumbnailUrl,
+          motion_notes: frame.motionNotes,
+          animation_style: frame.animationStyle,
+          duration_ms: frame.durationMs,
+          sort_order: frame.sortOrder,
+          scene_id: frame.sceneId ? sceneIds.get(frame.sceneId) ?? null : null,
+          shot: frame.shot,
+        })));
+        if (error) throw error;
+      }
+
+      const connections = data.connections.filter(c => frameIds.has(c.fromFrameId) && frameIds.has(c.toFrameId));
+      if (connections.length > 0) {
+        const { error } = await supabase.from('connections').insert(connections.map(c => ({
+          board_id: newBoard.id,
+          from_frame_id: frameIds.get(c.fromFrameId),
+          to_frame_id: frameIds.get(c.toFrameId),
+          transition_type: c.transitionType,
+          transition_duration_ms: c.transitionDurationMs,
+          branch_label: c.branchLabel,
+        })));
+        if (error) throw error;
+      }
+
+      if (data.cuts.length > 0) {
+        const { error } = await supabase.from('cuts').insert(data.cuts.map(cut => ({
+          board_id: newBoard.id,
+          name: cut.name,
+          frame_ids: cut.frameIds.filter(id => frameIds.has(id)).map(id => frameIds.get(id)),
+          sort_order: cut.sortOrder,
+        })));
+        if (error) throw error;
+      }
+
+      return newBoard.id;
+    } catch (err) {
+      console.error('Error restoring snapshot as new board:', err);
+      return null;
+    }
+  }, [user, loadSnapshotData]);
+
+  // Automatic snapshot when an editor opens a board that hasn't been checkpointed recently
+  useEffect(() => {
+    if (!boardId || !loaded || !canEdit || !board || board.id !== boardId) return;
+    if (autoSnapshotDoneRef.current === boardId) return;
+    autoSnapshotDoneRef.current = boardId;
+
+    if (board.frames.length === 0) return;
+    const latest = snapshots[0];
+    if (latest && Date.now() - new Date(latest.createdAt).getTime() < AUTO_SNAPSHOT_INTERVAL_MS) return;
+
+    createSnapshot(`Auto · ${new Date().toLocaleString()}`, 'auto');
+  }, [boardId, loaded, canEdit, board, snapshots, createSnapshot]);
+
+  return {
+    snapshots,
+    loading,
+    refresh: fetchSnapshots,
+    loadSnapshotData,
+    createSnapshot,
+    deleteSnapshot,
+    restoreAsNewBoard,
+  };
+}
@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, DbBoardTemplate } from '@/lib/supabase';
+import {
+  BoardTemplate,
+  BUILT_IN_TEMPLATES,
+  captureTemplate,
+  copyTemplateSketches,
+  parseTemplateData,
+} from '@/lib/templates';
+import { deleteFrameImage } from '@/lib/storage';
+import { useAuth } from './useAuth';
+import type { Board } from './useBoard';
+
+const dbTemplateToTemplate = (row: DbBoardTemplate): BoardTemplate => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  builtIn: false,
+  data: parseTemplateData(row.data),
+});
+
+/**
+ * Board templates: the built-in set plus the ones this user has saved
+ */
+export function useTemplates() {
+  const { user } = useAuth();
+  const [userTemplates, setUserTemplates] = useState<BoardTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!user) {
+      setUserTemplates([]);
+      return;
+    }
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('board_templates')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching templates:', error);
+    } else {
+      setUserTemplates((data || []).map(dbTemplateToTemplate));
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  /**
+   * Save a board as a template. Placeholder sketches are copied into the
+   * template's own storage folder so they outlive the board's frames.
+   */
+  const saveTemplate = useCallback(async (
+    board: Board,
+    name: string,
+    description: string,
+    includeSketches: boolean
+  ): Promise<BoardTemplate | null> => {
+    if (!user || board.frames.length === 0) return null;
+
+    try {
+      const id = crypto.randomUUID();
+      const data = captureTemplate(board, includeSketches);
+      data.frames = await copyTemplateSketches(user.id, `templates/${id}`, data.frames);
+
+      const { data: row, error } = await supabase
+        .from('board_templates')
+        .insert({
+          id,
+          user_id: user.id,
+          name: name.trim() || board.name,
+          description: description.trim() || null,
+          data,
+          frame_count: data.frames.length,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const template = dbTemplateToTemplate(row);
+      setUserTemplates(prev => [template, ...prev]);
+      return template;
+    } catch (err) {
+      console.error('Error saving template:', err);
+      return null;
+    }
+  }, [user]);
+
+  const deleteTemplate = useCallback(async (templateId: string): Promise<boolean> => {
+    const template = userTemplates.find(t => t.id === templateId);
+    const { error } = await supabase
+      .from('board_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      console.error('Error deleting template:', error);
+      return false;
+    }
+
+    // Placeholder sketches are owned by the template
+    template?.data.frames.forEach(frame => {
+      if (frame.sketchUrl) deleteFrameImage(frame.sketchUrl);
+    });
+    setUserTemplates(prev => prev.filter(t => t.id !== templateId));
+    return true;
+  }, [userTemplates]);
+
+  return {
+    builtInTemplates: BUILT_IN_TEMPLATES,
+    userTemplates,
+    loading,
+    refresh: fetchTemplates,
+    saveTemplate,
+    deleteTemplate,
+  };
+}
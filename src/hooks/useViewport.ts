@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  Viewport,
+  Rect,
+  Insets,
+  Size,
+  DEFAULT_VIEWPORT,
+  ZOOM_STEP,
+  clampZoom,
+  zoomAtPoint,
+  fitViewportToBounds,
+  centerViewportOn,
+} from '@/lib/viewport';
+
+// Duration of animated viewport moves (fit, zoom to selection, minimap jumps)
+const ANIMATION_MS = 250;
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+/**
+ * Shared pan/zoom state for the board canvas.
+ * The canvas, minimap and toolbar all read and drive the same viewport.
+ * Attach the returned containerRef to the element the canvas fills.
+ */
+export function useViewport(insets?: Insets) {
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [viewport, setViewportState] = useState<Viewport>(DEFAULT_VIEWPORT);
+  const [viewportSize, setViewportSize] = useState<Size>({
+    width: typeof window !== 'undefined' ? window.innerWidth : 1280,
+    height: typeof window !== 'undefined' ? window.innerHeight : 800,
+  });
+
+  const viewportRef = useRef(viewport);
+  viewportRef.current = viewport;
+  const sizeRef = useRef(viewportSize);
+  sizeRef.current = viewportSize;
+  const animationRef = useRef<number | null>(null);
+
+  // Track the canvas element size
+  useEffect(() => {
+    const element = container;
+    if (!element) return;
+
+    const update = () => {
+      const rect = element.getBoundingClientRect();
+      setViewportSize({ width: rect.width, height: rect.height });
+    };
+    update();
+
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [container]);
+
+  const cancelAnimation = useCallback(() => {
+    if (animationRef.current !== null) {
+      cancelAnimationFrame(animationRef.current);
+      animationRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => cancelAnimation, [cancelAnimation]);
+
+  // Immediate update (drag pan, wheel zoom); cancels any running animation
+  const setViewport = useCallback((next: Viewport | ((prev: Viewport) => Viewport)) => {
+    cancelAnimation();
+    setViewportState(prev => {
+      const value = typeof next === 'function' ? next(prev) : next;
+      return { ...value, zoom: clampZoom(value.zoom) };
+    });
+  }, [cancelAnimation]);
+
+  // Smoothly move to a target viewport
+  const animateTo = useCallback((target: Viewport) => {
+    cancelAnimation();
+    const start = viewportRef.current;
+    const end = { ...target, zoom: clampZoom(target.zoom) };
+    const startTime = performance.now();
+
+    const step = (now: number) => {
+      const t = Math.min((now - startTime) / ANIMATION_MS, 1);
+      const k = easeOutCubic(t);
+      setViewportState({
+        x: start.x + (end.x - start.x) * k,
+        y: start.y + (end.y - start.y) * k,
+        zoom: start.zoom + (end.zoom - start.zoom) * k,
+      });
+      animationRef.current = t < 1 ? requestAnimationFrame(step) : null;
+    };
+
+    animationRef.current = requestAnimationFrame(step);
+  }, [cancelAnimation]);
+
+  const getCenter = useCallback(() => ({
+    x: sizeRef.current.width / 2,
+    y: sizeRef.current.height / 2,
+  }), []);
+
+  // Multiply zoom around a screen point (defaults to the viewport center)
+  const zoomBy = useCallback((factor: number, anchor?: { x: number; y: number }) => {
+    setViewport(prev => zoomAtPoint(prev, prev.zoom * factor, anchor ?? getCenter()));
+  }, [setViewport, getCenter]);
+
+  const zoomIn = useCallback(() => {
+    const current = viewportRef.current;
+    animateTo(zoomAtPoint(current, current.zoom * ZOOM_STEP, getCenter()));
+  }, [animateTo, getCenter]);
+
+  const zoomOut = useCallback(() => {
+    const current = viewportRef.current;
+    animateTo(zoomAtPoint(current, current.zoom / ZOOM_STEP, getCenter()));
+  }, [animateTo, getCenter]);
+
+  const resetZoom = useCallback(() => {
+    animateTo(zoomAtPoint(viewportRef.current, 1, getCenter()));
+  }, [animateTo, getCenter]);
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    setViewport(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  }, [setViewport]);
+
+  // Fit a canvas rectangle into the unobstructed part of the screen
+  const fitBounds = useCallback((bounds: Rect, maxZoom?: number) => {
+    animateTo(fitViewportToBounds(bounds, sizeRef.current, insets, maxZoom));
+  }, [animateTo, insets]);
+
+  // Center a canvas point on screen, keeping the zoom level
+  const centerOn = useCallback((point: { x: number; y: number }, animate = true) => {
+    const target = centerViewportOn(viewportRef.current, point, sizeRef.current);
+    if (animate) {
+      animateTo(target);
+    } else {
+      setViewport(target);
+    }
+  }, [animateTo, setViewport]);
+
+  return {
+    containerRef: setContainer,
+    viewport,
+    viewportSize,
+    setViewport,
+    zoomBy,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    panBy,
+    fitBounds,
+    centerOn,
+  };
+}
@@ -0,0 +1,147 @@
+import type { FramePosition } from '@/hooks/useBoard';
+import { Rect, Size } from './viewport';
+
+// Canvas grid spacing (matches the .canvas-grid background)
+export const GRID_SIZE = 40;
+
+// Distance in screen pixels within which edges and centers snap together
+export const SNAP_THRESHOLD = 6;
+
+/**
+ * Alignment guide drawn while dragging, in canvas coordinates.
+ * Vertical guides sit at x = position and span start..end on the y axis (and vice versa).
+ */
+export interface Guide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+  start: number;
+  end: number;
+}
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export function frameRect(position: { x: number; y: number }, frameSize: Size): Rect {
+  return { x: position.x, y: position.y, width: frameSize.width, height: frameSize.height };
+}
+
+interface AxisMatch {
+  offset: number;
+  line: number;
+  other: Rect;
+}
+
+// Best edge/center match on one axis within the threshold
+function findAxisMatch(
+  rect: Rect,
+  others: Rect[],
+  axis: 'x' | 'y',
+  threshold: number
+): AxisMatch | null {
+  const size = axis === 'x' ? 'width' : 'height';
+  const lines = (r: Rect) => [r[axis], r[axis] + r[size] / 2, r[axis] + r[size]];
+
+  let best: AxisMatch | null = null;
+  for (const other of others) {
+    for (const movingLine of lines(rect)) {
+      for (const otherLine of lines(other)) {
+        const offset = otherLine - movingLine;
+        if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+          best = { offset, line: otherLine, other };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Snap a dragged rectangle to neighbouring frames, falling back to the grid.
+ * Returns the snapped top-left corner and the guides to display.
+ */
+export function snapRect(
+  rect: Rect,
+  others: Rect[],
+  options: { threshold: number; gridSize?: number | null }
+): { x: number; y: number; guides: Guide[] } {
+  const guides: Guide[] = [];
+  let { x, y } = rect;
+
+  const matchX = findAxisMatch(rect, others, 'x', options.threshold);
+  if (matchX) {
+    x += matchX.offset;
+  } else if (options.gridSize) {
+    x = Math.round(x / options.gridSize) * options.gridSize;
+  }
+
+  const matchY = findAxisMatch(rect, others, 'y', options.threshold);
+  if (matchY) {
+    y += matchY.offset;
+  } else if (options.gridSize) {
+    y = Math.round(y / options.gridSize) * options.gridSize;
+  }
+
+  // Guides span both the dragged rectangle and the frame it lines up with
+  if (matchX) {
+    guides.push({
+      orientation: 'vertical',
+      position: matchX.line,
+      start: Math.min(y, matchX.other.y),
+      end: Math.max(y + rect.height, matchX.other.y + matchX.other.height),
+    });
+  }
+  if (matchY) {
+    guides.push({
+      orientation: 'horizontal',
+      position: matchY.line,
+      start: Math.min(x, matchY.other.x),
+      end: Math.max(x + rect.width, matchY.other.x + matchY.other.width),
+    });
+  }
+
+  return { x, y, guides };
+}
+
+/**
+ * Align frames to the left/center/right or top/middle/bottom of their bounding box
+ */
+export function alignPositions(positions: FramePosition[], mode: AlignMode): FramePosition[] {
+  if (positions.length < 2) return positions;
+
+  const minX = Math.min(...positions.map(p => p.x));
+  const maxX = Math.max(...positions.map(p => p.x));
+  const minY = Math.min(...positions.map(p => p.y));
+  const maxY = Math.max(...positions.map(p => p.y));
+
+  return positions.map(p => {
+    switch (mode) {
+      case 'left':
+        return { ...p, x: minX };
+      case 'center':
+        return { ...p, x: (minX + maxX) / 2 };
+      case 'right':
+        return { ...p, x: maxX };
+      case 'top':
+        return { ...p, y: minY };
+      case 'middle':
+        return { ...p, y: (minY + maxY) / 2 };
+      case 'bottom':
+        return { ...p, y: maxY };
+    }
+  });
+}
+
+/**
+ * Space frames evenly between the outermost two along an axis.
+ * All frame cards share the same size, so equal gaps mean equal steps.
+ */
+export function distributePositions(positions: FramePosition[], axis: DistributeAxis): FramePosition[] {
+  if (positions.length < 3) return positions;
+
+  const key = axis === 'horizontal' ? 'x' : 'y';
+  const sorted = [...positions].sort((a, b) => a[key] - b[key]);
+  const first = sorted[0][key];
+  const step = (sorted[sorted.length - 1][key] - first) / (sorted.length - 1);
+
+  return sorted.map((p, index) => ({ ...p, [key]: first + step * index }));
+}
@@ -0,0 +1,156 @@
+import { TransitionType, TransitionLayer, getTransitionLayers } from './transitions';
+
+export interface AnimaticFrame {
+  title: string;
+  imageUrl?: string;
+  durationMs: number;
+}
+
+export interface AnimaticOptions {
+  width?: number;
+  height?: number;
+  fps?: number;
+  // Recorder bitrate; the browser picks one when unset
+  videoBitsPerSecond?: number;
+  onProgress?: (progress: number) => void;
+}
+
+// Blur values in transitions are tuned for a 1280px wide stage
+const REFERENCE_WIDTH = 1280;
+
+function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+}
+
+function pickMimeType(): string {
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
+}
+
+// Draw one frame image (letterboxed) with a transition layer applied
+function drawLayer(
+  ctx: CanvasRenderingContext2D,
+  frame: AnimaticFrame,
+  image: HTMLImageElement | null,
+  layer: TransitionLayer
+) {
+  const { width, height } = ctx.canvas;
+  if (layer.opacity <= 0 || layer.clipRight >= 1) return;
+
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  if (layer.blur > 0) ctx.filter = `blur(${(layer.blur * width) / REFERENCE_WIDTH}px)`;
+
+  ctx.beginPath();
+  ctx.rect(0, 0, width * (1 - layer.clipRight), height);
+  ctx.clip();
+
+  ctx.translate(layer.x * width + width / 2, height / 2);
+  ctx.scale(layer.scale, layer.scale);
+
+  ctx.fillStyle = '#1a1a2e';
+  ctx.fillRect(-width / 2, -height / 2, width, height);
+
+  if (image) {
+    const fit = Math.min(width / image.width, height / image.height);
+    const w = image.width * fit;
+    const h = image.height * fit;
+    ctx.drawImage(image, -w / 2, -h / 2, w, h);
+  } else {
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+    ctx.font = `${Math.round(height / 24)}px system-ui, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(frame.title, 0, 0);
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Render frames and the transitions between them into a WebM animatic.
+ * transitions[i] plays at the start of frame i + 1, matching the preview player.
+ * Recording runs in real time, so this takes as long as the animatic itself.
+ */
+export async function renderAnimatic(
+  frames: AnimaticFrame[],
+  transitions: Array<{ type: TransitionType; durationMs: number }>,
+  options: AnimaticOptions = {}
+): Promise<Blob> {
+  const { width = 1280, height = 720, fps = 30, videoBitsPerSecond, onProgress } = options;
+  if (frames.length === 0) throw new Error('Nothing to render');
+  if (typeof MediaRecorder === 'undefined') throw new Error('Video recording is not supported in this browser');
+
+  const images = await Promise.all(frames.map(f => (f.imageUrl ? loadImage(f.imageUrl) : Promise.resolve(null))));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const starts: number[] = [];
+  let total = 0;
+  frames.forEach(f => {
+    starts.push(total);
+    total += f.durationMs;
+  });
+
+  const drawAt = (time: number) => {
+    let index = starts.findIndex((start, i) => time < start + frames[i].durationMs);
+    if (index === -1) index = frames.length - 1;
+
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+
+    const transition = index > 0 ? transitions[index - 1] : undefined;
+    const elapsed = time - starts[index];
+    if (transition && transition.durationMs > 0 && elapsed < transition.durationMs) {
+      const layers = getTransitionLayers(transition.type, elapsed / transition.durationMs);
+      drawLayer(ctx, frames[index - 1], images[index - 1], layers.from);
+      drawLayer(ctx, frames[index], images[index], layers.to);
+    } else {
+      drawLayer(ctx, frames[index], images[index], { opacity: 1, x: 0, scale: 1, blur: 0, clipRight: 0 });
+    }
+  };
+
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType: pickMimeType(), videoBitsPerSecond });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  const finished = new Promise<Blob>((resolve, reject) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+    recorder.onerror = () => reject(new Error('Recording failed'));
+  });
+
+  drawAt(0);
+  recorder.start();
+  const startTime = performance.now();
+
+  await new Promise<void>(resolve => {
+    const step = () => {
+      const time = performance.now() - startTime;
+      drawAt(Math.min(time, total));
+      onProgress?.(Math.min(time / total, 1));
+      if (time >= total) {
+        resolve();
+      } else {
+        requestAnimationFrame(step);
+      }
+    };
+    requestAnimationFrame(step);
+  });
+
+  recorder.stop();
+  stream.getTracks().forEach(track => track.stop());
+  return finished;
+}
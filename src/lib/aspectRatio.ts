@@ -0,0 +1,95 @@
+import type { CSSProperties } from 'react';
+import { FRAME_WIDTH, Size } from './viewport';
+
+/**
+ * Board aspect ratio.
+ * Every frame on a board shares one shape: it sizes the sketch surface, frame cards,
+ * previews, polish prompts and video generation.
+ */
+
+export type AspectRatio = '16:9' | '9:16' | '1:1';
+
+export const ASPECT_RATIOS: Array<{ value: AspectRatio; label: string; description: string }> = [
+  { value: '16:9', label: 'Landscape', description: 'Film, YouTube, presentations' },
+  { value: '9:16', label: 'Vertical', description: 'TikTok, Reels, Shorts, Stories' },
+  { value: '1:1', label: 'Square', description: 'Feed posts' },
+];
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = '16:9';
+
+// Longest edge of the sketch editor's drawing surface (display pixels)
+const SKETCH_LONG_EDGE = 640;
+
+export function normalizeAspectRatio(value: string | null | undefined): AspectRatio {
+  return ASPECT_RATIOS.some(r => r.value === value) ? (value as AspectRatio) : DEFAULT_ASPECT_RATIO;
+}
+
+function ratioParts(ratio: AspectRatio): [number, number] {
+  const [width, height] = ratio.split(':').map(Number);
+  return [width, height];
+}
+
+/**
+ * Pixel size of rendered output (e.g. animatic video) with the given longest edge
+ */
+export function getRenderSize(ratio: AspectRatio, longEdge = 1280): Size {
+  const [w, h] = ratioParts(ratio);
+  const scale = longEdge / Math.max(w, h);
+  return { width: Math.round(w * scale), height: Math.round(h * scale) };
+}
+
+/**
+ * Coordinate size of the sketch drawing surface; sketches are saved at this size
+ */
+export function getSketchSize(ratio: AspectRatio): Size {
+  return getRenderSize(ratio, SKETCH_LONG_EDGE);
+}
+
+/**
+ * Footprint of a frame card's thumbnail on the canvas.
+ * Cards keep a fixed width so titles and controls fit; the height follows the board shape.
+ */
+export function getFrameSize(ratio: AspectRatio): Size {
+  const [w, h] = ratioParts(ratio);
+  return { width: FRAME_WIDTH, height: Math.round((FRAME_WIDTH * h) / w) };
+}
+
+// Value for the CSS `aspect-ratio` property
+export function cssAspectRatio(ratio: AspectRatio): string {
+  const [w, h] = ratioParts(ratio);
+  return `${w} / ${h}`;
+}
+
+/**
+ * Inline style for a box in the board's shape. Portrait boxes are narrowed
+ * so they don't grow taller than `maxHeight`.
+ */
+export function aspectRatioStyle(ratio: AspectRatio, maxHeight = '60vh'): CSSProperties {
+  const [w, h] = ratioParts(ratio);
+  return {
+    aspectRatio: cssAspectRatio(ratio),
+    maxWidth: `calc(${maxHeight} * ${w} / ${h})`,
+    marginLeft: 'auto',
+    marginRight: 'auto',
+  };
+}
+
+// Words used in generation prompts
+export function describeAspectRatio(ratio: AspectRatio): string {
+  switch (ratio) {
+    case '9:16':
+      return 'vertical 9:16 portrait';
+    case '1:1':
+      return 'square 1:1';
+    default:
+      return 'widescreen 16:9 landscape';
+  }
+}
+
+/**
+ * Aspect ratio to request from Veo, which renders landscape or portrait only.
+ * Square boards are generated landscape.
+ */
+export function toVeoAspectRatio(ratio: AspectRatio): '16:9' | '9:16' {
+  return ratio === '9:16' ? '9:16' : '16:9';
+}
@@ -0,0 +1,363 @@
+import { supabase } from './supabase';
+import { uploadFrameImage, uploadSketchImages } from './storage';
+import { ReadingDirection, normalizeReadingDirection } from './graphLayout';
+import { AspectRatio, normalizeAspectRatio } from './aspectRatio';
+import { DEFAULT_TRANSITION_DURATION_MS } from './transitions';
+import { ShotMetadata, normalizeShotMetadata } from './shotMetadata';
+import { SketchDocument, mapSketchImages, normalizeSketchDocument } from './sketchDocument';
+import { FrameStatus, normalizeFrameStatus } from './frameStatus';
+import { createZip, readZip, ZipEntry } from './zip';
+
+/**
+ * Portable board archives (.sketchmotion files).
+ * An archive is a zip with a `manifest.json` describing the board and an `images/`
+ * folder with every sketch and polished image, and the images placed in sketches,
+ * so a board can move between Supabase projects or be kept as an offline backup.
+ */
+
+export const ARCHIVE_FORMAT = 'sketchmotion/board';
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_EXTENSION = '.sketchmotion';
+
+const MANIFEST_PATH = 'manifest.json';
+
+// Creative director settings are kept per board in localStorage (see AIPanel)
+const directorSettingsKey = (boardId: string) => `creative_director_${boardId}`;
+
+export interface ArchiveFrame {
+  id: string;
+  title: string;
+  x: number;
+  y: number;
+  status: FrameStatus;
+  motionNotes: string | null;
+  animationStyle: string;
+  durationMs: number;
+  sortOrder: number;
+  shot: ShotMetadata;
+  // Paths of the images inside the archive
+  sketch: string | null;
+  polished: string | null;
+  // Editable objects behind the sketch image; its image sources are paths inside the archive
+  sketchDocument: SketchDocument | null;
+}
+
+export interface ArchiveConnection {
+  from: string;
+  to: string;
+  transitionType: string;
+  transitionDurationMs: number;
+  branchLabel: string | null;
+}
+
+export interface BoardArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  board: {
+    name: string;
+    readingDirection: ReadingDirection;
+    aspectRatio: AspectRatio;
+  };
+  frames: ArchiveFrame[];
+  connections: ArchiveConnection[];
+  directorSettings: Record<string, unknown> | null;
+}
+
+// An archive that can't be imported; the message is shown to the user
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+// Also handles data URLs of images that haven't synced yet
+async function downloadImage(url: string): Promise<Uint8Array> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Image fetch failed (${response.status})`);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+function bytesToDataUrl(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large images don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:image/png;base64,${btoa(binary)}`;
+}
+
+function loadDirectorSettings(boardId: string): Record<string, unknown> | null {
+  try {
+    const stored = localStorage.getItem(directorSettingsKey(boardId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a .sketchmotion archive for a board
+ * @throws Error if the board or one of its images can't be loaded
+ */
+export async function exportBoardArchive(boardId: string): Promise<{ blob: Blob; filename: string }> {
+  const [boardResult, framesResult, connectionsResult] = await Promise.all([
+    supabase.from('boards').select('name, reading_direction, aspect_ratio').eq('id', boardId).single(),
+    supabase.from('frames').select('*').eq('board_id', boardId).order('sort_order'),
+    supabase.from('connections').select('*').eq('board_id', boardId),
+  ]);
+  if (boardResult.error) throw boardResult.error;
+  if (framesResult.error) throw framesResult.error;
+  if (connectionsResult.error) throw connectionsResult.error;
+
+  const images: ZipEntry[] = [];
+  const addImage = async (url: string | null, frameId: string, type: 'sketch' | 'polished' | 'image', key?: string) => {
+    if (!url) return null;
+    const name = `images/${frameId}_${type}${key ? `_${key}` : ''}.png`;
+    images.push({ name, data: await downloadImage(url) });
+    return name;
+  };
+
+  const frames: ArchiveFrame[] = [];
+  for (const frame of framesResult.data || []) {
+    const sketch = await addImage(frame.sketch_url, frame.id, 'sketch');
+    const sketchDocument = sketch ? normalizeSketchDocument(frame.sketch_document) : null;
+    frames.push({
+      id: frame.id,
+      title: frame.title,
+      x: frame.position_x,
+      y: frame.position_y,
+      status: frame.status,
+      motionNotes: frame.motion_notes,
+      animationStyle: frame.animation_style,
+      durationMs: frame.duration_ms,
+      sortOrder: frame.sort_order,
+      shot: normalizeShotMetadata(frame.shot),
+      sketch,
+      polished: await addImage(frame.polished_url, frame.id, 'polished'),
+      sketchDocument: sketchDocument && await mapSketchImages(sketchDocument, image =>
+        addImage(image.src, frame.id, 'image', image.id)
+      ),
+    });
+  }
+
+  const manifest: BoardArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    board: {
+      name: boardResult.data.name,
+      readingDirection: normalizeReadingDirection(boardResult.data.reading_direction),
+      aspectRatio: normalizeAspectRatio(boardResult.data.aspect_ratio),
+    },
+    frames,
+    connections: (connectionsResult.data || []).map(c => ({
+      from: c.from_frame_id,
+      to: c.to_frame_id,
+      transitionType: c.transition_type,
+      transitionDurationMs: c.transition_duration_ms,
+      branchLabel: c.branch_label,
+    })),
+    directorSettings: loadDirectorSettings(boardId),
+  };
+
+  const blob = createZip([
+    { name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+    ...images,
+  ]);
+  const filename = `${manifest.board.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'board'}${ARCHIVE_EXTENSION}`;
+  return { blob, filename };
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const optionalString = (value: unknown) => (value === null || value === undefined || isString(value));
+
+/**
+ * Validate a manifest against the archive schema
+ * @param files - Archive contents, to check that referenced images exist
+ * @throws ArchiveError describing the first problem found
+ */
+export function parseArchiveManifest(raw: unknown, files: Map<string, Uint8Array>): BoardArchiveManifest {
+  const data = raw as Record<string, any>;
+  if (!data || typeof data !== 'object' || data.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveError('This file is not a SketchMotion board archive');
+  }
+  if (!isNumber(data.version) || data.version > ARCHIVE_VERSION) {
+    throw new ArchiveError('This archive was made by a newer version of SketchMotion');
+  }
+  if (!data.board || !isString(data.board.name)) {
+    throw new ArchiveError('The archive is missing the board name');
+  }
+  if (!Array.isArray(data.frames) || !Array.isArray(data.connections)) {
+    throw new ArchiveError('The archive is missing frames or connections');
+  }
+
+  const frames: ArchiveFrame[] = data.frames.map((f: any, index: number) => {
+    const valid = f && isString(f.id) && isString(f.title) && isNumber(f.x) && isNumber(f.y)
+      && isNumber(f.durationMs) && optionalString(f.motionNotes)
+      && optionalString(f.sketch) && optionalString(f.polished);
+    if (!valid) throw new ArchiveError(`Frame ${index + 1} is invalid`);
+    [f.sketch, f.polished].forEach((path: string | null | undefined) => {
+      if (path && !files.has(path)) throw new ArchiveError(`Image ${path} is missing from the archive`);
+    });
+
+    const status = normalizeFrameStatus(f.status);
+    return {
+      id: f.id,
+      title: f.title,
+      x: f.x,
+      y: f.y,
+      status: status === 'polished' && !f.polished ? 'sketch' : status,
+      motionNotes: f.motionNotes ?? null,
+      animationStyle: isString(f.animationStyle) ? f.animationStyle : 'static',
+      durationMs: f.durationMs,
+      sortOrder: isNumber(f.sortOrder) ? f.sortOrder : index,
+      // Archives made before shot metadata existed have none
+      shot: normalizeShotMetadata(f.shot),
+      sketch: f.sketch ?? null,
+      polished: f.polished ?? null,
+      sketchDocument: f.sketch ? normalizeSketchDocument(f.sketchDocument) : null,
+    };
+  });
+
+  const frameIds = new Set(frames.map(f => f.id));
+  const connections: ArchiveConnection[] = data.connections.map((c: any, index: number) => {
+    if (!c || !frameIds.has(c.from) || !frameIds.has(c.to) || !optionalString(c.branchLabel)) {
+      throw new ArchiveError(`Connection ${index + 1} is invalid`);
+    }
+    return {
+      from: c.from,
+      to: c.to,
+      transitionType: isString(c.transitionType) ? c.transitionType : 'fade',
+      transitionDurationMs: isNumber(c.transitionDurationMs) ? c.transitionDurationMs : DEFAULT_TRANSITION_DURATION_MS,
+      branchLabel: c.branchLabel ?? null,
+    };
+  });
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: data.version,
+    exportedAt: isString(data.exportedAt) ? data.exportedAt : '',
+    board: {
+      name: data.board.name,
+      readingDirection: normalizeReadingDirection(data.board.readingDirection),
+      aspectRatio: normalizeAspectRatio(data.board.aspectRatio),
+    },
+    frames,
+    connections,
+    directorSettings: data.directorSettings && typeof data.directorSettings === 'object' ? data.directorSettings : null,
+  };
+}
+
+/**
+ * Import a .sketchmotion archive as a new private board.
+ * Frames and connections get fresh IDs; images are uploaded into the new board's storage.
+ * @returns The new board's ID
+ * @throws ArchiveError if the file is not a valid archive
+ */
+export async function importBoardArchive(userId: string, file: File): Promise<string> {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(file);
+  } catch (err) {
+    throw new ArchiveError(err instanceof Error ? err.message : 'Could not read the archive');
+  }
+
+  const manifestBytes = files.get(MANIFEST_PATH);
+  if (!manifestBytes) throw new ArchiveError('The archive has no manifest');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    throw new ArchiveError('The archive manifest is not valid JSON');
+  }
+  const manifest = parseArchiveManifest(raw, files);
+
+  const { data: board, error: boardError } = await supabase
+    .from('boards')
+    .insert({
+      user_id: userId,
+      name: manifest.board.name,
+      reading_direction: manifest.board.readingDirection,
+      aspect_ratio: manifest.board.aspectRatio,
+    })
+    .select()
+    .single();
+
+  if (boardError) throw boardError;
+
+  // Don't leave a half-imported board behind
+  try {
+    const frameIds = new Map(manifest.frames.map(f => [f.id, crypto.randomUUID()]));
+    const upload = async (path: string | null, frameId: string, type: 'sketch' | 'polished') => {
+      if (!path) return null;
+      const url = await uploadFrameImage(userId, board.id, frameId, bytesToDataUrl(files.get(path)!), type);
+      if (!url) throw new Error(`Could not upload ${path}`);
+      return url;
+    };
+    // Document images come as archive paths (older archives embed data URLs); missing files are left out
+    const uploadDocument = async (doc: SketchDocument | null, frameId: string) => {
+      if (!doc) return null;
+      const local = await mapSketchImages(doc, async image => {
+        if (image.src.startsWith('data:')) return image.src;
+        const bytes = files.get(image.src);
+        return bytes ? bytesToDataUrl(bytes) : null;
+      });
+      return uploadSketchImages(userId, board.id, frameId, local);
+    };
+
+    const rows = [];
+    for (const frame of manifest.frames) {
+      const id = frameIds.get(frame.id)!;
+      rows.push({
+        id,
+        board_id: board.id,
+        title: frame.title,
+        position_x: frame.x,
+        position_y: frame.y,
+        status: frame.status,
+        sketch_url: await upload(frame.sketch, id, 'sketch'),
+        sketch_document: await uploadDocument(frame.sketchDocument, id),
+        polished_url: await upload(frame.polished, id, 'polished'),
+        motion_notes: frame.motionNotes,
+        animation_style: frame.animationStyle,
+        duration_ms: frame.durationMs,
+        sort_order: frame.sortOrder,
+        shot: frame.shot,
+      });
+    }
+
+    if (rows.length > 0) {
+      const { error } = await supabase.from('frames').insert(rows);
+      if (error) throw error;
+    }
+
+    if (manifest.connections.length > 0) {
+      const { error } = await supabase.from('connections').insert(manifest.connections.map(c => ({
+        board_id: board.id,
+        from_frame_id: frameIds.get(c.from),
+        to_frame_id: frameIds.get(c.to),
+        transition_type: c.transitionType,
+        transition_duration_ms: c.transitionDurationMs,
+        branch_label: c.branchLabel,
+      })));
+      if (error) throw error;
+    }
+  } catch (err) {
+    await supabase.from('boards').delete().eq('id', board.id);
+    throw err;
+  }
+
+  if (manifest.directorSettings) {
+    try {
+      localStorage.setItem(directorSettingsKey(board.id), JSON.stringify(manifest.directorSettings));
+    } catch (err) {
+      console.warn('Could not store director settings:', err);
+    }
+  }
+
+  return board.id;
+}
@@ -0,0 +1,153 @@
+import type { Frame, Connection, FramePosition, Scene, SceneAssignment, Cut } from '@/hooks/useBoard';
+import type { ReadingDirection } from './graphLayout';
+import type { AspectRatio } from './aspectRatio';
+
+/**
+ * A single reversible board mutation.
+ * Each command carries enough data to both undo and redo itself, so the
+ * history stack never has to re-read state from Supabase.
+ */
+export type BoardCommand =
+  | { type: 'createFrame'; frame: Frame }
+  | { type: 'updateFrame'; frameId: string; before: Partial<Omit<Frame, 'id'>>; after: Partial<Omit<Frame, 'id'>> }
+  | { type: 'deleteFrame'; frame: Frame; connections: Connection[] }
+  | { type: 'moveFrames'; before: FramePosition[]; after: FramePosition[] }
+  | { type: 'createConnection'; connection: Connection }
+  | { type: 'deleteConnection'; connection: Connection }
+  | { type: 'updateConnection'; connectionId: string; before: Partial<Omit<Connection, 'id'>>; after: Partial<Omit<Connection, 'id'>> }
+  | { type: 'updateBoardName'; before: string; after: string }
+  | { type: 'updateReadingDirection'; before: ReadingDirection; after: ReadingDirection }
+  | { type: 'updateAspectRatio'; before: AspectRatio; after: AspectRatio }
+  | { type: 'createScene'; scene: Scene; assignments: SceneAssignment[] }
+  | { type: 'updateScene'; sceneId: string; before: Partial<Omit<Scene, 'id'>>; after: Partial<Omit<Scene, 'id'>> }
+  | { type: 'deleteScene'; scene: Scene; frameIds: string[] }
+  | { type: 'assignFrames'; before: SceneAssignment[]; sceneId: string | null }
+  | { type: 'createCut'; cut: Cut }
+  | { type: 'updateCut'; cutId: string; before: Partial<Omit<Cut, 'id'>>; after: Partial<Omit<Cut, 'id'>> }
+  | { type: 'deleteCut'; cut: Cut }
+  | { type: 'batch'; label: string; commands: BoardCommand[] };
+
+export interface BoardHistory {
+  past: BoardCommand[];
+  future: BoardCommand[];
+}
+
+// Max number of undo steps kept per board session
+export const HISTORY_LIMIT = 100;
+
+/**
+ * Human readable label for a command (used in undo/redo notifications)
+ */
+export function describeCommand(command: BoardCommand): string {
+  switch (command.type) {
+    case 'createFrame':
+      return `Add "${command.frame.title}"`;
+    case 'updateFrame': {
+      const keys = Object.keys(command.after);
+      if (keys.every(k => k === 'x' || k === 'y')) return 'Move frame';
+      if (keys.includes('sketchUrl') || keys.includes('polishedUrl')) return 'Update frame image';
+      if (keys.includes('title')) return 'Rename frame';
+      return 'Edit frame';
+    }
+    case 'deleteFrame':
+      return `Delete "${command.frame.title}"`;
+    case 'moveFrames':
+      return command.after.length === 1 ? 'Move frame' : `Move ${command.after.length} frames`;
+    case 'createConnection':
+      return 'Add connection';
+    case 'deleteConnection':
+      return 'Remove connection';
+    case 'updateConnection':
+      return command.after.branchLabel !== undefined ? 'Change branch' : 'Change transition';
+    case 'updateBoardName':
+      return 'Rename board';
+    case 'updateReadingDirection':
+      return 'Change reading direction';
+    case 'updateAspectRatio':
+      return 'Change aspect ratio';
+    case 'createScene':
+      return `Create scene "${command.scene.name}"`;
+    case 'updateScene':
+      return command.after.name !== undefined ? 'Rename scene' : 'Edit scene';
+    case 'deleteScene':
+      return `Delete scene "${command.scene.name}"`;
+    case 'assignFrames':
+      return command.sceneId ? 'Move to scene' : 'Remove from scene';
+    case 'createCut':
+      return `Create cut "${command.cut.name}"`;
+    case 'updateCut':
+      return command.after.name !== undefined ? 'Rename cut' : 'Edit cut';
+    case 'deleteCut':
+      return `Delete cut "${command.cut.name}"`;
+    case 'batch':
+      return command.label;
+  }
+}
+
+/**
+ * Collect the frames whose deletion is currently in effect for a command.
+ * Used to decide which storage images can be purged once a command
+ * drops out of the undo stack.
+ */
+export function getDeletedFrames(command: BoardCommand): Frame[] {
+  if (command.type === 'deleteFrame') return [command.frame];
+  if (command.type === 'batch') return command.commands.flatMap(getDeletedFrames);
+  return [];
+}
+
+/**
+ * Pick the current values of the fields about to be updated,
+ * so an update can be reverted later.
+ */
+export function snapshotFields(
+  frame: Frame,
+  updates: Partial<Omit<Frame, 'id'>>
+): Partial<Omit<Frame, 'id'>> {
+  const before: Partial<Omit<Frame, 'id'>> = {};
+  (Object.keys(updates) as Array<keyof Omit<Frame, 'id'>>).forEach(key => {
+    (before as Record<string, unknown>)[key] = frame[key];
+  });
+  return before;
+}
+
+/**
+ * Same as snapshotFields, for scene updates
+ */
+export function snapshotSceneFields(
+  scene: Scene,
+  updates: Partial<Omit<Scene, 'id'>>
+): Partial<Omit<Scene, 'id'>> {
+  const before: Partial<Omit<Scene, 'id'>> = {};
+  (Object.keys(updates) as Array<keyof Omit<Scene, 'id'>>).forEach(key => {
+    (before as Record<string, unknown>)[key] = scene[key];
+  });
+  return before;
+}
+
+/**
+ * Same as snapshotFields, for connection updates
+ */
+export function snapshotConnectionFields(
+  connection: Connection,
+  updates: Partial<Omit<Connection, 'id'>>
+): Partial<Omit<Connection, 'id'>> {
+  const before: Partial<Omit<Connection, 'id'>> = {};
+  (Object.keys(updates) as Array<keyof Omit<Connection, 'id'>>).forEach(key => {
+    (before as Record<string, unknown>)[key] = connection[key];
+  });
+  return before;
+}
+
+/**
+ * Same as snapshotFields, for cut updates
+ */
+export function snapshotCutFields(
+  cut: Cut,
+  updates: Partial<Omit<Cut, 'id'>>
+): Partial<Omit<Cut, 'id'>> {
+  const before: Partial<Omit<Cut, 'id'>> = {};
+  (Object.keys(updates) as Array<keyof Omit<Cut, 'id'>>).forEach(key => {
+    (before as Record<string, unknown>)[key] = cut[key];
+  });
+  return before;
+}
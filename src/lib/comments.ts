@@ -0,0 +1,67 @@
+/**
+ * Review comment threads.
+ * A thread is its first comment (which holds the anchor and resolved state)
+ * plus the replies pointing at it.
+ */
+
+interface ThreadComment {
+  id: string;
+  parentId: string | null;
+  frameId: string | null;
+  x: number | null;
+  y: number | null;
+  resolved: boolean;
+  createdAt: string;
+}
+
+export interface CommentThread<T extends ThreadComment = ThreadComment> {
+  root: T;
+  replies: T[];
+}
+
+export type CommentFilter = 'open' | 'resolved' | 'all';
+
+const byCreatedAt = (a: ThreadComment, b: ThreadComment) => a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Group comments into threads, oldest thread first.
+ * Replies whose thread has been deleted are dropped.
+ */
+export function buildThreads<T extends ThreadComment>(comments: T[]): CommentThread<T>[] {
+  const threads = new Map<string, CommentThread<T>>();
+  comments
+    .filter(c => !c.parentId)
+    .sort(byCreatedAt)
+    .forEach(root => threads.set(root.id, { root, replies: [] }));
+
+  comments
+    .filter(c => c.parentId)
+    .sort(byCreatedAt)
+    .forEach(reply => threads.get(reply.parentId!)?.replies.push(reply));
+
+  return Array.from(threads.values());
+}
+
+export function filterThreads<T extends ThreadComment>(
+  threads: CommentThread<T>[],
+  filter: CommentFilter
+): CommentThread<T>[] {
+  if (filter === 'all') return threads;
+  return threads.filter(t => t.root.resolved === (filter === 'resolved'));
+}
+
+/**
+ * Canvas point a thread is pinned to: the top-right corner of its frame,
+ * or its stored position for canvas threads (and threads whose frame was deleted)
+ */
+export function getThreadAnchor(
+  thread: CommentThread,
+  framePositions: Map<string, { x: number; y: number }>,
+  frameWidth: number
+): { x: number; y: number } | null {
+  const { root } = thread;
+  const frame = root.frameId ? framePositions.get(root.frameId) : undefined;
+  if (frame) return { x: frame.x + frameWidth, y: frame.y };
+  if (root.x == null || root.y == null) return null;
+  return { x: root.x, y: root.y };
+}
@@ -0,0 +1,154 @@
+/**
+ * Branches and named cuts.
+ * A connection with a branch label is an alternate take or ending; the main cut
+ * follows only unlabelled connections. Named cuts are explicit ordered paths
+ * through the graph, so one board can hold several versions of the same spot.
+ */
+
+interface PathConnection {
+  from: string;
+  to: string;
+  branchLabel?: string | null;
+}
+
+export const DEFAULT_BRANCH_LABEL = 'Alternate';
+
+export function isBranchConnection(connection: PathConnection): boolean {
+  return connection.branchLabel !== null && connection.branchLabel !== undefined;
+}
+
+export function getMainConnections<T extends PathConnection>(connections: T[]): T[] {
+  return connections.filter(c => !isBranchConnection(c));
+}
+
+// Frames reachable from `starts` along the given connections (including the starts)
+function reachable(starts: string[], connections: PathConnection[]): Set<string> {
+  const seen = new Set<string>();
+  const queue = [...starts];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    connections.forEach(c => {
+      if (c.from === id && !seen.has(c.to)) queue.push(c.to);
+    });
+  }
+  return seen;
+}
+
+/**
+ * Frames that are only reachable through a branch connection.
+ * These belong to an alternate path and are left out of the main cut.
+ */
+export function getBranchOnlyFrameIds(frameIds: string[], connections: PathConnection[]): Set<string> {
+  const branchTargets = connections.filter(isBranchConnection).map(c => c.to);
+  if (branchTargets.length === 0) return new Set();
+
+  const main = getMainConnections(connections);
+  const targetIds = new Set(connections.map(c => c.to));
+  const roots = frameIds.filter(id => !targetIds.has(id));
+  const onMainPath = reachable(roots, main);
+
+  const branchOnly = new Set<string>();
+  reachable(branchTargets, main).forEach(id => {
+    if (!onMainPath.has(id)) branchOnly.add(id);
+  });
+  return branchOnly;
+}
+
+/**
+ * Frames a cut path can start from (no incoming connection of any kind)
+ */
+export function getPathStartIds(frameIds: string[], connections: PathConnection[]): string[] {
+  const targetIds = new Set(connections.map(c => c.to));
+  return frameIds.filter(id => !targetIds.has(id));
+}
+
+/**
+ * Connections a cut path can continue along from `frameId`, main path first
+ */
+export function getOutgoingOptions<T extends PathConnection>(frameId: string, connections: T[]): T[] {
+  return connections
+    .filter(c => c.from === frameId)
+    .sort((a, b) => Number(isBranchConnection(a)) - Number(isBranchConnection(b)));
+}
+
+/**
+ * Default path for a new cut: follow the main connections from the first start frame
+ */
+export function getMainPath(frameIds: string[], connections: PathConnection[]): string[] {
+  const start = getPathStartIds(frameIds, connections)[0] ?? frameIds[0];
+  if (!start) return [];
+
+  const main = getMainConnections(connections);
+  const path = [start];
+  let next = main.find(c => c.from === start);
+  while (next && !path.includes(next.to)) {
+    path.push(next.to);
+    const current = next.to;
+    next = main.find(c => c.from === current);
+  }
+  return path;
+}
+
+/**
+ * Frames of a named cut in path order, skipping frames deleted since the cut was saved
+ */
+export function resolveCutFrames<T extends { id: string }>(frameIds: string[], frames: T[]): T[] {
+  const byId = new Map(frames.map(f => [f.id, f]));
+  return frameIds.map(id => byId.get(id)).filter((f): f is T => !!f);
+}
+
+/**
+ * Frames of the main cut in playback order, following connections.
+ * Alternate branches and the frames only they lead to are skipped. Handles multiple
+ * outgoing connections from a single frame. Scenes play in `sceneIds` order, each
+ * followed within itself; frames outside those scenes come last.
+ */
+export function getMainCutFrames<T extends { id: string; sceneId?: string | null }>(
+  frames: T[],
+  connections: PathConnection[],
+  sceneIds: string[]
+): T[] {
+  const mainConnections = getMainConnections(connections);
+  const branchOnly = getBranchOnlyFrameIds(frames.map(f => f.id), connections);
+  const mainFrames = frames.filter(f => !branchOnly.has(f.id));
+
+  const sequenceGroup = (groupFrames: T[]) => {
+    const groupIds = new Set(groupFrames.map(f => f.id));
+    const groupConnections = mainConnections.filter(c => groupIds.has(c.from) && groupIds.has(c.to));
+    if (groupConnections.length === 0) return groupFrames;
+
+    const targetIds = new Set(groupConnections.map(c => c.to));
+    const rootFrames = groupFrames.filter(f => !targetIds.has(f.id));
+
+    const ordered: T[] = [];
+    const visited = new Set<string>();
+
+    const traverse = (frameId: string) => {
+      if (visited.has(frameId)) return;
+      const frame = groupFrames.find(f => f.id === frameId);
+      if (!frame) return;
+
+      visited.add(frameId);
+      ordered.push(frame);
+
+      // Every outgoing connection, not just the first
+      groupConnections.filter(c => c.from === frameId).forEach(conn => traverse(conn.to));
+    };
+
+    rootFrames.forEach(f => traverse(f.id));
+    // Add any unvisited frames (orphans or in cycles)
+    groupFrames.forEach(f => {
+      if (!visited.has(f.id)) ordered.push(f);
+    });
+
+    return ordered;
+  };
+
+  const knownScenes = new Set(sceneIds);
+  return [
+    ...sceneIds.flatMap(sceneId => sequenceGroup(mainFrames.filter(f => f.sceneId === sceneId))),
+    ...sequenceGroup(mainFrames.filter(f => !f.sceneId || !knownScenes.has(f.sceneId))),
+  ];
+}
@@ -0,0 +1,214 @@
+import type { Frame, Connection } from '@/hooks/useBoard';
+import { DEFAULT_TRANSITION_DURATION_MS } from './transitions';
+import { ShotMetadata, normalizeShotMetadata } from './shotMetadata';
+import { FrameStatus, normalizeFrameStatus } from './frameStatus';
+import { SketchDocument, normalizeSketchDocument, sketchImageUrls } from './sketchDocument';
+
+// Identifies our payload among arbitrary clipboard text
+export const CLIPBOARD_FORMAT = 'sketchmotion/frames';
+export const CLIPBOARD_VERSION = 1;
+
+// Mirror of the last copy, used when the system clipboard is unavailable
+const STORAGE_KEY = 'sketchmotion_clipboard';
+
+export interface ClipboardFrame {
+  // Reference used by connections inside the payload (the source frame ID)
+  ref: string;
+  title: string;
+  x: number;
+  y: number;
+  status: FrameStatus;
+  motionNotes: string | null;
+  animationStyle: string;
+  durationMs: number;
+  shot: ShotMetadata;
+  sketchUrl: string | null;
+  // Editable objects behind the sketch, so pasted sketches stay editable
+  sketchDocument: SketchDocument | null;
+  polishedUrl: string | null;
+}
+
+export interface ClipboardConnection {
+  from: string;
+  to: string;
+  transitionType: string;
+  transitionDurationMs: number;
+  branchLabel: string | null;
+}
+
+export interface FrameClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  sourceBoardId: string;
+  copiedAt: string;
+  frames: ClipboardFrame[];
+  connections: ClipboardConnection[];
+}
+
+/**
+ * Build a clipboard payload for a set of frames.
+ * Only connections with both ends inside the copied set are included.
+ */
+export function buildClipboardPayload(
+  boardId: string,
+  frames: Frame[],
+  connections: Connection[]
+): FrameClipboardPayload {
+  const ids = new Set(frames.map(f => f.id));
+
+  return {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    sourceBoardId: boardId,
+    copiedAt: new Date().toISOString(),
+    frames: frames.map(f => ({
+      ref: f.id,
+      title: f.title,
+      x: f.x,
+      y: f.y,
+      status: f.status,
+      motionNotes: f.motionNotes,
+      animationStyle: f.animationStyle,
+      durationMs: f.durationMs,
+      shot: f.shot,
+      sketchUrl: f.sketchUrl,
+      sketchDocument: f.sketchDocument,
+      polishedUrl: f.polishedUrl,
+    })),
+    connections: connections
+      .filter(c => ids.has(c.fromFrameId) && ids.has(c.toFrameId))
+      .map(c => ({
+        from: c.fromFrameId,
+        to: c.toFrameId,
+        transitionType: c.transitionType,
+        transitionDurationMs: c.transitionDurationMs,
+        branchLabel: c.branchLabel,
+      })),
+  };
+}
+
+/**
+ * Parse clipboard text into a payload.
+ * Returns null for foreign text, other formats or unsupported versions.
+ */
+export function parseClipboardPayload(text: string | null | undefined): FrameClipboardPayload | null {
+  if (!text) return null;
+
+  try {
+    const data = JSON.parse(text);
+    if (!data || data.format !== CLIPBOARD_FORMAT) return null;
+    if (typeof data.version !== 'number' || data.version > CLIPBOARD_VERSION) return null;
+    if (!Array.isArray(data.frames) || !Array.isArray(data.connections)) return null;
+
+    const frames: ClipboardFrame[] = data.frames
+      .filter((f: any) => f && typeof f.ref === 'string')
+      .map((f: any) => ({
+        ref: f.ref,
+        title: typeof f.title === 'string' ? f.title : 'Untitled Frame',
+        x: Number(f.x) || 0,
+        y: Number(f.y) || 0,
+        status: normalizeFrameStatus(f.status),
+        motionNotes: typeof f.motionNotes === 'string' ? f.motionNotes : null,
+        animationStyle: typeof f.animationStyle === 'string' ? f.animationStyle : 'static',
+        durationMs: Number(f.durationMs) || 2000,
+        shot: normalizeShotMetadata(f.shot),
+        sketchUrl: typeof f.sketchUrl === 'string' ? f.sketchUrl : null,
+        sketchDocument: normalizeSketchDocument(f.sketchDocument),
+        polishedUrl: typeof f.polishedUrl === 'string' ? f.polishedUrl : null,
+      }));
+
+    const refs = new Set(frames.map(f => f.ref));
+    const connections: ClipboardConnection[] = data.connections
+      .filter((c: any) => c && refs.has(c.from) && refs.has(c.to))
+      .map((c: any) => ({
+        from: c.from,
+        to: c.to,
+        transitionType: typeof c.transitionType === 'string' ? c.transitionType : 'fade',
+        // Payloads copied before transitions had a duration fall back to the default
+        transitionDurationMs: Number(c.transitionDurationMs) || DEFAULT_TRANSITION_DURATION_MS,
+        branchLabel: typeof c.branchLabel === 'string' ? c.branchLabel : null,
+      }));
+
+    if (frames.length === 0) return null;
+
+    return {
+      format: CLIPBOARD_FORMAT,
+      version: data.version,
+      sourceBoardId: typeof data.sourceBoardId === 'string' ? data.sourceBoardId : '',
+      copiedAt: typeof data.copiedAt === 'string' ? data.copiedAt : '',
+      frames,
+      connections,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember a payload locally (fallback for browsers without clipboard access)
+ */
+export function storeClipboardPayload(payload: FrameClipboardPayload): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+  } catch (error) {
+    console.warn('Could not store clipboard payload:', error);
+  }
+}
+
+/**
+ * Last payload copied in this browser, if any
+ */
+export function getStoredClipboardPayload(): FrameClipboardPayload | null {
+  try {
+    return parseClipboardPayload(localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Copy a payload to the system clipboard (and the local mirror).
+ * Returns false when the system clipboard could not be written.
+ */
+export async function writeClipboardPayload(payload: FrameClipboardPayload): Promise<boolean> {
+  storeClipboardPayload(payload);
+
+  try {
+    await navigator.clipboard.writeText(JSON.stringify(payload));
+    return true;
+  } catch (error) {
+    console.warn('System clipboard unavailable, using local clipboard:', error);
+    return false;
+  }
+}
+
+/**
+ * Image URLs referenced by the pending clipboard payload.
+ * These must survive a cut until they have been pasted somewhere.
+ */
+export function getClipboardImageUrls(): Set<string> {
+  const payload = getStoredClipboardPayload();
+  return new Set(
+    (payload?.frames || [])
+      .flatMap(f => [f.sketchUrl, f.polishedUrl, ...sketchImageUrls(f.sketchDocument)])
+      .filter((url): url is string => !!url)
+  );
+}
+
+/**
+ * Download an image so it can be re-uploaded into another board's storage
+ */
+export async function imageUrlToDataUrl(url: string): Promise<string> {
+  if (url.startsWith('data:')) return url;
+
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Image fetch failed (${response.status})`);
+
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read image'));
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * Frame production workflow:
+ * draft → sketch → polished → in review → changes requested → approved → locked.
+ *
+ * The first three follow the frame's artwork (saving a sketch or a polished image sets them);
+ * the review states are set by hand. Approved and locked frames are protected from edits,
+ * and only the board owner or an editor may move a frame into or out of them.
+ */
+
+export type FrameStatus =
+  | 'draft'
+  | 'sketch'
+  | 'polished'
+  | 'in_review'
+  | 'changes_requested'
+  | 'approved'
+  | 'locked';
+
+export interface FrameStatusOption {
+  value: FrameStatus;
+  label: string;
+  // Badge colours
+  className: string;
+  // Solid colour for dots and summary bars
+  dotClassName: string;
+}
+
+// In workflow order
+export const FRAME_STATUSES: FrameStatusOption[] = [
+  { value: 'draft', label: 'Draft', className: 'bg-white/10 text-white/60', dotClassName: 'bg-white/30' },
+  { value: 'sketch', label: 'Sketch', className: 'bg-sky-500/20 text-sky-300', dotClassName: 'bg-sky-400' },
+  { value: 'polished', label: 'Polished', className: 'bg-emerald-500/20 text-emerald-300', dotClassName: 'bg-emerald-400' },
+  { value: 'in_review', label: 'In review', className: 'bg-amber-500/20 text-amber-300', dotClassName: 'bg-amber-400' },
+  { value: 'changes_requested', label: 'Changes requested', className: 'bg-rose-500/20 text-rose-300', dotClassName: 'bg-rose-400' },
+  { value: 'approved', label: 'Approved', className: 'bg-violet-500/20 text-violet-300', dotClassName: 'bg-violet-400' },
+  { value: 'locked', label: 'Locked', className: 'bg-slate-500/30 text-slate-200', dotClassName: 'bg-slate-300' },
+];
+
+// A manual step through the review part of the workflow
+export interface FrameStatusAction {
+  to: FrameStatus;
+  label: string;
+  from: FrameStatus[];
+}
+
+export const FRAME_STATUS_ACTIONS: FrameStatusAction[] = [
+  { to: 'in_review', label: 'Submit for review', from: ['draft', 'sketch', 'polished', 'changes_requested'] },
+  { to: 'changes_requested', label: 'Request changes', from: ['in_review', 'approved'] },
+  { to: 'approved', label: 'Approve', from: ['in_review'] },
+  { to: 'locked', label: 'Lock', from: ['approved'] },
+  { to: 'approved', label: 'Unlock', from: ['locked'] },
+];
+
+const PROTECTED_STATUSES: FrameStatus[] = ['approved', 'locked'];
+
+export function getFrameStatusOption(status: FrameStatus): FrameStatusOption {
+  return FRAME_STATUSES.find(s => s.value === status) ?? FRAME_STATUSES[0];
+}
+
+// Stored status, falling back to 'sketch' for anything unknown
+export function normalizeFrameStatus(raw: unknown): FrameStatus {
+  return FRAME_STATUSES.some(s => s.value === raw) ? (raw as FrameStatus) : 'sketch';
+}
+
+// Approved and locked frames can't be edited, re-drawn, polished or deleted
+export function isFrameProtected(status: FrameStatus): boolean {
+  return PROTECTED_STATUSES.includes(status);
+}
+
+// Whether the frame's polished image is current: every status past 'sketch' was reached after polishing
+// (or by hand), while saving a new sketch drops the frame back to 'sketch'
+export function isPolishedStatus(status: FrameStatus): boolean {
+  return status !== 'draft' && status !== 'sketch';
+}
+
+// Moving into or out of approved/locked needs the owner or an editor
+export function needsApprover(from: FrameStatus, to: FrameStatus): boolean {
+  return from !== to && (isFrameProtected(from) || isFrameProtected(to));
+}
+
+export function canChangeFrameStatus(from: FrameStatus, to: FrameStatus, canApprove: boolean): boolean {
+  return canApprove || !needsApprover(from, to);
+}
+
+// Review steps offered for a frame in `status`
+export function getFrameStatusActions(status: FrameStatus, canApprove: boolean): FrameStatusAction[] {
+  return FRAME_STATUS_ACTIONS.filter(
+    action => action.from.includes(status) && canChangeFrameStatus(status, action.to, canApprove)
+  );
+}
+
+// Status for a copy of a frame: review state belongs to the original, so copies start from their artwork
+export function artworkStatus(frame: { sketchUrl?: string | null; polishedUrl?: string | null; status: FrameStatus }): FrameStatus {
+  if (frame.polishedUrl && isPolishedStatus(frame.status)) return 'polished';
+  if (frame.sketchUrl || frame.polishedUrl) return 'sketch';
+  return 'draft';
+}
+
+// Number of frames in each status, e.g. for a board summary
+export function countFrameStatuses(statuses: unknown[]): Record<FrameStatus, number> {
+  const counts = Object.fromEntries(FRAME_STATUSES.map(s => [s.value, 0])) as Record<FrameStatus, number>;
+  statuses.forEach(status => {
+    counts[normalizeFrameStatus(status)] += 1;
+  });
+  return counts;
+}
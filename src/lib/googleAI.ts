@@ -1,4 +1,6 @@
 import { GoogleGenAI } from "@google/genai";
+import { AspectRatio, DEFAULT_ASPECT_RATIO, describeAspectRatio, toVeoAspectRatio } from "./aspectRatio";
+import { ShotMetadata, describeShotForPrompt, formatCameraSetup } from "./shotMetadata";
 
 const getAIClient = () => {
   const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
@@ -36,7 +38,10 @@ async function imageUrlToBase64(url: string): Promise<string> {
  * Polish a rough sketch into a professional illustration using Gemini
  * Uses image generation capabilities with responseModalities: ["TEXT", "IMAGE"]
  */
-export async function polishSketch(imageInput: string): Promise<string | null> {
+export async function polishSketch(
+  imageInput: string,
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
+): Promise<string | null> {
   if (!ai) {
     throw new Error("API key not configured. Add VITE_GEMINI_API_KEY to .env");
   }
@@ -59,6 +64,7 @@ REQUIREMENTS:
 - Add rich colors, shading, and lighting
 - Make it look like a finished storyboard frame from a professional animator
 - Maintain the artistic intent
+- Output a ${describeAspectRatio(aspectRatio)} image with the same framing as the sketch
 - Output ONLY the enhanced image`,
           },
           {
@@ -95,7 +101,8 @@ REQUIREMENTS:
  */
 export async function polishSketchWithStyle(
   imageInput: string,
-  stylePrompt: string
+  stylePrompt: string,
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
 ): Promise<string | null> {
   if (!ai) {
     throw new Error("API key not configured. Add VITE_GEMINI_API_KEY to .env");
@@ -113,6 +120,7 @@ REQUIREMENTS:
 - Enhance lines to be clean and professional
 - Add rich colors, shading, and lighting appropriate to the style
 - Maintain the original artistic intent
+- Output a ${describeAspectRatio(aspectRatio)} image with the same framing as the sketch
 - Output ONLY the enhanced image, no text`;
 
   const response = await ai.models.generateContent({
@@ -333,6 +341,7 @@ export async function generateStoryboardVideoPrompt(
     imageUrl: string;
     durationMs: number;
     motionNotes?: string;
+    shot?: ShotMetadata;
     order: number;
   }>,
   style: 'Cinematic' | 'Animated' | 'Realistic' | 'Stylized'
@@ -350,7 +359,7 @@ export async function generateStoryboardVideoPrompt(
   const parts: Array<{ text: string } | { inlineData: { data: string; mimeType: string } }> = [];
 
   const frameDescriptions = frames.map((f, i) =>
-    `Frame ${i + 1}: "${f.title}" (${f.durationMs / 1000}s)${f.motionNotes ? ` - Motion: ${f.motionNotes}` : ''}`
+    `Frame ${i + 1}: "${f.title}" (${f.durationMs / 1000}s)${f.motionNotes ? ` - Motion: ${f.motionNotes}` : ''}${describeShotForPrompt(f.shot)}`
   ).join('\n');
 
   parts.push({
@@ -371,7 +380,8 @@ OUTPUT JSON (no markdown, pure JSON):
   "technicalNotes": "Camera work, transitions, pacing notes"
 }
 
-Be specific about visual elements you see. Include camera movements, lighting, mood, and transitions between scenes.`
+Be specific about visual elements you see. Include camera movements, lighting, mood, and transitions between scenes.
+Where a frame lists shot size, angle, lens, camera move, characters, location, dialogue or SFX, follow those exactly rather than inferring them from the image.`
   });
 
   // Add all frame images
@@ -401,7 +411,7 @@ Be specific about visual elements you see. Include camera movements, lighting, m
       masterPrompt: result.masterPrompt || "Generate a smooth cinematic video sequence",
       framePrompts: result.framePrompts || frames.map(f => ({
         frameTitle: f.title,
-        prompt: f.motionNotes || "Smooth transition",
+        prompt: f.motionNotes || formatCameraSetup(f.shot ?? {}) || "Smooth transition",
         duration: f.durationMs / 1000,
       })),
       totalDuration: frames.reduce((acc, f) => acc + f.durationMs, 0) / 1000,
@@ -414,7 +424,7 @@ Be specific about visual elements you see. Include camera movements, lighting, m
       masterPrompt: `Create a ${style.toLowerCase()} video sequence with ${frames.length} scenes. Smooth transitions, consistent visual style.`,
       framePrompts: frames.map(f => ({
         frameTitle: f.title,
-        prompt: f.motionNotes || "Smooth pan with gentle movement",
+        prompt: f.motionNotes || formatCameraSetup(f.shot ?? {}) || "Smooth pan with gentle movement",
         duration: f.durationMs / 1000,
       })),
       totalDuration: frames.reduce((acc, f) => acc + f.durationMs, 0) / 1000,
@@ -565,9 +575,11 @@ export async function generateStoryboardVideo(
     imageUrl: string;
     durationMs: number;
     motionNotes?: string;
+    shot?: ShotMetadata;
     order: number;
   }>,
-  style: 'Cinematic' | 'Animated' | 'Realistic' | 'Stylized'
+  style: 'Cinematic' | 'Animated' | 'Realistic' | 'Stylized',
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
 ): Promise<{
   status: 'success' | 'processing' | 'error';
   videoUrl?: string;
@@ -594,7 +606,7 @@ export async function generateStoryboardVideo(
     referenceImages,
     {
       duration: Math.min(Math.max(totalDuration, 5), 60), // Clamp 5-60s
-      aspectRatio: '16:9',
+      aspectRatio: toVeoAspectRatio(aspectRatio),
       style: style,
     }
   );
@@ -634,6 +646,7 @@ export async function generateDirectorsTreatment(
     imageUrl: string;
     durationMs: number;
     motionNotes?: string;
+    shot?: ShotMetadata;
     order: number;
   }>,
   style: 'Cinematic' | 'Animated' | 'Realistic' | 'Stylized',
@@ -652,7 +665,7 @@ export async function generateDirectorsTreatment(
 
   const totalDuration = frames.reduce((acc, f) => acc + (f.durationMs || 2000), 0) / 1000;
   const frameDescriptions = frames.map((f, i) =>
-    `Frame ${i + 1}: "${f.title}" (${(f.durationMs || 2000) / 1000}s)${f.motionNotes ? ` — Motion: ${f.motionNotes}` : ''}`
+    `Frame ${i + 1}: "${f.title}" (${(f.durationMs || 2000) / 1000}s)${f.motionNotes ? ` — Motion: ${f.motionNotes}` : ''}${describeShotForPrompt(f.shot)}`
   ).join('\n');
 
   const configSummary = [
@@ -731,6 +744,7 @@ export async function generateShotList(
     imageUrl: string;
     durationMs: number;
     motionNotes?: string;
+    shot?: ShotMetadata;
     order: number;
   }>,
   style: 'Cinematic' | 'Animated' | 'Realistic' | 'Stylized',
@@ -749,7 +763,7 @@ export async function generateShotList(
 
   const totalDuration = frames.reduce((acc, f) => acc + (f.durationMs || 2000), 0) / 1000;
   const frameDescriptions = frames.map((f, i) =>
-    `Frame ${i + 1}: "${f.title}" (${(f.durationMs || 2000) / 1000}s)${f.motionNotes ? ` — Motion: ${f.motionNotes}` : ''}`
+    `Frame ${i + 1}: "${f.title}" (${(f.durationMs || 2000) / 1000}s)${f.motionNotes ? ` — Motion: ${f.motionNotes}` : ''}${describeShotForPrompt(f.shot)}`
   ).join('\n');
 
   const configSummary = [
@@ -781,15 +795,21 @@ FOR EACH SHOT (analyze the actual image content):
 ┌─────────────────────────────────────────
 │ SHOT XX — "Frame Title"
 │ Duration:    Xs
-│ Shot Type:   [Wide/Medium/Close-up/etc based on image]
-│ Camera:      [Movement based on settings + what suits the image]
-│ Lens:        [From settings or appropriate choice]
+│ Shot Type:   [Frame's shot size if given, else Wide/Medium/Close-up/etc based on image]
+│ Camera:      [Frame's angle and camera move if given, else based on settings + what suits the image]
+│ Lens:        [Frame's lens if given, else from settings or appropriate choice]
 │ Lighting:    [From settings or inferred from image]
 │ Action:      [What's happening in the frame]
 │ Motion:      [Camera movement notes]
+│ Cast:        [Frame's characters, if given]
+│ Location:    [Frame's location, if given]
+│ Dialogue:    [Frame's dialogue, if given]
+│ SFX:         [Frame's SFX, if given]
 │ Transition:  [To next shot]
 └─────────────────────────────────────────
 
+Shot details listed with a frame were set by the director: use them as written. Omit Cast, Location, Dialogue and SFX lines for shots that don't give them.
+
 End with: "Shot list aligned to your storyboard."
 
 Output ONLY the shot list text, formatted with the box characters shown. No markdown code blocks.`
@@ -0,0 +1,311 @@
+/**
+ * Layered (Sugiyama-style) layout for the storyboard graph.
+ * Frames are assigned to layers along the reading direction, long edges are
+ * routed through placeholder slots, and each layer is reordered to reduce
+ * edge crossings so branches and merges stay readable.
+ */
+
+// Left-to-right rows or top-to-bottom columns
+export type ReadingDirection = 'ltr' | 'ttb';
+
+export const DEFAULT_READING_DIRECTION: ReadingDirection = 'ltr';
+
+export function normalizeReadingDirection(value: string | null | undefined): ReadingDirection {
+  return value === 'ttb' ? 'ttb' : DEFAULT_READING_DIRECTION;
+}
+
+export interface LayoutEdge {
+  from: string;
+  to: string;
+}
+
+export interface GraphLayoutOptions {
+  direction: ReadingDirection;
+  nodeWidth: number;
+  nodeHeight: number;
+  // Horizontal and vertical space between neighbouring frames
+  gapX: number;
+  gapY: number;
+  origin: { x: number; y: number };
+}
+
+// Ordering sweeps (alternating down/up) and coordinate passes
+const ORDERING_ITERATIONS = 12;
+const COORDINATE_ITERATIONS = 4;
+
+const DUMMY_PREFIX = '__layout_dummy_';
+
+/**
+ * Split nodes into weakly connected components, in the order their first node appears
+ */
+function getComponents(nodeIds: string[], edges: LayoutEdge[]): string[][] {
+  const parent = new Map(nodeIds.map(id => [id, id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  edges.forEach(e => parent.set(find(e.from), find(e.to)));
+
+  const components = new Map<string, string[]>();
+  nodeIds.forEach(id => {
+    const root = find(id);
+    if (!components.has(root)) components.set(root, []);
+    components.get(root)!.push(id);
+  });
+  return Array.from(components.values());
+}
+
+/**
+ * Reverse back edges found by a depth-first search so the graph becomes acyclic.
+ * Searches start from source nodes so the reading order follows the story.
+ */
+function breakCycles(nodeIds: string[], edges: LayoutEdge[]): LayoutEdge[] {
+  const outgoing = new Map<string, LayoutEdge[]>(nodeIds.map(id => [id, []]));
+  edges.forEach(e => outgoing.get(e.from)!.push(e));
+  const hasIncoming = new Set(edges.map(e => e.to));
+
+  const state = new Map<string, 'active' | 'done'>();
+  const reversed = new Set<LayoutEdge>();
+
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    outgoing.get(id)!.forEach(edge => {
+      const next = state.get(edge.to);
+      if (next === 'active') {
+        reversed.add(edge);
+      } else if (!next) {
+        visit(edge.to);
+      }
+    });
+    state.set(id, 'done');
+  };
+
+  [...nodeIds.filter(id => !hasIncoming.has(id)), ...nodeIds].forEach(id => {
+    if (!state.has(id)) visit(id);
+  });
+
+  return edges.map(e => (reversed.has(e) ? { from: e.to, to: e.from } : e));
+}
+
+/**
+ * Longest-path layering: every node sits one layer after its deepest predecessor
+ */
+function assignLayers(nodeIds: string[], edges: LayoutEdge[]): Map<string, number> {
+  const layer = new Map(nodeIds.map(id => [id, 0]));
+  const inDegree = new Map(nodeIds.map(id => [id, 0]));
+  edges.forEach(e => inDegree.set(e.to, inDegree.get(e.to)! + 1));
+
+  const queue = nodeIds.filter(id => inDegree.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    edges.forEach(e => {
+      if (e.from !== id) return;
+      layer.set(e.to, Math.max(layer.get(e.to)!, layer.get(id)! + 1));
+      inDegree.set(e.to, inDegree.get(e.to)! - 1);
+      if (inDegree.get(e.to) === 0) queue.push(e.to);
+    });
+  }
+  return layer;
+}
+
+function countCrossings(upper: string[], lower: string[], edges: LayoutEdge[]): number {
+  const upperIndex = new Map(upper.map((id, i) => [id, i]));
+  const lowerIndex = new Map(lower.map((id, i) => [id, i]));
+  const between = edges
+    .filter(e => upperIndex.has(e.from) && lowerIndex.has(e.to))
+    .map(e => [upperIndex.get(e.from)!, lowerIndex.get(e.to)!]);
+
+  let crossings = 0;
+  for (let i = 0; i < between.length; i++) {
+    for (let j = i + 1; j < between.length; j++) {
+      const [a1, b1] = between[i];
+      const [a2, b2] = between[j];
+      if ((a1 - a2) * (b1 - b2) < 0) crossings++;
+    }
+  }
+  return crossings;
+}
+
+function totalCrossings(layers: string[][], edges: LayoutEdge[]): number {
+  let total = 0;
+  for (let i = 0; i < layers.length - 1; i++) {
+    total += countCrossings(layers[i], layers[i + 1], edges);
+  }
+  return total;
+}
+
+/**
+ * Reorder `layer` by the average position of its neighbours in `fixed`.
+ * Nodes without neighbours there keep their current slot.
+ */
+function sortByBarycenter(layer: string[], fixed: string[], neighbours: Map<string, string[]>): string[] {
+  const fixedIndex = new Map(fixed.map((id, i) => [id, i]));
+  const weights = layer.map((id, index) => {
+    const positions = (neighbours.get(id) || [])
+      .map(n => fixedIndex.get(n))
+      .filter((i): i is number => i !== undefined);
+    return {
+      id,
+      index,
+      weight: positions.length > 0 ? positions.reduce((a, b) => a + b, 0) / positions.length : index,
+    };
+  });
+  return weights
+    .sort((a, b) => a.weight - b.weight || a.index - b.index)
+    .map(w => w.id);
+}
+
+/**
+ * Place each layer's nodes near the average of their neighbours' coordinates,
+ * keeping the order and at least one slot between neighbours
+ */
+function placeLayer(layer: string[], coords: Map<string, number>, neighbours: Map<string, string[]>) {
+  const desired = layer.map(id => {
+    const positions = (neighbours.get(id) || []).map(n => coords.get(n)!).filter(c => c !== undefined);
+    return positions.length > 0 ? positions.reduce((a, b) => a + b, 0) / positions.length : coords.get(id)!;
+  });
+
+  const placed: number[] = [];
+  desired.forEach((value, i) => {
+    placed.push(i === 0 ? value : Math.max(value, placed[i - 1] + 1));
+  });
+
+  // Shift the whole layer back so it sits centred on where it wanted to be
+  const drift = placed.reduce((acc, value, i) => acc + value - desired[i], 0) / placed.length;
+  layer.forEach((id, i) => coords.set(id, placed[i] - drift));
+}
+
+interface ComponentLayout {
+  // Layer index (main axis) and slot (cross axis) per node
+  positions: Map<string, { layer: number; slot: number }>;
+  layerCount: number;
+  slotCount: number;
+}
+
+function layoutComponent(nodeIds: string[], edges: LayoutEdge[]): ComponentLayout {
+  const dag = breakCycles(nodeIds, edges);
+  const layerOf = assignLayers(nodeIds, dag);
+
+  // Split long edges into unit-length segments through placeholder nodes
+  const segments: LayoutEdge[] = [];
+  let dummyCount = 0;
+  dag.forEach(edge => {
+    let from = edge.from;
+    for (let l = layerOf.get(edge.from)! + 1; l < layerOf.get(edge.to)!; l++) {
+      const dummy = `${DUMMY_PREFIX}${dummyCount++}`;
+      layerOf.set(dummy, l);
+      segments.push({ from, to: dummy });
+      from = dummy;
+    }
+    segments.push({ from, to: edge.to });
+  });
+
+  const upperNeighbours = new Map<string, string[]>();
+  const lowerNeighbours = new Map<string, string[]>();
+  segments.forEach(s => {
+    upperNeighbours.set(s.to, [...(upperNeighbours.get(s.to) || []), s.from]);
+    lowerNeighbours.set(s.from, [...(lowerNeighbours.get(s.from) || []), s.to]);
+  });
+
+  // Initial order: depth-first from the sources, so chains start out together
+  const layerCount = Math.max(...Array.from(layerOf.values())) + 1;
+  let layers: string[][] = Array.from({ length: layerCount }, () => []);
+  const seen = new Set<string>();
+  const place = (id: string) => {
+    if (seen.has(id)) return;
+    seen.add(id);
+    layers[layerOf.get(id)!].push(id);
+    (lowerNeighbours.get(id) || []).forEach(place);
+  };
+  nodeIds.filter(id => layerOf.get(id) === 0).forEach(place);
+  nodeIds.forEach(place);
+
+  let best = layers.map(l => [...l]);
+  let bestCrossings = totalCrossings(best, segments);
+
+  for (let iteration = 0; iteration < ORDERING_ITERATIONS && bestCrossings > 0; iteration++) {
+    if (iteration % 2 === 0) {
+      for (let i = 1; i < layers.length; i++) {
+        layers[i] = sortByBarycenter(layers[i], layers[i - 1], upperNeighbours);
+      }
+    } else {
+      for (let i = layers.length - 2; i >= 0; i--) {
+        layers[i] = sortByBarycenter(layers[i], layers[i + 1], lowerNeighbours);
+      }
+    }
+
+    const crossings = totalCrossings(layers, segments);
+    if (crossings < bestCrossings) {
+      best = layers.map(l => [...l]);
+      bestCrossings = crossings;
+    }
+  }
+  layers = best;
+
+  // Cross-axis coordinates: start packed, then pull nodes towards their neighbours
+  const coords = new Map<string, number>();
+  layers.forEach(layer => layer.forEach((id, i) => coords.set(id, i)));
+  for (let iteration = 0; iteration < COORDINATE_ITERATIONS; iteration++) {
+    for (let i = 1; i < layers.length; i++) placeLayer(layers[i], coords, upperNeighbours);
+    for (let i = layers.length - 2; i >= 0; i--) placeLayer(layers[i], coords, lowerNeighbours);
+  }
+
+  const minSlot = Math.min(...Array.from(coords.values()));
+  const maxSlot = Math.max(...Array.from(coords.values()));
+
+  const positions = new Map<string, { layer: number; slot: number }>();
+  nodeIds.forEach(id => positions.set(id, { layer: layerOf.get(id)!, slot: coords.get(id)! - minSlot }));
+
+  return { positions, layerCount, slotCount: maxSlot - minSlot + 1 };
+}
+
+/**
+ * Compute new top-left positions for every node.
+ * Connected groups are laid out one after another across the reading direction;
+ * frames with no connections are gathered into a grid after them.
+ */
+export function layoutGraph(
+  nodeIds: string[],
+  edges: LayoutEdge[],
+  options: GraphLayoutOptions
+): Map<string, { x: number; y: number }> {
+  const known = new Set(nodeIds);
+  const unique = new Set<string>();
+  const validEdges = edges.filter(e => {
+    const key = `${e.from}->${e.to}`;
+    if (!known.has(e.from) || !known.has(e.to) || e.from === e.to || unique.has(key)) return false;
+    unique.add(key);
+    return true;
+  });
+
+  const ltr = options.direction === 'ltr';
+  const mainStep = ltr ? options.nodeWidth + options.gapX : options.nodeHeight + options.gapY;
+  const crossStep = ltr ? options.nodeHeight + options.gapY : options.nodeWidth + options.gapX;
+  const toPoint = (main: number, cross: number) => ltr
+    ? { x: options.origin.x + main, y: options.origin.y + cross }
+    : { x: options.origin.x + cross, y: options.origin.y + main };
+
+  const result = new Map<string, { x: number; y: number }>();
+  const connected = new Set(validEdges.flatMap(e => [e.from, e.to]));
+  let crossOffset = 0;
+
+  getComponents(nodeIds.filter(id => connected.has(id)), validEdges).forEach(component => {
+    const componentIds = new Set(component);
+    const layout = layoutComponent(component, validEdges.filter(e => componentIds.has(e.from)));
+    layout.positions.forEach(({ layer, slot }, id) => {
+      result.set(id, toPoint(layer * mainStep, crossOffset + slot * crossStep));
+    });
+    crossOffset += layout.slotCount * crossStep;
+  });
+
+  // Unconnected frames fill a roughly square grid, rows following the reading direction
+  const isolated = nodeIds.filter(id => !connected.has(id));
+  const perRow = Math.ceil(Math.sqrt(isolated.length));
+  isolated.forEach((id, i) => {
+    result.set(id, toPoint((i % perRow) * mainStep, crossOffset + Math.floor(i / perRow) * crossStep));
+  });
+
+  return result;
+}
@@ -0,0 +1,174 @@
+/**
+ * Importing image files as frames: files and folders dropped on the canvas, or images
+ * pasted from the clipboard. Imports become a paste payload, so they land on the board
+ * (and in undo history) exactly like pasted frames, with each image uploaded as the sketch.
+ */
+
+import {
+  ClipboardFrame,
+  ClipboardConnection,
+  FrameClipboardPayload,
+  CLIPBOARD_FORMAT,
+  CLIPBOARD_VERSION,
+} from './frameClipboard';
+import { DEFAULT_TRANSITION_DURATION_MS } from './transitions';
+import type { Size } from './viewport';
+
+// More files than this in one drop are left out
+export const MAX_IMPORT_FILES = 50;
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|bmp|avif)$/i;
+
+export interface ImportedImage {
+  // File name without its extension, used as the frame title
+  name: string;
+  dataUrl: string;
+}
+
+export function isImageFile(file: File): boolean {
+  return file.type ? file.type.startsWith('image/') && file.type !== 'image/svg+xml' : IMAGE_EXTENSIONS.test(file.name);
+}
+
+// "shot 2" before "shot 10"
+function compareFileNames(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function readDirectoryBatch(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+function entryToFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// Files under an entry with their paths; readEntries returns directories in batches
+async function collectEntry(entry: FileSystemEntry, out: Array<{ path: string; file: File }>): Promise<void> {
+  if (entry.isFile) {
+    const file = await entryToFile(entry as FileSystemFileEntry);
+    out.push({ path: entry.fullPath || file.name, file });
+    return;
+  }
+  if (!entry.isDirectory) return;
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  let batch = await readDirectoryBatch(reader);
+  while (batch.length > 0) {
+    for (const child of batch) await collectEntry(child, out);
+    batch = await readDirectoryBatch(reader);
+  }
+}
+
+/**
+ * Image files in a drop, including those inside dropped folders, sorted by path
+ * so numbered shots end up in sequence
+ */
+export async function collectDroppedImages(dataTransfer: DataTransfer): Promise<File[]> {
+  // Entries must be taken while the drop event is being handled; the list empties afterwards
+  const entries = Array.from(dataTransfer.items ?? [])
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+
+  const found: Array<{ path: string; file: File }> = [];
+  if (entries.length > 0 && entries.every(Boolean)) {
+    for (const entry of entries) {
+      try {
+        await collectEntry(entry!, found);
+      } catch (err) {
+        console.warn('Could not read dropped entry:', err);
+      }
+    }
+  } else {
+    Array.from(dataTransfer.files).forEach(file => found.push({ path: file.name, file }));
+  }
+
+  return found
+    .filter(({ file }) => isImageFile(file))
+    .sort((a, b) => compareFileNames(a.path, b.path))
+    .map(({ file }) => file);
+}
+
+// Whether a drag carries files (the files themselves are only readable on drop)
+export function hasDraggedFiles(dataTransfer: DataTransfer | null): boolean {
+  return !!dataTransfer && Array.from(dataTransfer.types).includes('Files');
+}
+
+/**
+ * Image files on the clipboard, e.g. a screenshot or an image copied from a browser
+ */
+export function getClipboardImages(clipboardData: DataTransfer | null): File[] {
+  if (!clipboardData) return [];
+  return Array.from(clipboardData.items ?? [])
+    .filter(item => item.kind === 'file')
+    .map(item => item.getAsFile())
+    .filter((file): file is File => !!file && isImageFile(file));
+}
+
+/**
+ * Decode an image file and redraw it as a PNG no larger than `maxSize`, keeping its proportions.
+ * Images of any shape are letterboxed by the frame card and the sketch editor.
+ */
+export function loadImageFile(file: File, maxSize: Size): Promise<ImportedImage> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.decoding = 'async';
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, maxSize.width / img.naturalWidth, maxSize.height / img.naturalHeight);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve({ name: file.name.replace(/\.[^.]+$/, '').trim() || 'Image', dataUrl: canvas.toDataURL('image/png') });
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read ${file.name}`));
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * Imported images as a paste payload: one frame per image in a row starting at the origin,
+ * connected in order
+ */
+export function imagesToPayload(images: ImportedImage[], frameSize: Size, gap: number): FrameClipboardPayload {
+  const frames: ClipboardFrame[] = images.map((image, index) => ({
+    ref: `import-${index}`,
+    title: image.name,
+    x: index * (frameSize.width + gap),
+    y: 0,
+    status: 'sketch',
+    motionNotes: null,
+    animationStyle: 'fade',
+    durationMs: 500,
+    shot: {},
+    sketchUrl: image.dataUrl,
+    sketchDocument: null,
+    polishedUrl: null,
+  }));
+
+  const connections: ClipboardConnection[] = frames.slice(1).map((frame, index) => ({
+    from: frames[index].ref,
+    to: frame.ref,
+    transitionType: 'fade',
+    transitionDurationMs: DEFAULT_TRANSITION_DURATION_MS,
+    branchLabel: null,
+  }));
+
+  return {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    sourceBoardId: '',
+    copiedAt: new Date().toISOString(),
+    frames,
+    connections,
+  };
+}
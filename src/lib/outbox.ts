@@ -0,0 +1,316 @@
+import { supabase } from './supabase';
+import { uploadFrameImage, uploadSketchImages } from './storage';
+import { normalizeSketchDocument } from './sketchDocument';
+import { valuesEqual } from './utils';
+
+/**
+ * Offline outbox for board writes.
+ * Writes that can't reach Supabase (offline, or a network failure) are stored in
+ * IndexedDB and replayed in the order they were made once the connection is back.
+ *
+ * Every operation is idempotent so a replay that is interrupted halfway can
+ * safely run again: new rows carry client-generated IDs and are upserted,
+ * updates write absolute values and deletes are by ID.
+ *
+ * Guarded updates (optimistic concurrency) only apply if the row is still at the
+ * version the edit started from, or if nobody else changed the fields being written.
+ */
+
+export type OutboxTable = 'boards' | 'frames' | 'connections' | 'scenes' | 'cuts' | 'comments';
+
+export type OutboxOperation =
+  // Insert or overwrite whole rows (new rows, restores)
+  | { kind: 'upsert'; table: OutboxTable; rows: Record<string, unknown>[] }
+  | { kind: 'update'; table: OutboxTable; ids: string[]; changes: Record<string, unknown>; guard?: WriteGuard }
+  // Move several frames at once; only their positions are written (see update_frame_positions)
+  | { kind: 'framePositions'; positions: Array<{ id: string; x: number; y: number }> }
+  | { kind: 'delete'; table: OutboxTable; ids: string[] }
+  // Replace a board's content with a snapshot in one transaction (see restore_board_snapshot)
+  | { kind: 'restoreBoard'; boardId: string; snapshot: RestoreBoardRows }
+  // Upload a frame image, then point the frame at it
+  | {
+      kind: 'frameImage';
+      userId: string;
+      boardId: string;
+      frameId: string;
+      imageType: 'sketch' | 'polished';
+      dataUrl: string;
+      // Document the sketch was rendered from (see lib/sketchDocument)
+      sketchDocument?: unknown;
+    };
+
+// A snapshot as database rows: the board's own columns, and every row it should end up with
+export interface RestoreBoardRows {
+  board: Record<string, unknown>;
+  scenes: Record<string, unknown>[];
+  frames: Record<string, unknown>[];
+  connections: Record<string, unknown>[];
+  cuts: Record<string, unknown>[];
+}
+
+// Version check for a single-row update: the row version the edit was based on,
+// and the values the guarded columns had at that version
+export interface WriteGuard {
+  version: number;
+  expected: Record<string, unknown>;
+}
+
+export interface OutboxEntry {
+  // Insertion order (assigned by IndexedDB)
+  seq?: number;
+  // Idempotency key; also names uploaded images so a retried upload overwrites itself
+  id: string;
+  boardId: string;
+  op: OutboxOperation;
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+// Error from a write, with the PostgREST code / HTTP status when there is one
+export class WriteError extends Error {
+  code?: string;
+  status?: number;
+
+  constructor(message: string, code?: string, status?: number) {
+    super(message);
+    this.name = 'WriteError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// A guarded update found that someone else changed the same fields first.
+// Carries the row as it is in the database now so the caller can offer a merge.
+export class WriteConflictError extends WriteError {
+  current: Record<string, unknown>;
+
+  constructor(current: Record<string, unknown>) {
+    super('This item was changed by someone else', 'conflict');
+    this.name = 'WriteConflictError';
+    this.current = current;
+  }
+}
+
+const DB_NAME = 'sketchmotion-outbox';
+const STORE_NAME = 'mutations';
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Used when IndexedDB is unavailable (e.g. some private browsing modes); lost on reload
+let memoryStore: OutboxEntry[] | null = null;
+let memorySeq = 0;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB unavailable'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+        store.createIndex('boardId', 'boardId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function getStore(mode: IDBTransactionMode): Promise<IDBObjectStore | null> {
+  if (memoryStore) return null;
+  try {
+    const db = await openDatabase();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  } catch (err) {
+    console.warn('Offline outbox falling back to memory:', err);
+    memoryStore = [];
+    return null;
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Append a write to the board's outbox
+ */
+export async function enqueueMutation(boardId: string, op: OutboxOperation): Promise<OutboxEntry> {
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    boardId,
+    op,
+    createdAt: Date.now(),
+    attempts: 0,
+  };
+
+  const store = await getStore('readwrite');
+  if (!store) {
+    const stored = { ...entry, seq: ++memorySeq };
+    memoryStore!.push(stored);
+    return stored;
+  }
+
+  const seq = await requestToPromise(store.add(entry));
+  return { ...entry, seq: seq as number };
+}
+
+/**
+ * Queued writes for a board, oldest first
+ */
+export async function getPendingMutations(boardId: string): Promise<OutboxEntry[]> {
+  const store = await getStore('readonly');
+  if (!store) return memoryStore!.filter(e => e.boardId === boardId);
+
+  const entries = await requestToPromise(store.index('boardId').getAll(boardId));
+  return (entries as OutboxEntry[]).sort((a, b) => a.seq! - b.seq!);
+}
+
+export async function removeMutation(entry: OutboxEntry): Promise<void> {
+  const store = await getStore('readwrite');
+  if (!store) {
+    memoryStore = memoryStore!.filter(e => e.seq !== entry.seq);
+    return;
+  }
+  await requestToPromise(store.delete(entry.seq!));
+}
+
+// Record a failed replay attempt (kept for debugging stuck entries)
+export async function markMutationFailed(entry: OutboxEntry, err: unknown): Promise<void> {
+  const updated: OutboxEntry = {
+    ...entry,
+    attempts: entry.attempts + 1,
+    lastError: err instanceof Error ? err.message : String(err),
+  };
+  const store = await getStore('readwrite');
+  if (!store) {
+    memoryStore = memoryStore!.map(e => e.seq === entry.seq ? updated : e);
+    return;
+  }
+  await requestToPromise(store.put(updated));
+}
+
+export function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine;
+}
+
+/**
+ * Whether a failed write is worth retrying later (connection problems and server
+ * outages) rather than a rejection such as a permission or constraint error
+ */
+export function isTransientError(err: unknown): boolean {
+  if (!isOnline()) return true;
+  if (err instanceof WriteError) {
+    if (err.status !== undefined && (err.status === 0 || err.status >= 500)) return true;
+    if (err.code) return false;
+  }
+  // fetch() rejects with a TypeError when the request never reaches the server
+  if (err instanceof TypeError) return true;
+  const message = err instanceof Error ? err.message : String(err);
+  return /failed to fetch|fetch failed|networkerror|network request failed|load failed|timed? ?out/i.test(message);
+}
+
+/**
+ * Update one row only if it hasn't been changed underneath us.
+ * If the version moved on but the guarded columns still hold the expected values
+ * (e.g. someone only moved the frame), the write is retried against the new version.
+ * @returns The updated row, or null if the row no longer exists
+ */
+async function executeGuardedUpdate(
+  table: OutboxTable,
+  id: string,
+  changes: Record<string, unknown>,
+  guard: WriteGuard
+): Promise<Record<string, unknown> | null> {
+  const { data, error, status } = await supabase
+    .from(table)
+    .update(changes)
+    .eq('id', id)
+    .eq('version', guard.version)
+    .select();
+
+  if (error) throw new WriteError(error.message, error.code, status);
+  if (data && data.length > 0) return data[0];
+
+  const { data: current, error: readError, status: readStatus } = await supabase
+    .from(table)
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (readError) throw new WriteError(readError.message, readError.code, readStatus);
+  if (!current) return null;
+
+  // Same version but nothing updated: the row isn't writable for this user
+  if (current.version === guard.version) {
+    throw new WriteError('You do not have permission to edit this item', '42501', 403);
+  }
+
+  const conflicting = Object.keys(guard.expected).some(
+    column => !valuesEqual(current[column] ?? null, guard.expected[column] ?? null)
+  );
+  if (conflicting) throw new WriteConflictError(current);
+
+  return executeGuardedUpdate(table, id, changes, { ...guard, version: current.version });
+}
+
+/**
+ * Run an operation against Supabase. Throws a WriteError on failure
+ * (a WriteConflictError when a guarded update lost a race).
+ * @param key - Idempotency key; frame images are stored under it so retries overwrite the same file
+ * @returns The updated row for guarded updates, otherwise null
+ */
+export async function executeOperation(op: OutboxOperation, key?: string): Promise<Record<string, unknown> | null> {
+  if (op.kind === 'frameImage') {
+    const publicUrl = await uploadFrameImage(op.userId, op.boardId, op.frameId, op.dataUrl, op.imageType, key);
+    if (!publicUrl) throw new WriteError('Failed to upload image');
+
+    // Images placed in the sketch are stored as files too, not inside the document
+    const doc = op.imageType === 'sketch' ? normalizeSketchDocument(op.sketchDocument) : null;
+    const sketchDocument = doc && await uploadSketchImages(op.userId, op.boardId, op.frameId, doc).catch(() => {
+      throw new WriteError('Failed to upload sketch image');
+    });
+
+    // Sketches keep the polished image and vice versa
+    const changes = op.imageType === 'sketch'
+      ? { sketch_url: publicUrl, sketch_document: sketchDocument, status: 'sketch' }
+      : { polished_url: publicUrl, status: 'polished' };
+    return executeOperation({ kind: 'update', table: 'frames', ids: [op.frameId], changes });
+  }
+
+  if (op.kind === 'framePositions') {
+    const { error, status } = await supabase.rpc('update_frame_positions', { positions: op.positions });
+    if (error) throw new WriteError(error.message, error.code, status);
+    return null;
+  }
+
+  if (op.kind === 'restoreBoard') {
+    const { error, status } = await supabase.rpc('restore_board_snapshot', {
+      target_board_id: op.boardId,
+      snapshot: op.snapshot,
+    });
+    if (error) throw new WriteError(error.message, error.code, status);
+    return null;
+  }
+
+  if (op.kind === 'update' && op.guard) {
+    return executeGuardedUpdate(op.table, op.ids[0], op.changes, op.guard);
+  }
+
+  const table = supabase.from(op.table);
+  const { error, status } = op.kind === 'upsert'
+    ? await table.upsert(op.rows)
+    : op.kind === 'update'
+      ? await table.update(op.changes).in('id', op.ids)
+      : await table.delete().in('id', op.ids);
+
+  if (error) throw new WriteError(error.message, error.code, status);
+  return null;
+}
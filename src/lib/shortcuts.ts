@@ -0,0 +1,197 @@
+/**
+ * Canvas command registry and keymap.
+ * Every canvas action has an ID, a label and default key bindings. The keyboard
+ * handler, the command palette and toolbar tooltips all read from here, and users
+ * can remap bindings per account (stored in localStorage).
+ */
+
+export interface KeyBinding {
+  // KeyboardEvent.key, lowercased for letters (" " for Space)
+  key: string;
+  // Ctrl on Windows/Linux, Cmd on macOS
+  ctrl?: boolean;
+  shift?: boolean;
+  alt?: boolean;
+}
+
+export type CommandGroup = 'Tools' | 'Frames' | 'AI' | 'View' | 'Edit' | 'Board';
+
+export type CommandId =
+  | 'tool.select'
+  | 'tool.pan'
+  | 'tool.connector'
+  | 'tool.comment'
+  | 'frame.add'
+  | 'frame.delete'
+  | 'frame.groupIntoScene'
+  | 'frame.shotInspector'
+  | 'ai.polishSelection'
+  | 'ai.polishAll'
+  | 'ai.motionSuggest'
+  | 'ai.continuityCheck'
+  | 'view.zoomIn'
+  | 'view.zoomOut'
+  | 'view.resetZoom'
+  | 'view.zoomToFit'
+  | 'view.zoomToSelection'
+  | 'view.preview'
+  | 'edit.undo'
+  | 'edit.redo'
+  | 'board.autoArrange'
+  | 'board.toggleSnap'
+  | 'board.toggleBeatMode'
+  | 'board.toggleComments'
+  | 'board.versionHistory'
+  | 'app.commandPalette'
+  | 'app.keymap';
+
+export interface CommandDefinition {
+  id: CommandId;
+  label: string;
+  group: CommandGroup;
+  defaultBindings: KeyBinding[];
+}
+
+export const COMMANDS: CommandDefinition[] = [
+  { id: 'tool.select', label: 'Select tool', group: 'Tools', defaultBindings: [{ key: 'v' }] },
+  { id: 'tool.pan', label: 'Pan tool', group: 'Tools', defaultBindings: [{ key: ' ' }] },
+  { id: 'tool.connector', label: 'Connect tool', group: 'Tools', defaultBindings: [{ key: 'c' }] },
+  { id: 'tool.comment', label: 'Comment tool', group: 'Tools', defaultBindings: [{ key: 'm' }] },
+  { id: 'frame.add', label: 'Add frame', group: 'Frames', defaultBindings: [{ key: 'n', ctrl: true }] },
+  { id: 'frame.delete', label: 'Delete selection', group: 'Frames', defaultBindings: [{ key: 'delete' }, { key: 'backspace' }] },
+  { id: 'frame.groupIntoScene', label: 'Group selection into scene', group: 'Frames', defaultBindings: [{ key: 'g', ctrl: true }] },
+  { id: 'frame.shotInspector', label: 'Shot details', group: 'Frames', defaultBindings: [{ key: 'i' }] },
+  { id: 'ai.polishSelection', label: 'Polish selection', group: 'AI', defaultBindings: [] },
+  { id: 'ai.polishAll', label: 'Polish all frames', group: 'AI', defaultBindings: [] },
+  { id: 'ai.motionSuggest', label: 'Suggest motion notes', group: 'AI', defaultBindings: [] },
+  { id: 'ai.continuityCheck', label: 'Continuity check', group: 'AI', defaultBindings: [] },
+  { id: 'view.zoomIn', label: 'Zoom in', group: 'View', defaultBindings: [{ key: '=', ctrl: true }] },
+  { id: 'view.zoomOut', label: 'Zoom out', group: 'View', defaultBindings: [{ key: '-', ctrl: true }] },
+  { id: 'view.resetZoom', label: 'Reset zoom to 100%', group: 'View', defaultBindings: [{ key: '0', ctrl: true }] },
+  { id: 'view.zoomToFit', label: 'Zoom to fit', group: 'View', defaultBindings: [{ key: 'f' }] },
+  { id: 'view.zoomToSelection', label: 'Zoom to selection', group: 'View', defaultBindings: [{ key: 'f', shift: true }] },
+  { id: 'view.preview', label: 'Preview storyboard', group: 'View', defaultBindings: [] },
+  { id: 'edit.undo', label: 'Undo', group: 'Edit', defaultBindings: [{ key: 'z', ctrl: true }] },
+  { id: 'edit.redo', label: 'Redo', group: 'Edit', defaultBindings: [{ key: 'z', ctrl: true, shift: true }] },
+  { id: 'board.autoArrange', label: 'Auto-arrange', group: 'Board', defaultBindings: [] },
+  { id: 'board.toggleSnap', label: 'Toggle snap to grid', group: 'Board', defaultBindings: [] },
+  { id: 'board.toggleBeatMode', label: 'Toggle beat mode', group: 'Board', defaultBindings: [] },
+  { id: 'board.toggleComments', label: 'Show comments', group: 'Board', defaultBindings: [] },
+  { id: 'board.versionHistory', label: 'Version history', group: 'Board', defaultBindings: [] },
+  { id: 'app.commandPalette', label: 'Command palette', group: 'Edit', defaultBindings: [{ key: 'k', ctrl: true }] },
+  { id: 'app.keymap', label: 'Keyboard shortcuts', group: 'Edit', defaultBindings: [] },
+];
+
+export const COMMAND_GROUPS: CommandGroup[] = ['Tools', 'Frames', 'AI', 'View', 'Edit', 'Board'];
+
+const commandById = new Map(COMMANDS.map(c => [c.id, c]));
+
+export function getCommand(id: CommandId): CommandDefinition | undefined {
+  return commandById.get(id);
+}
+
+// User remappings; commands without an entry use their defaults
+export type KeymapOverrides = Partial<Record<CommandId, KeyBinding[]>>;
+
+export type Keymap = Record<CommandId, KeyBinding[]>;
+
+export function resolveKeymap(overrides: KeymapOverrides): Keymap {
+  return Object.fromEntries(
+    COMMANDS.map(c => [c.id, overrides[c.id] ?? c.defaultBindings])
+  ) as Keymap;
+}
+
+// Modifier keys never form a binding on their own
+const MODIFIER_KEYS = new Set(['control', 'shift', 'alt', 'meta', 'capslock', 'os']);
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  delete: 'Delete',
+  backspace: 'Backspace',
+  escape: 'Esc',
+  enter: 'Enter',
+  tab: 'Tab',
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→',
+};
+
+/**
+ * Binding for a key press, or null for a bare modifier
+ */
+export function bindingFromEvent(event: KeyboardEvent): KeyBinding | null {
+  const key = event.key.toLowerCase();
+  if (MODIFIER_KEYS.has(key)) return null;
+  return {
+    key,
+    ctrl: event.ctrlKey || event.metaKey || undefined,
+    shift: event.shiftKey || undefined,
+    alt: event.altKey || undefined,
+  };
+}
+
+// Canonical form used to compare bindings
+export function bindingId(binding: KeyBinding): string {
+  return [binding.ctrl && 'ctrl', binding.shift && 'shift', binding.alt && 'alt', binding.key.toLowerCase()]
+    .filter(Boolean)
+    .join('+');
+}
+
+export function matchesBinding(event: KeyboardEvent, binding: KeyBinding): boolean {
+  const pressed = bindingFromEvent(event);
+  return pressed !== null && bindingId(pressed) === bindingId(binding);
+}
+
+export function formatBinding(binding: KeyBinding): string {
+  const key = KEY_LABELS[binding.key] ?? (binding.key.length === 1 ? binding.key.toUpperCase() : binding.key);
+  return [binding.ctrl && 'Ctrl', binding.shift && 'Shift', binding.alt && 'Alt', key].filter(Boolean).join('+');
+}
+
+/**
+ * Tooltip suffix for a command's first binding, e.g. " (Ctrl+Z)"; empty when unbound
+ */
+export function shortcutHint(bindings: KeyBinding[] | undefined): string {
+  return bindings && bindings.length > 0 ? ` (${formatBinding(bindings[0])})` : '';
+}
+
+/**
+ * Bindings used by more than one command, keyed by binding ID
+ */
+export function findConflicts(keymap: Keymap): Map<string, CommandId[]> {
+  const byBinding = new Map<string, CommandId[]>();
+  COMMANDS.forEach(({ id }) => {
+    keymap[id].forEach(binding => {
+      const key = bindingId(binding);
+      byBinding.set(key, [...(byBinding.get(key) ?? []), id]);
+    });
+  });
+  return new Map([...byBinding].filter(([, ids]) => ids.length > 1));
+}
+
+const keymapStorageKey = (userId: string) => `sketchmotion_keymap_${userId}`;
+
+const isBinding = (value: unknown): value is KeyBinding =>
+  !!value && typeof value === 'object' && typeof (value as KeyBinding).key === 'string';
+
+export function loadKeymapOverrides(userId: string): KeymapOverrides {
+  try {
+    const stored = JSON.parse(localStorage.getItem(keymapStorageKey(userId)) || '{}');
+    const overrides: KeymapOverrides = {};
+    // Drop commands that no longer exist and malformed bindings
+    COMMANDS.forEach(({ id }) => {
+      if (Array.isArray(stored[id])) overrides[id] = stored[id].filter(isBinding);
+    });
+    return overrides;
+  } catch {
+    return {};
+  }
+}
+
+export function saveKeymapOverrides(userId: string, overrides: KeymapOverrides) {
+  try {
+    localStorage.setItem(keymapStorageKey(userId), JSON.stringify(overrides));
+  } catch (err) {
+    console.warn('Could not save keymap:', err);
+  }
+}
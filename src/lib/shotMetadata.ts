@@ -0,0 +1,189 @@
+/**
+ * Structured shot metadata for frames (shot size, camera, cast, location, sound).
+ * Stored as a compact object in `frames.shot`: fields that aren't set are left out,
+ * so an empty shot is `{}` and two shots can be compared field by field.
+ */
+
+export type ShotSize = 'ECU' | 'CU' | 'MCU' | 'MS' | 'MLS' | 'LS' | 'WS' | 'EWS';
+
+export type CameraAngle = 'eye-level' | 'high' | 'low' | 'overhead' | 'birds-eye' | 'worms-eye' | 'dutch' | 'pov' | 'over-the-shoulder';
+
+export type CameraMovement =
+  | 'static'
+  | 'pan'
+  | 'tilt'
+  | 'dolly-in'
+  | 'dolly-out'
+  | 'truck'
+  | 'pedestal'
+  | 'crane'
+  | 'tracking'
+  | 'handheld'
+  | 'zoom-in'
+  | 'zoom-out';
+
+export interface ShotMetadata {
+  shotSize?: ShotSize;
+  cameraAngle?: CameraAngle;
+  // Focal length or lens description, e.g. "35mm" or "anamorphic 50mm"
+  lens?: string;
+  cameraMovement?: CameraMovement;
+  characters?: string[];
+  location?: string;
+  dialogue?: string;
+  sfx?: string;
+}
+
+export const SHOT_SIZES: Array<{ value: ShotSize; label: string }> = [
+  { value: 'ECU', label: 'Extreme close-up' },
+  { value: 'CU', label: 'Close-up' },
+  { value: 'MCU', label: 'Medium close-up' },
+  { value: 'MS', label: 'Medium shot' },
+  { value: 'MLS', label: 'Medium long shot' },
+  { value: 'LS', label: 'Long shot' },
+  { value: 'WS', label: 'Wide shot' },
+  { value: 'EWS', label: 'Extreme wide shot' },
+];
+
+export const CAMERA_ANGLES: Array<{ value: CameraAngle; label: string }> = [
+  { value: 'eye-level', label: 'Eye level' },
+  { value: 'high', label: 'High angle' },
+  { value: 'low', label: 'Low angle' },
+  { value: 'overhead', label: 'Overhead' },
+  { value: 'birds-eye', label: "Bird's-eye" },
+  { value: 'worms-eye', label: "Worm's-eye" },
+  { value: 'dutch', label: 'Dutch angle' },
+  { value: 'pov', label: 'Point of view' },
+  { value: 'over-the-shoulder', label: 'Over the shoulder' },
+];
+
+export const CAMERA_MOVEMENTS: Array<{ value: CameraMovement; label: string }> = [
+  { value: 'static', label: 'Static' },
+  { value: 'pan', label: 'Pan' },
+  { value: 'tilt', label: 'Tilt' },
+  { value: 'dolly-in', label: 'Dolly in' },
+  { value: 'dolly-out', label: 'Dolly out' },
+  { value: 'truck', label: 'Truck' },
+  { value: 'pedestal', label: 'Pedestal' },
+  { value: 'crane', label: 'Crane' },
+  { value: 'tracking', label: 'Tracking' },
+  { value: 'handheld', label: 'Handheld' },
+  { value: 'zoom-in', label: 'Zoom in' },
+  { value: 'zoom-out', label: 'Zoom out' },
+];
+
+// Suggestions for the lens field; any text is allowed
+export const LENS_PRESETS = ['14mm', '24mm', '35mm', '50mm', '85mm', '135mm'];
+
+const TEXT_FIELDS = ['lens', 'location', 'dialogue', 'sfx'] as const;
+
+const optionValue = <T extends string>(options: Array<{ value: T }>, value: unknown): T | undefined =>
+  options.some(o => o.value === value) ? (value as T) : undefined;
+
+const labelOf = <T extends string>(options: Array<{ value: T; label: string }>, value: T | undefined) =>
+  options.find(o => o.value === value)?.label;
+
+/**
+ * Canonical shot metadata from stored or user input: unknown options and empty
+ * text are dropped, and character names are trimmed and de-duplicated.
+ */
+export function normalizeShotMetadata(raw: unknown): ShotMetadata {
+  if (!raw || typeof raw !== 'object') return {};
+  const data = raw as Record<string, unknown>;
+  const shot: ShotMetadata = {};
+
+  const shotSize = optionValue(SHOT_SIZES, data.shotSize);
+  if (shotSize) shot.shotSize = shotSize;
+  const cameraAngle = optionValue(CAMERA_ANGLES, data.cameraAngle);
+  if (cameraAngle) shot.cameraAngle = cameraAngle;
+  const cameraMovement = optionValue(CAMERA_MOVEMENTS, data.cameraMovement);
+  if (cameraMovement) shot.cameraMovement = cameraMovement;
+
+  TEXT_FIELDS.forEach(field => {
+    const value = typeof data[field] === 'string' ? (data[field] as string).trim() : '';
+    if (value) shot[field] = value;
+  });
+
+  if (Array.isArray(data.characters)) {
+    const characters = [...new Set(
+      data.characters
+        .filter((c): c is string => typeof c === 'string')
+        .map(c => c.trim())
+        .filter(Boolean)
+    )];
+    if (characters.length > 0) shot.characters = characters;
+  }
+
+  return shot;
+}
+
+export function isShotEmpty(shot: ShotMetadata | null | undefined): boolean {
+  return !shot || Object.keys(shot).length === 0;
+}
+
+// Camera setup in one line, e.g. "MCU, low angle, 35mm, dolly in"
+export function formatCameraSetup(shot: ShotMetadata): string {
+  return [
+    shot.shotSize,
+    labelOf(CAMERA_ANGLES, shot.cameraAngle)?.toLowerCase(),
+    shot.lens,
+    labelOf(CAMERA_MOVEMENTS, shot.cameraMovement)?.toLowerCase(),
+  ].filter(Boolean).join(', ');
+}
+
+// Each set field as "Label: value", e.g. ["Shot size: Close-up (CU)", "Location: Rooftop"]
+export function formatShotDetails(shot: ShotMetadata): string[] {
+  return [
+    shot.shotSize && `Shot size: ${labelOf(SHOT_SIZES, shot.shotSize)} (${shot.shotSize})`,
+    shot.cameraAngle && `Angle: ${labelOf(CAMERA_ANGLES, shot.cameraAngle)}`,
+    shot.lens && `Lens: ${shot.lens}`,
+    shot.cameraMovement && `Camera move: ${labelOf(CAMERA_MOVEMENTS, shot.cameraMovement)}`,
+    shot.characters?.length && `Characters: ${shot.characters.join(', ')}`,
+    shot.location && `Location: ${shot.location}`,
+    shot.dialogue && `Dialogue: "${shot.dialogue}"`,
+    shot.sfx && `SFX: ${shot.sfx}`,
+  ].filter((part): part is string => typeof part === 'string');
+}
+
+/**
+ * Shot metadata as prompt text for a frame line; empty when nothing is set.
+ * Starts with " — " so it can be appended to the frame's title line.
+ */
+export function describeShotForPrompt(shot: ShotMetadata | undefined): string {
+  if (!shot || isShotEmpty(shot)) return '';
+  return ` — ${formatShotDetails(shot).join('; ')}`;
+}
+
+interface ShotListFrame {
+  title: string;
+  durationMs: number;
+  motionNotes?: string | null;
+  shot?: ShotMetadata;
+}
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Shot list as CSV, one row per frame in the given order
+ */
+export function shotListToCsv(frames: ShotListFrame[]): string {
+  const header = ['Shot', 'Title', 'Duration (s)', 'Shot size', 'Angle', 'Lens', 'Camera movement', 'Characters', 'Location', 'Dialogue', 'SFX', 'Motion notes'];
+  const rows = frames.map((frame, index) => {
+    const shot = frame.shot ?? {};
+    return [
+      String(index + 1),
+      frame.title,
+      (frame.durationMs / 1000).toString(),
+      labelOf(SHOT_SIZES, shot.shotSize) ?? '',
+      labelOf(CAMERA_ANGLES, shot.cameraAngle) ?? '',
+      shot.lens ?? '',
+      labelOf(CAMERA_MOVEMENTS, shot.cameraMovement) ?? '',
+      (shot.characters ?? []).join(', '),
+      shot.location ?? '',
+      shot.dialogue ?? '',
+      shot.sfx ?? '',
+      frame.motionNotes ?? '',
+    ];
+  });
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
@@ -0,0 +1,832 @@
+/**
+ * Editable sketch documents.
+ * The sketch editor keeps a frame's drawing as a stack of layers, each a list of objects
+ * (strokes, shapes, text and images) in the sketch's coordinate system. The document is
+ * stored with the frame and the sketch PNG is a flattened rendering of it, so reopening a
+ * frame restores layers and objects that can still be selected, moved and restyled.
+ */
+
+import type { Size } from './viewport';
+
+// Version 1 documents had a single list of objects, read as one layer
+export const SKETCH_DOCUMENT_VERSION = 2;
+
+// Editor background; erasing reveals it
+export const SKETCH_BACKGROUND = '#1a1a2e';
+
+// Spacing of the editor's dot grid
+const GRID_SPACING = 20;
+
+export type SketchShapeKind = 'line' | 'rectangle' | 'ellipse' | 'arrow';
+
+export interface SketchStroke {
+  type: 'stroke';
+  id: string;
+  // Flattened x, y pairs
+  points: number[];
+  color: string;
+  width: number;
+  // Hand-drawn wobble, reproduced from `seed` on every render
+  sketchy: boolean;
+  seed: number;
+  // Eraser strokes cut through the objects below them
+  erase: boolean;
+  // Stylus input, one value (0-1) per point: pressure, and tilt away from upright.
+  // Absent for mouse and touch strokes, which are drawn at an even width
+  pressure?: number[];
+  tilt?: number[];
+}
+
+export interface SketchShape {
+  type: 'shape';
+  id: string;
+  shape: SketchShapeKind;
+  // Drag start and end; rectangles and ellipses fill the box between them
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color: string;
+  width: number;
+  filled: boolean;
+}
+
+export interface SketchText {
+  type: 'text';
+  id: string;
+  // Top-left of the first line
+  x: number;
+  y: number;
+  text: string;
+  color: string;
+  fontSize: number;
+}
+
+export interface SketchImage {
+  type: 'image';
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Storage URL; a data URL only until the document is saved (see uploadSketchImages)
+  src: string;
+}
+
+export type SketchObject = SketchStroke | SketchShape | SketchText | SketchImage;
+
+export interface SketchLayer {
+  id: string;
+  name: string;
+  visible: boolean;
+  // Locked layers can't be drawn on, selected or cleared
+  locked: boolean;
+  // 0-1
+  opacity: number;
+  // Annotations for the team: saved with the sketch but left out of the image sent to polish
+  notesOnly: boolean;
+  // Bottom to top
+  objects: SketchObject[];
+}
+
+export interface SketchDocument {
+  version: number;
+  width: number;
+  height: number;
+  // Bottom to top
+  layers: SketchLayer[];
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Decoded images by source, shared between renders
+export type SketchImageCache = Map<string, HTMLImageElement>;
+
+export function createObjectId(): string {
+  return crypto.randomUUID();
+}
+
+export function createLayer(name: string, objects: SketchObject[] = []): SketchLayer {
+  return { id: createObjectId(), name, visible: true, locked: false, opacity: 1, notesOnly: false, objects };
+}
+
+// New document with a single layer holding `objects`
+export function createSketchDocument(size: Size, objects: SketchObject[] = []): SketchDocument {
+  return { version: SKETCH_DOCUMENT_VERSION, width: size.width, height: size.height, layers: [createLayer('Layer 1', objects)] };
+}
+
+// Every object in the document, bottom to top
+export function getDocumentObjects(doc: SketchDocument): SketchObject[] {
+  return doc.layers.flatMap(layer => layer.objects);
+}
+
+// Layer holding an object
+export function findObjectLayer(doc: SketchDocument, objectId: string): SketchLayer | null {
+  return doc.layers.find(layer => layer.objects.some(o => o.id === objectId)) ?? null;
+}
+
+export function updateLayer(
+  doc: SketchDocument,
+  layerId: string,
+  update: (layer: SketchLayer) => SketchLayer
+): SketchDocument {
+  return { ...doc, layers: doc.layers.map(layer => (layer.id === layerId ? update(layer) : layer)) };
+}
+
+// Small deterministic PRNG (mulberry32) so sketchy strokes look the same on every render
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff);
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+function parseObject(raw: unknown): SketchObject | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const o = raw as Record<string, unknown>;
+  const id = isString(o.id) ? o.id : createObjectId();
+  const color = isString(o.color) ? o.color : '#FFFFFF';
+
+  switch (o.type) {
+    case 'stroke': {
+      if (!Array.isArray(o.points) || o.points.length < 2 || !o.points.every(isNumber)) return null;
+      const points = o.points as number[];
+      // Per-point values only count when there is one for every point
+      const perPoint = (values: unknown) =>
+        Array.isArray(values) && values.length === points.length / 2 && values.every(isNumber)
+          ? (values as number[])
+          : undefined;
+      return {
+        type: 'stroke',
+        id,
+        points,
+        color,
+        width: isNumber(o.width) ? o.width : 8,
+        sketchy: o.sketchy === true,
+        seed: isNumber(o.seed) ? o.seed : 1,
+        erase: o.erase === true,
+        pressure: perPoint(o.pressure),
+        tilt: perPoint(o.tilt),
+      };
+    }
+    case 'shape': {
+      const shapes: SketchShapeKind[] = ['line', 'rectangle', 'ellipse', 'arrow'];
+      if (!shapes.includes(o.shape as SketchShapeKind)) return null;
+      if (![o.x1, o.y1, o.x2, o.y2].every(isNumber)) return null;
+      return {
+        type: 'shape',
+        id,
+        shape: o.shape as SketchShapeKind,
+        x1: o.x1 as number,
+        y1: o.y1 as number,
+        x2: o.x2 as number,
+        y2: o.y2 as number,
+        color,
+        width: isNumber(o.width) ? o.width : 8,
+        filled: o.filled === true,
+      };
+    }
+    case 'text': {
+      if (!isString(o.text) || !isNumber(o.x) || !isNumber(o.y)) return null;
+      return { type: 'text', id, x: o.x, y: o.y, text: o.text, color, fontSize: isNumber(o.fontSize) ? o.fontSize : 28 };
+    }
+    case 'image': {
+      if (!isString(o.src) || ![o.x, o.y, o.width, o.height].every(isNumber)) return null;
+      return {
+        type: 'image',
+        id,
+        x: o.x as number,
+        y: o.y as number,
+        width: o.width as number,
+        height: o.height as number,
+        src: o.src,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+function parseObjects(raw: unknown): SketchObject[] {
+  return Array.isArray(raw) ? raw.map(parseObject).filter((o): o is SketchObject => !!o) : [];
+}
+
+function parseLayer(raw: unknown, index: number): SketchLayer | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const l = raw as Record<string, unknown>;
+  return {
+    id: isString(l.id) ? l.id : createObjectId(),
+    name: isString(l.name) && l.name.trim() ? l.name : `Layer ${index + 1}`,
+    visible: l.visible !== false,
+    locked: l.locked === true,
+    opacity: isNumber(l.opacity) ? Math.min(1, Math.max(0, l.opacity)) : 1,
+    notesOnly: l.notesOnly === true,
+    objects: parseObjects(l.objects),
+  };
+}
+
+/**
+ * Stored document, or null when there is none (frames sketched before documents existed)
+ */
+export function normalizeSketchDocument(raw: unknown): SketchDocument | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const d = raw as Record<string, unknown>;
+  if (!isNumber(d.width) || !isNumber(d.height) || d.width <= 0 || d.height <= 0) return null;
+  const size = { width: d.width, height: d.height };
+
+  if (!Array.isArray(d.layers)) return createSketchDocument(size, parseObjects(d.objects));
+  const layers = d.layers.map(parseLayer).filter((l): l is SketchLayer => !!l);
+  if (layers.length === 0) return createSketchDocument(size);
+  return { version: SKETCH_DOCUMENT_VERSION, ...size, layers };
+}
+
+// Move every coordinate by (dx, dy) after scaling by `scale`
+function transformObject(object: SketchObject, scale: number, dx: number, dy: number): SketchObject {
+  switch (object.type) {
+    case 'stroke':
+      return {
+        ...object,
+        points: object.points.map((v, i) => v * scale + (i % 2 === 0 ? dx : dy)),
+        width: object.width * scale,
+      };
+    case 'shape':
+      return {
+        ...object,
+        x1: object.x1 * scale + dx,
+        y1: object.y1 * scale + dy,
+        x2: object.x2 * scale + dx,
+        y2: object.y2 * scale + dy,
+        width: object.width * scale,
+      };
+    case 'text':
+      return { ...object, x: object.x * scale + dx, y: object.y * scale + dy, fontSize: object.fontSize * scale };
+    case 'image':
+      return {
+        ...object,
+        x: object.x * scale + dx,
+        y: object.y * scale + dy,
+        width: object.width * scale,
+        height: object.height * scale,
+      };
+  }
+}
+
+export function translateObject(object: SketchObject, dx: number, dy: number): SketchObject {
+  return transformObject(object, 1, dx, dy);
+}
+
+/**
+ * Document resized to `size`. Documents drawn before an aspect ratio change
+ * are letterboxed rather than stretched, like sketch images.
+ */
+export function fitSketchDocument(doc: SketchDocument, size: Size): SketchDocument {
+  if (doc.width === size.width && doc.height === size.height) return doc;
+  const scale = Math.min(size.width / doc.width, size.height / doc.height);
+  const dx = (size.width - doc.width * scale) / 2;
+  const dy = (size.height - doc.height * scale) / 2;
+  return {
+    ...doc,
+    width: size.width,
+    height: size.height,
+    layers: doc.layers.map(layer => ({ ...layer, objects: layer.objects.map(o => transformObject(o, scale, dx, dy)) })),
+  };
+}
+
+export function textFont(fontSize: number): string {
+  return `bold ${fontSize}px system-ui, -apple-system, sans-serif`;
+}
+
+/**
+ * Area covered by an object. Text is measured with `ctx`.
+ */
+export function getObjectBounds(object: SketchObject, ctx: CanvasRenderingContext2D): Bounds {
+  switch (object.type) {
+    case 'stroke': {
+      const xs = object.points.filter((_, i) => i % 2 === 0);
+      const ys = object.points.filter((_, i) => i % 2 === 1);
+      const widest = Math.max(...xs.map((_, i) => getStrokeDynamics(object, i).width));
+      const pad = (object.width * widest) / 2;
+      const x = Math.min(...xs) - pad;
+      const y = Math.min(...ys) - pad;
+      return { x, y, width: Math.max(...xs) + pad - x, height: Math.max(...ys) + pad - y };
+    }
+    case 'shape': {
+      const pad = object.filled && object.shape !== 'line' && object.shape !== 'arrow' ? 0 : object.width / 2;
+      const x = Math.min(object.x1, object.x2) - pad;
+      const y = Math.min(object.y1, object.y2) - pad;
+      return {
+        x,
+        y,
+        width: Math.abs(object.x2 - object.x1) + pad * 2,
+        height: Math.abs(object.y2 - object.y1) + pad * 2,
+      };
+    }
+    case 'text': {
+      ctx.save();
+      ctx.font = textFont(object.fontSize);
+      const width = ctx.measureText(object.text).width;
+      ctx.restore();
+      return { x: object.x, y: object.y, width, height: object.fontSize * 1.2 };
+    }
+    case 'image':
+      return { x: object.x, y: object.y, width: object.width, height: object.height };
+  }
+}
+
+function distanceToSegment(px: number, py: number, x1: number, y1: number, x2: number, y2: number): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSq));
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+}
+
+function containsPoint(bounds: Bounds, x: number, y: number, tolerance = 0): boolean {
+  return x >= bounds.x - tolerance && x <= bounds.x + bounds.width + tolerance &&
+    y >= bounds.y - tolerance && y <= bounds.y + bounds.height + tolerance;
+}
+
+/**
+ * Topmost object under a point. Eraser strokes can't be picked.
+ * @param tolerance - Extra distance (sketch pixels) that still counts as a hit on thin lines
+ */
+export function hitTestObjects(
+  objects: SketchObject[],
+  point: { x: number; y: number },
+  ctx: CanvasRenderingContext2D,
+  tolerance = 6
+): SketchObject | null {
+  for (let i = objects.length - 1; i >= 0; i--) {
+    const object = objects[i];
+    if (object.type === 'stroke') {
+      if (object.erase) continue;
+      const reach = object.width / 2 + tolerance;
+      const { points } = object;
+      if (points.length === 2 && Math.hypot(point.x - points[0], point.y - points[1]) <= reach) return object;
+      for (let p = 2; p < points.length; p += 2) {
+        if (distanceToSegment(point.x, point.y, points[p - 2], points[p - 1], points[p], points[p + 1]) <= reach) {
+          return object;
+        }
+      }
+    } else if (object.type === 'shape' && (object.shape === 'line' || object.shape === 'arrow')) {
+      if (distanceToSegment(point.x, point.y, object.x1, object.y1, object.x2, object.y2) <= object.width / 2 + tolerance) {
+        return object;
+      }
+    } else if (containsPoint(getObjectBounds(object, ctx), point.x, point.y, tolerance)) {
+      return object;
+    }
+  }
+  return null;
+}
+
+// One segment of a stroke; sketchy strokes draw a wobbly line plus a faint pencil shadow
+export function drawStrokeSegment(
+  ctx: CanvasRenderingContext2D,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  stroke: Pick<SketchStroke, 'color' | 'width' | 'sketchy'>,
+  random: () => number
+): void {
+  ctx.strokeStyle = stroke.color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  const midX = (from.x + to.x) / 2;
+  const midY = (from.y + to.y) / 2;
+
+  if (!stroke.sketchy) {
+    ctx.lineWidth = stroke.width;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.quadraticCurveTo(midX, midY, to.x, to.y);
+    ctx.stroke();
+    return;
+  }
+
+  // Primary stroke with a 5-8px wobble and a slightly varied width
+  const wobbleAmount = 5 + random() * 3;
+  const wobbleX = midX + (random() - 0.5) * wobbleAmount;
+  const wobbleY = midY + (random() - 0.5) * wobbleAmount;
+  ctx.lineWidth = stroke.width * (0.9 + random() * 0.2);
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.quadraticCurveTo(wobbleX, wobbleY, to.x, to.y);
+  ctx.stroke();
+
+  const alpha = ctx.globalAlpha;
+  ctx.globalAlpha = alpha * 0.25;
+  ctx.lineWidth = stroke.width * 0.6;
+  ctx.beginPath();
+  ctx.moveTo(from.x + (random() - 0.5) * 3, from.y + (random() - 0.5) * 3);
+  ctx.quadraticCurveTo(
+    wobbleX + (random() - 0.5) * 4,
+    wobbleY + (random() - 0.5) * 4,
+    to.x + (random() - 0.5) * 3,
+    to.y + (random() - 0.5) * 3
+  );
+  ctx.stroke();
+  ctx.globalAlpha = alpha;
+}
+
+// Round dot at the start of a stroke, so single taps leave a mark
+export function drawStrokeStart(ctx: CanvasRenderingContext2D, point: { x: number; y: number }, color: string, width: number): void {
+  ctx.beginPath();
+  ctx.arc(point.x, point.y, width / 2, 0, Math.PI * 2);
+  ctx.fillStyle = color;
+  ctx.fill();
+}
+
+/**
+ * Width and opacity multipliers at a stroke point. Harder pressure gives a wider, more solid line;
+ * tilting the pen widens it and lightens it, like shading with the side of a pencil.
+ */
+export function getStrokeDynamics(stroke: SketchStroke, index: number): { width: number; alpha: number } {
+  const pressure = stroke.pressure?.[index];
+  const tilt = stroke.tilt?.[index] ?? 0;
+  if (pressure === undefined) return { width: 1, alpha: 1 };
+  return {
+    width: (0.3 + 0.9 * pressure) * (1 + tilt * 1.5),
+    alpha: (0.45 + 0.55 * pressure) * (1 - tilt * 0.4),
+  };
+}
+
+/**
+ * Draw the part of a stroke that ends at point `index`: the start dot for the first point,
+ * otherwise the segment from the previous point. Drawing every point in order with one
+ * `createRandom(stroke.seed)` sequence renders the whole stroke, live or from the document.
+ */
+export function drawStrokePoint(
+  ctx: CanvasRenderingContext2D,
+  stroke: SketchStroke,
+  index: number,
+  random: () => number
+): void {
+  const { points } = stroke;
+  const dynamics = getStrokeDynamics(stroke, index);
+  const alpha = ctx.globalAlpha;
+  ctx.globalAlpha = alpha * dynamics.alpha;
+
+  if (index === 0) {
+    drawStrokeStart(ctx, { x: points[0], y: points[1] }, stroke.color, stroke.width * dynamics.width);
+  } else {
+    drawStrokeSegment(
+      ctx,
+      { x: points[index * 2 - 2], y: points[index * 2 - 1] },
+      { x: points[index * 2], y: points[index * 2 + 1] },
+      { color: stroke.color, width: stroke.width * dynamics.width, sketchy: stroke.sketchy },
+      random
+    );
+  }
+  ctx.globalAlpha = alpha;
+}
+
+export function drawArrow(
+  ctx: CanvasRenderingContext2D,
+  fromX: number,
+  fromY: number,
+  toX: number,
+  toY: number,
+  color: string,
+  lineWidth: number
+): void {
+  const headLength = Math.max(lineWidth * 3, 15);
+  const angle = Math.atan2(toY - fromY, toX - fromX);
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  ctx.beginPath();
+  ctx.moveTo(fromX, fromY);
+  ctx.lineTo(toX, toY);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(toX, toY);
+  ctx.lineTo(toX - headLength * Math.cos(angle - Math.PI / 6), toY - headLength * Math.sin(angle - Math.PI / 6));
+  ctx.moveTo(toX, toY);
+  ctx.lineTo(toX - headLength * Math.cos(angle + Math.PI / 6), toY - headLength * Math.sin(angle + Math.PI / 6));
+  ctx.stroke();
+}
+
+export function drawShape(ctx: CanvasRenderingContext2D, shape: Omit<SketchShape, 'type' | 'id'>): void {
+  const { x1, y1, x2, y2, color, width, filled } = shape;
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = width;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (shape.shape) {
+    case 'line':
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+      ctx.stroke();
+      break;
+    case 'rectangle':
+      if (filled) ctx.fillRect(x1, y1, x2 - x1, y2 - y1);
+      else ctx.strokeRect(x1, y1, x2 - x1, y2 - y1);
+      break;
+    case 'ellipse':
+      ctx.beginPath();
+      ctx.ellipse((x1 + x2) / 2, (y1 + y2) / 2, Math.abs(x2 - x1) / 2, Math.abs(y2 - y1) / 2, 0, 0, Math.PI * 2);
+      if (filled) ctx.fill();
+      else ctx.stroke();
+      break;
+    case 'arrow':
+      drawArrow(ctx, x1, y1, x2, y2, color, width);
+      break;
+  }
+}
+
+function drawObject(ctx: CanvasRenderingContext2D, object: SketchObject, images: SketchImageCache): void {
+  switch (object.type) {
+    case 'stroke': {
+      ctx.globalCompositeOperation = object.erase ? 'destination-out' : 'source-over';
+      const random = createRandom(object.seed);
+      for (let i = 0; i < object.points.length / 2; i++) {
+        drawStrokePoint(ctx, object, i, random);
+      }
+      ctx.globalCompositeOperation = 'source-over';
+      break;
+    }
+    case 'shape':
+      drawShape(ctx, object);
+      break;
+    case 'text':
+      ctx.font = textFont(object.fontSize);
+      ctx.fillStyle = object.color;
+      ctx.textBaseline = 'top';
+      ctx.fillText(object.text, object.x, object.y);
+      break;
+    case 'image': {
+      const image = images.get(object.src);
+      if (!image) break;
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(image, object.x, object.y, object.width, object.height);
+      break;
+    }
+  }
+}
+
+/**
+ * Draw objects onto a transparent context in sketch coordinates.
+ * Images that aren't in `images` yet are skipped (see loadSketchImages).
+ */
+export function renderSketchObjects(
+  ctx: CanvasRenderingContext2D,
+  objects: SketchObject[],
+  images: SketchImageCache
+): void {
+  ctx.save();
+  objects.forEach(object => drawObject(ctx, object, images));
+  ctx.restore();
+}
+
+export function drawSketchBackground(ctx: CanvasRenderingContext2D, size: Size, grid: boolean): void {
+  ctx.fillStyle = SKETCH_BACKGROUND;
+  ctx.fillRect(0, 0, size.width, size.height);
+  if (!grid) return;
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+  for (let x = 0; x < size.width; x += GRID_SPACING) {
+    for (let y = 0; y < size.height; y += GRID_SPACING) {
+      ctx.beginPath();
+      ctx.arc(x, y, 1, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+}
+
+/**
+ * Render a whole document: background (and, in the editor, the dot grid), then its visible layers.
+ * Each layer is drawn on its own surface first, so eraser strokes only cut into their own layer,
+ * and then blended in at the layer's opacity.
+ * @param pixelRatio - Device pixels per sketch pixel of the target context
+ * @param excludeNotes - Leave out "notes only" layers, e.g. for the image sent to polish
+ */
+export function renderSketchDocument(
+  ctx: CanvasRenderingContext2D,
+  doc: SketchDocument,
+  images: SketchImageCache,
+  options: { grid?: boolean; pixelRatio?: number; excludeNotes?: boolean } = {}
+): void {
+  const { grid = false, pixelRatio = 1, excludeNotes = false } = options;
+  const size = { width: doc.width, height: doc.height };
+
+  const content = document.createElement('canvas');
+  content.width = Math.round(doc.width * pixelRatio);
+  content.height = Math.round(doc.height * pixelRatio);
+  const contentCtx = content.getContext('2d');
+
+  ctx.save();
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  drawSketchBackground(ctx, size, grid);
+  if (contentCtx) {
+    contentCtx.scale(pixelRatio, pixelRatio);
+    doc.layers.forEach(layer => {
+      if (!layer.visible || layer.opacity <= 0 || layer.objects.length === 0) return;
+      if (excludeNotes && layer.notesOnly) return;
+      contentCtx.clearRect(0, 0, doc.width, doc.height);
+      renderSketchObjects(contentCtx, layer.objects, images);
+      ctx.globalAlpha = layer.opacity;
+      ctx.drawImage(content, 0, 0, doc.width, doc.height);
+    });
+  }
+  ctx.restore();
+}
+
+/**
+ * The document flattened to a PNG data URL (no grid): the frame's sketch image,
+ * or with `excludeNotes` the image sent to polish
+ */
+export function flattenSketchDocument(
+  doc: SketchDocument,
+  images: SketchImageCache,
+  options: { pixelRatio?: number; excludeNotes?: boolean } = {}
+): string | null {
+  const { pixelRatio = 1, excludeNotes = false } = options;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(doc.width * pixelRatio);
+  canvas.height = Math.round(doc.height * pixelRatio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  renderSketchDocument(ctx, doc, images, { pixelRatio, excludeNotes });
+  return canvas.toDataURL('image/png');
+}
+
+// Whether anything would be drawn, e.g. before sending a sketch to polish
+export function hasVisibleContent(doc: SketchDocument, options: { excludeNotes?: boolean } = {}): boolean {
+  return doc.layers.some(layer =>
+    layer.visible &&
+    layer.opacity > 0 &&
+    !(options.excludeNotes && layer.notesOnly) &&
+    layer.objects.some(o => !(o.type === 'stroke' && o.erase))
+  );
+}
+
+/**
+ * Image to polish for a frame's saved sketch. The stored sketch image includes notes layers,
+ * so documents with notes are rendered again without them.
+ */
+export async function renderPolishSource(
+  doc: SketchDocument | null | undefined,
+  sketchUrl: string
+): Promise<string> {
+  const hasNotes = doc?.layers.some(layer => layer.notesOnly && layer.objects.length > 0);
+  if (!doc || !hasNotes) return sketchUrl;
+
+  if (!hasVisibleContent(doc, { excludeNotes: true })) {
+    throw new Error('Only notes layers have drawing on them');
+  }
+  const images: SketchImageCache = new Map();
+  await loadSketchImages(getDocumentObjects(doc), images);
+  const polishSource = flattenSketchDocument(doc, images, { pixelRatio: window.devicePixelRatio || 1, excludeNotes: true });
+  if (!polishSource) throw new Error('Could not render sketch');
+  return polishSource;
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+}
+
+/**
+ * Decode the images used by `objects` into `cache`. Images that fail to load are left out.
+ */
+export async function loadSketchImages(objects: SketchObject[], cache: SketchImageCache): Promise<void> {
+  const missing = [...new Set(
+    objects.filter((o): o is SketchImage => o.type === 'image').map(o => o.src)
+  )].filter(src => !cache.has(src));
+
+  await Promise.all(missing.map(async src => {
+    try {
+      cache.set(src, await loadImage(src));
+    } catch (err) {
+      console.warn('Could not load sketch image:', err);
+    }
+  }));
+}
+
+// Size and position of an image scaled to fit within `fit` of the sketch (or up as well, with `upscale`), centred
+function fitImage(image: HTMLImageElement, size: Size, fit: number, upscale: boolean): Bounds {
+  const scale = Math.min(
+    upscale ? Infinity : 1,
+    (size.width * fit) / image.naturalWidth,
+    (size.height * fit) / image.naturalHeight
+  );
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+  return { x: (size.width - width) / 2, y: (size.height - height) / 2, width, height };
+}
+
+/**
+ * Image object for a picture placed in the sketch: scaled down to fit within `fit` of the
+ * sketch (or up as well, with `upscale`) and centred, with the pixels kept as a data URL
+ * until the document is saved
+ */
+export function createImageObject(
+  image: HTMLImageElement,
+  size: Size,
+  options: { fit?: number; upscale?: boolean } = {}
+): SketchImage | null {
+  const { fit = 1, upscale = false } = options;
+  const { x, y, width, height } = fitImage(image, size, fit, upscale);
+
+  // Stored at twice the sketch scale so it stays sharp on high-density screens
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.min(image.naturalWidth, width * 2);
+  canvas.height = Math.min(image.naturalHeight, height * 2);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  try {
+    return {
+      type: 'image',
+      id: createObjectId(),
+      x,
+      y,
+      width,
+      height,
+      src: canvas.toDataURL('image/png'),
+    };
+  } catch (err) {
+    // Tainted canvas (image served without CORS headers)
+    console.warn('Could not read image pixels:', err);
+    return null;
+  }
+}
+
+/**
+ * Document for a frame that only has a sketch image: the image becomes a single,
+ * letterboxed image object pointing at the same file. An empty document when there
+ * is no image or it can't be read.
+ */
+export async function documentFromImage(url: string | null | undefined, size: Size): Promise<SketchDocument> {
+  if (!url) return createSketchDocument(size);
+  try {
+    const image = await loadImage(url);
+    const object: SketchImage = { type: 'image', id: createObjectId(), ...fitImage(image, size, 1, true), src: url };
+    return createSketchDocument(size, [object]);
+  } catch (err) {
+    console.warn('Could not load sketch image:', err);
+    return createSketchDocument(size);
+  }
+}
+
+// Storage URLs of a document's images, e.g. to keep their files while the document is in use
+export function sketchImageUrls(doc: SketchDocument | null | undefined): string[] {
+  if (!doc) return [];
+  return [...new Set(
+    getDocumentObjects(doc)
+      .filter((o): o is SketchImage => o.type === 'image' && !o.src.startsWith('data:'))
+      .map(o => o.src)
+  )];
+}
+
+/**
+ * Document with every image source replaced by `fn`, called once per distinct source.
+ * Images mapped to null are left out.
+ */
+export async function mapSketchImages(
+  doc: SketchDocument,
+  fn: (image: SketchImage) => Promise<string | null>
+): Promise<SketchDocument> {
+  const sources = new Map<string, Promise<string | null>>();
+  const layers = await Promise.all(doc.layers.map(async layer => {
+    const objects = await Promise.all(layer.objects.map(async object => {
+      if (object.type !== 'image') return object;
+      if (!sources.has(object.src)) sources.set(object.src, fn(object));
+      const src = await sources.get(object.src)!;
+      return src === null ? null : src === object.src ? object : { ...object, src };
+    }));
+    return { ...layer, objects: objects.filter((o): o is SketchObject => !!o) };
+  }));
+  return { ...doc, layers };
+}
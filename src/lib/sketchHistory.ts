@@ -0,0 +1,156 @@
+/**
+ * Undo history for sketch documents.
+ * Each step is stored as a change between two documents rather than a copy of the drawing:
+ * the objects added to or removed from each layer, and the layer stack before and after when
+ * layers were added, removed, reordered or edited. Objects are immutable and shared with the
+ * documents, so a step costs little more than the objects it touches and history needs no cap.
+ */
+
+import type { SketchDocument, SketchLayer, SketchObject } from './sketchDocument';
+
+interface IndexedObject {
+  index: number;
+  object: SketchObject;
+}
+
+// Objects leaving and entering one layer, with their positions in the before/after lists
+export interface ObjectChange {
+  layerId: string;
+  removed: IndexedObject[];
+  added: IndexedObject[];
+}
+
+type LayerProps = Omit<SketchLayer, 'objects'>;
+
+interface LayerEntry {
+  layer: LayerProps;
+  // Only for layers missing on the other side of the change (added or deleted layers)
+  objects?: SketchObject[];
+}
+
+export interface SketchChange {
+  // Shown in the history panel, e.g. "Pen stroke"
+  label: string;
+  objects: ObjectChange[];
+  // Whole layer stack, only when it changed
+  layers: { before: LayerEntry[]; after: LayerEntry[] } | null;
+}
+
+export interface SketchHistorySession {
+  // Document the history starts from
+  base: SketchDocument;
+  changes: SketchChange[];
+  // Number of changes applied; lower after undo
+  index: number;
+  // Saved states by signature, so reopening a frame can pick up where its history was
+  checkpoints: Array<{ signature: string; index: number }>;
+}
+
+function layerProps({ objects: _objects, ...props }: SketchLayer): LayerProps {
+  return props;
+}
+
+function sameLayerProps(a: SketchLayer, b: SketchLayer): boolean {
+  return a.id === b.id && a.name === b.name && a.visible === b.visible && a.locked === b.locked &&
+    a.opacity === b.opacity && a.notesOnly === b.notesOnly;
+}
+
+function diffObjects(layerId: string, before: SketchObject[], after: SketchObject[]): ObjectChange | null {
+  const beforeById = new Map(before.map(o => [o.id, o]));
+  const afterById = new Map(after.map(o => [o.id, o]));
+  // Objects edited in place (moved, restyled) have a new object with the same id: removed and re-added
+  const kept = (o: SketchObject, other: Map<string, SketchObject>) => other.get(o.id) === o;
+
+  const keptBefore = before.filter(o => kept(o, afterById));
+  const keptAfter = after.filter(o => kept(o, beforeById));
+  const indexed = (objects: SketchObject[]) => objects.map((object, index) => ({ index, object }));
+
+  // Replaying by position needs the untouched objects in the same order; otherwise store the whole list
+  if (keptBefore.some((o, i) => keptAfter[i] !== o)) {
+    return { layerId, removed: indexed(before), added: indexed(after) };
+  }
+
+  const removed = indexed(before).filter(({ object }) => !kept(object, afterById));
+  const added = indexed(after).filter(({ object }) => !kept(object, beforeById));
+  return removed.length || added.length ? { layerId, removed, added } : null;
+}
+
+/**
+ * Change that turns `before` into `after`, or null when nothing changed
+ */
+export function diffSketchDocuments(before: SketchDocument, after: SketchDocument, label: string): SketchChange | null {
+  const beforeLayers = new Map(before.layers.map(l => [l.id, l]));
+  const afterLayers = new Map(after.layers.map(l => [l.id, l]));
+
+  const objects = after.layers
+    .map(layer => {
+      const previous = beforeLayers.get(layer.id);
+      return previous && previous.objects !== layer.objects ? diffObjects(layer.id, previous.objects, layer.objects) : null;
+    })
+    .filter((c): c is ObjectChange => !!c);
+
+  const stackChanged = before.layers.length !== after.layers.length ||
+    before.layers.some((layer, i) => !sameLayerProps(layer, after.layers[i]));
+  const layers = stackChanged
+    ? {
+        before: before.layers.map(l => ({ layer: layerProps(l), objects: afterLayers.has(l.id) ? undefined : l.objects })),
+        after: after.layers.map(l => ({ layer: layerProps(l), objects: beforeLayers.has(l.id) ? undefined : l.objects })),
+      }
+    : null;
+
+  return objects.length || layers ? { label, objects, layers } : null;
+}
+
+function replaceObjects(objects: SketchObject[], remove: IndexedObject[], add: IndexedObject[]): SketchObject[] {
+  const removeIds = new Set(remove.map(r => r.object.id));
+  const next = objects.filter(o => !removeIds.has(o.id));
+  [...add].sort((a, b) => a.index - b.index).forEach(({ index, object }) => next.splice(index, 0, object));
+  return next;
+}
+
+function applyObjectChanges(layers: SketchLayer[], changes: ObjectChange[], forward: boolean): SketchLayer[] {
+  return layers.map(layer => {
+    const change = changes.find(c => c.layerId === layer.id);
+    if (!change) return layer;
+    const objects = forward
+      ? replaceObjects(layer.objects, change.removed, change.added)
+      : replaceObjects(layer.objects, change.added, change.removed);
+    return { ...layer, objects };
+  });
+}
+
+function applyLayerStack(layers: SketchLayer[], entries: LayerEntry[]): SketchLayer[] {
+  const current = new Map(layers.map(l => [l.id, l]));
+  return entries.map(({ layer, objects }) => ({ ...layer, objects: objects ?? current.get(layer.id)?.objects ?? [] }));
+}
+
+/**
+ * Redo (`forward`) or undo a change
+ */
+export function applySketchChange(doc: SketchDocument, change: SketchChange, forward: boolean): SketchDocument {
+  let layers = doc.layers;
+  if (forward) {
+    layers = applyObjectChanges(layers, change.objects, true);
+    if (change.layers) layers = applyLayerStack(layers, change.layers.after);
+  } else {
+    if (change.layers) layers = applyLayerStack(layers, change.layers.before);
+    layers = applyObjectChanges(layers, change.objects, false);
+  }
+  return { ...doc, layers };
+}
+
+/**
+ * Document after the first `index` changes of a session
+ */
+export function documentAtIndex(session: SketchHistorySession, index: number): SketchDocument {
+  return session.changes.slice(0, index).reduce((doc, change) => applySketchChange(doc, change, true), session.base);
+}
+
+/**
+ * Fingerprint of a document's content, to recognise a saved state when the frame is reopened.
+ * Image sources are left out: an image keeps its object id when saving swaps its data URL
+ * for a storage URL.
+ */
+export function documentSignature(doc: SketchDocument): string {
+  return JSON.stringify(doc, (key, value) => (key === 'src' ? undefined : value));
+}
@@ -0,0 +1,217 @@
+import type { Board, Frame } from '@/hooks/useBoard';
+import { supabase } from './supabase';
+import { AspectRatio, normalizeAspectRatio } from './aspectRatio';
+import { normalizeShotMetadata } from './shotMetadata';
+import { normalizeSketchDocument, sketchImageUrls } from './sketchDocument';
+import { isFrameProtected, normalizeFrameStatus } from './frameStatus';
+import { valuesEqual } from './utils';
+
+/**
+ * Board snapshots (version history).
+ * A snapshot is the board's content at one point in time: everything in `Board`
+ * except its ID and review comments, which are conversation rather than content.
+ * Sharing settings are access control, not content, so they aren't captured either
+ * (older snapshots that still carry them are read without them).
+ */
+
+export type BoardSnapshotData = Omit<Board, 'id' | 'comments' | 'sharingSettings'>;
+
+export type SnapshotKind = 'manual' | 'auto';
+
+// Take an automatic snapshot when a board is opened and the last one is older than this
+export const AUTO_SNAPSHOT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// Oldest automatic snapshots beyond this are pruned (manual ones are kept)
+export const AUTO_SNAPSHOT_LIMIT = 20;
+
+// Images still waiting in the offline outbox are data URLs; they aren't stored in snapshots
+const remoteUrl = (url: string | null) => (url && !url.startsWith('data:') ? url : null);
+
+export function captureBoard(board: Board): BoardSnapshotData {
+  return {
+    name: board.name,
+    readingDirection: board.readingDirection,
+    aspectRatio: board.aspectRatio,
+    frames: board.frames.map(f => ({
+      ...f,
+      sketchUrl: remoteUrl(f.sketchUrl),
+      // A document without the sketch it was rendered from would be restored as the wrong drawing
+      sketchDocument: remoteUrl(f.sketchUrl) ? f.sketchDocument : null,
+      polishedUrl: remoteUrl(f.polishedUrl),
+      thumbnailUrl: remoteUrl(f.thumbnailUrl),
+    })),
+    connections: board.connections,
+    scenes: board.scenes,
+    cuts: board.cuts,
+  };
+}
+
+// Fill in fields missing from snapshots taken before they existed
+export function parseSnapshotData(raw: unknown): BoardSnapshotData {
+  const data = (raw || {}) as Partial<BoardSnapshotData>;
+  return {
+    name: data.name || 'Untitled Board',
+    readingDirection: data.readingDirection || 'ltr',
+    aspectRatio: normalizeAspectRatio(data.aspectRatio),
+    frames: (data.frames || []).map(f => ({
+      ...f,
+      status: normalizeFrameStatus(f.status),
+      shot: normalizeShotMetadata(f.shot),
+      sketchDocument: normalizeSketchDocument(f.sketchDocument),
+      version: f.version ?? 1,
+    })),
+    connections: data.connections || [],
+    scenes: data.scenes || [],
+    cuts: data.cuts || [],
+  };
+}
+
+export type FrameChangeType = 'added' | 'removed' | 'edited' | 'moved' | 'unchanged';
+
+export interface FrameDiff {
+  id: string;
+  change: FrameChangeType;
+  before: Frame | null;
+  after: Frame | null;
+  // Labels of edited fields (for 'edited')
+  fields: string[];
+}
+
+export interface SnapshotDiff {
+  frames: FrameDiff[];
+  connectionsAdded: number;
+  connectionsRemoved: number;
+  connectionsChanged: number;
+  scenesAdded: number;
+  scenesRemoved: number;
+  cutsAdded: number;
+  cutsRemoved: number;
+  nameChanged: { before: string; after: string } | null;
+  aspectRatioChanged: { before: AspectRatio; after: AspectRatio } | null;
+}
+
+const FRAME_FIELD_LABELS: Array<[keyof Frame, string]> = [
+  ['title', 'title'],
+  ['sketchUrl', 'sketch'],
+  ['polishedUrl', 'polished image'],
+  ['status', 'status'],
+  ['motionNotes', 'motion notes'],
+  ['animationStyle', 'animation'],
+  ['durationMs', 'duration'],
+  ['shot', 'shot details'],
+  ['sceneId', 'scene'],
+];
+
+const countAdded = <T extends { id: string }>(before: T[], after: T[]) => {
+  const ids = new Set(before.map(item => item.id));
+  return after.filter(item => !ids.has(item.id)).length;
+};
+
+/**
+ * Compare two versions of a board. Frames, connections, scenes and cuts are matched by ID.
+ * Frames that changed content are 'edited' even if they also moved.
+ */
+export function diffSnapshots(before: BoardSnapshotData, after: BoardSnapshotData): SnapshotDiff {
+  const beforeFrames = new Map(before.frames.map(f => [f.id, f]));
+  const afterFrames = new Map(after.frames.map(f => [f.id, f]));
+
+  const frames: FrameDiff[] = [];
+  after.frames.forEach(frame => {
+    const previous = beforeFrames.get(frame.id);
+    if (!previous) {
+      frames.push({ id: frame.id, change: 'added', before: null, after: frame, fields: [] });
+      return;
+    }
+    const fields = FRAME_FIELD_LABELS
+      .filter(([key]) => !valuesEqual(previous[key] ?? null, frame[key] ?? null))
+      .map(([, label]) => label);
+    const moved = previous.x !== frame.x || previous.y !== frame.y;
+    const change = fields.length > 0 ? 'edited' : moved ? 'moved' : 'unchanged';
+    frames.push({ id: frame.id, change, before: previous, after: frame, fields });
+  });
+  before.frames
+    .filter(frame => !afterFrames.has(frame.id))
+    .forEach(frame => frames.push({ id: frame.id, change: 'removed', before: frame, after: null, fields: [] }));
+
+  const beforeConnections = new Map(before.connections.map(c => [c.id, c]));
+  const connectionsChanged = after.connections.filter(c => {
+    const previous = beforeConnections.get(c.id);
+    return previous && (
+      previous.transitionType !== c.transitionType ||
+      previous.transitionDurationMs !== c.transitionDurationMs ||
+      (previous.branchLabel ?? null) !== (c.branchLabel ?? null)
+    );
+  }).length;
+
+  return {
+    frames,
+    connectionsAdded: countAdded(before.connections, after.connections),
+    connectionsRemoved: countAdded(after.connections, before.connections),
+    connectionsChanged,
+    scenesAdded: countAdded(before.scenes, after.scenes),
+    scenesRemoved: countAdded(after.scenes, before.scenes),
+    cutsAdded: countAdded(before.cuts, after.cuts),
+    cutsRemoved: countAdded(after.cuts, before.cuts),
+    nameChanged: before.name !== after.name ? { before: before.name, after: after.name } : null,
+    aspectRatioChanged: before.aspectRatio !== after.aspectRatio
+      ? { before: before.aspectRatio, after: after.aspectRatio }
+      : null,
+  };
+}
+
+// Approved or locked frames that restoring `snapshot` over `current` would edit or remove.
+// They have to be reopened before the restore.
+export function findProtectedFrameChanges(current: BoardSnapshotData, snapshot: BoardSnapshotData): Frame[] {
+  return diffSnapshots(current, snapshot).frames
+    .filter(diff => diff.before && isFrameProtected(diff.before.status) && (diff.change === 'edited' || diff.change === 'removed'))
+    .map(diff => diff.before!);
+}
+
+// One line per kind of change, for the history panel
+export function summarizeDiff(diff: SnapshotDiff): string[] {
+  const count = (n: number, word: string) => `${n} ${word}${n !== 1 ? 's' : ''}`;
+  const byChange = (change: FrameChangeType) => diff.frames.filter(f => f.change === change).length;
+  const lines: string[] = [];
+
+  if (diff.nameChanged) lines.push(`Renamed "${diff.nameChanged.before}" → "${diff.nameChanged.after}"`);
+  if (diff.aspectRatioChanged) {
+    lines.push(`Aspect ratio ${diff.aspectRatioChanged.before} → ${diff.aspectRatioChanged.after}`);
+  }
+  if (byChange('added')) lines.push(`${count(byChange('added'), 'frame')} added`);
+  if (byChange('removed')) lines.push(`${count(byChange('removed'), 'frame')} removed`);
+  if (byChange('edited')) lines.push(`${count(byChange('edited'), 'frame')} edited`);
+  if (byChange('moved')) lines.push(`${count(byChange('moved'), 'frame')} moved`);
+  if (diff.connectionsAdded) lines.push(`${count(diff.connectionsAdded, 'connection')} added`);
+  if (diff.connectionsRemoved) lines.push(`${count(diff.connectionsRemoved, 'connection')} removed`);
+  if (diff.connectionsChanged) lines.push(`${count(diff.connectionsChanged, 'transition')} changed`);
+  if (diff.scenesAdded || diff.scenesRemoved) {
+    lines.push(`Scenes: +${diff.scenesAdded} / −${diff.scenesRemoved}`);
+  }
+  if (diff.cutsAdded || diff.cutsRemoved) {
+    lines.push(`Cuts: +${diff.cutsAdded} / −${diff.cutsRemoved}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Image URLs referenced by a board's snapshots. Their storage objects must be kept
+ * when frames are deleted, or restoring the snapshot would bring back broken images.
+ */
+export async function fetchSnapshotImageUrls(boardId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('board_snapshots')
+    .select('data')
+    .eq('board_id', boardId);
+
+  if (error) throw error;
+
+  const urls = new Set<string>();
+  (data || []).forEach(row => {
+    parseSnapshotData(row.data).frames.forEach(frame => {
+      if (frame.sketchUrl) urls.add(frame.sketchUrl);
+      if (frame.polishedUrl) urls.add(frame.polishedUrl);
+      sketchImageUrls(frame.sketchDocument).forEach(url => urls.add(url));
+    });
+  });
+  return urls;
+}
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { SketchDocument, mapSketchImages } from './sketchDocument';
 
 /**
  * Upload a frame image (sketch or polished) to Supabase Storage
@@ -6,7 +7,8 @@ import { supabase } from './supabase';
  * @param boardId - Board ID
  * @param frameId - Frame ID
  * @param dataUrl - Base64 data URL of the image
- * @param type - Type of image (sketch or polished)
+ * @param type - Type of image (sketch, polished, or an image placed in a sketch document)
+ * @param key - Optional stable file key, so retrying the same upload overwrites one file
  * @returns Public URL of the uploaded image, or null if failed
  */
 export async function uploadFrameImage(
@@ -14,22 +16,26 @@ export async function uploadFrameImage(
   boardId: string,
   frameId: string,
   dataUrl: string,
-  type: 'sketch' | 'polished'
+  type: 'sketch' | 'polished' | 'image',
+  key?: string
 ): Promise<string | null> {
   try {
-    // Convert base64 data URL to blob
-    const base64 = dataUrl.replace(/^data:image\/\w+;base64,/, '');
-    const buffer = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
-    const blob = new Blob([buffer], { type: 'image/png' });
+    // Convert base64 data URL to blob, keeping its image type (e.g. image/jpeg, image/svg+xml)
+    const match = dataUrl.match(/^data:(image\/[\w.+-]+);base64,/);
+    if (!match) throw new Error('Not a base64 image data URL');
+    const contentType = match[1];
+    const buffer = Uint8Array.from(atob(dataUrl.slice(match[0].length)), c => c.charCodeAt(0));
+    const blob = new Blob([buffer], { type: contentType });
 
-    // Create unique file path
-    const path = `${userId}/${boardId}/${frameId}_${type}_${Date.now()}.png`;
+    // Create unique file path ("svg+xml" is stored as .svg)
+    const extension = contentType.slice('image/'.length).split('+')[0];
+    const path = `${userId}/${boardId}/${frameId}_${type}_${key ?? Date.now()}.${extension}`;
 
     // Upload to Supabase Storage
     const { error } = await supabase.storage
       .from('frames')
       .upload(path, blob, {
-        contentType: 'image/png',
+        contentType,
         upsert: true // Replace if exists
       });
 
@@ -47,6 +53,26 @@ export async function uploadFrameImage(
   }
 }
 
+/**
+ * Upload the images a sketch document still holds as data URLs, so the stored document
+ * only points at files. Each file is named after its image object, so a retry overwrites it.
+ * @returns The document with storage URLs
+ * @throws Error if an image can't be uploaded
+ */
+export async function uploadSketchImages(
+  userId: string,
+  boardId: string,
+  frameId: string,
+  doc: SketchDocument
+): Promise<SketchDocument> {
+  return mapSketchImages(doc, async image => {
+    if (!image.src.startsWith('data:')) return image.src;
+    const url = await uploadFrameImage(userId, boardId, frameId, image.src, 'image', image.id);
+    if (!url) throw new Error('Failed to upload sketch image');
+    return url;
+  });
+}
+
 /**
  * Delete a frame image from storage
  * @param url - Public URL of the image to delete
@@ -1,4 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
+import type { ShotMetadata } from './shotMetadata';
+import type { SketchDocument } from './sketchDocument';
+import type { FrameStatus } from './frameStatus';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -24,7 +27,7 @@ export interface DbFrame {
   title: string;
   position_x: number;
   position_y: number;
-  status: 'sketch' | 'polished';
+  status: FrameStatus;
   sketch_url: string | null;
   polished_url: string | null;
   thumbnail_url: string | null;
@@ -32,6 +35,27 @@ export interface DbFrame {
   animation_style: string;
   duration_ms: number;
   sort_order: number;
+  scene_id: string | null;
+  // Structured shot metadata (see lib/shotMetadata)
+  shot: ShotMetadata | null;
+  // Editable objects behind sketch_url (see lib/sketchDocument); null for plain images
+  sketch_document: SketchDocument | null;
+  // Bumped by the database on every update (optimistic concurrency)
+  version: number;
+  created_at: string;
+}
+
+export interface DbScene {
+  id: string;
+  board_id: string;
+  name: string;
+  position_x: number;
+  position_y: number;
+  is_collapsed: boolean;
+  sort_order: number;
+  animation_style: string | null;
+  duration_ms: number | null;
+  polish_style: string | null;
   created_at: string;
 }
 
@@ -41,5 +65,55 @@ export interface DbConnection {
   from_frame_id: string;
   to_frame_id: string;
   transition_type: string;
+  transition_duration_ms: number;
+  branch_label: string | null;
+  created_at: string;
+}
+
+export interface DbComment {
+  id: string;
+  board_id: string;
+  parent_id: string | null;
+  frame_id: string | null;
+  position_x: number | null;
+  position_y: number | null;
+  author_id: string;
+  author_name: string;
+  body: string;
+  resolved: boolean;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface DbBoardSnapshot {
+  id: string;
+  board_id: string;
+  name: string;
+  kind: 'manual' | 'auto';
+  // Serialised BoardSnapshotData (see lib/snapshots)
+  data: unknown;
+  frame_count: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface DbBoardTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  // Serialised TemplateData (see lib/templates)
+  data: unknown;
+  frame_count: number;
+  created_at: string;
+}
+
+export interface DbCut {
+  id: string;
+  board_id: string;
+  name: string;
+  frame_ids: string[];
+  sort_order: number;
   created_at: string;
 }
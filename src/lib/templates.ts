@@ -0,0 +1,304 @@
+import type { Board } from '@/hooks/useBoard';
+import { supabase } from './supabase';
+import {
+  ClipboardFrame,
+  ClipboardConnection,
+  FrameClipboardPayload,
+  CLIPBOARD_FORMAT,
+  CLIPBOARD_VERSION,
+  parseClipboardPayload,
+  imageUrlToDataUrl,
+} from './frameClipboard';
+import { ReadingDirection, normalizeReadingDirection } from './graphLayout';
+import { AspectRatio, ASPECT_RATIOS, DEFAULT_ASPECT_RATIO } from './aspectRatio';
+import { TransitionType, DEFAULT_TRANSITION_DURATION_MS } from './transitions';
+import { uploadFrameImage } from './storage';
+import { FRAME_WIDTH } from './viewport';
+
+/**
+ * Board templates.
+ * Template content uses the frame clipboard format, so applying a template to a board
+ * is a paste, and frames are validated the same way as clipboard payloads.
+ */
+
+export interface TemplateData {
+  readingDirection: ReadingDirection;
+  // Shape of the board the template was saved from; built-ins fit any shape
+  aspectRatio?: AspectRatio;
+  frames: ClipboardFrame[];
+  connections: ClipboardConnection[];
+}
+
+export interface BoardTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  // Built-in templates ship with the app; the rest were saved by the user
+  builtIn: boolean;
+  data: TemplateData;
+}
+
+// Where template frames start on a new board
+const TEMPLATE_ORIGIN = { x: 100, y: 150 };
+const TEMPLATE_GAP_X = 96;
+
+// [title, duration, animation style, motion notes, transition into this shot]
+type TemplateShot = [string, number, string, string, TransitionType?];
+
+// A straight sequence of shots laid out left to right
+function sequence(shots: TemplateShot[]): TemplateData {
+  const frames: ClipboardFrame[] = shots.map(([title, durationMs, animationStyle, motionNotes], index) => ({
+    ref: `shot-${index + 1}`,
+    title,
+    x: TEMPLATE_ORIGIN.x + index * (FRAME_WIDTH + TEMPLATE_GAP_X),
+    y: TEMPLATE_ORIGIN.y,
+    status: 'draft',
+    motionNotes,
+    animationStyle,
+    durationMs,
+    shot: {},
+    sketchUrl: null,
+    sketchDocument: null,
+    polishedUrl: null,
+  }));
+
+  const connections: ClipboardConnection[] = frames.slice(1).map((frame, index) => ({
+    from: frames[index].ref,
+    to: frame.ref,
+    transitionType: shots[index + 1][4] ?? 'cut',
+    transitionDurationMs: DEFAULT_TRANSITION_DURATION_MS,
+    branchLabel: null,
+  }));
+
+  return { readingDirection: 'ltr', frames, connections };
+}
+
+export const BUILT_IN_TEMPLATES: BoardTemplate[] = [
+  {
+    id: 'builtin-30s-ad',
+    name: '30s ad',
+    description: 'Hook, problem, product reveal, features, proof and call to action',
+    builtIn: true,
+    data: sequence([
+      ['Hook', 3000, 'zoom-in', 'Grab attention in the first seconds'],
+      ['Problem', 4000, 'static', 'Show the frustration the product solves', 'cut'],
+      ['Product reveal', 5000, 'zoom-in', 'Hero shot of the product', 'whip-pan'],
+      ['Feature one', 5000, 'pan-left', 'Key benefit in action', 'slide'],
+      ['Feature two', 5000, 'pan-right', 'Second benefit in action', 'slide'],
+      ['Social proof', 4000, 'static', 'Testimonial, rating or logos', 'dissolve'],
+      ['Call to action', 4000, 'zoom-out', 'Logo, offer and where to go next', 'fade'],
+    ]),
+  },
+  {
+    id: 'builtin-explainer',
+    name: 'Explainer',
+    description: 'A one-minute walkthrough of a problem and how it gets solved',
+    builtIn: true,
+    data: sequence([
+      ['Title', 3000, 'static', 'Name and one-line promise'],
+      ['The problem', 8000, 'pan-right', 'Who has it and why it hurts', 'fade'],
+      ['Why it matters', 7000, 'static', 'Cost of doing nothing', 'dissolve'],
+      ['How it works', 8000, 'zoom-in', 'The idea in one picture', 'wipe'],
+      ['Step one', 8000, 'pan-left', 'First step, one action on screen', 'slide'],
+      ['Step two', 8000, 'pan-left', 'Second step', 'slide'],
+      ['Step three', 8000, 'pan-left', 'Result the user gets', 'slide'],
+      ['Recap', 5000, 'zoom-out', 'The three steps together', 'dissolve'],
+      ['Call to action', 4000, 'static', 'What to do next', 'fade'],
+    ]),
+  },
+  {
+    id: 'builtin-app-onboarding',
+    name: 'App onboarding',
+    description: 'First-run screens from welcome to the first success moment',
+    builtIn: true,
+    data: sequence([
+      ['Welcome', 2500, 'zoom-in', 'Logo and value proposition'],
+      ['Sign up', 3000, 'static', 'Account creation, keep it short', 'slide'],
+      ['Permissions', 3000, 'static', 'Explain why before the system prompt', 'slide'],
+      ['Personalise', 3000, 'pan-left', 'A few choices that shape the first session', 'slide'],
+      ['First action', 3500, 'zoom-in', 'Guide the user through the core task', 'slide'],
+      ['Success', 2500, 'zoom-out', 'Celebrate the first result', 'fade'],
+      ['Home', 3000, 'static', 'Where the user lands afterwards', 'dissolve'],
+    ]),
+  },
+  {
+    id: 'builtin-music-video',
+    name: 'Music video',
+    description: 'Song structure with verses, choruses and a bridge',
+    builtIn: true,
+    data: sequence([
+      ['Intro', 4000, 'parallax', 'Establishing shot, set the mood'],
+      ['Verse one', 8000, 'pan-right', 'Introduce the artist and the story', 'fade'],
+      ['Chorus', 8000, 'zoom-in', 'Performance, high energy', 'cut'],
+      ['Verse two', 8000, 'pan-left', 'The story develops', 'match-cut'],
+      ['Chorus', 8000, 'zoom-in', 'Performance with new angles', 'cut'],
+      ['Bridge', 6000, 'parallax', 'Change of pace or location', 'whip-pan'],
+      ['Final chorus', 8000, 'zoom-out', 'Biggest moment of the video', 'cut'],
+      ['Outro', 4000, 'static', 'Resolve the story, fade to black', 'dissolve'],
+    ]),
+  },
+];
+
+// Remote sketch URLs only: polished images and unsynced data URLs aren't part of a template
+const placeholderSketch = (url: string | null, includeSketches: boolean) =>
+  includeSketches && url && !url.startsWith('data:') ? url : null;
+
+/**
+ * Template content from a board. Frames are moved so the top-left one sits at the template origin.
+ * @param includeSketches - Keep sketches as placeholders; otherwise frames start blank
+ */
+export function captureTemplate(board: Board, includeSketches: boolean): TemplateData {
+  const minX = Math.min(...board.frames.map(f => f.x));
+  const minY = Math.min(...board.frames.map(f => f.y));
+  const ids = new Set(board.frames.map(f => f.id));
+
+  return {
+    readingDirection: board.readingDirection,
+    aspectRatio: board.aspectRatio,
+    frames: board.frames.map(f => ({
+      ref: f.id,
+      title: f.title,
+      x: f.x - minX + TEMPLATE_ORIGIN.x,
+      y: f.y - minY + TEMPLATE_ORIGIN.y,
+      status: placeholderSketch(f.sketchUrl, includeSketches) ? 'sketch' : 'draft',
+      motionNotes: f.motionNotes,
+      animationStyle: f.animationStyle,
+      durationMs: f.durationMs,
+      shot: f.shot,
+      sketchUrl: placeholderSketch(f.sketchUrl, includeSketches),
+      // Placeholders are plain images; templates don't carry editable sketches
+      sketchDocument: null,
+      polishedUrl: null,
+    })),
+    connections: board.connections
+      .filter(c => ids.has(c.fromFrameId) && ids.has(c.toFrameId))
+      .map(c => ({
+        from: c.fromFrameId,
+        to: c.toFrameId,
+        transitionType: c.transitionType,
+        transitionDurationMs: c.transitionDurationMs,
+        branchLabel: c.branchLabel,
+      })),
+  };
+}
+
+export function parseTemplateData(raw: unknown): TemplateData {
+  const data = (raw || {}) as Partial<TemplateData>;
+  const payload = parseClipboardPayload(JSON.stringify({
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    frames: data.frames || [],
+    connections: data.connections || [],
+  }));
+
+  return {
+    readingDirection: normalizeReadingDirection(data.readingDirection),
+    aspectRatio: ASPECT_RATIOS.some(r => r.value === data.aspectRatio) ? data.aspectRatio : undefined,
+    frames: payload?.frames || [],
+    connections: payload?.connections || [],
+  };
+}
+
+/**
+ * Template content as a paste payload. It has no source board,
+ * so placeholder sketches are copied into the target board's storage.
+ */
+export function templateToPayload(data: TemplateData): FrameClipboardPayload {
+  return {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    sourceBoardId: '',
+    copiedAt: new Date().toISOString(),
+    frames: data.frames,
+    connections: data.connections,
+  };
+}
+
+/**
+ * Copy placeholder sketches into a storage folder owned by the template or board,
+ * so deleting frames elsewhere can't break them. Sketches that fail to copy are dropped.
+ * @param folder - Storage folder under the user's directory (a board ID or `templates/<id>`)
+ */
+export async function copyTemplateSketches(
+  userId: string,
+  folder: string,
+  frames: ClipboardFrame[],
+  frameIds: Map<string, string> = new Map()
+): Promise<ClipboardFrame[]> {
+  const copied: ClipboardFrame[] = [];
+  for (const frame of frames) {
+    if (!frame.sketchUrl) {
+      copied.push(frame);
+      continue;
+    }
+    let sketchUrl: string | null = null;
+    try {
+      const dataUrl = await imageUrlToDataUrl(frame.sketchUrl);
+      sketchUrl = await uploadFrameImage(userId, folder, frameIds.get(frame.ref) ?? frame.ref, dataUrl, 'sketch');
+    } catch (err) {
+      console.warn('Could not copy template sketch:', err);
+    }
+    copied.push({ ...frame, sketchUrl });
+  }
+  return copied;
+}
+
+/**
+ * Create a new private board from a template
+ * @param aspectRatio - Shape of the new board (defaults to the template's)
+ * @returns The new board's ID
+ */
+export async function createBoardFromTemplate(
+  userId: string,
+  name: string,
+  template: BoardTemplate,
+  aspectRatio: AspectRatio = template.data.aspectRatio ?? DEFAULT_ASPECT_RATIO
+): Promise<string> {
+  const { data: board, error: boardError } = await supabase
+    .from('boards')
+    .insert({
+      user_id: userId,
+      name,
+      reading_direction: template.data.readingDirection,
+      aspect_ratio: aspectRatio,
+    })
+    .select()
+    .single();
+
+  if (boardError) throw boardError;
+
+  const frameIds = new Map(template.data.frames.map(f => [f.ref, crypto.randomUUID()]));
+  const frames = await copyTemplateSketches(userId, board.id, template.data.frames, frameIds);
+
+  if (frames.length > 0) {
+    const { error } = await supabase.from('frames').insert(frames.map((frame, index) => ({
+      id: frameIds.get(frame.ref),
+      board_id: board.id,
+      title: frame.title,
+      position_x: frame.x,
+      position_y: frame.y,
+      status: frame.sketchUrl ? 'sketch' : 'draft',
+      sketch_url: frame.sketchUrl,
+      motion_notes: frame.motionNotes,
+      animation_style: frame.animationStyle,
+      duration_ms: frame.durationMs,
+      shot: frame.shot,
+      sort_order: index,
+    })));
+    if (error) throw error;
+  }
+
+  if (template.data.connections.length > 0) {
+    const { error } = await supabase.from('connections').insert(template.data.connections.map(c => ({
+      board_id: board.id,
+      from_frame_id: frameIds.get(c.from),
+      to_frame_id: frameIds.get(c.to),
+      transition_type: c.transitionType,
+      transition_duration_ms: c.transitionDurationMs,
+      branch_label: c.branchLabel,
+    })));
+    if (error) throw error;
+  }
+
+  return board.id;
+}
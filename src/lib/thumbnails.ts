@@ -0,0 +1,62 @@
+/**
+ * Downscaled copies of frame images for zoomed-out canvases.
+ * Each source image is decoded once and redrawn at card size, so hundreds of
+ * frames don't keep full-resolution bitmaps in memory while the board is small.
+ */
+
+// Width (px) of low-resolution thumbnails; frame cards are ~192px wide at 100%
+export const LOW_RES_WIDTH = 96;
+
+// Zoom level below which the canvas switches to low-resolution thumbnails
+export const LOW_RES_ZOOM = 0.5;
+
+// Oldest entries are dropped beyond this many cached thumbnails
+const CACHE_LIMIT = 600;
+
+const cache = new Map<string, Promise<string>>();
+
+function downscale(url: string, width: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.decoding = 'async';
+    img.onload = () => {
+      const scale = Math.min(1, width / img.naturalWidth);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      try {
+        resolve(canvas.toDataURL('image/webp', 0.8));
+      } catch (err) {
+        // Tainted canvas (image served without CORS headers)
+        reject(err);
+      }
+    };
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = url;
+  });
+}
+
+/**
+ * Low-resolution data URL for an image, falling back to the original URL on failure
+ */
+export function getLowResThumbnail(url: string, width = LOW_RES_WIDTH): Promise<string> {
+  const key = `${width}:${url}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const pending = downscale(url, width).catch(() => url);
+  cache.set(key, pending);
+
+  if (cache.size > CACHE_LIMIT) {
+    cache.delete(cache.keys().next().value as string);
+  }
+
+  return pending;
+}
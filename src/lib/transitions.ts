@@ -0,0 +1,130 @@
+import type { CSSProperties } from 'react';
+
+/**
+ * Transitions between connected frames.
+ * The preview player and the animatic exporter both render from the same
+ * layer description, so what plays on the board is what gets exported.
+ */
+export type TransitionType = 'cut' | 'fade' | 'dissolve' | 'wipe' | 'slide' | 'whip-pan' | 'match-cut';
+
+export const TRANSITION_TYPES: Array<{ value: TransitionType; label: string; description: string }> = [
+  { value: 'cut', label: 'Cut', description: 'Instant switch' },
+  { value: 'fade', label: 'Fade', description: 'Fade through black' },
+  { value: 'dissolve', label: 'Dissolve', description: 'Cross-dissolve between frames' },
+  { value: 'wipe', label: 'Wipe', description: 'Next frame wipes in from the left' },
+  { value: 'slide', label: 'Slide', description: 'Next frame pushes the current one out' },
+  { value: 'whip-pan', label: 'Whip Pan', description: 'Fast blurred pan' },
+  { value: 'match-cut', label: 'Match Cut', description: 'Matched composition, quick settle' },
+];
+
+export const DEFAULT_TRANSITION_TYPE: TransitionType = 'fade';
+export const DEFAULT_TRANSITION_DURATION_MS = 500;
+export const MIN_TRANSITION_DURATION_MS = 100;
+export const MAX_TRANSITION_DURATION_MS = 2000;
+
+// Peak blur (px at 1280px wide) of a whip pan
+const WHIP_BLUR = 16;
+
+export function isTransitionType(value: unknown): value is TransitionType {
+  return TRANSITION_TYPES.some(t => t.value === value);
+}
+
+export function normalizeTransitionType(value: string | null | undefined): TransitionType {
+  return isTransitionType(value) ? value : DEFAULT_TRANSITION_TYPE;
+}
+
+export function getTransitionLabel(type: string): string {
+  return TRANSITION_TYPES.find(t => t.value === type)?.label ?? 'Fade';
+}
+
+/**
+ * How long a transition actually plays (cuts are instant)
+ */
+export function getEffectiveDuration(type: TransitionType, durationMs: number): number {
+  return type === 'cut' ? 0 : Math.max(durationMs, 0);
+}
+
+/**
+ * Visual state of one image during a transition.
+ * x is a fraction of the stage width; clipRight hides that fraction from the right edge.
+ */
+export interface TransitionLayer {
+  opacity: number;
+  x: number;
+  scale: number;
+  blur: number;
+  clipRight: number;
+}
+
+const IDENTITY: TransitionLayer = { opacity: 1, x: 0, scale: 1, blur: 0, clipRight: 0 };
+
+const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2);
+
+/**
+ * Layer states for the outgoing and incoming frame at `progress` (0..1).
+ * The outgoing frame is drawn first, the incoming frame on top.
+ */
+export function getTransitionLayers(
+  type: TransitionType,
+  progress: number
+): { from: TransitionLayer; to: TransitionLayer } {
+  const p = Math.min(Math.max(progress, 0), 1);
+  const e = easeInOut(p);
+
+  switch (type) {
+    case 'cut':
+      return { from: { ...IDENTITY, opacity: 0 }, to: IDENTITY };
+    case 'fade':
+      return {
+        from: { ...IDENTITY, opacity: p < 0.5 ? 1 - p * 2 : 0 },
+        to: { ...IDENTITY, opacity: p < 0.5 ? 0 : p * 2 - 1 },
+      };
+    case 'dissolve':
+      return { from: IDENTITY, to: { ...IDENTITY, opacity: e } };
+    case 'wipe':
+      return { from: IDENTITY, to: { ...IDENTITY, clipRight: 1 - e } };
+    case 'slide':
+      return { from: { ...IDENTITY, x: -e }, to: { ...IDENTITY, x: 1 - e } };
+    case 'whip-pan': {
+      const blur = Math.sin(Math.PI * p) * WHIP_BLUR;
+      return { from: { ...IDENTITY, x: -e, blur }, to: { ...IDENTITY, x: 1 - e, blur } };
+    }
+    case 'match-cut':
+      // Hard cut in the first fifth, then the new frame settles from a slight push-in
+      return {
+        from: { ...IDENTITY, opacity: p < 0.2 ? 1 - p / 0.2 : 0 },
+        to: { ...IDENTITY, opacity: Math.min(p / 0.2, 1), scale: 1.06 - 0.06 * e },
+      };
+  }
+}
+
+/**
+ * CSS for a layer rendered as an absolutely positioned element
+ */
+export function transitionLayerStyle(layer: TransitionLayer): CSSProperties {
+  return {
+    opacity: layer.opacity,
+    transform: `translateX(${layer.x * 100}%) scale(${layer.scale})`,
+    filter: layer.blur > 0 ? `blur(${layer.blur}px)` : undefined,
+    clipPath: layer.clipRight > 0 ? `inset(0 ${layer.clipRight * 100}% 0 0)` : undefined,
+  };
+}
+
+/**
+ * Transition into each frame of a playback sequence (index i = between frame i and i + 1).
+ * Consecutive frames without a connection between them use the default fade.
+ */
+export function getSequenceTransitions(
+  frameIds: string[],
+  connections: Array<{ from: string; to: string; transitionType?: string; transitionDurationMs?: number }>
+): Array<{ type: TransitionType; durationMs: number }> {
+  return frameIds.slice(1).map((toId, index) => {
+    const fromId = frameIds[index];
+    const connection = connections.find(c => c.from === fromId && c.to === toId);
+    const type = normalizeTransitionType(connection?.transitionType);
+    return {
+      type,
+      durationMs: getEffectiveDuration(type, connection?.transitionDurationMs ?? DEFAULT_TRANSITION_DURATION_MS),
+    };
+  });
+}
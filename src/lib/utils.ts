@@ -4,3 +4,15 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Deep equality for JSON values (e.g. jsonb columns); `undefined` object fields count as missing
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== "object" || typeof b !== "object") return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const entries = (value: object) => Object.entries(value).filter(([, v]) => v !== undefined);
+  const aEntries = entries(a);
+  const bRecord = Object.fromEntries(entries(b));
+  return aEntries.length === Object.keys(bRecord).length
+    && aEntries.every(([key, value]) => key in bRecord && valuesEqual(value, bRecord[key]));
+}
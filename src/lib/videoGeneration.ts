@@ -1,11 +1,14 @@
 import { supabase } from './supabase';
+import { AspectRatio, toVeoAspectRatio } from './aspectRatio';
 
 export async function startVideoGeneration(options: {
   prompt: string;
   imageBase64: string;
   durationSeconds?: number;
+  aspectRatio?: AspectRatio;
 }) {
-  const { data, error } = await supabase.functions.invoke('generate-video', { body: options });
+  const body = { ...options, aspectRatio: options.aspectRatio && toVeoAspectRatio(options.aspectRatio) };
+  const { data, error } = await supabase.functions.invoke('generate-video', { body });
   if (error) return { status: 'error' as const, error: error.message };
   return data;
 }
@@ -20,7 +23,8 @@ export async function generateVideoFromFrame(
   prompt: string,
   imageBase64: string,
   durationSeconds: number = 6,
-  onProgress?: (progress: number, status: string) => void
+  onProgress?: (progress: number, status: string) => void,
+  aspectRatio?: AspectRatio
 ): Promise<{ status: string; videoUrl?: string; error?: string }> {
 
   onProgress?.(5, 'Starting video generation...');
@@ -29,7 +33,12 @@ export async function generateVideoFromFrame(
 
   // Start generation
   const { data: startData, error: startError } = await supabase.functions.invoke('generate-video', {
-    body: { prompt, imageBase64, durationSeconds: [4, 6, 8].includes(durationSeconds) ? durationSeconds : 6 }
+    body: {
+      prompt,
+      imageBase64,
+      durationSeconds: [4, 6, 8].includes(durationSeconds) ? durationSeconds : 6,
+      aspectRatio: aspectRatio && toVeoAspectRatio(aspectRatio),
+    }
   });
 
   console.log('[Video Gen] Response:', { startData, startError });
@@ -76,13 +85,14 @@ export async function generateVideoFromFrame(
 }
 
 export async function generateVideoWithPolling(
-  options: { prompt: string; imageBase64: string; durationSeconds?: number },
+  options: { prompt: string; imageBase64: string; durationSeconds?: number; aspectRatio?: AspectRatio },
   onProgress?: (progress: number, status: string) => void
 ): Promise<{ status: string; videoUrl?: string; error?: string }> {
   return generateVideoFromFrame(
     options.prompt,
     options.imageBase64,
     options.durationSeconds || 6,
-    onProgress
+    onProgress,
+    options.aspectRatio
   );
 }
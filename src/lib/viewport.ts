@@ -0,0 +1,146 @@
+/**
+ * Viewport math shared by the canvas, minimap and toolbar.
+ * A viewport maps canvas coordinates to screen coordinates:
+ * screen = canvas * zoom + (x, y)
+ */
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// Screen space covered by floating UI (header, toolbar, side panel)
+export interface Insets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Frame card width on the canvas (w-48); the height follows the board's aspect ratio (see getFrameSize)
+export const FRAME_WIDTH = 192;
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 4;
+// Multiplier used by the zoom in/out buttons and shortcuts
+export const ZOOM_STEP = 1.2;
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+/**
+ * Change zoom while keeping the canvas point under `anchor` (screen coordinates) fixed
+ */
+export function zoomAtPoint(viewport: Viewport, zoom: number, anchor: { x: number; y: number }): Viewport {
+  const nextZoom = clampZoom(zoom);
+  const canvasX = (anchor.x - viewport.x) / viewport.zoom;
+  const canvasY = (anchor.y - viewport.y) / viewport.zoom;
+  return {
+    x: anchor.x - canvasX * nextZoom,
+    y: anchor.y - canvasY * nextZoom,
+    zoom: nextZoom,
+  };
+}
+
+/**
+ * Convert a screen point (relative to the canvas element) to canvas coordinates
+ */
+export function screenToCanvas(viewport: Viewport, point: { x: number; y: number }): { x: number; y: number } {
+  return {
+    x: (point.x - viewport.x) / viewport.zoom,
+    y: (point.y - viewport.y) / viewport.zoom,
+  };
+}
+
+/**
+ * Canvas area currently visible on screen
+ */
+export function getVisibleRect(viewport: Viewport, size: Size): Rect {
+  return {
+    x: -viewport.x / viewport.zoom,
+    y: -viewport.y / viewport.zoom,
+    width: size.width / viewport.zoom,
+    height: size.height / viewport.zoom,
+  };
+}
+
+/**
+ * Grow a rectangle by `margin` on every side
+ */
+export function expandRect(rect: Rect, margin: number): Rect {
+  return {
+    x: rect.x - margin,
+    y: rect.y - margin,
+    width: rect.width + margin * 2,
+    height: rect.height + margin * 2,
+  };
+}
+
+export function rectsIntersect(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+/**
+ * Bounding box of frame cards, or null when there are none
+ */
+export function getFramesBounds(positions: Array<{ x: number; y: number }>, frameSize: Size): Rect | null {
+  if (positions.length === 0) return null;
+
+  const minX = Math.min(...positions.map(p => p.x));
+  const minY = Math.min(...positions.map(p => p.y));
+  const maxX = Math.max(...positions.map(p => p.x)) + frameSize.width;
+  const maxY = Math.max(...positions.map(p => p.y)) + frameSize.height;
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Viewport that fits `bounds` inside the unobstructed part of the screen
+ */
+export function fitViewportToBounds(
+  bounds: Rect,
+  size: Size,
+  insets: Insets = { top: 0, right: 0, bottom: 0, left: 0 },
+  maxZoom = 1.5
+): Viewport {
+  const availableWidth = Math.max(size.width - insets.left - insets.right, 1);
+  const availableHeight = Math.max(size.height - insets.top - insets.bottom, 1);
+
+  const zoom = clampZoom(Math.min(
+    availableWidth / Math.max(bounds.width, 1),
+    availableHeight / Math.max(bounds.height, 1),
+    maxZoom
+  ));
+
+  return {
+    x: insets.left + (availableWidth - bounds.width * zoom) / 2 - bounds.x * zoom,
+    y: insets.top + (availableHeight - bounds.height * zoom) / 2 - bounds.y * zoom,
+    zoom,
+  };
+}
+
+/**
+ * Viewport that centers a canvas point on screen at the current zoom
+ */
+export function centerViewportOn(viewport: Viewport, point: { x: number; y: number }, size: Size): Viewport {
+  return {
+    x: size.width / 2 - point.x * viewport.zoom,
+    y: size.height / 2 - point.y * viewport.zoom,
+    zoom: viewport.zoom,
+  };
+}
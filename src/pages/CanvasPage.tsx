@@ -6,13 +6,63 @@ import { CanvasToolbar } from "@/components/canvas/CanvasToolbar";
 import { AIPanel } from "@/components/canvas/AIPanel";
 import { InfiniteCanvas } from "@/components/canvas/InfiniteCanvas";
 import { Minimap } from "@/components/canvas/Minimap";
+import { AlignmentToolbar } from "@/components/canvas/AlignmentToolbar";
+import { TransitionStage } from "@/components/canvas/TransitionStage";
+import { CutEditor } from "@/components/canvas/CutEditor";
+import { CommentsSidebar } from "@/components/canvas/CommentsSidebar";
+import { FrameConflictDialog } from "@/components/canvas/FrameConflictDialog";
+import { VersionHistoryPanel } from "@/components/canvas/VersionHistoryPanel";
+import { CommandPalette } from "@/components/canvas/CommandPalette";
+import { KeymapDialog } from "@/components/canvas/KeymapDialog";
+import { ShotInspector } from "@/components/canvas/ShotInspector";
+import { FrameStatusFilter } from "@/components/canvas/FrameStatusFilter";
+import { TemplateGallery } from "@/components/templates/TemplateGallery";
+import { SaveTemplateDialog } from "@/components/templates/SaveTemplateDialog";
+import { CommentComposer } from "@/components/canvas/CommentComposer";
+import { ConnectionChanges } from "@/components/canvas/ConnectionInspector";
 import { OnboardingOverlay } from "@/components/canvas/OnboardingOverlay";
 import { ConfettiCelebration } from "@/components/canvas/ConfettiCelebration";
 import { FrameSketchEditor } from "@/components/canvas/FrameSketchEditor";
 import { FloatingNotification } from "@/components/canvas/FloatingNotification";
 import { NotificationCenter } from "@/components/canvas/NotificationCenter";
-import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
-import { useBoard } from "@/hooks/useBoard";
+import { useKeyboardShortcuts, CommandHandlers } from "@/hooks/useKeyboardShortcuts";
+import { useViewport } from "@/hooks/useViewport";
+import { getFramesBounds, getVisibleRect, Insets } from "@/lib/viewport";
+import { AspectRatio, ASPECT_RATIOS, getFrameSize, getRenderSize, aspectRatioStyle } from "@/lib/aspectRatio";
+import { shortcutHint } from "@/lib/shortcuts";
+import { ShotMetadata, formatCameraSetup } from "@/lib/shotMetadata";
+import { renderPolishSource, type SketchDocument } from "@/lib/sketchDocument";
+import {
+  FrameStatus,
+  artworkStatus,
+  countFrameStatuses,
+  getFrameStatusActions,
+  getFrameStatusOption,
+  isFrameProtected,
+  isPolishedStatus,
+} from "@/lib/frameStatus";
+import { layoutGraph } from "@/lib/graphLayout";
+import {
+  AlignMode,
+  DistributeAxis,
+  GRID_SIZE,
+  SNAP_THRESHOLD,
+  frameRect,
+  snapRect,
+  alignPositions,
+  distributePositions,
+} from "@/lib/alignment";
+import { getSequenceTransitions } from "@/lib/transitions";
+import { getMainConnections, getMainCutFrames, resolveCutFrames } from "@/lib/cuts";
+import { buildThreads, getThreadAnchor } from "@/lib/comments";
+import { renderAnimatic } from "@/lib/animatic";
+import { captureBoard, findProtectedFrameChanges } from "@/lib/snapshots";
+import { BoardTemplate, templateToPayload } from "@/lib/templates";
+import { useBoard, CommentAnchor, Frame as BoardFrame, FrameConflictField } from "@/hooks/useBoard";
+import { useSnapshots } from "@/hooks/useSnapshots";
+import { useTemplates } from "@/hooks/useTemplates";
+import { useDragPositionStore } from "@/stores/dragPositionStore";
+import { useKeymapStore } from "@/stores/keymapStore";
 import { useNotification } from "@/hooks/useNotification";
 import { useAuth } from "@/hooks/useAuth";
 import { useRealtimeBroadcast, throttle, FrameMovement, CursorPosition, FrameSelection } from "@/hooks/useRealtimeBroadcast";
@@ -24,27 +74,40 @@ import { Textarea } from "@/components/ui/textarea";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   X,
-  Sparkles,
   MousePointer,
   Plus,
   ArrowLeft,
   ArrowRight,
   Wand2,
   Film,
+  Download,
   Loader2,
   Check,
   ExternalLink,
   Play,
   ShieldCheck,
+  GitBranch,
+  Pencil,
   Lock,
   FileQuestion,
-  AlertCircle
+  AlertCircle,
+  MessageCircle,
+  History,
+  Keyboard,
+  Camera,
+  LayoutTemplate
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { polishSketch, polishSketchWithStyle, suggestMotionNotes, checkContinuity } from "@/lib/googleAI";
-
-// Frame status type
-type FrameStatus = "sketch" | "polished";
+import {
+  FrameClipboardPayload,
+  buildClipboardPayload,
+  parseClipboardPayload,
+  storeClipboardPayload,
+  getStoredClipboardPayload,
+  writeClipboardPayload,
+} from "@/lib/frameClipboard";
+import { MAX_IMPORT_FILES, getClipboardImages, imagesToPayload, loadImageFile, ImportedImage } from "@/lib/imageImport";
 
 // Canvas Frame interface with all properties
 interface CanvasFrame {
@@ -82,12 +145,18 @@ interface Frame {
   // Motion notes for animation
   motionNotes?: string;
   animationStyle?: AnimationStyle;
+  sceneId?: string | null;
+  shot?: ShotMetadata;
+  sketchDocument?: SketchDocument | null;
 }
 
 interface Connection {
   id: string;
   from: string;
   to: string;
+  transitionType: string;
+  transitionDurationMs: number;
+  branchLabel: string | null;
 }
 
 interface CanvasConnection {
@@ -96,60 +165,44 @@ interface CanvasConnection {
   toFrameId: string;
 }
 
+// Screen space covered by the header, toolbar and AI panel (kept clear when fitting frames)
+const CANVAS_INSETS: Insets = { top: 96, right: 360, bottom: 48, left: 96 };
+
+// Frame as passed to the canvas
+type DisplayFrame = {
+  id: string;
+  position: { x: number; y: number };
+  thumbnail?: string;
+  isPolished: boolean;
+  isPolishing?: boolean;
+  status: FrameStatus;
+  dimmed: boolean;
+  title: string;
+  thumbnailColor?: string;
+  durationMs: number;
+  motionNotes?: string;
+  shotSpec?: string;
+  sceneId?: string | null;
+  isRemoteMoving: boolean;
+  remoteSelection: { userId: string; userName: string; color: string } | null;
+};
+
+function isSameDisplayFrame(a: DisplayFrame, b: DisplayFrame): boolean {
+  return (Object.keys(b) as Array<keyof DisplayFrame>).every(key =>
+    key === "position"
+      ? a.position.x === b.position.x && a.position.y === b.position.y
+      : a[key] === b[key]
+  );
+}
+
+// Auto-arrange spacing between frames and the length of the glide into place
+const ARRANGE_GAP_X = 96;
+const ARRANGE_GAP_Y = 120;
+const ARRANGE_ANIMATION_MS = 450;
+
 // Generate a simple unique ID
 const generateId = () => Math.random().toString(36).substring(2, 15);
 
-// Demo storyboard data
-const demoFrames: Frame[] = [
-  {
-    id: "demo-1",
-    title: "Intro",
-    description: "Opening scene with logo animation and brand reveal",
-    position: { x: 100, y: 150 },
-    thumbnailColor: "from-sm-pink/40 to-sm-coral/40",
-    status: "sketch",
-  },
-  {
-    id: "demo-2",
-    title: "Product Close-up",
-    description: "Detailed view of the product with key features highlighted",
-    position: { x: 350, y: 100 },
-    thumbnailColor: "from-sm-purple/40 to-sm-soft-purple/40",
-    status: "sketch",
-  },
-  {
-    id: "demo-3",
-    title: "Feature Highlight",
-    description: "Animated demonstration of the main feature in action",
-    position: { x: 600, y: 150 },
-    thumbnailColor: "from-sm-magenta/40 to-sm-pink/40",
-    status: "sketch",
-  },
-  {
-    id: "demo-4",
-    title: "Social Proof",
-    description: "Customer testimonials and trust indicators",
-    position: { x: 475, y: 300 },
-    thumbnailColor: "from-sm-mint/40 to-sm-soft-purple/40",
-    status: "sketch",
-  },
-  {
-    id: "demo-5",
-    title: "Call to Action",
-    description: "Final CTA with compelling offer and urgency",
-    position: { x: 750, y: 250 },
-    thumbnailColor: "from-sm-coral/40 to-sm-magenta/40",
-    status: "sketch",
-  },
-];
-
-const demoConnections: Connection[] = [
-  { id: "demo-conn-1", from: "demo-1", to: "demo-2" },
-  { id: "demo-conn-2", from: "demo-2", to: "demo-3" },
-  { id: "demo-conn-3", from: "demo-3", to: "demo-4" },
-  { id: "demo-conn-4", from: "demo-4", to: "demo-5" },
-];
-
 export function CanvasPage() {
   const { boardId } = useParams();
   const navigate = useNavigate();
@@ -163,17 +216,73 @@ export function CanvasPage() {
     error: boardError,
     errorType: boardErrorType,
     isReadOnly,
+    canComment,
+    canApprove,
+    canViewHistory,
+    syncStatus,
+    pendingChanges,
+    retrySync,
+    frameConflicts,
+    resolveFrameConflict,
     refresh: refreshBoard,
     createFrame,
     updateFrame,
     saveFrameImage,
     deleteFrame,
-    updateFramePosition,
+    updateFramePositions,
+    pasteFrames,
     createConnection,
+    updateConnection,
     deleteConnection,
     updateBoardName,
+    updateReadingDirection,
+    updateAspectRatio,
+    createScene,
+    updateScene,
+    deleteScene,
+    assignFramesToScene,
+    createCut,
+    updateCut,
+    deleteCut,
+    createComment,
+    replyToComment,
+    setCommentResolved,
+    deleteComment,
+    runBatch,
+    restoreSnapshot,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
   } = useBoard(boardId || null);
 
+  // Version history
+  const {
+    snapshots,
+    loading: snapshotsLoading,
+    loadSnapshotData,
+    createSnapshot,
+    deleteSnapshot,
+    restoreAsNewBoard,
+  } = useSnapshots(boardId || null, board, !isReadOnly && canViewHistory);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Command palette and keymap settings
+  const loadKeymap = useKeymapStore(state => state.load);
+  const keymap = useKeymapStore(state => state.keymap);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [showKeymap, setShowKeymap] = useState(false);
+
+  useEffect(() => {
+    loadKeymap(user?.id ?? null);
+  }, [user?.id, loadKeymap]);
+
+  // Templates
+  const { builtInTemplates, userTemplates, loading: templatesLoading, saveTemplate, deleteTemplate } = useTemplates();
+  const [showTemplateGallery, setShowTemplateGallery] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const currentSnapshotData = useMemo(() => (board ? captureBoard(board) : null), [board]);
+
   // Real-time collaboration broadcast
   const {
     broadcastFrameMove,
@@ -191,22 +300,57 @@ export function CanvasPage() {
   const userColor = useMemo(() => user?.id ? getUserColor(user.id) : '#ec4899', [user?.id]);
   const userName = useMemo(() => user?.email?.split('@')[0] || 'Anonymous', [user?.email]);
 
-  const [isSaving, setIsSaving] = useState(false);
-
   // Canvas state
   const [activeTool, setActiveTool] = useState("select");
-  const [zoom, setZoom] = useState(1);
+  // Shared viewport (pan + zoom) for the canvas, minimap and toolbar
+  const {
+    containerRef: canvasContainerRef,
+    viewport,
+    viewportSize,
+    setViewport,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    fitBounds,
+    centerOn,
+  } = useViewport(CANVAS_INSETS);
   const [selectedFrames, setSelectedFrames] = useState<string[]>([]);
   
   // Track frame positions during drag to avoid stale state issues
   const workingPositionsRef = useRef<Map<string, { x: number; y: number }>>(new Map());
-  const saveTimeoutRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
+  const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Ref for notification bell (for fly-to animation)
   const bellRef = useRef<HTMLButtonElement>(null);
   
   // State to track positions during drag (triggers re-render for connection updates)
-  const [dragPositions, setDragPositions] = useState<Map<string, { x: number; y: number }>>(new Map());
+  // Live drag positions and guides live in a store so a drag doesn't re-render this page
+  const setDragPositions = useDragPositionStore(state => state.setPositions);
+  const replaceDragPositions = useDragPositionStore(state => state.replacePositions);
+  const clearDragPositions = useDragPositionStore(state => state.clearPositions);
+  const setGuides = useDragPositionStore(state => state.setGuides);
+  const resetDragState = useDragPositionStore(state => state.reset);
+  const displayFrameCacheRef = useRef<Map<string, DisplayFrame>>(new Map());
+  // Frames are gliding to an auto-arranged layout
+  const [isArranging, setIsArranging] = useState(false);
+  const arrangeAnimationRef = useRef<number | null>(null);
+
+  // Consecutive pastes of the same payload on its source board cascade
+  const pasteCountRef = useRef<{ copiedAt: string; count: number }>({ copiedAt: "", count: 0 });
+
+  // Frames being dragged, their start positions and the raw (unsnapped) pointer delta
+  const dragSessionRef = useRef<{
+    key: string;
+    origins: Map<string, { x: number; y: number }>;
+    dx: number;
+    dy: number;
+  } | null>(null);
+  // Holding Alt while dragging temporarily disables snapping
+  const altKeyRef = useRef(false);
+  const [snapToGrid, setSnapToGrid] = useState(() => localStorage.getItem('sketchmotion_snap_to_grid') === 'true');
+
+  // Anchor positions of empty scenes while they are being dragged
+  const [sceneDragPositions, setSceneDragPositions] = useState<Map<string, { x: number; y: number }>>(new Map());
 
   // Onboarding state - check localStorage to avoid re-showing after dismissal
   const [onboardingDismissed, setOnboardingDismissed] = useState(() => {
@@ -226,6 +370,8 @@ export function CanvasPage() {
   // Sketch editor state
   const [isSketchEditorOpen, setIsSketchEditorOpen] = useState(false);
   const [sketchEditorFrameId, setSketchEditorFrameId] = useState<string | null>(null);
+  // The frame as it was when the sketch editor opened, so edits made meanwhile by others are detected
+  const sketchEditorBaseRef = useRef<BoardFrame | null>(null);
 
   // AI workflow state
   const [isPolishing, setIsPolishing] = useState(false);
@@ -239,6 +385,26 @@ export function CanvasPage() {
   const [showPreviewModal, setShowPreviewModal] = useState(false);
   const [previewIndex, setPreviewIndex] = useState(0);
   const [isPreviewPlaying, setIsPreviewPlaying] = useState(false);
+  // Index the preview last stepped forward from; drives the transition into the current frame
+  const [previewFromIndex, setPreviewFromIndex] = useState<number | null>(null);
+  const [animaticProgress, setAnimaticProgress] = useState<number | null>(null);
+
+  // Named cut used for preview and video generation (null = main cut); remembered per board
+  const [activeCutId, setActiveCutId] = useState<string | null>(() =>
+    boardId ? localStorage.getItem(`sketchmotion_active_cut_${boardId}`) : null
+  );
+  // Cut editor target: null = closed, "new" = creating, otherwise the cut being edited
+  const [editingCutId, setEditingCutId] = useState<string | null>(null);
+
+  // Review comments
+  const [showComments, setShowComments] = useState(false);
+  // Shot details for the selected frame (shares the comments sidebar's spot)
+  const [showShotInspector, setShowShotInspector] = useState(false);
+  // Canvas status filter: frames in other statuses are faded out
+  const [statusFilter, setStatusFilter] = useState<FrameStatus | null>(null);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  // Pin placed with the comment tool whose first comment hasn't been posted yet
+  const [pendingComment, setPendingComment] = useState<CommentAnchor | null>(null);
 
   // Beat Mode & AI features
   const [beatModeEnabled, setBeatModeEnabled] = useState(false);
@@ -267,18 +433,92 @@ export function CanvasPage() {
       durationMs: f.durationMs,
       motionNotes: f.motionNotes || undefined,
       animationStyle: (f.animationStyle as AnimationStyle) || undefined,
+      sceneId: f.sceneId,
+      shot: f.shot,
+      sketchDocument: f.sketchDocument,
     }));
   }, [board]);
 
+  const readingDirection = board?.readingDirection ?? "ltr";
+  const aspectRatio = board?.aspectRatio ?? "16:9";
+  const frameSize = useMemo(() => getFrameSize(aspectRatio), [aspectRatio]);
+
+  const scenes = useMemo(() => {
+    if (!board) return [];
+    return [...board.scenes].sort((a, b) => a.sortOrder - b.sortOrder);
+  }, [board]);
+
   const connections = useMemo<Connection[]>(() => {
     if (!board) return [];
     return board.connections.map(c => ({
       id: c.id,
       from: c.fromFrameId,
       to: c.toFrameId,
+      transitionType: c.transitionType,
+      transitionDurationMs: c.transitionDurationMs,
+      branchLabel: c.branchLabel,
     }));
   }, [board]);
 
+  const cuts = useMemo(() => {
+    if (!board) return [];
+    return [...board.cuts].sort((a, b) => a.sortOrder - b.sortOrder);
+  }, [board]);
+
+  const activeCut = useMemo(
+    () => cuts.find(c => c.id === activeCutId) ?? null,
+    [cuts, activeCutId]
+  );
+
+  const handleActiveCutChange = useCallback((cutId: string | null) => {
+    setActiveCutId(cutId);
+    if (boardId) {
+      if (cutId) {
+        localStorage.setItem(`sketchmotion_active_cut_${boardId}`, cutId);
+      } else {
+        localStorage.removeItem(`sketchmotion_active_cut_${boardId}`);
+      }
+    }
+    setPreviewIndex(0);
+    setPreviewFromIndex(null);
+  }, [boardId]);
+
+  const commentThreads = useMemo(() => buildThreads(board?.comments ?? []), [board]);
+
+  // Open threads are pinned on the canvas; a resolved thread only while it's selected
+  const commentPins = useMemo(() => commentThreads
+    .filter(t => !t.root.resolved || t.root.id === activeThreadId)
+    .map(t => ({
+      id: t.root.id,
+      frameId: t.root.frameId,
+      x: t.root.x,
+      y: t.root.y,
+      commentCount: t.replies.length + 1,
+      resolved: t.root.resolved,
+    })),
+  [commentThreads, activeThreadId]);
+
+  const openThreadCount = useMemo(
+    () => commentThreads.filter(t => !t.root.resolved).length,
+    [commentThreads]
+  );
+
+  const frameTitles = useMemo(() => new Map(frames.map(f => [f.id, f.title])), [frames]);
+
+  // Deselect a thread once it has been deleted (here or by a collaborator)
+  useEffect(() => {
+    if (activeThreadId && !commentThreads.some(t => t.root.id === activeThreadId)) {
+      setActiveThreadId(null);
+    }
+  }, [activeThreadId, commentThreads]);
+
+  // Fall back to the main cut if the active cut was deleted (here or by a collaborator)
+  useEffect(() => {
+    if (board && activeCutId && !activeCut) {
+      handleActiveCutChange(null);
+    }
+  }, [board, activeCutId, activeCut, handleActiveCutChange]);
+
   // Listen for remote frame movements
   useEffect(() => {
     onFrameMove((movement: FrameMovement) => {
@@ -377,23 +617,29 @@ export function CanvasPage() {
     }
   }, [board, boardLoading, onboardingDismissed]);
 
+  // Stop an auto-arrange animation and drop unsaved drag state when the page unmounts
+  useEffect(() => () => {
+    if (arrangeAnimationRef.current !== null) cancelAnimationFrame(arrangeAnimationRef.current);
+    resetDragState();
+  }, [resetDragState]);
+
   // Cleanup: save any pending positions when component unmounts
   useEffect(() => {
     return () => {
-      // Clear all pending timeouts
-      saveTimeoutRef.current.forEach(timeout => clearTimeout(timeout));
-      
+      // Clear pending save timeout
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+
       // Save any unsaved positions
-      workingPositionsRef.current.forEach(async (pos, id) => {
-        await updateFramePosition(id, pos.x, pos.y);
-      });
+      const positions = Array.from(workingPositionsRef.current.entries())
+        .map(([id, pos]) => ({ id, x: pos.x, y: pos.y }));
+      if (positions.length > 0) {
+        updateFramePositions(positions);
+      }
     };
-  }, [updateFramePosition]);
+  }, [updateFramePositions]);
 
   const handleBoardNameChange = useCallback(async (name: string) => {
-    setIsSaving(true);
     await updateBoardName(name);
-    setTimeout(() => setIsSaving(false), 1000);
   }, [updateBoardName]);
 
   const handleToolChange = useCallback((tool: string) => {
@@ -402,6 +648,9 @@ export function CanvasPage() {
     if (tool !== "connector") {
       setConnectingFromFrameId(null);
     }
+    if (tool !== "comment") {
+      setPendingComment(null);
+    }
   }, []);
 
   // Delete a connection
@@ -410,23 +659,192 @@ export function CanvasPage() {
     info("🔗 Connection removed");
   }, [deleteConnection, info]);
 
-  const handleZoomIn = useCallback(() => {
-    setZoom((prev) => Math.min(prev + 0.1, 2));
+  const handleConnectionUpdate = useCallback(async (
+    connectionId: string,
+    updates: ConnectionChanges
+  ) => {
+    await updateConnection(connectionId, updates);
+  }, [updateConnection]);
+
+  const handleSaveCut = useCallback(async (name: string, frameIds: string[]) => {
+    if (editingCutId && editingCutId !== "new") {
+      await updateCut(editingCutId, { name, frameIds });
+      success(`✂️ Cut "${name}" updated`);
+    } else {
+      const cut = await createCut(name, frameIds);
+      if (!cut) return;
+      handleActiveCutChange(cut.id);
+      success(`✂️ Cut "${name}" created`);
+    }
+    setEditingCutId(null);
+  }, [editingCutId, updateCut, createCut, handleActiveCutChange, success]);
+
+  // Comment tool on empty canvas: start a thread at that position
+  const handleCommentPlace = useCallback((position: { x: number; y: number }) => {
+    setPendingComment(position);
   }, []);
 
-  const handleZoomOut = useCallback(() => {
-    setZoom((prev) => Math.max(prev - 0.1, 0.25));
+  const handleCommentCancel = useCallback(() => {
+    setPendingComment(null);
+  }, []);
+
+  const handleCommentSubmit = useCallback(async (body: string) => {
+    if (!pendingComment) return;
+    const comment = await createComment(body, pendingComment);
+    if (!comment) {
+      notifyError("Comment could not be posted");
+      return;
+    }
+    setPendingComment(null);
+    setActiveThreadId(comment.id);
+    setShowShotInspector(false);
+    setShowComments(true);
+    success("💬 Comment added");
+  }, [pendingComment, createComment, notifyError, success]);
+
+  const handleCommentPinClick = useCallback((threadId: string) => {
+    setActiveThreadId(threadId);
+    setShowShotInspector(false);
+    setShowComments(true);
   }, []);
 
-  const handleUndo = useCallback(() => {
-    info("↩️ Action undone");
-  }, [info]);
+  // Selecting a thread in the sidebar pans the canvas to its pin
+  const handleSelectThread = useCallback((threadId: string) => {
+    setActiveThreadId(threadId);
+    const thread = commentThreads.find(t => t.root.id === threadId);
+    if (!thread) return;
+    const framePositions = new Map(frames.map(f => [f.id, f.position]));
+    const anchor = getThreadAnchor(thread, framePositions, frameSize.width);
+    if (anchor) centerOn(anchor);
+  }, [commentThreads, frames, frameSize, centerOn]);
+
+  const handleCommentReply = useCallback(async (threadId: string, body: string) => {
+    if (!await replyToComment(threadId, body)) {
+      notifyError("Reply could not be posted");
+    }
+  }, [replyToComment, notifyError]);
+
+  const handleCommentResolve = useCallback(async (threadId: string, resolved: boolean) => {
+    if (await setCommentResolved(threadId, resolved)) {
+      info(resolved ? "✅ Thread resolved" : "Thread reopened");
+    }
+  }, [setCommentResolved, info]);
+
+  const handleCommentDelete = useCallback(async (commentId: string) => {
+    if (await deleteComment(commentId)) {
+      info("Comment deleted");
+    }
+  }, [deleteComment, info]);
 
-  const handleRedo = useCallback(() => {
-    info("↪️ Action redone");
-  }, [info]);
+  // Merge prompt for edits that clashed with another collaborator's
+  const activeConflict = frameConflicts[0] ?? null;
+
+  const handleResolveConflict = useCallback(async (keepMine: FrameConflictField[]) => {
+    if (!activeConflict) return;
+    if (await resolveFrameConflict(activeConflict.frameId, keepMine)) {
+      info(keepMine.length > 0 ? "Changes merged" : "Kept their version");
+    }
+  }, [activeConflict, resolveFrameConflict, info]);
+
+  const handleCreateSnapshot = useCallback(async (name: string) => {
+    if (await createSnapshot(name)) {
+      success("📸 Snapshot saved");
+    } else {
+      notifyError("Snapshot could not be saved");
+    }
+  }, [createSnapshot, success, notifyError]);
+
+  const handleDeleteSnapshot = useCallback(async (snapshotId: string) => {
+    if (await deleteSnapshot(snapshotId)) {
+      info("Snapshot deleted");
+    }
+  }, [deleteSnapshot, info]);
+
+  // Restoring in place checkpoints the current state first so it can be undone from history
+  const handleRestoreSnapshot = useCallback(async (snapshotId: string) => {
+    const snapshot = snapshots.find(s => s.id === snapshotId);
+    const data = await loadSnapshotData(snapshotId);
+    const blocked = data && board ? findProtectedFrameChanges(captureBoard(board), data) : [];
+    if (blocked.length > 0) {
+      notifyError(`Reopen ${blocked.length === 1 ? `"${blocked[0].title}"` : `${blocked.length} approved or locked frames`} before restoring`);
+      return;
+    }
+    if (!await createSnapshot(`Before restoring "${snapshot?.name ?? 'snapshot'}"`, 'auto')) {
+      notifyError("Couldn't save the current board before restoring");
+      return;
+    }
+    if (data && await restoreSnapshot(data)) {
+      success(`Restored "${snapshot?.name ?? 'snapshot'}"`);
+      setShowHistory(false);
+    } else {
+      notifyError("Snapshot could not be restored");
+    }
+  }, [snapshots, board, createSnapshot, loadSnapshotData, restoreSnapshot, success, notifyError]);
+
+  const handleRestoreSnapshotAsNew = useCallback(async (snapshotId: string) => {
+    const newBoardId = await restoreAsNewBoard(snapshotId);
+    if (newBoardId) {
+      success("Snapshot restored as a new board");
+      setShowHistory(false);
+      navigate(`/canvas/${newBoardId}`);
+    } else {
+      notifyError("Snapshot could not be restored");
+    }
+  }, [restoreAsNewBoard, success, notifyError, navigate]);
+
+  const handleDeleteCut = useCallback(async (cutId: string) => {
+    setEditingCutId(null);
+    if (await deleteCut(cutId)) {
+      info("Cut deleted");
+    }
+  }, [deleteCut, info]);
+
+  const handleZoomIn = useCallback(() => {
+    zoomIn();
+  }, [zoomIn]);
+
+  const handleZoomOut = useCallback(() => {
+    zoomOut();
+  }, [zoomOut]);
+
+  const handleZoomToFit = useCallback(() => {
+    const bounds = getFramesBounds(frames.map(f => f.position), frameSize);
+    if (!bounds) return;
+    fitBounds(bounds);
+  }, [frames, frameSize, fitBounds]);
+
+  const handleZoomToSelection = useCallback(() => {
+    const bounds = getFramesBounds(
+      frames.filter(f => selectedFrames.includes(f.id)).map(f => f.position),
+      frameSize
+    );
+    if (!bounds) {
+      info("Select frames to zoom to");
+      return;
+    }
+    fitBounds(bounds, 2);
+  }, [frames, selectedFrames, frameSize, fitBounds, info]);
+
+  const handleUndo = useCallback(async () => {
+    const label = await undo();
+    info(label ? `↩️ Undone: ${label}` : "Nothing to undo");
+  }, [undo, info]);
+
+  const handleRedo = useCallback(async () => {
+    const label = await redo();
+    info(label ? `↪️ Redone: ${label}` : "Nothing to redo");
+  }, [redo, info]);
 
   const handleFrameSelect = useCallback(async (id: string, multiSelect?: boolean) => {
+    // Comment tool pins a new thread to the clicked frame
+    if (activeTool === "comment") {
+      const frame = frames.find(f => f.id === id);
+      if (frame) {
+        setPendingComment({ frameId: id, x: frame.position.x + frameSize.width, y: frame.position.y });
+      }
+      return;
+    }
+
     // Handle connector tool mode
     if (activeTool === "connector") {
       if (!connectingFromFrameId) {
@@ -470,85 +888,428 @@ export function CanvasPage() {
 
       return newSelection;
     });
-  }, [activeTool, connectingFromFrameId, connections, createConnection, info, success, broadcastFrameSelect, userName, userColor]);
+  }, [activeTool, frames, frameSize, connectingFromFrameId, connections, createConnection, info, success, broadcastFrameSelect, userName, userColor]);
+
+  // Drops approved and locked frames from `ids`, telling the user which were left alone
+  const skipProtectedFrames = useCallback((ids: string[], action: string) => {
+    const protectedFrames = frames.filter(f => ids.includes(f.id) && isFrameProtected(f.status));
+    if (protectedFrames.length === 1) {
+      const [frame] = protectedFrames;
+      info(`"${frame.title}" is ${getFrameStatusOption(frame.status).label.toLowerCase()} and can't be ${action}`);
+    } else if (protectedFrames.length > 1) {
+      info(`${protectedFrames.length} approved or locked frames can't be ${action}`);
+    }
+    return ids.filter(id => !protectedFrames.some(f => f.id === id));
+  }, [frames, info]);
 
+  // Deleting a frame that is part of a multi-selection deletes the whole selection
   const handleFrameDelete = useCallback(async (id: string) => {
-    await deleteFrame(id);
-    setSelectedFrames((prev) => prev.filter((f) => f !== id));
-  }, [deleteFrame]);
+    const ids = skipProtectedFrames(selectedFrames.includes(id) ? selectedFrames : [id], "deleted");
+    if (ids.length === 0) return;
 
-  // Handle frame position change during drag
-  // Uses state to track positions for real-time connection updates, debounces saves
-  const handleFramePositionChange = useCallback((id: string, { dx, dy }: { dx: number; dy: number }) => {
-    // Update drag positions state (triggers re-render for connection updates)
-    setDragPositions(prev => {
-      const newMap = new Map(prev);
-      const basePos = prev.get(id) || frames.find(f => f.id === id)?.position;
-      if (!basePos) return prev;
+    await runBatch(`Delete ${ids.length} frames`, async () => {
+      for (const frameId of ids) {
+        await deleteFrame(frameId);
+      }
+    });
+    setSelectedFrames((prev) => prev.filter((f) => !ids.includes(f)));
+  }, [selectedFrames, skipProtectedFrames, deleteFrame, runBatch]);
+
+  // Delete every selected frame as a single undo step
+  const handleDeleteSelected = useCallback(async () => {
+    if (selectedFrames.length === 0) return;
+    await handleFrameDelete(selectedFrames[0]);
+  }, [selectedFrames, handleFrameDelete]);
+
+  // Replace (or extend) the selection with frames inside the marquee rectangle
+  const handleMarqueeSelect = useCallback((ids: string[], additive: boolean) => {
+    setSelectedFrames((prev) => {
+      const newSelection = additive
+        ? [...prev, ...ids.filter((id) => !prev.includes(id))]
+        : ids;
+
+      const selectedId = newSelection.length === 1 ? newSelection[0] : null;
+      broadcastFrameSelect(selectedId, userName, userColor);
+
+      return newSelection;
+    });
+  }, [broadcastFrameSelect, userName, userColor]);
 
-      const newX = basePos.x + dx;
-      const newY = basePos.y + dy;
-      newMap.set(id, { x: newX, y: newY });
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      altKeyRef.current = e.altKey;
+    };
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+    };
+  }, []);
+
+  const handleSnapToGridToggle = useCallback(() => {
+    setSnapToGrid(prev => {
+      localStorage.setItem('sketchmotion_snap_to_grid', String(!prev));
+      return !prev;
+    });
+  }, []);
+
+  // Move frames by a delta during a drag (frame cards and scene containers)
+  // The moved group snaps to neighbouring frames (and the grid when enabled); saves are debounced and batched
+  const moveFramesBy = useCallback((movingIds: string[], dx: number, dy: number) => {
+    const key = movingIds.join(",");
+    let session = dragSessionRef.current;
+    if (!session || session.key !== key) {
+      const origins = new Map<string, { x: number; y: number }>();
+      movingIds.forEach(frameId => {
+        const basePos = workingPositionsRef.current.get(frameId) || frames.find(f => f.id === frameId)?.position;
+        if (basePos) origins.set(frameId, basePos);
+      });
+      session = { key, origins, dx: 0, dy: 0 };
+      dragSessionRef.current = session;
+    }
+    session.dx += dx;
+    session.dy += dy;
+
+    let offsetX = session.dx;
+    let offsetY = session.dy;
+    const origins = session.origins;
+    const bounds = getFramesBounds(
+      Array.from(origins.values()).map(p => ({ x: p.x + offsetX, y: p.y + offsetY })),
+      frameSize
+    );
+
+    if (bounds && !altKeyRef.current) {
+      const collapsedSceneIds = new Set(scenes.filter(s => s.isCollapsed).map(s => s.id));
+      const others = frames
+        .filter(f => !origins.has(f.id) && !(f.sceneId && collapsedSceneIds.has(f.sceneId)))
+        .map(f => frameRect(workingPositionsRef.current.get(f.id) || f.position, frameSize));
+      const snapped = snapRect(bounds, others, {
+        threshold: SNAP_THRESHOLD / viewport.zoom,
+        gridSize: snapToGrid ? GRID_SIZE : null,
+      });
+      offsetX += snapped.x - bounds.x;
+      offsetY += snapped.y - bounds.y;
+      setGuides(snapped.guides);
+    } else {
+      setGuides([]);
+    }
+
+    // Update drag positions (re-renders only the canvas and the moved cards)
+    const moved: Array<{ id: string; x: number; y: number }> = [];
+    origins.forEach((origin, frameId) => {
+      const newX = origin.x + offsetX;
+      const newY = origin.y + offsetY;
+      moved.push({ id: frameId, x: newX, y: newY });
 
       // Also update ref for debounced save
-      workingPositionsRef.current.set(id, { x: newX, y: newY });
+      workingPositionsRef.current.set(frameId, { x: newX, y: newY });
 
       // Broadcast movement to other collaborators (throttled)
-      throttledFrameMoveBroadcast(id, { x: newX, y: newY });
-
-      return newMap;
+      throttledFrameMoveBroadcast(frameId, { x: newX, y: newY });
     });
+    setDragPositions(moved);
 
-    // Clear any pending save for this frame
-    const existingTimeout = saveTimeoutRef.current.get(id);
-    if (existingTimeout) {
-      clearTimeout(existingTimeout);
-    }
-
-    // Debounce the database save (300ms after drag stops)
-    const timeout = setTimeout(async () => {
-      const finalPos = workingPositionsRef.current.get(id);
-      if (finalPos) {
-        console.log(`[POSITION] Saving ${id} to (${finalPos.x}, ${finalPos.y})`);
-        await updateFramePosition(id, finalPos.x, finalPos.y);
-        // Clear from working ref and drag state after successful save
-        workingPositionsRef.current.delete(id);
-        setDragPositions(prev => {
-          const newMap = new Map(prev);
-          newMap.delete(id);
-          return newMap;
-        });
-        saveTimeoutRef.current.delete(id);
-      }
+    // Clear any pending save
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+
+    // Debounce the database save (300ms after drag stops), all moved frames in one request
+    saveTimeoutRef.current = setTimeout(async () => {
+      saveTimeoutRef.current = null;
+      const positions = Array.from(workingPositionsRef.current.entries())
+        .map(([frameId, pos]) => ({ id: frameId, x: pos.x, y: pos.y }));
+      if (positions.length === 0) return;
+
+      console.log(`[POSITION] Saving ${positions.length} frame position(s)`);
+      await updateFramePositions(positions);
+
+      // Clear from working ref and drag state after save
+      positions.forEach(p => workingPositionsRef.current.delete(p.id));
+      clearDragPositions(positions.map(p => p.id));
     }, 300);
+  }, [frames, scenes, frameSize, viewport.zoom, snapToGrid, updateFramePositions, throttledFrameMoveBroadcast, setDragPositions, clearDragPositions, setGuides]);
 
-    saveTimeoutRef.current.set(id, timeout);
-  }, [frames, updateFramePosition, throttledFrameMoveBroadcast]);
+  const endFrameDrag = useCallback(() => {
+    dragSessionRef.current = null;
+    setGuides([]);
+  }, [setGuides]);
 
+  // Handle frame position change during drag
+  // Dragging a selected frame moves the whole selection
+  const handleFramePositionChange = useCallback((id: string, { dx, dy }: { dx: number; dy: number }) => {
+    moveFramesBy(selectedFrames.includes(id) ? selectedFrames : [id], dx, dy);
+  }, [selectedFrames, moveFramesBy]);
+
+  // Align or distribute the selection; all positions are saved in one request and one undo step
+  const applySelectionLayout = useCallback(async (
+    label: string,
+    layout: (positions: Array<{ id: string; x: number; y: number }>) => Array<{ id: string; x: number; y: number }>
+  ) => {
+    const positions = frames
+      .filter(f => selectedFrames.includes(f.id))
+      .map(f => ({ id: f.id, ...(workingPositionsRef.current.get(f.id) || f.position) }));
+
+    const updates = layout(positions).filter(p => {
+      const before = positions.find(b => b.id === p.id);
+      return before && (before.x !== p.x || before.y !== p.y);
+    });
+    if (updates.length === 0) return;
+
+    clearDragPositions(updates.map(p => p.id));
+    updates.forEach(p => workingPositionsRef.current.delete(p.id));
+
+    await runBatch(label, () => updateFramePositions(updates));
+  }, [frames, selectedFrames, runBatch, updateFramePositions, clearDragPositions]);
+
+  const handleAlign = useCallback((mode: AlignMode) => {
+    applySelectionLayout(`Align ${mode}`, positions => alignPositions(positions, mode));
+  }, [applySelectionLayout]);
+
+  const handleDistribute = useCallback((axis: DistributeAxis) => {
+    applySelectionLayout(`Distribute ${axis}ly`, positions => distributePositions(positions, axis));
+  }, [applySelectionLayout]);
+
+  // Duplicating a frame that is part of a multi-selection duplicates the whole selection,
+  // including the connections between the selected frames
   const handleFrameDuplicate = useCallback(async (id: string) => {
-    const frame = frames.find((f) => f.id === id);
-    if (frame) {
-      const newFrame = await createFrame(
-        `${frame.title} (Copy)`,
-        frame.position.x + 50,
-        frame.position.y + 50
-      );
-      
-      // Copy all properties including images to the new frame
-      if (newFrame) {
-        await updateFrame(newFrame.id, {
-          status: frame.status,
-          sketchUrl: frame.sketchDataUrl || null,
-          polishedUrl: frame.polishedDataUrl || null,
-          motionNotes: frame.motionNotes || null,
-          animationStyle: frame.animationStyle || 'static',
-          durationMs: frame.durationMs || 2000,
-        });
+    const ids = selectedFrames.includes(id) ? selectedFrames : [id];
+    const sourceFrames = frames.filter((f) => ids.includes(f.id));
+    if (sourceFrames.length === 0) return;
+
+    const label = sourceFrames.length === 1
+      ? `Duplicate "${sourceFrames[0].title}"`
+      : `Duplicate ${sourceFrames.length} frames`;
+
+    const idMap = new Map<string, string>();
+
+    // Create + copy is a single undo step
+    await runBatch(label, async () => {
+      for (const frame of sourceFrames) {
+        const newFrame = await createFrame(
+          `${frame.title} (Copy)`,
+          frame.position.x + 50,
+          frame.position.y + 50,
+          { sceneId: frame.sceneId }
+        );
+
+        // Copy all properties including images to the new frame
+        if (newFrame) {
+          idMap.set(frame.id, newFrame.id);
+          await updateFrame(newFrame.id, {
+            // Copies go back into the workflow; review state stays with the original
+            status: artworkStatus({ sketchUrl: frame.sketchDataUrl, polishedUrl: frame.polishedDataUrl, status: frame.status }),
+            sketchUrl: frame.sketchDataUrl || null,
+            sketchDocument: frame.sketchDataUrl ? frame.sketchDocument ?? null : null,
+            polishedUrl: frame.polishedDataUrl || null,
+            motionNotes: frame.motionNotes || null,
+            animationStyle: frame.animationStyle || 'static',
+            durationMs: frame.durationMs || 2000,
+            shot: frame.shot,
+          });
+        }
       }
+
+      // Recreate connections that stay inside the duplicated group
+      for (const conn of connections) {
+        const from = idMap.get(conn.from);
+        const to = idMap.get(conn.to);
+        if (from && to) {
+          await createConnection(from, to, conn.transitionType, {}, conn.transitionDurationMs);
+        }
+      }
+    });
+
+    if (idMap.size > 1) {
+      setSelectedFrames(Array.from(idMap.values()));
+    }
+  }, [frames, connections, selectedFrames, createFrame, updateFrame, createConnection, runBatch]);
+
+  // Clipboard payload for the given frames (defaults to the selection)
+  const getClipboardPayload = useCallback((ids: string[] = selectedFrames) => {
+    if (!board || ids.length === 0) return null;
+    const sourceFrames = board.frames.filter(f => ids.includes(f.id));
+    if (sourceFrames.length === 0) return null;
+    return buildClipboardPayload(board.id, sourceFrames, board.connections);
+  }, [board, selectedFrames]);
+
+  // Remove frames after they were cut to the clipboard (one undo step)
+  const removeCutFrames = useCallback(async (cutIds: string[]) => {
+    const ids = skipProtectedFrames(cutIds, "removed");
+    if (ids.length === 0) return;
+    await runBatch(`Cut ${ids.length} frame${ids.length !== 1 ? "s" : ""}`, async () => {
+      for (const frameId of ids) {
+        await deleteFrame(frameId);
+      }
+    });
+    setSelectedFrames((prev) => prev.filter((f) => !ids.includes(f)));
+  }, [skipProtectedFrames, runBatch, deleteFrame]);
+
+  // Copy (or cut) from a card menu: acts on the selection when the frame is part of it
+  const handleFrameCopy = useCallback(async (id: string, cut = false) => {
+    const ids = selectedFrames.includes(id) ? selectedFrames : [id];
+    const payload = getClipboardPayload(ids);
+    if (!payload) return;
+
+    await writeClipboardPayload(payload);
+    const count = payload.frames.length;
+    info(`📋 ${cut ? "Cut" : "Copied"} ${count} frame${count !== 1 ? "s" : ""}`);
+
+    if (cut) await removeCutFrames(ids);
+  }, [selectedFrames, getClipboardPayload, removeCutFrames, info]);
+
+  // Recreate clipboard frames on this board and select them
+  const handlePasteFrames = useCallback(async (payload: FrameClipboardPayload) => {
+    if (isReadOnly) {
+      info("This board is view-only");
+      return;
+    }
+
+    // Offset repeated pastes on the source board so copies don't stack exactly
+    let offset = { x: 0, y: 0 };
+    if (payload.sourceBoardId === boardId) {
+      const previous = pasteCountRef.current;
+      const count = previous.copiedAt === payload.copiedAt ? previous.count + 1 : 1;
+      pasteCountRef.current = { copiedAt: payload.copiedAt, count };
+      offset = { x: 40 * count, y: 40 * count };
+    }
+
+    const count = payload.frames.length;
+    info(`📋 Pasting ${count} frame${count !== 1 ? "s" : ""}...`);
+
+    const result = await pasteFrames(payload, offset);
+    if (!result) {
+      notifyError("Paste failed");
+      return;
+    }
+
+    setSelectedFrames(result.frames.map(f => f.id));
+    if (result.failedImages > 0) {
+      notifyError(`Pasted ${result.frames.length} frames, ${result.failedImages} image(s) could not be copied`);
+    } else {
+      success(`📋 Pasted ${result.frames.length} frame${result.frames.length !== 1 ? "s" : ""}`);
+    }
+  }, [boardId, isReadOnly, pasteFrames, info, success, notifyError]);
+
+  // Image files dropped or pasted on the canvas become connected frames, in file order,
+  // starting at `position` (canvas coordinates; the middle of the view when omitted)
+  const handleImportImages = useCallback(async (files: File[], position?: { x: number; y: number }) => {
+    if (isReadOnly) {
+      info("This board is view-only");
+      return;
+    }
+    if (files.length === 0) {
+      info("No images found to import");
+      return;
     }
-  }, [frames, createFrame, updateFrame]);
 
-  const handleCanvasClick = useCallback(async (position: { x: number; y: number }) => {
+    const accepted = files.slice(0, MAX_IMPORT_FILES);
+    if (files.length > accepted.length) {
+      info(`Only the first ${MAX_IMPORT_FILES} images will be imported`);
+    }
+    info(`🖼️ Importing ${accepted.length} image${accepted.length !== 1 ? "s" : ""}...`);
+
+    const renderSize = getRenderSize(aspectRatio);
+    const images: ImportedImage[] = [];
+    let unreadable = 0;
+    for (const file of accepted) {
+      try {
+        images.push(await loadImageFile(file, renderSize));
+      } catch (err) {
+        console.warn("Image import failed:", err);
+        unreadable++;
+      }
+    }
+    if (images.length === 0) {
+      notifyError("None of the images could be read");
+      return;
+    }
+
+    let origin = position;
+    if (!origin) {
+      const visible = getVisibleRect(viewport, viewportSize);
+      origin = { x: visible.x + visible.width / 2, y: visible.y + visible.height / 2 };
+    }
+    // The first frame is centred on the drop point
+    const offset = { x: origin.x - frameSize.width / 2, y: origin.y - frameSize.height / 2 };
+
+    const payload = imagesToPayload(images, frameSize, ARRANGE_GAP_X);
+    const result = await pasteFrames(payload, offset);
+    if (!result) {
+      notifyError("Import failed");
+      return;
+    }
+
+    setSelectedFrames(result.frames.map(f => f.id));
+    const failed = unreadable + result.failedImages;
+    if (failed > 0) {
+      notifyError(`Imported ${result.frames.length} frames, ${failed} image(s) could not be added`);
+    } else {
+      success(`🖼️ Imported ${result.frames.length} frame${result.frames.length !== 1 ? "s" : ""}`);
+    }
+  }, [isReadOnly, aspectRatio, viewport, viewportSize, frameSize, pasteFrames, info, success, notifyError]);
+
+  // System clipboard events (Ctrl/Cmd+C, X, V) for the frame selection
+  useEffect(() => {
+    const isEditingText = (target: EventTarget | null) =>
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement ||
+      (target instanceof HTMLElement && target.isContentEditable);
+
+    const handleCopyEvent = (e: ClipboardEvent, cut: boolean) => {
+      if (isEditingText(e.target) || isSketchEditorOpen) return;
+      // Leave regular text selections alone
+      if (window.getSelection()?.toString()) return;
+
+      const payload = getClipboardPayload();
+      if (!payload || !e.clipboardData) return;
+
+      e.preventDefault();
+      e.clipboardData.setData("text/plain", JSON.stringify(payload));
+      storeClipboardPayload(payload);
+
+      const count = payload.frames.length;
+      const doCut = cut && !isReadOnly;
+      info(`📋 ${doCut ? "Cut" : "Copied"} ${count} frame${count !== 1 ? "s" : ""}`);
+      if (doCut) removeCutFrames(selectedFrames);
+    };
+
+    const onCopy = (e: ClipboardEvent) => handleCopyEvent(e, false);
+    const onCut = (e: ClipboardEvent) => handleCopyEvent(e, true);
+
+    const onPaste = (e: ClipboardEvent) => {
+      if (isEditingText(e.target) || isSketchEditorOpen) return;
+
+      // Copied images (e.g. screenshots) become new frames
+      const images = getClipboardImages(e.clipboardData);
+      if (images.length > 0) {
+        e.preventDefault();
+        handleImportImages(images);
+        return;
+      }
+
+      const text = e.clipboardData?.getData("text/plain");
+      // Fall back to the local mirror only when the clipboard has no text at all
+      const payload = text ? parseClipboardPayload(text) : getStoredClipboardPayload();
+      if (!payload) return;
+
+      e.preventDefault();
+      handlePasteFrames(payload);
+    };
+
+    document.addEventListener("copy", onCopy);
+    document.addEventListener("cut", onCut);
+    document.addEventListener("paste", onPaste);
+    return () => {
+      document.removeEventListener("copy", onCopy);
+      document.removeEventListener("cut", onCut);
+      document.removeEventListener("paste", onPaste);
+    };
+  }, [selectedFrames, isReadOnly, isSketchEditorOpen, getClipboardPayload, removeCutFrames, handlePasteFrames, handleImportImages, info]);
+
+  // Clicking inside an expanded scene adds the frame to that scene
+  const handleCanvasClick = useCallback(async (position: { x: number; y: number }, sceneId?: string) => {
     // Extract existing frame numbers and find the max to ensure unique incrementing titles
     const existingNumbers = frames
       .map(f => {
@@ -560,33 +1321,152 @@ export function CanvasPage() {
     const newFrame = await createFrame(
       `Frame ${maxFrameNumber + 1}`,
       position.x,
-      position.y
+      position.y,
+      { sceneId }
     );
     if (newFrame) {
       setSelectedFrames([newFrame.id]);
-      success(`${newFrame.title} added to canvas`);
+      const scene = sceneId ? scenes.find(s => s.id === sceneId) : undefined;
+      success(scene ? `${newFrame.title} added to "${scene.name}"` : `${newFrame.title} added to canvas`);
+    }
+  }, [frames, scenes, createFrame, success]);
+
+  // Frames acted on from a card menu: the whole selection when the frame is part of it
+  const getActionFrameIds = useCallback((frameId: string) => {
+    return selectedFrames.includes(frameId) ? selectedFrames : [frameId];
+  }, [selectedFrames]);
+
+  // Polish style override from the frame's scene (null = default polish)
+  const getScenePolishStyle = useCallback((frameId: string) => {
+    const sceneId = frames.find(f => f.id === frameId)?.sceneId;
+    return scenes.find(s => s.id === sceneId)?.polishStyle || null;
+  }, [frames, scenes]);
+
+  // Group the given frames (or the current selection) into a new scene
+  const handleGroupIntoScene = useCallback(async (frameId?: string) => {
+    const ids = frameId ? getActionFrameIds(frameId) : selectedFrames;
+    if (ids.length === 0) {
+      info("Select frames to group into a scene");
+      return;
+    }
+
+    const name = `Scene ${scenes.length + 1}`;
+    const scene = await createScene(name, ids);
+    if (scene) {
+      success(`🎬 Grouped ${ids.length} frame${ids.length !== 1 ? 's' : ''} into "${name}"`);
+    }
+  }, [selectedFrames, scenes.length, getActionFrameIds, createScene, info, success]);
+
+  const handleMoveToScene = useCallback(async (frameId: string, sceneId: string | null) => {
+    const ids = getActionFrameIds(frameId);
+    const ok = await assignFramesToScene(ids, sceneId);
+    if (!ok) return;
+
+    const scene = scenes.find(s => s.id === sceneId);
+    info(scene ? `🎬 Moved to "${scene.name}"` : "Removed from scene");
+  }, [scenes, getActionFrameIds, assignFramesToScene, info]);
+
+  // Clicking a scene header selects its frames
+  const handleSceneSelect = useCallback((sceneId: string, additive: boolean) => {
+    const memberIds = frames.filter(f => f.sceneId === sceneId).map(f => f.id);
+    if (memberIds.length === 0) return;
+    handleMarqueeSelect(memberIds, additive);
+  }, [frames, handleMarqueeSelect]);
+
+  // Collapsed state is a view preference, so it is not part of the undo history
+  const handleSceneToggleCollapse = useCallback(async (sceneId: string) => {
+    const scene = scenes.find(s => s.id === sceneId);
+    if (!scene) return;
+    await updateScene(sceneId, { isCollapsed: !scene.isCollapsed }, { recordHistory: false });
+  }, [scenes, updateScene]);
+
+  // Dragging a scene moves its frames; empty scenes move their anchor
+  const handleSceneMove = useCallback((sceneId: string, { dx, dy }: { dx: number; dy: number }) => {
+    const memberIds = frames.filter(f => f.sceneId === sceneId).map(f => f.id);
+    if (memberIds.length > 0) {
+      moveFramesBy(memberIds, dx, dy);
+      return;
+    }
+
+    const scene = scenes.find(s => s.id === sceneId);
+    if (!scene) return;
+    setSceneDragPositions(prev => {
+      const base = prev.get(sceneId) || { x: scene.x, y: scene.y };
+      return new Map(prev).set(sceneId, { x: base.x + dx, y: base.y + dy });
+    });
+  }, [frames, scenes, moveFramesBy]);
+
+  const handleSceneMoveEnd = useCallback(async (sceneId: string) => {
+    endFrameDrag();
+    const position = sceneDragPositions.get(sceneId);
+    if (!position) return;
+
+    await updateScene(sceneId, position);
+    setSceneDragPositions(prev => {
+      const next = new Map(prev);
+      next.delete(sceneId);
+      return next;
+    });
+  }, [sceneDragPositions, updateScene, endFrameDrag]);
+
+  const handleSceneUpdate = useCallback(async (
+    sceneId: string,
+    updates: { name?: string; animationStyle?: string | null; durationMs?: number | null; polishStyle?: string | null }
+  ) => {
+    await updateScene(sceneId, updates);
+  }, [updateScene]);
+
+  // Push the scene's animation style and duration onto every frame in it
+  const handleSceneApplyDefaults = useCallback(async (sceneId: string) => {
+    const scene = scenes.find(s => s.id === sceneId);
+    if (!scene) return;
+
+    const updates: { animationStyle?: string; durationMs?: number } = {};
+    if (scene.animationStyle) updates.animationStyle = scene.animationStyle;
+    if (scene.durationMs) updates.durationMs = scene.durationMs;
+    if (Object.keys(updates).length === 0) return;
+
+    const members = frames.filter(f => f.sceneId === sceneId && !isFrameProtected(f.status));
+    await runBatch(`Apply "${scene.name}" defaults`, async () => {
+      for (const frame of members) {
+        await updateFrame(frame.id, updates);
+      }
+    });
+    success(`🎬 Applied scene defaults to ${members.length} frame${members.length !== 1 ? 's' : ''}`);
+  }, [frames, scenes, runBatch, updateFrame, success]);
+
+  const handleSceneUngroup = useCallback(async (sceneId: string) => {
+    const scene = scenes.find(s => s.id === sceneId);
+    const ok = await deleteScene(sceneId);
+    if (ok && scene) {
+      info(`Ungrouped "${scene.name}"`);
     }
-  }, [frames, createFrame, success]);
+  }, [scenes, deleteScene, info]);
 
   // Handle frame double-click to open sketch editor
   const handleFrameDoubleClick = useCallback((id: string) => {
     const frame = frames.find(f => f.id === id);
-    if (frame) {
+    if (frame && skipProtectedFrames([id], "edited").length > 0) {
       // Open sketch editor instead of text editor
+      sketchEditorBaseRef.current = board?.frames.find(f => f.id === id) ?? null;
       setSketchEditorFrameId(id);
       setIsSketchEditorOpen(true);
     }
-  }, [frames]);
+  }, [frames, board, skipProtectedFrames]);
 
   // Handle polishing a single frame (used by FrameCard quick polish and sketch editor)
   const handlePolishSingleFrame = useCallback(async (frameId: string) => {
     const frame = frames.find(f => f.id === frameId);
-    if (!frame?.sketchDataUrl) return;
+    if (!frame?.sketchDataUrl || skipProtectedFrames([frameId], "re-polished").length === 0) return;
 
     try {
       info(`✨ Polishing "${frame.title}"...`);
 
-      const polished = await polishSketch(frame.sketchDataUrl);
+      const sceneStyle = getScenePolishStyle(frameId);
+      const source = await renderPolishSource(frame.sketchDocument, frame.sketchDataUrl);
+      const polished = sceneStyle
+        ? await polishSketchWithStyle(source, sceneStyle, aspectRatio)
+        : await polishSketch(source, aspectRatio);
       if (polished) {
         // Save polished image to Supabase
         await saveFrameImage(frameId, polished, 'polished');
@@ -598,15 +1478,15 @@ export function CanvasPage() {
       console.error("Polish failed:", error);
       notifyError(`Polish failed: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
-  }, [frames, saveFrameImage, success, notifyError, info]);
+  }, [frames, aspectRatio, getScenePolishStyle, skipProtectedFrames, saveFrameImage, success, notifyError, info]);
 
   // Batch polish ALL frames with sketches for storyboard consistency
   const handleBatchPolishAll = useCallback(async () => {
     // Find ALL frames that have sketches but aren't polished yet
-    const framesToPolish = frames.filter(f => f.sketchDataUrl && f.status !== "polished");
+    const framesToPolish = frames.filter(f => f.sketchDataUrl && !isPolishedStatus(f.status));
 
     if (framesToPolish.length === 0) {
-      const alreadyPolished = frames.filter(f => f.status === "polished").length;
+      const alreadyPolished = frames.filter(f => isPolishedStatus(f.status)).length;
       if (alreadyPolished > 0) {
         info("All frames already polished");
       } else {
@@ -629,8 +1509,10 @@ export function CanvasPage() {
       try {
         info(`Polishing ${i + 1}/${framesToPolish.length}: ${frame.title}`);
 
-        // Use polishSketchWithStyle for consistent look across all frames
-        const polishedImage = await polishSketchWithStyle(frame.sketchDataUrl!, consistentStyle);
+        // Use polishSketchWithStyle for consistent look across all frames (scene style wins)
+        const style = getScenePolishStyle(frame.id) || consistentStyle;
+        const source = await renderPolishSource(frame.sketchDocument, frame.sketchDataUrl!);
+        const polishedImage = await polishSketchWithStyle(source, style, aspectRatio);
 
         if (polishedImage) {
           await saveFrameImage(frame.id, polishedImage, 'polished');
@@ -650,7 +1532,7 @@ export function CanvasPage() {
 
       success(`🎨 ${successCount}/${framesToPolish.length} frames polished!`);
     }
-  }, [frames, saveFrameImage, refreshBoard, info, success, notifyError]);
+  }, [frames, aspectRatio, getScenePolishStyle, saveFrameImage, refreshBoard, info, success, notifyError]);
 
   // Handle saving sketch from editor (with optional polish)
   // When isPolished=true, dataUrl contains the already-polished image from the preview
@@ -660,25 +1542,29 @@ export function CanvasPage() {
     isPolished: boolean = false,
     motionNotes?: string,
     animationStyle?: AnimationStyle,
-    originalSketchData?: string
+    originalSketchData?: string,
+    sketchDocument?: SketchDocument
   ) => {
     if (sketchEditorFrameId) {
-      // If this is a polished save, save the original sketch FIRST
-      if (isPolished && originalSketchData) {
-        await saveFrameImage(sketchEditorFrameId, originalSketchData, 'sketch');
-        console.log('Original sketch saved before polished version');
-      }
+      // Sketch, polish and notes are saved as one undo step
+      await runBatch("Edit sketch", async () => {
+        // If this is a polished save, save the original sketch FIRST
+        if (isPolished && originalSketchData) {
+          await saveFrameImage(sketchEditorFrameId, originalSketchData, 'sketch', { sketchDocument });
+          console.log('Original sketch saved before polished version');
+        }
 
-      // Save the main image (sketch or polished)
-      await saveFrameImage(sketchEditorFrameId, dataUrl, isPolished ? 'polished' : 'sketch');
+        // Save the main image (sketch or polished)
+        await saveFrameImage(sketchEditorFrameId, dataUrl, isPolished ? 'polished' : 'sketch', { sketchDocument });
 
-      // Update motion notes and animation style if provided
-      if (motionNotes || animationStyle) {
-        await updateFrame(sketchEditorFrameId, {
-          motionNotes,
-          animationStyle,
-        });
-      }
+        // Update motion notes and animation style if provided
+        if (motionNotes || animationStyle) {
+          await updateFrame(sketchEditorFrameId, {
+            motionNotes,
+            animationStyle,
+          }, { base: sketchEditorBaseRef.current ?? undefined });
+        }
+      });
 
       success(isPolished ? "✨ Polished & Saved!" : "Sketch saved to frame");
 
@@ -688,7 +1574,7 @@ export function CanvasPage() {
       setIsSketchEditorOpen(false);
       setSketchEditorFrameId(null);
     }
-  }, [sketchEditorFrameId, saveFrameImage, updateFrame, success, refreshBoard]);
+  }, [sketchEditorFrameId, saveFrameImage, updateFrame, runBatch, success, refreshBoard]);
 
   // Get frame for sketch editor
   const sketchEditorFrame = useMemo(() => {
@@ -699,6 +1585,7 @@ export function CanvasPage() {
       id: frame.id,
       title: frame.title,
       sketchDataUrl: frame.sketchDataUrl,
+      sketchDocument: frame.sketchDocument,
       motionNotes: frame.motionNotes,
       animationStyle: frame.animationStyle,
     };
@@ -715,60 +1602,57 @@ export function CanvasPage() {
     }
   }, [editingFrame, editTitle, updateFrame, success]);
 
-  // Load demo storyboard
-  const handleLoadDemo = useCallback(async () => {
-    // Create demo frames in Supabase
-    for (const frame of demoFrames) {
-      await createFrame(frame.title, frame.position.x, frame.position.y);
+  // Fill the board from a template (offered while the board is empty)
+  const handleApplyTemplate = useCallback(async (template: BoardTemplate | null) => {
+    if (!template) return;
+    const result = await runBatch(`Apply ${template.name} template`, async () => {
+      const pasted = await pasteFrames(templateToPayload(template.data));
+      if (pasted && template.data.readingDirection !== readingDirection) {
+        await updateReadingDirection(template.data.readingDirection);
+      }
+      if (pasted && template.data.aspectRatio && template.data.aspectRatio !== aspectRatio) {
+        await updateAspectRatio(template.data.aspectRatio);
+      }
+      return pasted;
+    });
+    if (!result) {
+      notifyError("Template could not be applied");
+      return;
     }
-
-    // Note: For connections, we'd need to wait for frame IDs and create them
-    // For now, just update the board name
-    await updateBoardName("Product Launch Animation");
+    setShowTemplateGallery(false);
     setSelectedFrames([]);
-    success("🎬 Demo storyboard loaded!");
-  }, [createFrame, updateBoardName, success]);
+    if (result.failedImages > 0) {
+      notifyError(`${result.failedImages} placeholder sketch(es) could not be copied`);
+    } else {
+      success(`🎬 ${template.name} template applied`);
+    }
+  }, [pasteFrames, readingDirection, aspectRatio, updateReadingDirection, updateAspectRatio, runBatch, success, notifyError]);
+
+  const handleSaveTemplate = useCallback(async (name: string, description: string, includeSketches: boolean) => {
+    if (!board) return;
+    if (await saveTemplate(board, name, description, includeSketches)) {
+      setShowSaveTemplate(false);
+      success("📐 Saved as template");
+    } else {
+      notifyError("Template could not be saved");
+    }
+  }, [board, saveTemplate, success, notifyError]);
 
   // Get frames in sequence order (following connections)
-  // Handles multiple outgoing connections from a single frame (breadth-first)
+  // A named cut plays its saved path; the main cut skips alternate branches (see getMainCutFrames)
   const getSequencedFrames = useCallback(() => {
-    if (connections.length === 0) return frames;
-
-    const targetIds = new Set(connections.map(c => c.to));
-    const rootFrames = frames.filter(f => !targetIds.has(f.id));
-
-    const ordered: Frame[] = [];
-    const visited = new Set<string>();
-
-    // Breadth-first traversal to handle multiple outgoing connections
-    const traverse = (frameId: string) => {
-      if (visited.has(frameId)) return;
-      const frame = frames.find(f => f.id === frameId);
-      if (!frame) return;
-
-      visited.add(frameId);
-      ordered.push(frame);
-
-      // Find ALL outgoing connections from this frame (not just the first)
-      const outgoingConns = connections.filter(c => c.from === frameId);
-      outgoingConns.forEach(conn => traverse(conn.to));
-    };
-
-    rootFrames.forEach(f => traverse(f.id));
-    // Add any unvisited frames (orphans or in cycles)
-    frames.forEach(f => {
-      if (!visited.has(f.id)) ordered.push(f);
-    });
-
-    return ordered;
-  }, [frames, connections]);
+    if (activeCut) return resolveCutFrames(activeCut.frameIds, frames);
+    return getMainCutFrames(frames, connections, scenes.map(s => s.id));
+  }, [frames, connections, scenes, activeCut]);
 
   // Get separate chains for better visual grouping
   // Returns array of chains, where each chain is an array of frames
+  // Chains follow the main path; branch targets start chains of their own
   const getConnectionChains = useCallback((): Frame[][] => {
-    if (connections.length === 0) return [frames];
+    const mainConnections = getMainConnections(connections);
+    if (mainConnections.length === 0) return [frames];
 
-    const targetIds = new Set(connections.map(c => c.to));
+    const targetIds = new Set(mainConnections.map(c => c.to));
     const rootFrames = frames.filter(f => !targetIds.has(f.id));
 
     const chains: Frame[][] = [];
@@ -790,7 +1674,7 @@ export function CanvasPage() {
         chain.push(frame);
 
         // Find all outgoing connections and add to queue
-        const outgoingConns = connections.filter(c => c.from === frameId);
+        const outgoingConns = mainConnections.filter(c => c.from === frameId);
         outgoingConns.forEach(conn => {
           if (!visited.has(conn.to)) {
             queue.push(conn.to);
@@ -820,116 +1704,138 @@ export function CanvasPage() {
     return chains;
   }, [frames, connections]);
 
-  // Auto-arrange frames in a clean grid layout
-  // Groups connected chains together for better visual organization
+  // Auto-arrange frames as a layered graph in the board's reading direction
+  // Branches fan out side by side, merges line up, and cycles are kept instead of dropped
   const handleAutoArrange = useCallback(async () => {
-    if (frames.length < 2) return;
+    if (frames.length < 2 || isArranging) return;
 
     // CRITICAL: Clear all pending drag state FIRST to prevent stale positions
     // This fixes the bug where connections point to empty space after auto-arrange
-    // because dragPositions had priority over the new calculated positions
-    setDragPositions(new Map());
+    // because drag positions had priority over the new calculated positions
+    clearDragPositions();
     workingPositionsRef.current.clear();
 
-    // Cancel all pending save timeouts
-    saveTimeoutRef.current.forEach(timeout => clearTimeout(timeout));
-    saveTimeoutRef.current.clear();
-
-    // Layout constants
-    const frameWidth = 220;
-    const frameHeight = 180;
-    const gapX = 80;
-    const gapY = 100;  // Gap between rows/chains
-    const startX = 100;
-    const startY = 120;
-
-    // Collect all position updates to batch them
-    const positionUpdates: Array<{ id: string; x: number; y: number }> = [];
-
-    if (connections.length > 0) {
-      // Build a proper linear chain following connections in order
-      // Find the root frames (frames that are NOT targets of any connection)
-      const targetIds = new Set(connections.map(c => c.to));
-      const rootFrames = frames.filter(f => !targetIds.has(f.id));
-
-      const visited = new Set<string>();
-      let currentY = startY;
-
-      // Process each chain starting from root frames
-      rootFrames.forEach(rootFrame => {
-        if (visited.has(rootFrame.id)) return;
-
-        // Build linear chain by following connections one by one
-        const chain: Frame[] = [];
-        let currentFrameId: string | null = rootFrame.id;
-
-        while (currentFrameId && !visited.has(currentFrameId)) {
-          const frame = frames.find(f => f.id === currentFrameId);
-          if (!frame) break;
-
-          visited.add(currentFrameId);
-          chain.push(frame);
-
-          // Find the next frame in the sequence (first outgoing connection)
-          const nextConnection = connections.find(c => c.from === currentFrameId);
-          currentFrameId = nextConnection?.to || null;
-        }
+    // Cancel pending position save
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = null;
+
+    // Keep the arranged board where the frames already are
+    const bounds = getFramesBounds(frames.map(f => f.position), frameSize);
+    const targets = layoutGraph(frames.map(f => f.id), connections, {
+      direction: readingDirection,
+      nodeWidth: frameSize.width,
+      nodeHeight: frameSize.height,
+      gapX: ARRANGE_GAP_X,
+      gapY: ARRANGE_GAP_Y,
+      origin: { x: bounds?.x ?? 100, y: bounds?.y ?? 120 },
+    });
 
-        // Position all frames in this chain on a single horizontal row
-        chain.forEach((frame, colIndex) => {
-          const x = startX + colIndex * (frameWidth + gapX);
-          const y = currentY;
-          positionUpdates.push({ id: frame.id, x, y });
+    const origins = new Map(frames.map(f => [f.id, f.position]));
+    const positionUpdates = Array.from(targets.entries()).map(([id, pos]) => ({ id, ...pos }));
+
+    // Glide every frame (and its connections) to the new layout, then save once
+    setIsArranging(true);
+    await new Promise<void>(resolve => {
+      const startTime = performance.now();
+      const step = (now: number) => {
+        const t = Math.min((now - startTime) / ARRANGE_ANIMATION_MS, 1);
+        const k = 1 - Math.pow(1 - t, 3);
+        const next = new Map<string, { x: number; y: number }>();
+        targets.forEach((target, id) => {
+          const origin = origins.get(id) ?? target;
+          next.set(id, { x: origin.x + (target.x - origin.x) * k, y: origin.y + (target.y - origin.y) * k });
         });
+        replaceDragPositions(next);
 
-        // Move to next row for the next chain
-        if (chain.length > 0) {
-          currentY += frameHeight + gapY;
+        if (t < 1) {
+          arrangeAnimationRef.current = requestAnimationFrame(step);
+        } else {
+          arrangeAnimationRef.current = null;
+          resolve();
         }
-      });
-
-      // Handle any orphan frames (not connected to anything)
-      const orphans = frames.filter(f => !visited.has(f.id));
-      if (orphans.length > 0) {
-        orphans.forEach((frame, colIndex) => {
-          const x = startX + colIndex * (frameWidth + gapX);
-          const y = currentY;
-          positionUpdates.push({ id: frame.id, x, y });
-        });
-      }
-    } else {
-      // No connections - arrange in grid
-      const cols = Math.ceil(Math.sqrt(frames.length));
-
-      frames.forEach((frame, i) => {
-        const col = i % cols;
-        const row = Math.floor(i / cols);
-        const x = startX + col * (frameWidth + gapX);
-        const y = startY + row * (frameHeight + gapY);
-        positionUpdates.push({ id: frame.id, x, y });
-      });
-    }
-
-    // Batch update all positions concurrently for better performance
-    await Promise.all(
-      positionUpdates.map(({ id, x, y }) => updateFramePosition(id, x, y))
-    );
+      };
+      arrangeAnimationRef.current = requestAnimationFrame(step);
+    });
 
-    // Refresh board data to ensure UI has latest positions for connection rendering
-    // This fixes race condition where concurrent state updates cause stale frame positions
-    await refreshBoard();
+    // Save every position in a single request (and a single undo step)
+    await runBatch("Auto-arrange", () => updateFramePositions(positionUpdates));
+    clearDragPositions();
+    setIsArranging(false);
 
     success("✨ Frames arranged");
-  }, [frames, connections, updateFramePosition, refreshBoard, success]);
+  }, [frames, connections, readingDirection, frameSize, isArranging, updateFramePositions, runBatch, success, clearDragPositions, replaceDragPositions]);
+
+  const handleReadingDirectionToggle = useCallback(async () => {
+    const next = readingDirection === "ltr" ? "ttb" : "ltr";
+    if (await updateReadingDirection(next)) {
+      info(next === "ltr" ? "Reading direction: left to right" : "Reading direction: top to bottom");
+    }
+  }, [readingDirection, updateReadingDirection, info]);
+
+  // Existing sketches keep their pixels; the editor letterboxes them into the new shape
+  const handleAspectRatioChange = useCallback(async (next: AspectRatio) => {
+    if (next === aspectRatio) return;
+    if (await updateAspectRatio(next)) {
+      const option = ASPECT_RATIOS.find(r => r.value === next);
+      info(`Aspect ratio: ${option?.label} ${next}`);
+    }
+  }, [aspectRatio, updateAspectRatio, info]);
 
   // Handle preview
   const handlePreview = useCallback(() => {
     if (frames.length < 1) return;
     setPreviewIndex(0);
+    setPreviewFromIndex(null);
     setShowPreviewModal(true);
     setIsPreviewPlaying(true);
   }, [frames.length]);
 
+  // Step the preview to another frame; stepping forward by one plays the connection's transition
+  const goToPreviewFrame = useCallback((index: number) => {
+    setPreviewFromIndex(index === previewIndex + 1 ? previewIndex : null);
+    setPreviewIndex(index);
+  }, [previewIndex]);
+
+  const previewTransitions = useMemo(
+    () => getSequenceTransitions(getSequencedFrames().map(f => f.id), connections),
+    [getSequencedFrames, connections]
+  );
+
+  // Record the sequence, with its transitions, as a downloadable WebM
+  const handleExportAnimatic = useCallback(async () => {
+    const sequencedFrames = getSequencedFrames();
+    if (sequencedFrames.length === 0 || animaticProgress !== null) return;
+
+    setIsPreviewPlaying(false);
+    setAnimaticProgress(0);
+    try {
+      const blob = await renderAnimatic(
+        sequencedFrames.map(f => ({
+          title: f.title,
+          imageUrl: f.polishedDataUrl || f.sketchDataUrl,
+          durationMs: f.durationMs || 2000,
+        })),
+        previewTransitions,
+        { ...getRenderSize(aspectRatio), onProgress: setAnimaticProgress }
+      );
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      const title = activeCut ? `${board?.name || "untitled"} ${activeCut.name}` : board?.name || "untitled";
+      const sanitizedTitle = title.toLowerCase().replace(/\s+/g, "-").replace(/[^a-z0-9-]/g, "");
+      a.href = url;
+      a.download = `sketchmotion-${sanitizedTitle}-animatic.webm`;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      success("🎞️ Animatic exported");
+    } catch (err) {
+      console.error("Animatic export failed:", err);
+      notifyError(err instanceof Error ? err.message : "Animatic export failed");
+    } finally {
+      setAnimaticProgress(null);
+    }
+  }, [getSequencedFrames, previewTransitions, aspectRatio, animaticProgress, board?.name, activeCut, success, notifyError]);
+
   // Auto-advance preview with actual frame durations
   useEffect(() => {
     if (!showPreviewModal || !isPreviewPlaying) return;
@@ -944,15 +1850,15 @@ export function CanvasPage() {
     const duration = currentFrame?.durationMs || 2000;
     
     const timer = setTimeout(() => {
-      setPreviewIndex(prev => prev + 1);
+      goToPreviewFrame(previewIndex + 1);
     }, duration);
     
     return () => clearTimeout(timer);
-  }, [showPreviewModal, isPreviewPlaying, previewIndex, getSequencedFrames]);
+  }, [showPreviewModal, isPreviewPlaying, previewIndex, getSequencedFrames, goToPreviewFrame]);
 
   // Computed value for polished frame count
   const polishedFrameCount = useMemo(() => 
-    frames.filter(f => f.status === 'polished').length,
+    frames.filter(f => isPolishedStatus(f.status)).length,
   [frames]);
 
   // Toggle Beat Mode
@@ -963,12 +1869,16 @@ export function CanvasPage() {
 
   // Handle duration change for a frame
   const handleFrameDurationChange = useCallback(async (frameId: string, newDurationMs: number) => {
+    if (skipProtectedFrames([frameId], "edited").length === 0) return;
     await updateFrame(frameId, { durationMs: newDurationMs });
-  }, [updateFrame]);
+  }, [skipProtectedFrames, updateFrame]);
 
   // AI Motion Suggest - fills motion notes for all polished frames
   const handleMotionSuggest = useCallback(async () => {
-    const polishedFrames = frames.filter(f => f.status === 'polished' && (f.polishedDataUrl || f.sketchDataUrl));
+    // Approved and locked frames keep their notes
+    const polishedFrames = frames.filter(f =>
+      isPolishedStatus(f.status) && !isFrameProtected(f.status) && (f.polishedDataUrl || f.sketchDataUrl)
+    );
 
     if (polishedFrames.length === 0) {
       info("Polish frames first for motion suggestions");
@@ -1004,7 +1914,7 @@ export function CanvasPage() {
 
   // AI Continuity Check
   const handleContinuityCheck = useCallback(async () => {
-    const polishedFrames = frames.filter(f => f.status === 'polished' && (f.polishedDataUrl || f.sketchDataUrl));
+    const polishedFrames = frames.filter(f => isPolishedStatus(f.status) && (f.polishedDataUrl || f.sketchDataUrl));
 
     if (polishedFrames.length < 2) {
       info("Need 2+ polished frames for continuity check");
@@ -1017,7 +1927,7 @@ export function CanvasPage() {
 
     try {
       // Get frames in sequence order
-      const sequencedFrames = getSequencedFrames().filter(f => f.status === 'polished');
+      const sequencedFrames = getSequencedFrames().filter(f => isPolishedStatus(f.status));
 
       const framesToCheck = sequencedFrames.map(f => ({
         id: f.id,
@@ -1050,8 +1960,9 @@ export function CanvasPage() {
       return;
     }
 
+    const polishable = skipProtectedFrames(selectedFrames, "re-polished");
     const framesToPolish = frames.filter(
-      f => selectedFrames.includes(f.id) && f.sketchDataUrl
+      f => polishable.includes(f.id) && f.sketchDataUrl
     );
 
     if (framesToPolish.length === 0) {
@@ -1067,7 +1978,11 @@ export function CanvasPage() {
       try {
         info(`✨ Polishing "${frame.title}"...`);
 
-        const polishedImage = await polishSketch(frame.sketchDataUrl!);
+        const sceneStyle = getScenePolishStyle(frame.id);
+        const source = await renderPolishSource(frame.sketchDocument, frame.sketchDataUrl!);
+        const polishedImage = sceneStyle
+          ? await polishSketchWithStyle(source, sceneStyle, aspectRatio)
+          : await polishSketch(source, aspectRatio);
 
         if (polishedImage) {
           // Save polished image to Supabase
@@ -1085,11 +2000,46 @@ export function CanvasPage() {
     if (successCount > 0) {
       success(`🎨 ${successCount} frame${successCount !== 1 ? 's' : ''} polished!`);
     }
-  }, [selectedFrames, frames, saveFrameImage, info, success, notifyError]);
+  }, [selectedFrames, frames, aspectRatio, getScenePolishStyle, skipProtectedFrames, saveFrameImage, info, success, notifyError]);
+
+  // Card polish action: polish the whole selection when the frame is part of it
+  const handleFramePolish = useCallback((frameId: string) => {
+    if (selectedFrames.length > 1 && selectedFrames.includes(frameId)) {
+      handlePolish();
+    } else {
+      handlePolishSingleFrame(frameId);
+    }
+  }, [selectedFrames, handlePolish, handlePolishSingleFrame]);
+
+  // Move a frame (or the selection it belongs to) through the review workflow.
+  // Frames the step doesn't apply to, or that this user can't approve, are left as they are.
+  const handleFrameStatusChange = useCallback(async (frameId: string, status: FrameStatus) => {
+    const ids = selectedFrames.includes(frameId) ? selectedFrames : [frameId];
+    const targets = frames.filter(f =>
+      ids.includes(f.id) && getFrameStatusActions(f.status, canApprove).some(action => action.to === status)
+    );
+    if (targets.length === 0) return;
+
+    const label = getFrameStatusOption(status).label;
+    let changed = 0;
+    await runBatch(`Mark ${targets.length} frame${targets.length !== 1 ? "s" : ""} ${label.toLowerCase()}`, async () => {
+      for (const frame of targets) {
+        if (await updateFrame(frame.id, { status })) changed++;
+      }
+    });
+
+    if (changed === 0) {
+      notifyError("Status could not be changed");
+    } else {
+      success(changed === 1 ? `"${targets[0].title}" is now ${label.toLowerCase()}` : `${changed} frames are now ${label.toLowerCase()}`);
+    }
+  }, [selectedFrames, frames, canApprove, runBatch, updateFrame, success, notifyError]);
+
+  const statusCounts = useMemo(() => countFrameStatuses(frames.map(f => f.status)), [frames]);
 
   // AI Animate handler
   const handleAnimate = useCallback(() => {
-    const polishedFrames = frames.filter(f => selectedFrames.includes(f.id) && f.status === "polished");
+    const polishedFrames = frames.filter(f => selectedFrames.includes(f.id) && isPolishedStatus(f.status));
     if (polishedFrames.length === 0) {
       info("Polish frames first before animating");
       return;
@@ -1115,51 +2065,127 @@ export function CanvasPage() {
     }, 100);
   }, [frames, selectedFrames, info]);
 
-  const handleMinimapNavigate = useCallback((position: { x: number; y: number }) => {
-    console.log("Navigate to:", position);
-  }, []);
+  const handleMinimapNavigate = useCallback((position: { x: number; y: number }, options?: { animate?: boolean }) => {
+    centerOn(position, options?.animate ?? true);
+  }, [centerOn]);
 
   // Check if there are polished frames
   const hasPolishedFrames = useMemo(() =>
-    frames.some(f => f.status === "polished"),
+    frames.some(f => isPolishedStatus(f.status)),
   [frames]);
 
-  // Keyboard shortcuts
-  const shortcuts = useMemo(
-    () => [
-      { key: "v", action: () => handleToolChange("select") },
-      { key: "p", action: () => handleToolChange("pencil") },
-      { key: "r", action: () => handleToolChange("rectangle") },
-      { key: "o", action: () => handleToolChange("ellipse") },
-      { key: "t", action: () => handleToolChange("text") },
-      { key: "i", action: () => handleToolChange("image") },
-      { key: "c", action: () => handleToolChange("connector") },
-      { key: " ", action: () => handleToolChange("pan") },
-      { key: "z", ctrl: true, action: handleUndo },
-      { key: "z", ctrl: true, shift: true, action: handleRedo },
-      { key: "=", ctrl: true, action: handleZoomIn },
-      { key: "-", ctrl: true, action: handleZoomOut },
-      { key: "n", ctrl: true, action: () => handleCanvasClick({ x: 200 + Math.random() * 400, y: 150 + Math.random() * 200 }) },
-      {
-        key: "Delete",
-        action: () => {
-          selectedFrames.forEach((id) => handleFrameDelete(id));
-        },
-      },
-      {
-        key: "Backspace",
-        action: () => {
-          selectedFrames.forEach((id) => handleFrameDelete(id));
-        },
-      },
-    ],
-    [handleToolChange, handleUndo, handleRedo, handleZoomIn, handleZoomOut, selectedFrames, handleFrameDelete, handleCanvasClick]
+  const handleToggleComments = useCallback(() => {
+    setShowShotInspector(false);
+    setShowComments(prev => !prev);
+  }, []);
+
+  const handleToggleShotInspector = useCallback(() => {
+    setShowComments(false);
+    setShowShotInspector(prev => !prev);
+  }, []);
+
+  // Inspected frame: the selection, when it is a single frame
+  const inspectedFrame = useMemo(
+    () => (selectedFrames.length === 1 ? board?.frames.find(f => f.id === selectedFrames[0]) ?? null : null),
+    [selectedFrames, board?.frames]
   );
 
-  useKeyboardShortcuts(shortcuts);
+  const handleSaveShot = useCallback(async (frameId: string, shot: ShotMetadata, base: BoardFrame) => {
+    return updateFrame(frameId, { shot }, { base });
+  }, [updateFrame]);
+
+  // Jump to a frame from the command palette
+  const handleJumpToFrame = useCallback((frameId: string) => {
+    const frame = frames.find(f => f.id === frameId);
+    if (!frame) return;
+    setSelectedFrames([frameId]);
+    broadcastFrameSelect(frameId, userName, userColor);
+    centerOn({ x: frame.position.x + frameSize.width / 2, y: frame.position.y + frameSize.height / 2 });
+  }, [frames, frameSize, centerOn, broadcastFrameSelect, userName, userColor]);
+
+  // Canvas commands, run by keyboard shortcuts and the command palette
+  const commandHandlers = useMemo<CommandHandlers>(
+    () => ({
+      "tool.select": () => handleToolChange("select"),
+      "tool.pan": () => handleToolChange("pan"),
+      "tool.connector": () => handleToolChange("connector"),
+      ...(canComment && { "tool.comment": () => handleToolChange("comment") }),
+      ...(!isReadOnly && {
+        "frame.add": () => handleCanvasClick({ x: 200 + Math.random() * 400, y: 150 + Math.random() * 200 }),
+        "frame.delete": handleDeleteSelected,
+        "frame.groupIntoScene": () => handleGroupIntoScene(),
+        "ai.polishSelection": handlePolish,
+        "ai.polishAll": handleBatchPolishAll,
+        "ai.motionSuggest": handleMotionSuggest,
+        "ai.continuityCheck": handleContinuityCheck,
+        "board.autoArrange": handleAutoArrange,
+      }),
+      ...(!isReadOnly && canViewHistory && { "board.versionHistory": () => setShowHistory(prev => !prev) }),
+      "view.zoomIn": handleZoomIn,
+      "view.zoomOut": handleZoomOut,
+      "view.resetZoom": resetZoom,
+      "view.zoomToFit": handleZoomToFit,
+      "view.zoomToSelection": handleZoomToSelection,
+      "view.preview": handlePreview,
+      "edit.undo": handleUndo,
+      "edit.redo": handleRedo,
+      "board.toggleSnap": handleSnapToGridToggle,
+      "board.toggleBeatMode": handleBeatModeToggle,
+      "board.toggleComments": handleToggleComments,
+      "frame.shotInspector": handleToggleShotInspector,
+      "app.commandPalette": () => setShowCommandPalette(prev => !prev),
+      "app.keymap": () => setShowKeymap(true),
+    }),
+    [
+      handleToolChange, canComment, isReadOnly, canViewHistory, handleCanvasClick, handleDeleteSelected, handleGroupIntoScene,
+      handlePolish, handleBatchPolishAll, handleMotionSuggest, handleContinuityCheck, handleAutoArrange,
+      handleZoomIn, handleZoomOut, resetZoom, handleZoomToFit, handleZoomToSelection, handlePreview,
+      handleUndo, handleRedo, handleSnapToGridToggle, handleBeatModeToggle, handleToggleComments, handleToggleShotInspector,
+    ]
+  );
+
+  // Shortcuts pause while the keymap is being edited
+  useKeyboardShortcuts(commandHandlers, !showKeymap);
 
   // Show loading state only on initial load when no cached data
   // If we have board data (from cache), skip the loading screen
+  // Frames as the canvas draws them, with remote movement applied (local drags are applied by the canvas).
+  // Unchanged frames keep their object identity so memoised cards skip re-rendering on pan, zoom and saves.
+  const displayFrames = useMemo(() => {
+    const previous = displayFrameCacheRef.current;
+    const next = new Map<string, DisplayFrame>();
+
+    const result = frames.map(f => {
+      const remotePos = remotePositions[f.id];
+      const frame: DisplayFrame = {
+        id: f.id,
+        position: remotePos ? { x: remotePos.x, y: remotePos.y } : f.position,
+        thumbnail: f.thumbnail,
+        isPolished: isPolishedStatus(f.status),
+        isPolishing: f.isPolishing,
+        status: f.status,
+        dimmed: !!statusFilter && f.status !== statusFilter,
+        title: f.title,
+        thumbnailColor: f.thumbnailColor,
+        durationMs: f.durationMs || 2000,
+        motionNotes: f.motionNotes,
+        shotSpec: f.shot ? formatCameraSetup(f.shot) || undefined : undefined,
+        sceneId: f.sceneId,
+        // Remote collaboration indicators
+        isRemoteMoving: !!remotePos,
+        remoteSelection: remoteSelections[f.id] || null,
+      };
+
+      const cached = previous.get(f.id);
+      const reusable = cached && isSameDisplayFrame(cached, frame) ? cached : frame;
+      next.set(f.id, reusable);
+      return reusable;
+    });
+
+    displayFrameCacheRef.current = next;
+    return result;
+  }, [frames, remotePositions, remoteSelections, statusFilter]);
+
   if (boardLoading && !board) {
     return (
       <GradientBackground>
@@ -1264,27 +2290,11 @@ export function CanvasPage() {
     );
   }
 
-  // Compute frames with drag positions and remote positions for real-time updates
-  const displayFrames = frames.map(f => {
-    const dragPos = dragPositions.get(f.id);
-    const remotePos = remotePositions[f.id];
-    const remoteSelection = remoteSelections[f.id];
+  const visibleRect = getVisibleRect(viewport, viewportSize);
 
-    return {
-      id: f.id,
-      // Priority: local drag > remote movement > base position
-      position: dragPos || (remotePos ? { x: remotePos.x, y: remotePos.y } : f.position),
-      thumbnail: f.thumbnail,
-      isPolished: f.status === "polished",
-      isPolishing: f.isPolishing,
-      title: f.title,
-      thumbnailColor: f.thumbnailColor,
-      durationMs: f.durationMs || 2000,
-      motionNotes: f.motionNotes,
-      // Remote collaboration indicators
-      isRemoteMoving: !!remotePos,
-      remoteSelection: remoteSelection || null,
-    };
+  const displayScenes = scenes.map(s => {
+    const dragPos = sceneDragPositions.get(s.id);
+    return dragPos ? { ...s, x: dragPos.x, y: dragPos.y } : s;
   });
 
   return (
@@ -1346,12 +2356,70 @@ export function CanvasPage() {
               boardName={board?.name || "Untitled Board"}
               onBoardNameChange={handleBoardNameChange}
               boardId={boardId}
-              isSaving={isSaving}
+              syncStatus={syncStatus}
+              pendingChanges={pendingChanges}
+              onRetrySync={retrySync}
             />
           </div>
 
-          {/* Right Section - Notifications only */}
-          <div className="flex items-center">
+          {/* Right Section - Templates, shortcuts, history, comments and notifications */}
+          <div className="flex items-center gap-1">
+            {frames.length > 0 && (
+              <button
+                onClick={() => setShowSaveTemplate(true)}
+                className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+                title="Save as template"
+              >
+                <LayoutTemplate className="w-5 h-5 text-white/80" />
+              </button>
+            )}
+            <button
+              onClick={() => setShowKeymap(true)}
+              className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+              title={`Keyboard shortcuts${shortcutHint(keymap["app.keymap"])}`}
+            >
+              <Keyboard className="w-5 h-5 text-white/80" />
+            </button>
+            {!isReadOnly && canViewHistory && (
+              <button
+                onClick={() => setShowHistory(prev => !prev)}
+                className={cn(
+                  "p-2 rounded-lg transition-colors",
+                  showHistory ? "bg-white/10" : "hover:bg-white/10"
+                )}
+                title={`Version history${shortcutHint(keymap["board.versionHistory"])}`}
+              >
+                <History className="w-5 h-5 text-white/80" />
+              </button>
+            )}
+            {frames.length > 0 && (
+              <FrameStatusFilter value={statusFilter} counts={statusCounts} onChange={setStatusFilter} />
+            )}
+            <button
+              onClick={handleToggleShotInspector}
+              className={cn(
+                "p-2 rounded-lg transition-colors",
+                showShotInspector ? "bg-white/10" : "hover:bg-white/10"
+              )}
+              title={`Shot details${shortcutHint(keymap["frame.shotInspector"])}`}
+            >
+              <Camera className="w-5 h-5 text-white/80" />
+            </button>
+            <button
+              onClick={handleToggleComments}
+              className={cn(
+                "relative p-2 rounded-lg transition-colors",
+                showComments ? "bg-white/10" : "hover:bg-white/10"
+              )}
+              title={`Comments${shortcutHint(keymap["board.toggleComments"])}`}
+            >
+              <MessageCircle className="w-5 h-5 text-white/80" />
+              {openThreadCount > 0 && (
+                <div className="absolute -top-1 -right-1 min-w-[18px] h-[18px] flex items-center justify-center px-1 bg-gradient-to-r from-pink-500 to-violet-500 rounded-full text-[10px] font-bold text-white">
+                  {openThreadCount > 99 ? "99+" : openThreadCount}
+                </div>
+              )}
+            </button>
             <NotificationCenter ref={bellRef} />
           </div>
         </GlassCard>
@@ -1361,11 +2429,17 @@ export function CanvasPage() {
       <CanvasToolbar
         activeTool={activeTool}
         onToolChange={handleToolChange}
-        zoom={zoom}
+        zoom={viewport.zoom}
         onZoomIn={handleZoomIn}
         onZoomOut={handleZoomOut}
+        onResetZoom={resetZoom}
+        onZoomToFit={handleZoomToFit}
+        onZoomToSelection={handleZoomToSelection}
+        hasSelection={selectedFrames.length > 0}
         onUndo={handleUndo}
         onRedo={handleRedo}
+        canUndo={canUndo}
+        canRedo={canRedo}
         frameCount={frames.length}
         onAddFrame={() => handleCanvasClick({ 
           x: 150 + Math.random() * 400, 
@@ -1381,32 +2455,92 @@ export function CanvasPage() {
         isMotionSuggesting={isMotionSuggesting}
         isContinuityChecking={isContinuityChecking}
         polishedFrameCount={polishedFrameCount}
+        snapToGrid={snapToGrid}
+        onSnapToGridToggle={handleSnapToGridToggle}
+        readingDirection={readingDirection}
+        onReadingDirectionToggle={isReadOnly ? undefined : handleReadingDirectionToggle}
+        aspectRatio={aspectRatio}
+        onAspectRatioChange={isReadOnly ? undefined : handleAspectRatioChange}
+        canComment={canComment}
       />
 
+      {/* Align / distribute controls for multi-selections */}
+      <AnimatePresence>
+        {!isReadOnly && selectedFrames.length > 1 && (
+          <AlignmentToolbar
+            selectionCount={selectedFrames.length}
+            onAlign={handleAlign}
+            onDistribute={handleDistribute}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Remote Cursors Layer */}
       <RemoteCursors cursors={remoteCursors} />
 
       {/* Main Canvas */}
-      <div className="fixed inset-0 pt-16" onMouseMove={handleCanvasMouseMove}>
+      <div ref={canvasContainerRef} className="fixed inset-0 pt-16" onMouseMove={handleCanvasMouseMove}>
         <InfiniteCanvas
           frames={displayFrames}
+          viewportSize={viewportSize}
+          aspectRatio={aspectRatio}
+          isArranging={isArranging}
           connections={connections}
           selectedFrames={selectedFrames}
           onFrameSelect={handleFrameSelect}
+          onMarqueeSelect={handleMarqueeSelect}
           onFrameDelete={handleFrameDelete}
           onFrameDuplicate={handleFrameDuplicate}
+          onFrameCopy={(id) => handleFrameCopy(id)}
+          onFrameCut={isReadOnly ? undefined : (id) => handleFrameCopy(id, true)}
           onCanvasClick={handleCanvasClick}
           onFrameDoubleClick={handleFrameDoubleClick}
-          onConnectionDelete={handleConnectionDelete}
+          onConnectionDelete={isReadOnly ? undefined : handleConnectionDelete}
+          onConnectionUpdate={isReadOnly ? undefined : handleConnectionUpdate}
           onFramePositionChange={handleFramePositionChange}
-          onFramePolish={handlePolishSingleFrame}
+          onFrameDragEnd={endFrameDrag}
+          onFramePolish={handleFramePolish}
+          onFrameStatusChange={isReadOnly ? undefined : handleFrameStatusChange}
+          canApprove={canApprove}
           activeTool={activeTool}
-          zoom={zoom}
+          viewport={viewport}
+          onViewportChange={setViewport}
           connectingFromFrameId={connectingFromFrameId}
           beatModeEnabled={beatModeEnabled}
           onFrameDurationChange={handleFrameDurationChange}
+          scenes={displayScenes}
+          readOnly={isReadOnly}
+          onGroupIntoScene={isReadOnly ? undefined : handleGroupIntoScene}
+          onMoveToScene={isReadOnly ? undefined : handleMoveToScene}
+          onSceneSelect={handleSceneSelect}
+          onSceneToggleCollapse={handleSceneToggleCollapse}
+          onSceneMove={handleSceneMove}
+          onSceneMoveEnd={handleSceneMoveEnd}
+          onSceneUpdate={handleSceneUpdate}
+          onSceneApplyDefaults={handleSceneApplyDefaults}
+          onSceneUngroup={handleSceneUngroup}
+          commentPins={commentPins}
+          activeCommentId={showComments ? activeThreadId : null}
+          onCommentPinClick={handleCommentPinClick}
+          onCommentPlace={canComment ? handleCommentPlace : undefined}
+          onImageDrop={isReadOnly ? undefined : handleImportImages}
         />
 
+        {/* First comment of a new thread, next to where it was pinned */}
+        <AnimatePresence>
+          {pendingComment && (
+            <CommentComposer
+              position={{
+                x: pendingComment.x * viewport.zoom + viewport.x,
+                y: pendingComment.y * viewport.zoom + viewport.y,
+              }}
+              anchorLabel={pendingComment.frameId ? frameTitles.get(pendingComment.frameId) : undefined}
+              onSubmit={handleCommentSubmit}
+              onCancel={handleCommentCancel}
+            />
+          )}
+        </AnimatePresence>
+
         {/* Empty State Hint */}
         <AnimatePresence>
           {frames.length === 0 && (
@@ -1424,7 +2558,7 @@ export function CanvasPage() {
                   Click anywhere to add your first frame
                 </h3>
                 <p className="text-white/60 mb-4">
-                  Or load a demo storyboard to see the full workflow in action
+                  Or start from a template to see the full workflow in action
                 </p>
                 <div className="flex gap-3 justify-center">
                   <Button
@@ -1435,12 +2569,12 @@ export function CanvasPage() {
                     Add Frame
                   </Button>
                   <Button
-                    onClick={handleLoadDemo}
+                    onClick={() => setShowTemplateGallery(true)}
                     variant="outline"
                     className="border-white/20 text-white hover:bg-white/10"
                   >
-                    <Sparkles className="w-4 h-4 mr-2" />
-                    Load Demo
+                    <LayoutTemplate className="w-4 h-4 mr-2" />
+                    Use a Template
                   </Button>
                 </div>
               </GlassCard>
@@ -1452,13 +2586,117 @@ export function CanvasPage() {
       {/* Right Panel - AI Workflow */}
       <AIPanel
         selectedFrames={selectedFrames}
-        frames={frames}
+        frames={getSequencedFrames()}
+        cuts={cuts}
+        activeCutId={activeCut?.id ?? null}
+        onCutChange={handleActiveCutChange}
         onPolish={handlePolish}
         onAnimate={handleAnimate}
         isPolishing={isPolishing}
         hasPolishedFrames={hasPolishedFrames}
+        aspectRatio={aspectRatio}
+      />
+
+      {/* Review comments */}
+      <AnimatePresence>
+        {showComments && (
+          <CommentsSidebar
+            threads={commentThreads}
+            frameTitles={frameTitles}
+            currentUserId={user?.id ?? null}
+            canComment={canComment}
+            activeThreadId={activeThreadId}
+            onSelectThread={handleSelectThread}
+            onReply={handleCommentReply}
+            onResolve={handleCommentResolve}
+            onDelete={handleCommentDelete}
+            onClose={() => setShowComments(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Shot details */}
+      <AnimatePresence>
+        {showShotInspector && (
+          <ShotInspector
+            frame={inspectedFrame}
+            readOnly={isReadOnly || (!!inspectedFrame && isFrameProtected(inspectedFrame.status))}
+            onSave={handleSaveShot}
+            onClose={() => setShowShotInspector(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Version history */}
+      <AnimatePresence>
+        {showHistory && (
+          <VersionHistoryPanel
+            snapshots={snapshots}
+            loading={snapshotsLoading}
+            current={currentSnapshotData}
+            canEdit={!isReadOnly}
+            loadSnapshotData={loadSnapshotData}
+            onCreate={handleCreateSnapshot}
+            onDelete={handleDeleteSnapshot}
+            onRestoreInPlace={handleRestoreSnapshot}
+            onRestoreAsNew={handleRestoreSnapshotAsNew}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Templates */}
+      <AnimatePresence>
+        {showTemplateGallery && (
+          <TemplateGallery
+            builtInTemplates={builtInTemplates}
+            userTemplates={userTemplates}
+            loading={templatesLoading}
+            aspectRatio={aspectRatio}
+            onSelect={handleApplyTemplate}
+            onDelete={deleteTemplate}
+            onClose={() => setShowTemplateGallery(false)}
+          />
+        )}
+      </AnimatePresence>
+      <AnimatePresence>
+        {showSaveTemplate && (
+          <SaveTemplateDialog
+            boardName={board?.name || "Untitled Board"}
+            frameCount={frames.length}
+            onSave={handleSaveTemplate}
+            onClose={() => setShowSaveTemplate(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Command palette */}
+      <CommandPalette
+        open={showCommandPalette}
+        onOpenChange={setShowCommandPalette}
+        handlers={commandHandlers}
+        frames={frames}
+        onJumpToFrame={handleJumpToFrame}
       />
 
+      {/* Keyboard shortcut settings */}
+      <AnimatePresence>
+        {showKeymap && <KeymapDialog onClose={() => setShowKeymap(false)} />}
+      </AnimatePresence>
+
+      {/* Edit conflict merge prompt */}
+      <AnimatePresence>
+        {activeConflict && (
+          <FrameConflictDialog
+            key={activeConflict.frameId}
+            frameTitle={activeConflict.theirs.title}
+            mine={activeConflict.mine}
+            theirs={activeConflict.theirs}
+            onResolve={handleResolveConflict}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Frame Editor Panel */}
       <AnimatePresence>
         {editingFrame && (
@@ -1575,10 +2813,13 @@ export function CanvasPage() {
                 )}
 
                 {/* Preview Thumbnail */}
-                <div className={cn(
-                  "aspect-video rounded-lg overflow-hidden mb-4 relative",
-                  animationComplete ? "bg-sm-charcoal" : "bg-white/5"
-                )}>
+                <div
+                  className={cn(
+                    "rounded-lg overflow-hidden mb-4 relative",
+                    animationComplete ? "bg-sm-charcoal" : "bg-white/5"
+                  )}
+                  style={aspectRatioStyle(aspectRatio, "40vh")}
+                >
                   {animationComplete ? (
                     <div className="absolute inset-0 bg-gradient-to-br from-sm-pink/20 to-sm-purple/20 flex items-center justify-center">
                       <div className="w-16 h-16 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center">
@@ -1622,12 +2863,13 @@ export function CanvasPage() {
         frames={frames.map(f => ({
           id: f.id,
           position: f.position,
-          isPolished: f.status === "polished",
+          isPolished: isPolishedStatus(f.status),
           thumbnail: f.polishedDataUrl || f.sketchDataUrl
         }))}
         connections={connections}
-        viewportPosition={{ x: 0, y: 0 }}
-        viewportSize={{ width: window.innerWidth, height: window.innerHeight }}
+        frameSize={frameSize}
+        viewportPosition={{ x: visibleRect.x, y: visibleRect.y }}
+        viewportSize={{ width: visibleRect.width, height: visibleRect.height }}
         canvasSize={{ width: 5000, height: 3000 }}
         onNavigate={handleMinimapNavigate}
         selectedFrameId={selectedFrames[0]}
@@ -1649,6 +2891,7 @@ export function CanvasPage() {
       <FrameSketchEditor
         frame={sketchEditorFrame}
         open={isSketchEditorOpen}
+        aspectRatio={aspectRatio}
         onClose={() => {
           setIsSketchEditorOpen(false);
           setSketchEditorFrameId(null);
@@ -1666,6 +2909,21 @@ export function CanvasPage() {
         </GlassCard>
       </div>
 
+      {/* Cut Editor */}
+      <AnimatePresence>
+        {editingCutId && (
+          <CutEditor
+            key={editingCutId}
+            frames={frames}
+            connections={connections}
+            initial={editingCutId !== "new" ? cuts.find(c => c.id === editingCutId) : undefined}
+            onSave={handleSaveCut}
+            onDelete={editingCutId !== "new" ? () => handleDeleteCut(editingCutId) : undefined}
+            onClose={() => setEditingCutId(null)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Preview Sequence Modal */}
       <AnimatePresence>
         {showPreviewModal && (
@@ -1691,62 +2949,105 @@ export function CanvasPage() {
                       Storyboard Preview
                     </h3>
                     <p className="text-sm text-white/60">
-                      Frame {previewIndex + 1} of {getSequencedFrames().length}
+                      {activeCut ? `${activeCut.name} • ` : ""}Frame {previewIndex + 1} of {getSequencedFrames().length}
                     </p>
                   </div>
-                  <button
-                    onClick={() => setShowPreviewModal(false)}
-                    className="p-2 rounded-lg hover:bg-white/10 transition-colors"
-                  >
-                    <X className="w-5 h-5 text-white/60" />
-                  </button>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border-white/20 text-white hover:bg-white/10"
+                      onClick={handleExportAnimatic}
+                      disabled={animaticProgress !== null}
+                    >
+                      {animaticProgress !== null ? (
+                        <>
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          Recording {Math.round(animaticProgress * 100)}%
+                        </>
+                      ) : (
+                        <>
+                          <Download className="w-4 h-4 mr-2" />
+                          Export Animatic
+                        </>
+                      )}
+                    </Button>
+                    <button
+                      onClick={() => setShowPreviewModal(false)}
+                      className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+                    >
+                      <X className="w-5 h-5 text-white/60" />
+                    </button>
+                  </div>
                 </div>
                 
+                {/* Cut selector */}
+                {(cuts.length > 0 || !isReadOnly) && (
+                  <div className="flex items-center gap-1.5 mb-4 overflow-x-auto">
+                    <GitBranch className="w-4 h-4 text-white/40 flex-shrink-0 mr-1" />
+                    {[{ id: null as string | null, name: "Main" }, ...cuts].map(cut => (
+                      <button
+                        key={cut.id ?? "main"}
+                        onClick={() => {
+                          setIsPreviewPlaying(false);
+                          handleActiveCutChange(cut.id);
+                        }}
+                        className={cn(
+                          "flex items-center gap-1 px-3 py-1 rounded-full text-xs flex-shrink-0 transition-colors",
+                          (activeCut?.id ?? null) === cut.id
+                            ? "bg-gradient-to-r from-pink-500 to-rose-500 text-white"
+                            : "bg-white/5 text-white/60 hover:bg-white/10"
+                        )}
+                      >
+                        {cut.name}
+                        {cut.id && !isReadOnly && (activeCut?.id ?? null) === cut.id && (
+                          <Pencil
+                            className="w-3 h-3 opacity-70 hover:opacity-100"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setIsPreviewPlaying(false);
+                              setEditingCutId(cut.id);
+                            }}
+                          />
+                        )}
+                      </button>
+                    ))}
+                    {!isReadOnly && (
+                      <button
+                        onClick={() => {
+                          setIsPreviewPlaying(false);
+                          setEditingCutId("new");
+                        }}
+                        className="flex items-center gap-1 px-3 py-1 rounded-full text-xs flex-shrink-0 border border-dashed border-white/20 text-white/60 hover:bg-white/10"
+                      >
+                        <Plus className="w-3 h-3" />
+                        New cut
+                      </button>
+                    )}
+                  </div>
+                )}
+
                 {/* Preview Frame */}
-                <div className="aspect-video bg-sm-charcoal rounded-xl overflow-hidden mb-4 relative">
+                <div className="bg-sm-charcoal rounded-xl overflow-hidden mb-4 relative" style={aspectRatioStyle(aspectRatio)}>
                   {(() => {
                     const sequencedFrames = getSequencedFrames();
                     const currentFrame = sequencedFrames[previewIndex];
                     if (!currentFrame) return null;
-                    
-                    const imageUrl = currentFrame.polishedDataUrl || currentFrame.sketchDataUrl;
-                    
+
+                    const toStageFrame = (frame: Frame) => ({
+                      id: frame.id,
+                      title: frame.title,
+                      imageUrl: frame.polishedDataUrl || frame.sketchDataUrl,
+                      motionNotes: frame.motionNotes,
+                    });
+                    const previousFrame = previewFromIndex !== null ? sequencedFrames[previewFromIndex] : undefined;
+
                     return (
-                      <AnimatePresence mode="wait">
-                        <motion.div
-                          key={currentFrame.id}
-                          initial={{ opacity: 0, scale: 1.05 }}
-                          animate={{ opacity: 1, scale: 1 }}
-                          exit={{ opacity: 0, scale: 0.95 }}
-                          transition={{ duration: 0.5 }}
-                          className="absolute inset-0"
-                        >
-                          {imageUrl ? (
-                            <img
-                              src={imageUrl}
-                              alt={currentFrame.title}
-                              className="w-full h-full object-contain"
-                            />
-                          ) : (
-                            <div className="w-full h-full flex items-center justify-center">
-                              <div className="text-center">
-                                <div className="w-16 h-16 rounded-2xl bg-white/10 flex items-center justify-center mx-auto mb-3">
-                                  <Film className="w-8 h-8 text-white/40" />
-                                </div>
-                                <p className="text-white/40">No image</p>
-                              </div>
-                            </div>
-                          )}
-                          
-                          {/* Frame title overlay */}
-                          <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/60 to-transparent">
-                            <p className="text-white font-medium">{currentFrame.title}</p>
-                            {currentFrame.motionNotes && (
-                              <p className="text-white/60 text-sm mt-1">{currentFrame.motionNotes}</p>
-                            )}
-                          </div>
-                        </motion.div>
-                      </AnimatePresence>
+                      <TransitionStage
+                        frame={toStageFrame(currentFrame)}
+                        previous={previousFrame ? toStageFrame(previousFrame) : null}
+                        transition={previewFromIndex !== null ? previewTransitions[previewFromIndex] ?? null : null}
+                      />
                     );
                   })()}
                   
@@ -1766,7 +3067,7 @@ export function CanvasPage() {
                 {/* Controls */}
                 <div className="flex items-center justify-center gap-4">
                   <button
-                    onClick={() => setPreviewIndex(Math.max(0, previewIndex - 1))}
+                    onClick={() => goToPreviewFrame(Math.max(0, previewIndex - 1))}
                     disabled={previewIndex === 0}
                     className="p-3 rounded-xl bg-white/10 hover:bg-white/20 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
                   >
@@ -1792,7 +3093,7 @@ export function CanvasPage() {
                   </button>
                   
                   <button
-                    onClick={() => setPreviewIndex(Math.min(getSequencedFrames().length - 1, previewIndex + 1))}
+                    onClick={() => goToPreviewFrame(Math.min(getSequencedFrames().length - 1, previewIndex + 1))}
                     disabled={previewIndex === getSequencedFrames().length - 1}
                     className="p-3 rounded-xl bg-white/10 hover:bg-white/20 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
                   >
@@ -1806,7 +3107,7 @@ export function CanvasPage() {
                     <button
                       key={frame.id}
                       onClick={() => {
-                        setPreviewIndex(idx);
+                        goToPreviewFrame(idx);
                         setIsPreviewPlaying(false);
                       }}
                       className={cn(
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { GradientBackground } from "@/components/layout/GradientBackground";
 import { GlassCard } from "@/components/layout/GlassCard";
@@ -9,6 +9,14 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { motion, AnimatePresence } from "framer-motion";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/lib/supabase";
+import { BoardTemplate, createBoardFromTemplate } from "@/lib/templates";
+import { AspectRatio, DEFAULT_ASPECT_RATIO, normalizeAspectRatio } from "@/lib/aspectRatio";
+import { useTemplates } from "@/hooks/useTemplates";
+import { ArchiveError, ARCHIVE_EXTENSION, exportBoardArchive, importBoardArchive } from "@/lib/boardArchive";
+import { toast } from "@/components/ui/use-toast";
+import { TemplateGallery } from "@/components/templates/TemplateGallery";
+import { FrameStatusSummary } from "@/components/dashboard/FrameStatusSummary";
+import { FrameStatus, artworkStatus, countFrameStatuses, normalizeFrameStatus } from "@/lib/frameStatus";
 import {
   Sparkles,
   Plus,
@@ -30,6 +38,9 @@ import {
   ExternalLink,
   User,
   X,
+  Upload,
+  Download,
+  Loader2,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -52,6 +63,8 @@ interface Board {
   tagline?: string;
   thumbnailUrl: string;
   frameCount: number;
+  // Frames per workflow status (boards loaded from Supabase only)
+  statusCounts?: Record<FrameStatus, number>;
   updatedAt: Date;
   isShared: boolean;
   isArchived: boolean;
@@ -188,6 +201,7 @@ function useBoards() {
           sharing_settings,
           frames (
             id,
+            status,
             sketch_url,
             polished_url
           ),
@@ -216,6 +230,7 @@ function useBoards() {
             user_id,
             frames (
               id,
+              status,
               sketch_url,
               polished_url
             ),
@@ -241,6 +256,7 @@ function useBoards() {
           title: board.name,
           thumbnailUrl: board.frames?.[0]?.polished_url || board.frames?.[0]?.sketch_url || "",
           frameCount: board.frames?.length || 0,
+          statusCounts: countFrameStatuses((board.frames || []).map(f => f.status)),
           updatedAt: new Date(board.updated_at),
           isShared: isPubliclyShared || hasCollaborators,
           isArchived: board.is_archived || false,
@@ -262,6 +278,7 @@ function useBoards() {
             title: board.name,
             thumbnailUrl: board.frames?.[0]?.polished_url || board.frames?.[0]?.sketch_url || "",
             frameCount: board.frames?.length || 0,
+            statusCounts: countFrameStatuses((board.frames || []).map((f: { status: string }) => f.status)),
             updatedAt: new Date(board.updated_at),
             isShared: true, // It's shared with this user
             isArchived: board.is_archived || false,
@@ -286,10 +303,17 @@ function useBoards() {
     fetchBoards();
   }, [fetchBoards]);
 
-  const createBoard = useCallback(async () => {
+  // Create an empty board, or one filled from a template
+  const createBoard = useCallback(async (template?: BoardTemplate, aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO) => {
     if (!user) return null;
 
     try {
+      if (template) {
+        const newId = await createBoardFromTemplate(user.id, template.name, template, aspectRatio);
+        await fetchBoards();
+        return newId;
+      }
+
       // Find max number from existing "Untitled Board X" titles
       const existingNumbers = boards
         .map(b => {
@@ -303,6 +327,7 @@ function useBoards() {
         .insert({
           user_id: user.id,
           name: `Untitled Board ${maxNumber + 1}`,
+          aspect_ratio: aspectRatio,
         })
         .select()
         .single();
@@ -326,7 +351,7 @@ function useBoards() {
       console.error('Error creating board:', error);
       return null;
     }
-  }, [user, boards]);
+  }, [user, boards, fetchBoards]);
 
   const duplicateBoard = useCallback(async (boardId: string) => {
     if (!user) return;
@@ -335,12 +360,20 @@ function useBoards() {
     if (!board) return;
 
     try {
+      // Frames keep their shape in the copy
+      const { data: source } = await supabase
+        .from('boards')
+        .select('aspect_ratio')
+        .eq('id', boardId)
+        .single();
+
       // Create new board
       const { data: newBoardData, error: boardError } = await supabase
         .from('boards')
         .insert({
           user_id: user.id,
           name: `${board.title} (Copy)`,
+          aspect_ratio: normalizeAspectRatio(source?.aspect_ratio),
         })
         .select()
         .single();
@@ -362,12 +395,19 @@ function useBoards() {
           title: frame.title,
           position_x: frame.position_x,
           position_y: frame.position_y,
-          status: frame.status,
+          // The copy starts a new review
+          status: artworkStatus({
+            sketchUrl: frame.sketch_url,
+            polishedUrl: frame.polished_url,
+            status: normalizeFrameStatus(frame.status),
+          }),
           sketch_url: frame.sketch_url,
+          sketch_document: frame.sketch_document,
           polished_url: frame.polished_url,
           animation_style: frame.animation_style,
           duration_ms: frame.duration_ms,
           sort_order: frame.sort_order,
+          shot: frame.shot,
         }));
 
         await supabase.from('frames').insert(newFrames);
@@ -419,13 +459,23 @@ function useBoards() {
     }
   }, []);
 
-  return { boards, isLoading, createBoard, duplicateBoard, archiveBoard, deleteBoard, refetch: fetchBoards };
+  // Import a .sketchmotion archive as a new board (throws ArchiveError for invalid files)
+  const importBoard = useCallback(async (file: File) => {
+    if (!user) return null;
+
+    const newId = await importBoardArchive(user.id, file);
+    await fetchBoards();
+    return newId;
+  }, [user, fetchBoards]);
+
+  return { boards, isLoading, createBoard, duplicateBoard, archiveBoard, deleteBoard, importBoard, refetch: fetchBoards };
 }
 
 export function DashboardPage() {
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
-  const { boards, isLoading, createBoard, duplicateBoard, archiveBoard, deleteBoard } = useBoards();
+  const { boards, isLoading, createBoard, duplicateBoard, archiveBoard, deleteBoard, importBoard } = useBoards();
+  const { builtInTemplates, userTemplates, loading: templatesLoading, deleteTemplate } = useTemplates();
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [searchQuery, setSearchQuery] = useState("");
   const [activeFilter, setActiveFilter] = useState<FilterType>("all");
@@ -433,6 +483,11 @@ export function DashboardPage() {
   // Modal states
   const [showProfileModal, setShowProfileModal] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [showTemplateGallery, setShowTemplateGallery] = useState(false);
+
+  // Board archive import/export
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
 
   // Settings state (stored in localStorage)
   const [settings, setSettings] = useState(() => {
@@ -451,14 +506,56 @@ export function DashboardPage() {
     localStorage.setItem('sketchmotion_settings', JSON.stringify(newSettings));
   }, []);
 
-  // Handle creating a new board
-  const handleCreateBoard = useCallback(async () => {
-    const newId = await createBoard();
+  // New boards start from the template gallery
+  const handleCreateBoard = useCallback(() => {
+    setShowTemplateGallery(true);
+  }, []);
+
+  const handleSelectTemplate = useCallback(async (template: BoardTemplate | null, aspectRatio: AspectRatio) => {
+    const newId = await createBoard(template ?? undefined, aspectRatio);
     if (newId) {
+      setShowTemplateGallery(false);
       navigate(`/canvas/${newId}`);
     }
   }, [createBoard, navigate]);
 
+  const handleExportBoard = useCallback(async (boardId: string) => {
+    toast({ title: "Preparing archive..." });
+    try {
+      const { blob, filename } = await exportBoardArchive(boardId);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('Error exporting board:', error);
+      toast({ title: "Export failed", description: "The board or one of its images couldn't be downloaded", variant: "destructive" });
+    }
+  }, []);
+
+  const handleImportFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const newId = await importBoard(file);
+      if (newId) navigate(`/canvas/${newId}`);
+    } catch (error) {
+      console.error('Error importing board:', error);
+      toast({
+        title: "Import failed",
+        description: error instanceof ArchiveError ? error.message : "The board could not be created",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  }, [importBoard, navigate]);
+
   // Handle sign out
   const handleSignOut = useCallback(async () => {
     await signOut();
@@ -534,11 +631,27 @@ export function DashboardPage() {
             {/* New Board Button */}
             <Button 
               onClick={handleCreateBoard}
-              className="w-full bg-sm-magenta hover:bg-sm-magenta/90 text-white font-semibold mb-6 shadow-glow hover:shadow-glow-lg transition-all btn-press"
+              className="w-full bg-sm-magenta hover:bg-sm-magenta/90 text-white font-semibold mb-2 shadow-glow hover:shadow-glow-lg transition-all btn-press"
             >
               <Plus className="w-4 h-4 mr-2" />
               New Board
             </Button>
+            <Button
+              onClick={() => importInputRef.current?.click()}
+              disabled={isImporting}
+              variant="ghost"
+              className="w-full mb-6 text-white/70 hover:text-white hover:bg-white/10"
+            >
+              {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              {isImporting ? "Importing..." : "Import Board"}
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept={`${ARCHIVE_EXTENSION},.zip`}
+              onChange={handleImportFile}
+              className="hidden"
+            />
 
             {/* Navigation */}
             <nav className="flex-1 space-y-1">
@@ -882,6 +995,10 @@ export function DashboardPage() {
                                       <Copy className="w-4 h-4 mr-2" />
                                       Duplicate
                                     </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => handleExportBoard(board.id)}>
+                                      <Download className="w-4 h-4 mr-2" />
+                                      Export
+                                    </DropdownMenuItem>
                                     <DropdownMenuItem onClick={() => archiveBoard(board.id)}>
                                       {board.isArchived ? (
                                         <>
@@ -930,6 +1047,9 @@ export function DashboardPage() {
                               {board.tagline && (
                                 <p className="text-sm text-white/50 truncate mb-2">{board.tagline}</p>
                               )}
+                              {board.statusCounts && (
+                                <FrameStatusSummary counts={board.statusCounts} className="mb-3" />
+                              )}
                               <div className="flex items-center justify-between">
                                 <span className="text-sm text-white/60">
                                   <Clock className="w-3 h-3 inline mr-1" />
@@ -1051,6 +1171,17 @@ export function DashboardPage() {
                               </TooltipTrigger>
                               <TooltipContent>Duplicate</TooltipContent>
                             </Tooltip>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <button
+                                  className="p-1.5 rounded-md hover:bg-white/10 transition-colors"
+                                  onClick={() => handleExportBoard(board.id)}
+                                >
+                                  <Download className="w-4 h-4 text-white/60" />
+                                </button>
+                              </TooltipTrigger>
+                              <TooltipContent>Export</TooltipContent>
+                            </Tooltip>
                             <Tooltip>
                               <TooltipTrigger asChild>
                                 <button
@@ -1108,6 +1239,21 @@ export function DashboardPage() {
           </div>
         </div>
 
+        {/* New board template gallery */}
+        <AnimatePresence>
+          {showTemplateGallery && (
+            <TemplateGallery
+              builtInTemplates={builtInTemplates}
+              userTemplates={userTemplates}
+              loading={templatesLoading}
+              showBlank
+              onSelect={handleSelectTemplate}
+              onDelete={deleteTemplate}
+              onClose={() => setShowTemplateGallery(false)}
+            />
+          )}
+        </AnimatePresence>
+
         {/* Profile Modal */}
         <AnimatePresence>
           {showProfileModal && (
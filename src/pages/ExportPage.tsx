@@ -32,9 +32,14 @@ import {
   Crown,
   Zap,
   ChevronRight,
+  GitBranch,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { supabase } from "@/lib/supabase";
+import { supabase, DbConnection, DbCut, DbFrame } from "@/lib/supabase";
+import { getRenderSize, normalizeAspectRatio } from "@/lib/aspectRatio";
+import { renderAnimatic } from "@/lib/animatic";
+import { getSequenceTransitions } from "@/lib/transitions";
+import { getMainCutFrames, resolveCutFrames } from "@/lib/cuts";
 
 // Preset configurations
 interface Preset {
@@ -54,6 +59,12 @@ const presets: Preset[] = [
   { id: "landscape", name: "Landscape HD", icon: Monitor, resolution: "1080p", aspectRatio: "16:9", dimensions: "1920×1080" },
 ];
 
+// Long edge of the rendered animatic per resolution
+const RESOLUTION_LONG_EDGE: Record<string, number> = { "720p": 1280, "1080p": 1920, "4K": 3840 };
+
+// Animatics are recorded in the browser, which only writes WebM
+const ANIMATIC_FORMAT = "webm";
+
 // Quality descriptions
 const getQualityDescription = (quality: number) => {
   if (quality >= 90) return "Archival quality – Best for final delivery";
@@ -69,6 +80,15 @@ export function ExportPage() {
   const [board, setBoard] = useState<any>(null);
   const [videos, setVideos] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const [cuts, setCuts] = useState<DbCut[]>([]);
+  // Version history filter: all videos, the main cut, or one named cut
+  const [cutFilter, setCutFilter] = useState<string>("all");
+  // Frames, connections and scene order the animatic is rendered from
+  const [frames, setFrames] = useState<DbFrame[]>([]);
+  const [connections, setConnections] = useState<DbConnection[]>([]);
+  const [sceneIds, setSceneIds] = useState<string[]>([]);
+  // Cut the animatic follows: "main" or a named cut's id
+  const [exportCut, setExportCut] = useState<string>("main");
   
   // Video player state
   const [isPlaying, setIsPlaying] = useState(false);
@@ -77,7 +97,6 @@ export function ExportPage() {
   
   // Export settings state
   const [selectedPreset, setSelectedPreset] = useState<string>("landscape");
-  const [selectedFormat, setSelectedFormat] = useState("mp4");
   const [resolution, setResolution] = useState("1080p");
   const [quality, setQuality] = useState([80]);
   
@@ -86,6 +105,8 @@ export function ExportPage() {
   const [exportProgress, setExportProgress] = useState(0);
   const [exportComplete, setExportComplete] = useState(false);
   const [exportFilename, setExportFilename] = useState("");
+  const [exportUrl, setExportUrl] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
   
   // Share state
   const [passwordProtect, setPasswordProtect] = useState(false);
@@ -111,7 +132,31 @@ export function ExportPage() {
         .eq('id', boardId)
         .single();
       
-      if (boardData) setBoard(boardData);
+      if (boardData) {
+        setBoard(boardData);
+        // Start from a preset in the board's shape
+        const boardRatio = normalizeAspectRatio(boardData.aspect_ratio);
+        const matching = presets.find(p => p.aspectRatio === boardRatio);
+        if (matching) setSelectedPreset(matching.id);
+      }
+
+      // Get named cuts (videos record which cut they were generated from)
+      const { data: cutsData } = await supabase
+        .from('cuts')
+        .select('*')
+        .eq('board_id', boardId)
+        .order('sort_order', { ascending: true });
+
+      if (cutsData) setCuts(cutsData);
+
+      const [framesResult, connectionsResult, scenesResult] = await Promise.all([
+        supabase.from('frames').select('*').eq('board_id', boardId).order('sort_order', { ascending: true }),
+        supabase.from('connections').select('*').eq('board_id', boardId),
+        supabase.from('scenes').select('id').eq('board_id', boardId).order('sort_order', { ascending: true }),
+      ]);
+      if (framesResult.data) setFrames(framesResult.data);
+      if (connectionsResult.data) setConnections(connectionsResult.data);
+      if (scenesResult.data) setSceneIds(scenesResult.data.map(scene => scene.id));
       
       // Get videos for this board (version history)
       const { data: videosData } = await supabase
@@ -135,6 +180,7 @@ export function ExportPage() {
             board_id: boardId,
             video_url: newVideoUrl,
             prompt: sessionStorage.getItem('generatedVideoPrompt'),
+            cut_id: sessionStorage.getItem('generatedVideoCutId') || null,
             version_number: (videosData?.length || 0) + 1,
             version_label: `v${(videosData?.length || 0) + 1}`,
             status: 'completed'
@@ -147,6 +193,7 @@ export function ExportPage() {
           setSelectedVersion(newVideo.id);
           sessionStorage.removeItem('generatedVideoUrl');
           sessionStorage.removeItem('generatedVideoPrompt');
+          sessionStorage.removeItem('generatedVideoCutId');
         }
       }
       
@@ -185,39 +232,95 @@ export function ExportPage() {
     }
   }, [shareLink]);
 
-  const handleExport = useCallback(() => {
+  // Release the previous animatic when a new one replaces it or the page closes
+  useEffect(() => {
+    return () => {
+      if (exportUrl) URL.revokeObjectURL(exportUrl);
+    };
+  }, [exportUrl]);
+
+  // Record the animatic of the chosen cut, playing each connection's transition like the canvas preview
+  const handleExport = useCallback(async () => {
+    const cut = cuts.find(c => c.id === exportCut);
+    const sequence = cut
+      ? resolveCutFrames(cut.frame_ids, frames)
+      : getMainCutFrames(
+          frames.map(f => ({ ...f, sceneId: f.scene_id })),
+          connections.map(c => ({ from: c.from_frame_id, to: c.to_frame_id, branchLabel: c.branch_label })),
+          sceneIds
+        );
+    const transitions = getSequenceTransitions(
+      sequence.map(f => f.id),
+      connections.map(c => ({
+        from: c.from_frame_id,
+        to: c.to_frame_id,
+        transitionType: c.transition_type,
+        transitionDurationMs: c.transition_duration_ms,
+      }))
+    );
+
+    const preset = presets.find(p => p.id === selectedPreset);
+    const size = getRenderSize(normalizeAspectRatio(preset?.aspectRatio), RESOLUTION_LONG_EDGE[resolution] ?? 1920);
+
     setIsExporting(true);
     setExportProgress(0);
     setExportComplete(false);
-
-    // Simulate export progress
-    const interval = setInterval(() => {
-      setExportProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(interval);
-          setIsExporting(false);
-          setExportComplete(true);
-          // Generate filename
-          const sanitizedTitle = (board?.name || 'untitled').toLowerCase().replace(/\s+/g, "-").replace(/[^a-z0-9-]/g, "");
-          setExportFilename(`sketchmotion-${sanitizedTitle}-${resolution}.${selectedFormat}`);
-          return 100;
+    setExportError(null);
+    try {
+      const blob = await renderAnimatic(
+        sequence.map(f => ({
+          title: f.title,
+          imageUrl: f.polished_url || f.sketch_url || undefined,
+          durationMs: f.duration_ms || 2000,
+        })),
+        transitions,
+        {
+          ...size,
+          // About 0.15 bits per pixel at full quality
+          videoBitsPerSecond: Math.round(size.width * size.height * 30 * 0.15 * (quality[0] / 100)),
+          onProgress: progress => setExportProgress(Math.round(progress * 100)),
         }
-        return prev + 5;
-      });
-    }, 80);
-  }, [board?.name, resolution, selectedFormat]);
+      );
+
+      const title = cut ? `${board?.name || 'untitled'} ${cut.name}` : board?.name || 'untitled';
+      const sanitizedTitle = title.toLowerCase().replace(/\s+/g, "-").replace(/[^a-z0-9-]/g, "");
+      setExportFilename(`sketchmotion-${sanitizedTitle}-${resolution}.${ANIMATIC_FORMAT}`);
+      setExportUrl(URL.createObjectURL(blob));
+      setExportComplete(true);
+    } catch (err) {
+      console.error("Animatic export failed:", err);
+      setExportError(err instanceof Error ? err.message : "Animatic export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [cuts, exportCut, frames, connections, sceneIds, selectedPreset, resolution, quality, board?.name]);
 
   // Get current video based on selection
   const currentVideo = videos.find(v => v.id === selectedVersion) || videos[0];
+  const filteredVideos = cutFilter === "all"
+    ? videos
+    : videos.filter(v => (cutFilter === "main" ? !v.cut_id : v.cut_id === cutFilter));
+  const getCutName = (cutId: string | null) => cuts.find(c => c.id === cutId)?.name;
 
+  // Download the selected generated video
   const handleDownload = useCallback(() => {
     if (currentVideo?.video_url) {
       const a = document.createElement('a');
+      const sanitizedTitle = (board?.name || 'untitled').toLowerCase().replace(/\s+/g, "-").replace(/[^a-z0-9-]/g, "");
       a.href = currentVideo.video_url;
-      a.download = exportFilename || 'sketchmotion-video.mp4';
+      a.download = `sketchmotion-${sanitizedTitle}-${currentVideo.version_label || 'video'}.mp4`;
       a.click();
     }
-  }, [currentVideo?.video_url, exportFilename]);
+  }, [currentVideo?.video_url, currentVideo?.version_label, board?.name]);
+
+  // Download the animatic rendered by handleExport
+  const handleDownloadAnimatic = useCallback(() => {
+    if (!exportUrl) return;
+    const a = document.createElement('a');
+    a.href = exportUrl;
+    a.download = exportFilename;
+    a.click();
+  }, [exportUrl, exportFilename]);
 
   const currentPreset = presets.find(p => p.id === selectedPreset);
 
@@ -279,9 +382,22 @@ export function ExportPage() {
             {/* Video Preview */}
             <div className="lg:col-span-2 space-y-6">
               <GlassCard className="p-6">
-                <h2 className="font-display font-bold text-xl text-white mb-4">
-                  Video Preview
-                </h2>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="font-display font-bold text-xl text-white">
+                    Video Preview
+                  </h2>
+                  {currentVideo?.video_url && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleDownload}
+                      className="text-white/70 hover:text-white hover:bg-white/10"
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      Download
+                    </Button>
+                  )}
+                </div>
 
                 {/* Video Player */}
                 <div className={cn(
@@ -400,9 +516,29 @@ export function ExportPage() {
                   </Button>
                 </div>
 
+                {cuts.length > 0 && (
+                  <div className="flex items-center gap-2 mb-4 overflow-x-auto">
+                    <GitBranch className="w-4 h-4 text-white/40 flex-shrink-0" />
+                    {[{ id: "all", name: "All" }, { id: "main", name: "Main" }, ...cuts].map(option => (
+                      <button
+                        key={option.id}
+                        onClick={() => setCutFilter(option.id)}
+                        className={cn(
+                          "px-3 py-1 rounded-full text-xs flex-shrink-0 transition-colors",
+                          cutFilter === option.id
+                            ? "bg-sm-magenta text-white"
+                            : "bg-white/5 text-white/60 hover:bg-white/10"
+                        )}
+                      >
+                        {option.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
                 <div className="space-y-3">
-                  {videos.length > 0 ? (
-                    videos.map((video, index) => (
+                  {filteredVideos.length > 0 ? (
+                    filteredVideos.map((video) => (
                       <motion.div
                         key={video.id}
                         whileHover={{ scale: 1.01 }}
@@ -436,11 +572,16 @@ export function ExportPage() {
                             <p className="font-semibold text-white">
                               {video.version_label || `v${video.version_number}`}
                             </p>
-                            {index === 0 && (
+                            {video.id === videos[0]?.id && (
                               <span className="px-2 py-0.5 rounded-full text-xs bg-sm-mint/20 text-sm-mint">
                                 Latest
                               </span>
                             )}
+                            {getCutName(video.cut_id) && (
+                              <span className="px-2 py-0.5 rounded-full text-xs bg-white/10 text-white/70">
+                                {getCutName(video.cut_id)}
+                              </span>
+                            )}
                           </div>
                           <div className="flex items-center gap-3 text-sm text-white/60 mt-1">
                             <span className="flex items-center gap-1">
@@ -465,7 +606,7 @@ export function ExportPage() {
                     ))
                   ) : (
                     <div className="text-center py-8 text-white/40">
-                      <p>No videos generated yet</p>
+                      <p>{videos.length > 0 ? "No videos for this cut yet" : "No videos generated yet"}</p>
                       <p className="text-sm mt-1">Generate a video from the canvas</p>
                     </div>
                   )}
@@ -536,6 +677,11 @@ export function ExportPage() {
                       <span>Dimensions</span>
                       <span className="text-white font-mono">{currentPreset.dimensions}</span>
                     </div>
+                    {board && currentPreset.aspectRatio !== normalizeAspectRatio(board.aspect_ratio) && (
+                      <p className="mt-2 text-xs text-amber-300/80">
+                        This board is {normalizeAspectRatio(board.aspect_ratio)}; frames will be cropped or letterboxed.
+                      </p>
+                    )}
                   </div>
                 )}
               </GlassCard>
@@ -550,26 +696,29 @@ export function ExportPage() {
                 </div>
 
                 <div className="space-y-5">
-                  {/* Format */}
-                  <div>
-                    <Label className="text-white/70 mb-2 block">Format</Label>
-                    <div className="grid grid-cols-3 gap-2">
-                      {["mp4", "gif", "webm"].map((format) => (
-                        <button
-                          key={format}
-                          onClick={() => setSelectedFormat(format)}
-                          className={cn(
-                            "py-2 px-3 rounded-lg text-sm font-medium uppercase transition-all",
-                            selectedFormat === format
-                              ? "bg-sm-magenta text-white shadow-glow"
-                              : "bg-white/10 text-white/70 hover:bg-white/20 hover:text-white"
-                          )}
-                        >
-                          {format}
-                        </button>
-                      ))}
+                  {/* Cut */}
+                  {cuts.length > 0 && (
+                    <div>
+                      <Label className="text-white/70 mb-2 block">Cut</Label>
+                      <div className="flex flex-wrap gap-2">
+                        {[{ id: "main", name: "Main cut" }, ...cuts].map((cut) => (
+                          <button
+                            key={cut.id}
+                            onClick={() => setExportCut(cut.id)}
+                            className={cn(
+                              "py-2 px-3 rounded-lg text-sm font-medium transition-all flex items-center gap-1.5",
+                              exportCut === cut.id
+                                ? "bg-sm-soft-purple text-white"
+                                : "bg-white/10 text-white/70 hover:bg-white/20 hover:text-white"
+                            )}
+                          >
+                            {cut.id !== "main" && <GitBranch className="w-3.5 h-3.5" />}
+                            {cut.name}
+                          </button>
+                        ))}
+                      </div>
                     </div>
-                  </div>
+                  )}
 
                   {/* Resolution */}
                   <div>
@@ -625,11 +774,15 @@ export function ExportPage() {
                       >
                         <Button
                           onClick={handleExport}
+                          disabled={frames.length === 0}
                           className="w-full bg-sm-magenta hover:bg-sm-magenta/90 text-white font-semibold shadow-glow hover:shadow-glow-lg transition-all btn-press"
                         >
                           <Download className="w-4 h-4 mr-2" />
-                          Export {selectedFormat.toUpperCase()}
+                          Export {ANIMATIC_FORMAT.toUpperCase()} animatic
                         </Button>
+                        {exportError && (
+                          <p className="text-xs text-sm-coral mt-2">{exportError}</p>
+                        )}
                       </motion.div>
                     )}
 
@@ -643,7 +796,7 @@ export function ExportPage() {
                         <div className="flex items-center justify-between text-sm">
                           <span className="text-white/70 flex items-center gap-2">
                             <Loader2 className="w-4 h-4 animate-spin" />
-                            Exporting...
+                            Recording animatic...
                           </span>
                           <span className="text-white font-mono">{exportProgress}%</span>
                         </div>
@@ -687,10 +840,10 @@ export function ExportPage() {
                           </Button>
                           <Button
                             className="flex-1 bg-sm-mint hover:bg-sm-mint/90 text-white"
-                            onClick={handleDownload}
+                            onClick={handleDownloadAnimatic}
                           >
                             <Download className="w-4 h-4 mr-2" />
-                            Download
+                            Download animatic
                           </Button>
                         </div>
                       </motion.div>
@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import type { Guide } from '@/lib/alignment';
+
+type Point = { x: number; y: number };
+
+/**
+ * Unsaved frame positions while frames are being dragged or animated.
+ * Kept outside React page state so a drag only re-renders the canvas layer
+ * and the cards that actually move, not the whole board page.
+ */
+interface DragPositionState {
+  positions: Map<string, Point>;
+  // Alignment guides for the current drag (canvas coordinates)
+  guides: Guide[];
+  setPositions: (updates: Array<{ id: string } & Point>) => void;
+  replacePositions: (positions: Map<string, Point>) => void;
+  clearPositions: (ids?: string[]) => void;
+  setGuides: (guides: Guide[]) => void;
+  reset: () => void;
+}
+
+export const useDragPositionStore = create<DragPositionState>((set) => ({
+  positions: new Map(),
+  guides: [],
+
+  setPositions: (updates) => {
+    if (updates.length === 0) return;
+    set((state) => {
+      const positions = new Map(state.positions);
+      updates.forEach(({ id, x, y }) => positions.set(id, { x, y }));
+      return { positions };
+    });
+  },
+
+  replacePositions: (positions) => set({ positions }),
+
+  clearPositions: (ids) => {
+    set((state) => {
+      if (!ids) return state.positions.size === 0 ? state : { positions: new Map() };
+      if (!ids.some(id => state.positions.has(id))) return state;
+      const positions = new Map(state.positions);
+      ids.forEach(id => positions.delete(id));
+      return { positions };
+    });
+  },
+
+  setGuides: (guides) => {
+    set((state) => (state.guides.length === 0 && guides.length === 0 ? state : { guides }));
+  },
+
+  reset: () => set({ positions: new Map(), guides: [] }),
+}));
@@ -0,0 +1,55 @@
+import { create } from 'zustand';
+import {
+  CommandId,
+  KeyBinding,
+  Keymap,
+  KeymapOverrides,
+  resolveKeymap,
+  loadKeymapOverrides,
+  saveKeymapOverrides,
+} from '@/lib/shortcuts';
+
+/**
+ * The signed-in user's key bindings.
+ * Shared by the keyboard handler, command palette, toolbar tooltips and keymap settings,
+ * so a remap shows up everywhere at once.
+ */
+interface KeymapState {
+  userId: string | null;
+  overrides: KeymapOverrides;
+  // Overrides applied to the defaults
+  keymap: Keymap;
+  load: (userId: string | null) => void;
+  setBindings: (commandId: CommandId, bindings: KeyBinding[]) => void;
+  resetCommand: (commandId: CommandId) => void;
+  resetAll: () => void;
+}
+
+export const useKeymapStore = create<KeymapState>((set, get) => {
+  const apply = (overrides: KeymapOverrides) => {
+    const { userId } = get();
+    if (userId) saveKeymapOverrides(userId, overrides);
+    set({ overrides, keymap: resolveKeymap(overrides) });
+  };
+
+  return {
+    userId: null,
+    overrides: {},
+    keymap: resolveKeymap({}),
+
+    load: (userId) => {
+      if (get().userId === userId) return;
+      const overrides = userId ? loadKeymapOverrides(userId) : {};
+      set({ userId, overrides, keymap: resolveKeymap(overrides) });
+    },
+
+    setBindings: (commandId, bindings) => apply({ ...get().overrides, [commandId]: bindings }),
+
+    resetCommand: (commandId) => {
+      const { [commandId]: _removed, ...rest } = get().overrides;
+      apply(rest);
+    },
+
+    resetAll: () => apply({}),
+  };
+});
@@ -0,0 +1,61 @@
+import { create } from 'zustand';
+import type { SketchDocument } from '@/lib/sketchDocument';
+import { SketchChange, SketchHistorySession, documentSignature } from '@/lib/sketchHistory';
+
+/**
+ * Sketch editor undo history per frame.
+ * Lives for the browser session outside the editor, so closing the editor and opening
+ * the same frame again keeps every step (see lib/sketchHistory).
+ */
+interface SketchHistoryState {
+  sessions: Record<string, SketchHistorySession>;
+  // New history starting from `base`, replacing any earlier one for the frame
+  startSession: (frameId: string, base: SketchDocument) => void;
+  // Add a step after the current one; steps that were undone are dropped
+  record: (frameId: string, change: SketchChange) => void;
+  setIndex: (frameId: string, index: number) => void;
+  // Remember the current step's document as saved
+  addCheckpoint: (frameId: string, doc: SketchDocument) => void;
+}
+
+export const useSketchHistoryStore = create<SketchHistoryState>((set) => {
+  const update = (frameId: string, fn: (session: SketchHistorySession) => SketchHistorySession) => {
+    set((state) => {
+      const session = state.sessions[frameId];
+      return session ? { sessions: { ...state.sessions, [frameId]: fn(session) } } : state;
+    });
+  };
+
+  return {
+    sessions: {},
+
+    startSession: (frameId, base) => {
+      set((state) => ({
+        sessions: {
+          ...state.sessions,
+          [frameId]: { base, changes: [], index: 0, checkpoints: [{ signature: documentSignature(base), index: 0 }] },
+        },
+      }));
+    },
+
+    record: (frameId, change) => {
+      update(frameId, (session) => ({
+        ...session,
+        changes: [...session.changes.slice(0, session.index), change],
+        index: session.index + 1,
+        checkpoints: session.checkpoints.filter(c => c.index <= session.index),
+      }));
+    },
+
+    setIndex: (frameId, index) => {
+      update(frameId, (session) => ({ ...session, index: Math.max(0, Math.min(session.changes.length, index)) }));
+    },
+
+    addCheckpoint: (frameId, doc) => {
+      update(frameId, (session) => ({
+        ...session,
+        checkpoints: [...session.checkpoints, { signature: documentSignature(doc), index: session.index }],
+      }));
+    },
+  };
+});
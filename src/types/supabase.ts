@@ -55,59 +55,212 @@ export type Database = {
           },
         ]
       }
+      board_snapshots: {
+        Row: {
+          board_id: string
+          created_at: string | null
+          created_by: string | null
+          data: Json
+          frame_count: number
+          id: string
+          kind: string
+          name: string
+        }
+        Insert: {
+          board_id: string
+          created_at?: string | null
+          created_by?: string | null
+          data: Json
+          frame_count?: number
+          id?: string
+          kind?: string
+          name: string
+        }
+        Update: {
+          board_id?: string
+          created_at?: string | null
+          created_by?: string | null
+          data?: Json
+          frame_count?: number
+          id?: string
+          kind?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "board_snapshots_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      board_templates: {
+        Row: {
+          created_at: string | null
+          data: Json
+          description: string | null
+          frame_count: number
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          data: Json
+          description?: string | null
+          frame_count?: number
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          data?: Json
+          description?: string | null
+          frame_count?: number
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       boards: {
         Row: {
+          aspect_ratio: string
           created_at: string | null
           id: string
           is_archived: boolean | null
           name: string
+          reading_direction: string
           sharing_settings: Json | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          aspect_ratio?: string
           created_at?: string | null
           id?: string
           is_archived?: boolean | null
           name: string
+          reading_direction?: string
           sharing_settings?: Json | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          aspect_ratio?: string
           created_at?: string | null
           id?: string
           is_archived?: boolean | null
           name?: string
+          reading_direction?: string
           sharing_settings?: Json | null
           updated_at?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      comments: {
+        Row: {
+          author_id: string
+          author_name: string
+          board_id: string
+          body: string
+          created_at: string | null
+          frame_id: string | null
+          id: string
+          parent_id: string | null
+          position_x: number | null
+          position_y: number | null
+          resolved: boolean
+          resolved_at: string | null
+          resolved_by: string | null
+        }
+        Insert: {
+          author_id: string
+          author_name?: string
+          board_id: string
+          body: string
+          created_at?: string | null
+          frame_id?: string | null
+          id?: string
+          parent_id?: string | null
+          position_x?: number | null
+          position_y?: number | null
+          resolved?: boolean
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Update: {
+          author_id?: string
+          author_name?: string
+          board_id?: string
+          body?: string
+          created_at?: string | null
+          frame_id?: string | null
+          id?: string
+          parent_id?: string | null
+          position_x?: number | null
+          position_y?: number | null
+          resolved?: boolean
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_frame_id_fkey"
+            columns: ["frame_id"]
+            isOneToOne: false
+            referencedRelation: "frames"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       connections: {
         Row: {
           board_id: string
+          branch_label: string | null
           created_at: string | null
           from_frame_id: string
           id: string
           to_frame_id: string
+          transition_duration_ms: number
           transition_type: string | null
         }
         Insert: {
           board_id: string
+          branch_label?: string | null
           created_at?: string | null
           from_frame_id: string
           id?: string
           to_frame_id: string
+          transition_duration_ms?: number
           transition_type?: string | null
         }
         Update: {
           board_id?: string
+          branch_label?: string | null
           created_at?: string | null
           from_frame_id?: string
           id?: string
           to_frame_id?: string
+          transition_duration_ms?: number
           transition_type?: string | null
         }
         Relationships: [
@@ -134,6 +287,41 @@ export type Database = {
           },
         ]
       }
+      cuts: {
+        Row: {
+          board_id: string
+          created_at: string | null
+          frame_ids: string[]
+          id: string
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          board_id: string
+          created_at?: string | null
+          frame_ids?: string[]
+          id?: string
+          name?: string
+          sort_order?: number
+        }
+        Update: {
+          board_id?: string
+          created_at?: string | null
+          frame_ids?: string[]
+          id?: string
+          name?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cuts_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       frames: {
         Row: {
           animation_style: string | null
@@ -145,11 +333,15 @@ export type Database = {
           polished_url: string | null
           position_x: number
           position_y: number
+          scene_id: string | null
+          shot: Json
+          sketch_document: Json | null
           sketch_url: string | null
           sort_order: number | null
           status: string | null
           thumbnail_url: string | null
           title: string
+          version: number
         }
         Insert: {
           animation_style?: string | null
@@ -161,11 +353,15 @@ export type Database = {
           polished_url?: string | null
           position_x: number
           position_y: number
+          scene_id?: string | null
+          shot?: Json
+          sketch_document?: Json | null
           sketch_url?: string | null
           sort_order?: number | null
           status?: string | null
           thumbnail_url?: string | null
           title: string
+          version?: number
         }
         Update: {
           animation_style?: string | null
@@ -177,11 +373,15 @@ export type Database = {
           polished_url?: string | null
           position_x?: number
           position_y?: number
+          scene_id?: string | null
+          shot?: Json
+          sketch_document?: Json | null
           sketch_url?: string | null
           sort_order?: number | null
           status?: string | null
           thumbnail_url?: string | null
           title?: string
+          version?: number
         }
         Relationships: [
           {
@@ -191,6 +391,63 @@ export type Database = {
             referencedRelation: "boards"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "frames_scene_id_fkey"
+            columns: ["scene_id"]
+            isOneToOne: false
+            referencedRelation: "scenes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scenes: {
+        Row: {
+          animation_style: string | null
+          board_id: string
+          created_at: string | null
+          duration_ms: number | null
+          id: string
+          is_collapsed: boolean
+          name: string
+          polish_style: string | null
+          position_x: number
+          position_y: number
+          sort_order: number
+        }
+        Insert: {
+          animation_style?: string | null
+          board_id: string
+          created_at?: string | null
+          duration_ms?: number | null
+          id?: string
+          is_collapsed?: boolean
+          name?: string
+          polish_style?: string | null
+          position_x?: number
+          position_y?: number
+          sort_order?: number
+        }
+        Update: {
+          animation_style?: string | null
+          board_id?: string
+          created_at?: string | null
+          duration_ms?: number | null
+          id?: string
+          is_collapsed?: boolean
+          name?: string
+          polish_style?: string | null
+          position_x?: number
+          position_y?: number
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scenes_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
         ]
       }
       videos: {
@@ -198,6 +455,7 @@ export type Database = {
           board_id: string
           created_at: string | null
           created_by: string | null
+          cut_id: string | null
           duration_seconds: number | null
           file_size_bytes: number | null
           id: string
@@ -214,6 +472,7 @@ export type Database = {
           board_id: string
           created_at?: string | null
           created_by?: string | null
+          cut_id?: string | null
           duration_seconds?: number | null
           file_size_bytes?: number | null
           id?: string
@@ -230,6 +489,7 @@ export type Database = {
           board_id?: string
           created_at?: string | null
           created_by?: string | null
+          cut_id?: string | null
           duration_seconds?: number | null
           file_size_bytes?: number | null
           id?: string
@@ -250,6 +510,13 @@ export type Database = {
             referencedRelation: "boards"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "videos_cut_id_fkey"
+            columns: ["cut_id"]
+            isOneToOne: false
+            referencedRelation: "cuts"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -16,7 +16,7 @@ serve(async (req) => {
 
   try {
     // Safe JSON parsing - read as text first
-    let body: { prompt?: string; imageBase64?: string; durationSeconds?: number };
+    let body: { prompt?: string; imageBase64?: string; durationSeconds?: number; aspectRatio?: string };
     try {
       const text = await req.text();
       console.log('Request body length:', text?.length || 0);
@@ -36,8 +36,10 @@ serve(async (req) => {
       );
     }
 
-    const { prompt, imageBase64, durationSeconds: rawDuration = 6 } = body;
+    const { prompt, imageBase64, durationSeconds: rawDuration = 6, aspectRatio: rawAspectRatio } = body;
     const durationSeconds = [4, 6, 8].includes(rawDuration) ? rawDuration : 6;
+    // Veo renders landscape or portrait only
+    const aspectRatio = rawAspectRatio === '9:16' ? '9:16' : '16:9';
 
     console.log('Received request - prompt length:', prompt?.length, 'image length:', imageBase64?.length);
 
@@ -90,7 +92,7 @@ serve(async (req) => {
         }],
         parameters: {
           sampleCount: 1,
-          aspectRatio: '16:9',
+          aspectRatio: aspectRatio,
           durationSeconds: durationSeconds,
         }
       };
@@ -99,7 +101,7 @@ serve(async (req) => {
       console.log('Using text-to-video mode');
       requestBody = {
         instances: [{ prompt: prompt }],
-        parameters: { sampleCount: 1, durationSeconds: durationSeconds }
+        parameters: { sampleCount: 1, aspectRatio: aspectRatio, durationSeconds: durationSeconds }
       };
     }
 
@@ -0,0 +1,75 @@
+-- Scenes (acts) group frames on a board into named containers
+CREATE TABLE IF NOT EXISTS scenes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  board_id UUID NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  name TEXT NOT NULL DEFAULT 'Untitled Scene',
+  -- Anchor position, used when the scene has no frames
+  position_x DOUBLE PRECISION NOT NULL DEFAULT 0,
+  position_y DOUBLE PRECISION NOT NULL DEFAULT 0,
+  is_collapsed BOOLEAN NOT NULL DEFAULT FALSE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  -- Scene-level defaults applied to frames added to the scene
+  animation_style TEXT,
+  duration_ms INTEGER,
+  polish_style TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Frames optionally belong to a scene; deleting a scene keeps its frames
+ALTER TABLE frames ADD COLUMN IF NOT EXISTS scene_id UUID REFERENCES scenes(id) ON DELETE SET NULL;
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_scenes_board ON scenes(board_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_frames_scene ON frames(scene_id);
+
+-- RLS policies (mirror frames access)
+ALTER TABLE scenes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view scenes on accessible boards"
+ON scenes FOR SELECT
+USING (
+  -- User owns the board
+  board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+  -- Or user is a collaborator
+  OR board_id IN (
+    SELECT board_id FROM board_collaborators
+    WHERE user_id = auth.uid()
+    OR email = (SELECT email FROM auth.users WHERE id = auth.uid())
+  )
+  -- Or board is public
+  OR board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'edit')
+  )
+);
+
+CREATE POLICY "Anyone can view scenes on public boards"
+ON scenes FOR SELECT
+TO anon
+USING (
+  board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'edit')
+  )
+);
+
+CREATE POLICY "Editors can modify scenes"
+ON scenes FOR ALL
+USING (
+  -- User owns the board
+  board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+  -- Or user is an editor collaborator
+  OR board_id IN (
+    SELECT board_id FROM board_collaborators
+    WHERE (user_id = auth.uid() OR email = (SELECT email FROM auth.users WHERE id = auth.uid()))
+    AND role IN ('owner', 'editor')
+  )
+  -- Or board allows public editing
+  OR board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') = 'edit'
+  )
+);
+
+-- Broadcast scene changes over realtime like frames and connections
+ALTER PUBLICATION supabase_realtime ADD TABLE scenes;
@@ -0,0 +1,14 @@
+-- Transitions between connected frames (type + length), played back in the preview and animatic
+ALTER TABLE connections ADD COLUMN IF NOT EXISTS transition_duration_ms INTEGER NOT NULL DEFAULT 500;
+
+-- Existing rows default to a fade, which is what createConnection always wrote
+UPDATE connections SET transition_type = 'fade' WHERE transition_type IS NULL;
+ALTER TABLE connections ALTER COLUMN transition_type SET DEFAULT 'fade';
+
+ALTER TABLE connections DROP CONSTRAINT IF EXISTS connections_transition_type_check;
+ALTER TABLE connections ADD CONSTRAINT connections_transition_type_check
+  CHECK (transition_type IN ('cut', 'fade', 'dissolve', 'wipe', 'slide', 'whip-pan', 'match-cut'));
+
+ALTER TABLE connections DROP CONSTRAINT IF EXISTS connections_transition_duration_check;
+ALTER TABLE connections ADD CONSTRAINT connections_transition_duration_check
+  CHECK (transition_duration_ms BETWEEN 0 AND 5000);
@@ -0,0 +1,70 @@
+-- Branching storyboards: connections can be marked as alternate branches,
+-- and named cuts store an ordered path of frames through the graph
+ALTER TABLE connections ADD COLUMN IF NOT EXISTS branch_label TEXT;
+
+CREATE TABLE IF NOT EXISTS cuts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  board_id UUID NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  name TEXT NOT NULL DEFAULT 'Untitled Cut',
+  -- Frames in playback order; deleted frames are skipped when the cut is resolved
+  frame_ids UUID[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cuts_board ON cuts(board_id, sort_order);
+
+-- Generated videos remember which cut they were made from (null = main cut)
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS cut_id UUID REFERENCES cuts(id) ON DELETE SET NULL;
+
+-- RLS policies (mirror frames access)
+ALTER TABLE cuts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view cuts on accessible boards"
+ON cuts FOR SELECT
+USING (
+  -- User owns the board
+  board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+  -- Or user is a collaborator
+  OR board_id IN (
+    SELECT board_id FROM board_collaborators
+    WHERE user_id = auth.uid()
+    OR email = (SELECT email FROM auth.users WHERE id = auth.uid())
+  )
+  -- Or board is public
+  OR board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'edit')
+  )
+);
+
+CREATE POLICY "Anyone can view cuts on public boards"
+ON cuts FOR SELECT
+TO anon
+USING (
+  board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'edit')
+  )
+);
+
+CREATE POLICY "Editors can modify cuts"
+ON cuts FOR ALL
+USING (
+  -- User owns the board
+  board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+  -- Or user is an editor collaborator
+  OR board_id IN (
+    SELECT board_id FROM board_collaborators
+    WHERE (user_id = auth.uid() OR email = (SELECT email FROM auth.users WHERE id = auth.uid()))
+    AND role IN ('owner', 'editor')
+  )
+  -- Or board allows public editing
+  OR board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') = 'edit'
+  )
+);
+
+-- Broadcast cut changes over realtime like scenes
+ALTER PUBLICATION supabase_realtime ADD TABLE cuts;
@@ -0,0 +1,6 @@
+-- Reading direction used by auto-layout: left-to-right rows or top-down columns
+ALTER TABLE boards ADD COLUMN IF NOT EXISTS reading_direction TEXT NOT NULL DEFAULT 'ltr';
+
+ALTER TABLE boards DROP CONSTRAINT IF EXISTS boards_reading_direction_check;
+ALTER TABLE boards ADD CONSTRAINT boards_reading_direction_check
+  CHECK (reading_direction IN ('ltr', 'ttb'));
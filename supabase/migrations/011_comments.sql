@@ -0,0 +1,274 @@
+-- Threaded review comments pinned to a frame or a canvas location,
+-- and the 'comment' public access level (view the board and comment, but not edit)
+
+CREATE TABLE IF NOT EXISTS comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  board_id UUID NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  -- Replies point at the thread's first comment; anchors and resolved state live on that comment
+  parent_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+  -- Anchor: a frame, or the canvas position when frame_id is null.
+  -- Frame threads also store where the frame was, so they stay on the canvas if it is deleted.
+  frame_id UUID REFERENCES frames(id) ON DELETE SET NULL,
+  position_x DOUBLE PRECISION,
+  position_y DOUBLE PRECISION,
+  author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Display name at the time of writing (auth.users isn't readable from the client)
+  author_name TEXT NOT NULL DEFAULT 'Anonymous',
+  body TEXT NOT NULL CHECK (char_length(body) > 0),
+  resolved BOOLEAN NOT NULL DEFAULT FALSE,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_board ON comments(board_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_parent ON comments(parent_id);
+
+-- Boards shared with 'comment' access are readable like 'view' boards
+DROP POLICY IF EXISTS "Users can view accessible boards" ON boards;
+CREATE POLICY "Users can view accessible boards"
+ON boards FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR id IN (
+    SELECT board_id FROM board_collaborators
+    WHERE user_id = auth.uid()
+    OR email = (SELECT email FROM auth.users WHERE id = auth.uid())
+  )
+  OR (sharing_settings->>'public_access') IN ('view', 'comment', 'edit')
+);
+
+DROP POLICY IF EXISTS "Anyone can view public boards" ON boards;
+CREATE POLICY "Anyone can view public boards"
+ON boards FOR SELECT
+TO anon
+USING (
+  (sharing_settings->>'public_access') IN ('view', 'comment', 'edit')
+);
+
+DROP POLICY IF EXISTS "Users can view frames on accessible boards" ON frames;
+CREATE POLICY "Users can view frames on accessible boards"
+ON frames FOR SELECT
+USING (
+  board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+  OR board_id IN (
+    SELECT board_id FROM board_collaborators
+    WHERE user_id = auth.uid()
+    OR email = (SELECT email FROM auth.users WHERE id = auth.uid())
+  )
+  OR board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'comment', 'edit')
+  )
+);
+
+DROP POLICY IF EXISTS "Anyone can view frames on public boards" ON frames;
+CREATE POLICY "Anyone can view frames on public boards"
+ON frames FOR SELECT
+TO anon
+USING (
+  board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'comment', 'edit')
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view connections on accessible boards" ON connections;
+CREATE POLICY "Users can view connections on accessible boards"
+ON connections FOR SELECT
+USING (
+  board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+  OR board_id IN (
+    SELECT board_id FROM board_collaborators
+    WHERE user_id = auth.uid()
+    OR email = (SELECT email FROM auth.users WHERE id = auth.uid())
+  )
+  OR board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'comment', 'edit')
+  )
+);
+
+DROP POLICY IF EXISTS "Anyone can view connections on public boards" ON connections;
+CREATE POLICY "Anyone can view connections on public boards"
+ON connections FOR SELECT
+TO anon
+USING (
+  board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'comment', 'edit')
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view scenes on accessible boards" ON scenes;
+CREATE POLICY "Users can view scenes on accessible boards"
+ON scenes FOR SELECT
+USING (
+  board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+  OR board_id IN (
+    SELECT board_id FROM board_collaborators
+    WHERE user_id = auth.uid()
+    OR email = (SELECT email FROM auth.users WHERE id = auth.uid())
+  )
+  OR board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'comment', 'edit')
+  )
+);
+
+DROP POLICY IF EXISTS "Anyone can view scenes on public boards" ON scenes;
+CREATE POLICY "Anyone can view scenes on public boards"
+ON scenes FOR SELECT
+TO anon
+USING (
+  board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'comment', 'edit')
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view cuts on accessible boards" ON cuts;
+CREATE POLICY "Users can view cuts on accessible boards"
+ON cuts FOR SELECT
+USING (
+  board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+  OR board_id IN (
+    SELECT board_id FROM board_collaborators
+    WHERE user_id = auth.uid()
+    OR email = (SELECT email FROM auth.users WHERE id = auth.uid())
+  )
+  OR board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'comment', 'edit')
+  )
+);
+
+DROP POLICY IF EXISTS "Anyone can view cuts on public boards" ON cuts;
+CREATE POLICY "Anyone can view cuts on public boards"
+ON cuts FOR SELECT
+TO anon
+USING (
+  board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'comment', 'edit')
+  )
+);
+
+-- Comment RLS: readable by anyone who can view the board,
+-- writable by the owner, editors and boards shared with 'comment' or 'edit' access.
+-- Frame/connection/scene/cut write policies are unchanged, so commenters can't edit the board.
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view comments on accessible boards"
+ON comments FOR SELECT
+USING (
+  board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+  OR board_id IN (
+    SELECT board_id FROM board_collaborators
+    WHERE user_id = auth.uid()
+    OR email = (SELECT email FROM auth.users WHERE id = auth.uid())
+  )
+  OR board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'comment', 'edit')
+  )
+);
+
+CREATE POLICY "Anyone can view comments on public boards"
+ON comments FOR SELECT
+TO anon
+USING (
+  board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('view', 'comment', 'edit')
+  )
+);
+
+CREATE POLICY "Commenters can add comments"
+ON comments FOR INSERT
+TO authenticated
+WITH CHECK (
+  author_id = auth.uid()
+  AND (
+    board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+    OR board_id IN (
+      SELECT board_id FROM board_collaborators
+      WHERE (user_id = auth.uid() OR email = (SELECT email FROM auth.users WHERE id = auth.uid()))
+      AND role IN ('owner', 'editor')
+    )
+    OR board_id IN (
+      SELECT id FROM boards
+      WHERE (sharing_settings->>'public_access') IN ('comment', 'edit')
+    )
+  )
+);
+
+-- Anyone who can comment may resolve or reopen a thread; other changes are limited to
+-- the author by protect_comment_content below
+CREATE POLICY "Commenters can resolve comments"
+ON comments FOR UPDATE
+TO authenticated
+USING (
+  board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+  OR board_id IN (
+    SELECT board_id FROM board_collaborators
+    WHERE (user_id = auth.uid() OR email = (SELECT email FROM auth.users WHERE id = auth.uid()))
+    AND role IN ('owner', 'editor')
+  )
+  OR board_id IN (
+    SELECT id FROM boards
+    WHERE (sharing_settings->>'public_access') IN ('comment', 'edit')
+  )
+);
+
+-- Authors delete their own comments; board owners can delete any
+CREATE POLICY "Authors and owners can delete comments"
+ON comments FOR DELETE
+TO authenticated
+USING (
+  author_id = auth.uid()
+  OR board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+);
+
+-- Only the author may edit or move a comment; anyone else may only resolve or reopen it
+CREATE OR REPLACE FUNCTION protect_comment_content()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.author_id IS DISTINCT FROM OLD.author_id
+    OR NEW.board_id IS DISTINCT FROM OLD.board_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id THEN
+    RAISE EXCEPTION 'Comment ownership and thread cannot change';
+  END IF;
+  IF OLD.author_id IS DISTINCT FROM auth.uid() AND (
+    NEW.body IS DISTINCT FROM OLD.body
+    OR NEW.author_name IS DISTINCT FROM OLD.author_name
+    OR NEW.position_x IS DISTINCT FROM OLD.position_x
+    OR NEW.position_y IS DISTINCT FROM OLD.position_y
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    -- Deleting the anchor frame clears frame_id (ON DELETE SET NULL) whoever deletes it
+    OR (NEW.frame_id IS DISTINCT FROM OLD.frame_id
+      AND NOT (NEW.frame_id IS NULL AND NOT EXISTS (SELECT 1 FROM frames WHERE id = OLD.frame_id)))
+  ) THEN
+    RAISE EXCEPTION 'Only the author can edit or move a comment';
+  END IF;
+  -- Who resolved a thread and when is recorded here rather than taken from the client
+  IF NEW.resolved IS DISTINCT FROM OLD.resolved THEN
+    NEW.resolved_by := CASE WHEN NEW.resolved THEN auth.uid() END;
+    NEW.resolved_at := CASE WHEN NEW.resolved THEN NOW() END;
+  ELSIF NEW.resolved_at IS DISTINCT FROM OLD.resolved_at
+    OR (NEW.resolved_by IS DISTINCT FROM OLD.resolved_by
+      -- Deleting the resolver's account clears resolved_by (ON DELETE SET NULL)
+      AND NOT (NEW.resolved_by IS NULL AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.resolved_by))) THEN
+    RAISE EXCEPTION 'Resolved details only change when a thread is resolved or reopened';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS comments_protect_content ON comments;
+CREATE TRIGGER comments_protect_content
+BEFORE UPDATE ON comments
+FOR EACH ROW EXECUTE FUNCTION protect_comment_content();
+
+-- Broadcast comment changes over realtime like frames
+ALTER PUBLICATION supabase_realtime ADD TABLE comments;
@@ -0,0 +1,20 @@
+-- Row versions for optimistic concurrency on frames.
+-- Every update bumps the version; clients editing content (title, motion notes,
+-- animation style, duration) only write if the frame is still at the version they
+-- started from, so concurrent edits are detected instead of silently overwritten.
+
+ALTER TABLE frames ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- The server owns the version so clients can't skip the check by writing it themselves
+CREATE OR REPLACE FUNCTION bump_frame_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS frames_bump_version ON frames;
+CREATE TRIGGER frames_bump_version
+BEFORE UPDATE ON frames
+FOR EACH ROW EXECUTE FUNCTION bump_frame_version();
@@ -0,0 +1,61 @@
+-- Board snapshots: named (manual) and automatic checkpoints of a whole board
+-- that can be compared and restored in place or as a new board
+
+CREATE TABLE IF NOT EXISTS board_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  board_id UUID NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) > 0),
+  kind TEXT NOT NULL DEFAULT 'manual' CHECK (kind IN ('manual', 'auto')),
+  -- Board name, reading direction, frames (with image URLs), connections,
+  -- scenes, cuts and sharing settings at the time of the snapshot
+  data JSONB NOT NULL,
+  -- Denormalised for the history list, which doesn't load data
+  frame_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_board_snapshots_board ON board_snapshots(board_id, created_at DESC);
+
+-- RLS: history is visible to the owner and collaborators (not to public link viewers),
+-- and snapshots are taken by anyone who can edit the board
+ALTER TABLE board_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Collaborators can view snapshots"
+ON board_snapshots FOR SELECT
+USING (
+  board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+  OR board_id IN (
+    SELECT board_id FROM board_collaborators
+    WHERE user_id = auth.uid()
+    OR email = (SELECT email FROM auth.users WHERE id = auth.uid())
+  )
+);
+
+CREATE POLICY "Editors can take snapshots"
+ON board_snapshots FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid()
+  AND (
+    board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+    OR board_id IN (
+      SELECT board_id FROM board_collaborators
+      WHERE (user_id = auth.uid() OR email = (SELECT email FROM auth.users WHERE id = auth.uid()))
+      AND role IN ('owner', 'editor')
+    )
+    OR board_id IN (
+      SELECT id FROM boards
+      WHERE (sharing_settings->>'public_access') = 'edit'
+    )
+  )
+);
+
+-- Snapshots are immutable; the board owner or the snapshot's author can delete them
+CREATE POLICY "Owners and authors can delete snapshots"
+ON board_snapshots FOR DELETE
+TO authenticated
+USING (
+  created_by = auth.uid()
+  OR board_id IN (SELECT id FROM boards WHERE user_id = auth.uid())
+);
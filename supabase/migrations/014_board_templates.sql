@@ -0,0 +1,40 @@
+-- Board templates: reusable starting points saved from existing boards.
+-- Built-in templates ship with the app and aren't stored here.
+
+CREATE TABLE IF NOT EXISTS board_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) > 0),
+  description TEXT,
+  -- Reading direction, frames (titles, positions, durations, animation styles,
+  -- motion notes and optional placeholder sketches) and connections
+  data JSONB NOT NULL,
+  -- Denormalised for the gallery
+  frame_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_board_templates_user ON board_templates(user_id, created_at DESC);
+
+-- RLS: templates are private to the user who saved them
+ALTER TABLE board_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own templates"
+ON board_templates FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own templates"
+ON board_templates FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own templates"
+ON board_templates FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own templates"
+ON board_templates FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
@@ -0,0 +1,6 @@
+-- Aspect ratio shared by every frame on a board: sketch surface, cards, previews and video generation
+ALTER TABLE boards ADD COLUMN IF NOT EXISTS aspect_ratio TEXT NOT NULL DEFAULT '16:9';
+
+ALTER TABLE boards DROP CONSTRAINT IF EXISTS boards_aspect_ratio_check;
+ALTER TABLE boards ADD CONSTRAINT boards_aspect_ratio_check
+  CHECK (aspect_ratio IN ('16:9', '9:16', '1:1'));
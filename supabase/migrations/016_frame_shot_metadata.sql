@@ -0,0 +1,4 @@
+-- Structured shot metadata per frame: shot size, camera angle, lens, camera movement,
+-- characters, location, dialogue and SFX. Stored as one JSON object with unset fields
+-- left out, so existing frames start with an empty shot.
+ALTER TABLE frames ADD COLUMN IF NOT EXISTS shot JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,61 @@
+-- Review workflow for frames: draft → sketch → polished → in_review → changes_requested
+-- → approved → locked. Approved and locked frames are protected: their content can't change
+-- and they can't be deleted. Only the board owner or an owner/editor collaborator may move a
+-- frame into or out of approved/locked (public 'edit' access can submit and request changes).
+
+ALTER TABLE frames ALTER COLUMN status SET DEFAULT 'draft';
+
+ALTER TABLE frames DROP CONSTRAINT IF EXISTS frames_status_check;
+ALTER TABLE frames ADD CONSTRAINT frames_status_check
+  CHECK (status IN ('draft', 'sketch', 'polished', 'in_review', 'changes_requested', 'approved', 'locked'));
+
+-- Board owner, or a collaborator with the owner/editor role
+CREATE OR REPLACE FUNCTION can_approve_frames(target_board_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM boards WHERE id = target_board_id AND user_id = auth.uid())
+  OR EXISTS (
+    SELECT 1 FROM board_collaborators
+    WHERE board_id = target_board_id
+    AND (user_id = auth.uid() OR email = (SELECT email FROM auth.users WHERE id = auth.uid()))
+    AND role IN ('owner', 'editor')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION enforce_frame_review_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Deleting the whole board cascades here after the board row is gone
+    IF OLD.status IN ('approved', 'locked') AND EXISTS (SELECT 1 FROM boards WHERE id = OLD.board_id) THEN
+      RAISE EXCEPTION 'Frame is %, reopen it before deleting', OLD.status USING ERRCODE = '42501';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND (OLD.status IN ('approved', 'locked') OR NEW.status IN ('approved', 'locked'))
+    AND NOT can_approve_frames(OLD.board_id) THEN
+    RAISE EXCEPTION 'Only the board owner or an editor can approve or lock frames' USING ERRCODE = '42501';
+  END IF;
+
+  -- Layout (position, order, scene) may still change on protected frames
+  IF OLD.status IN ('approved', 'locked') AND (
+    NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.motion_notes IS DISTINCT FROM OLD.motion_notes
+    OR NEW.animation_style IS DISTINCT FROM OLD.animation_style
+    OR NEW.duration_ms IS DISTINCT FROM OLD.duration_ms
+    OR NEW.shot IS DISTINCT FROM OLD.shot
+    OR NEW.sketch_url IS DISTINCT FROM OLD.sketch_url
+    OR NEW.polished_url IS DISTINCT FROM OLD.polished_url
+  ) THEN
+    RAISE EXCEPTION 'Frame is %, reopen it before editing', OLD.status USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS frames_enforce_review_status ON frames;
+CREATE TRIGGER frames_enforce_review_status
+BEFORE UPDATE OR DELETE ON frames
+FOR EACH ROW EXECUTE FUNCTION enforce_frame_review_status();
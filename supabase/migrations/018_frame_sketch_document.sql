@@ -0,0 +1,40 @@
+-- Editable sketch documents: the strokes, shapes, text and images a frame's sketch was drawn
+-- with, kept as JSON next to sketch_url (which becomes a rendering of the document).
+-- Frames sketched before this, or given a plain image, have no document.
+ALTER TABLE frames ADD COLUMN IF NOT EXISTS sketch_document JSONB;
+
+-- Protected (approved/locked) frames keep their document as well as their images
+CREATE OR REPLACE FUNCTION enforce_frame_review_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Deleting the whole board cascades here after the board row is gone
+    IF OLD.status IN ('approved', 'locked') AND EXISTS (SELECT 1 FROM boards WHERE id = OLD.board_id) THEN
+      RAISE EXCEPTION 'Frame is %, reopen it before deleting', OLD.status USING ERRCODE = '42501';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND (OLD.status IN ('approved', 'locked') OR NEW.status IN ('approved', 'locked'))
+    AND NOT can_approve_frames(OLD.board_id) THEN
+    RAISE EXCEPTION 'Only the board owner or an editor can approve or lock frames' USING ERRCODE = '42501';
+  END IF;
+
+  -- Layout (position, order, scene) may still change on protected frames
+  IF OLD.status IN ('approved', 'locked') AND (
+    NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.motion_notes IS DISTINCT FROM OLD.motion_notes
+    OR NEW.animation_style IS DISTINCT FROM OLD.animation_style
+    OR NEW.duration_ms IS DISTINCT FROM OLD.duration_ms
+    OR NEW.shot IS DISTINCT FROM OLD.shot
+    OR NEW.sketch_url IS DISTINCT FROM OLD.sketch_url
+    OR NEW.sketch_document IS DISTINCT FROM OLD.sketch_document
+    OR NEW.polished_url IS DISTINCT FROM OLD.polished_url
+  ) THEN
+    RAISE EXCEPTION 'Frame is %, reopen it before editing', OLD.status USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,12 @@
+-- Batched frame moves (group drag, align, distribute, arrange) in one request.
+-- Only the position columns are written, so a move never overwrites someone else's content,
+-- status or images, and every frame in the batch moves or none does.
+-- Runs as the caller, so the frames update policies and triggers still apply.
+CREATE OR REPLACE FUNCTION update_frame_positions(positions JSONB)
+RETURNS VOID AS $$
+  UPDATE frames
+  SET position_x = (p->>'x')::DOUBLE PRECISION,
+      position_y = (p->>'y')::DOUBLE PRECISION
+  FROM jsonb_array_elements(positions) AS p
+  WHERE frames.id = (p->>'id')::UUID;
+$$ LANGUAGE sql SECURITY INVOKER;
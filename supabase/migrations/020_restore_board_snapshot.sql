@@ -0,0 +1,96 @@
+-- Restore a board snapshot in place as one transaction: either the whole board is put back
+-- or, if any step fails (a protected frame, a permission check), nothing changes.
+-- Rows come in the shape the app writes them (id, column values); rows the snapshot doesn't
+-- have are deleted. Runs as the caller, so the usual policies and triggers still apply.
+CREATE OR REPLACE FUNCTION restore_board_snapshot(target_board_id UUID, snapshot JSONB)
+RETURNS VOID AS $$
+BEGIN
+  -- Remove what the snapshot doesn't have (connections also go with their frames)
+  DELETE FROM cuts
+  WHERE board_id = target_board_id
+    AND id NOT IN (SELECT id FROM jsonb_populate_recordset(NULL::cuts, COALESCE(snapshot->'cuts', '[]'::jsonb)));
+
+  DELETE FROM connections
+  WHERE board_id = target_board_id
+    AND id NOT IN (SELECT id FROM jsonb_populate_recordset(NULL::connections, COALESCE(snapshot->'connections', '[]'::jsonb)));
+
+  DELETE FROM frames
+  WHERE board_id = target_board_id
+    AND id NOT IN (SELECT id FROM jsonb_populate_recordset(NULL::frames, COALESCE(snapshot->'frames', '[]'::jsonb)));
+
+  DELETE FROM scenes
+  WHERE board_id = target_board_id
+    AND id NOT IN (SELECT id FROM jsonb_populate_recordset(NULL::scenes, COALESCE(snapshot->'scenes', '[]'::jsonb)));
+
+  -- Write back everything it does have; scenes before the frames that reference them
+  INSERT INTO scenes (id, board_id, name, position_x, position_y, is_collapsed, sort_order, animation_style, duration_ms, polish_style)
+  SELECT id, target_board_id, name, position_x, position_y, is_collapsed, sort_order, animation_style, duration_ms, polish_style
+  FROM jsonb_populate_recordset(NULL::scenes, COALESCE(snapshot->'scenes', '[]'::jsonb))
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    position_x = EXCLUDED.position_x,
+    position_y = EXCLUDED.position_y,
+    is_collapsed = EXCLUDED.is_collapsed,
+    sort_order = EXCLUDED.sort_order,
+    animation_style = EXCLUDED.animation_style,
+    duration_ms = EXCLUDED.duration_ms,
+    polish_style = EXCLUDED.polish_style
+  WHERE scenes.board_id = target_board_id;
+
+  INSERT INTO frames (
+    id, board_id, title, position_x, position_y, status, sketch_url, sketch_document, polished_url,
+    thumbnail_url, motion_notes, animation_style, duration_ms, sort_order, scene_id, shot
+  )
+  SELECT
+    id, target_board_id, title, position_x, position_y, status, sketch_url, sketch_document, polished_url,
+    thumbnail_url, motion_notes, animation_style, duration_ms, sort_order, scene_id, shot
+  FROM jsonb_populate_recordset(NULL::frames, COALESCE(snapshot->'frames', '[]'::jsonb))
+  ON CONFLICT (id) DO UPDATE SET
+    title = EXCLUDED.title,
+    position_x = EXCLUDED.position_x,
+    position_y = EXCLUDED.position_y,
+    status = EXCLUDED.status,
+    sketch_url = EXCLUDED.sketch_url,
+    sketch_document = EXCLUDED.sketch_document,
+    polished_url = EXCLUDED.polished_url,
+    thumbnail_url = EXCLUDED.thumbnail_url,
+    motion_notes = EXCLUDED.motion_notes,
+    animation_style = EXCLUDED.animation_style,
+    duration_ms = EXCLUDED.duration_ms,
+    sort_order = EXCLUDED.sort_order,
+    scene_id = EXCLUDED.scene_id,
+    shot = EXCLUDED.shot
+  WHERE frames.board_id = target_board_id;
+
+  INSERT INTO connections (id, board_id, from_frame_id, to_frame_id, transition_type, transition_duration_ms, branch_label)
+  SELECT id, target_board_id, from_frame_id, to_frame_id, transition_type, transition_duration_ms, branch_label
+  FROM jsonb_populate_recordset(NULL::connections, COALESCE(snapshot->'connections', '[]'::jsonb))
+  ON CONFLICT (id) DO UPDATE SET
+    from_frame_id = EXCLUDED.from_frame_id,
+    to_frame_id = EXCLUDED.to_frame_id,
+    transition_type = EXCLUDED.transition_type,
+    transition_duration_ms = EXCLUDED.transition_duration_ms,
+    branch_label = EXCLUDED.branch_label
+  WHERE connections.board_id = target_board_id;
+
+  INSERT INTO cuts (id, board_id, name, frame_ids, sort_order)
+  SELECT id, target_board_id, name, frame_ids, sort_order
+  FROM jsonb_populate_recordset(NULL::cuts, COALESCE(snapshot->'cuts', '[]'::jsonb))
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    frame_ids = EXCLUDED.frame_ids,
+    sort_order = EXCLUDED.sort_order
+  WHERE cuts.board_id = target_board_id;
+
+  UPDATE boards SET
+    name = snapshot->'board'->>'name',
+    reading_direction = snapshot->'board'->>'reading_direction',
+    aspect_ratio = snapshot->'board'->>'aspect_ratio',
+    updated_at = NOW()
+  WHERE id = target_board_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Board not found or not editable' USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;